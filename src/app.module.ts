@@ -22,6 +22,7 @@ import { PredictorModule } from './app/predictor/Predictor.module';
 import { JobsModule } from './app/jobs/Jobs.module';
 import { SettingsModule } from './app/settings/Settings.module';
 import { DashboardModule } from './app/dashboard/Dashboard.module';
+import { TradingDecisionModule } from './app/trading-decision/TradingDecision.module';
 import { AuthModule } from './app/auth/Auth.module';
 
 @Module({
@@ -55,6 +56,7 @@ import { AuthModule } from './app/auth/Auth.module';
     PlatformManagerModule,
     TradeManagerModule,
     TradePositionModule,
+    TradingDecisionModule,
     IndexerModule,
     PredictorModule,
     JobsModule,
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { hyperliquidConfig } from '../../config/hyperliquid.config';
+import { IndexerAdapter } from '../../infrastructure';
+import { BacktestService } from './Backtest.service';
+import { BacktestDataLoaderService } from './BacktestDataLoader.service';
+
+@Module({
+  imports: [ConfigModule.forFeature(hyperliquidConfig)],
+  providers: [
+    BacktestService,
+    {
+      provide: BacktestDataLoaderService,
+      useFactory: (configService: ConfigService): BacktestDataLoaderService => {
+        // Indexer is optional, candles can come from a file instead
+        const host = configService.get('indexer.host');
+        const apiPort = Number(configService.get('indexer.apiPort'));
+
+        return new BacktestDataLoaderService(
+          host && apiPort ? new IndexerAdapter(host, apiPort) : undefined,
+        );
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [BacktestService, BacktestDataLoaderService],
+})
+export class BacktestModule {}
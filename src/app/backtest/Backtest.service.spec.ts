@@ -0,0 +1,215 @@
+import { ConfigService } from '@nestjs/config';
+import { BacktestService } from './Backtest.service';
+import {
+  BacktestCandle,
+  BacktestSignals,
+  BracketMode,
+  PositionDirection,
+  PredictionResponse,
+  Recommendation,
+} from '../../shared';
+
+const START = Date.UTC(2024, 0, 1);
+const MINUTE = 60_000;
+
+const candle = (
+  index: number,
+  close: number,
+  range: { high?: number; low?: number; open?: number } = {},
+): BacktestCandle => ({
+  timestamp: START + index * MINUTE,
+  open: range.open ?? close,
+  high: range.high ?? close,
+  low: range.low ?? close,
+  close,
+  volume: 1,
+});
+
+const prediction = (
+  recommendation: Recommendation,
+  confidence: number,
+  minute = 0,
+): PredictionResponse => ({
+  token_address: 'HYPE',
+  recommendation,
+  confidence,
+  predicted_curve_position_change: '0',
+  percentage_change: 0,
+  timestamp: new Date(START + minute * MINUTE).toISOString(),
+  model_version: 'test',
+});
+
+describe('BacktestService', () => {
+  let service: BacktestService;
+
+  // The predictor turns to HOLD after the first evaluations so closed trades are not re-entered
+  const signals = (
+    recommendation: Recommendation,
+    confidence = 0.8,
+  ): BacktestSignals => ({
+    predictions: [
+      prediction(recommendation, confidence),
+      prediction(Recommendation.HOLD, confidence, 2),
+    ],
+    trends: [],
+  });
+
+  const tradingParams = {
+    defaultAmountIn: 1000,
+    defaultLeverage: 2,
+    stopLossPercent: 2,
+    takeProfitPercent: 4,
+  };
+
+  beforeEach(() => {
+    service = new BacktestService(
+      new ConfigService({
+        hyperliquid: { predictorMinConfidence: 0.6, maxOpenPositions: 1 },
+      }),
+    );
+  });
+
+  it('should enter on a BUY prediction and exit when the take-profit is hit', async () => {
+    const result = await service.run({
+      token: 'HYPE',
+      candles: [
+        candle(0, 100),
+        candle(1, 101),
+        candle(2, 102, { high: 105 }),
+        candle(3, 103),
+      ],
+      signals: signals(Recommendation.BUY),
+      slippageBps: 0,
+      takerFeeBps: 0,
+      tradingParams,
+    });
+
+    expect(result.trades).toHaveLength(1);
+    const [trade] = result.trades;
+    expect(trade.direction).toBe(PositionDirection.LONG);
+    expect(trade.entryPrice).toBe(100);
+    expect(trade.exitPrice).toBeCloseTo(104, 6);
+    expect(trade.exitReason).toBe('take_profit');
+    expect(trade.leverage).toBe(2);
+    expect(trade.realizedPnl).toBeCloseTo(40, 6);
+    expect(trade.exitTime).toEqual(new Date(START + 3 * MINUTE));
+
+    expect(result.finalBalance).toBeCloseTo(10040, 6);
+    expect(result.overview.totalTrades).toBe(1);
+    expect(result.overview.winRate).toBe(100);
+    expect(result.overview.totalVolume).toBe(1000);
+  });
+
+  it('should fill a gapped stop-loss at the candle open and charge fees', async () => {
+    const result = await service.run({
+      token: 'HYPE',
+      candles: [
+        candle(0, 100),
+        candle(1, 99),
+        candle(2, 96, { open: 97, high: 97, low: 95 }),
+      ],
+      signals: signals(Recommendation.BUY),
+      slippageBps: 0,
+      takerFeeBps: 10,
+      tradingParams,
+    });
+
+    expect(result.trades).toHaveLength(1);
+    const [trade] = result.trades;
+    expect(trade.exitReason).toBe('stop_loss');
+    expect(trade.exitPrice).toBe(97);
+    expect(trade.realizedPnl).toBeCloseTo(-30, 6);
+    expect(trade.fees).toBeCloseTo(1 + 0.97, 6);
+    expect(result.totalFees).toBeCloseTo(trade.fees, 6);
+    expect(result.finalBalance).toBeCloseTo(10000 - 30 - 1.97, 6);
+    expect(result.overview.winRate).toBe(0);
+    expect(result.maxDrawdown).toBeGreaterThan(0);
+  });
+
+  it('should close open positions at the end of the data', async () => {
+    const result = await service.run({
+      token: 'HYPE',
+      candles: [candle(0, 100), candle(1, 97)],
+      signals: signals(Recommendation.SELL),
+      slippageBps: 0,
+      takerFeeBps: 0,
+      tradingParams,
+    });
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].direction).toBe(PositionDirection.SHORT);
+    expect(result.trades[0].exitReason).toBe('end_of_data');
+    expect(result.trades[0].realizedPnl).toBeCloseTo(30, 6);
+    expect(result.equityCurve).toHaveLength(2);
+    expect(result.equityCurve[1].equity).toBeCloseTo(10030, 6);
+  });
+
+  it('should price ATR brackets from the replayed candles', async () => {
+    const result = await service.run({
+      token: 'HYPE',
+      candles: [
+        candle(0, 100),
+        candle(1, 100, { high: 101, low: 99 }),
+        candle(2, 100, { high: 101, low: 99 }),
+        candle(3, 100, { high: 106.5 }),
+      ],
+      // The BUY arrives once enough candles have closed to measure the ATR
+      signals: {
+        predictions: [
+          prediction(Recommendation.HOLD, 0.8),
+          prediction(Recommendation.BUY, 0.8, 3),
+          prediction(Recommendation.HOLD, 0.8, 4),
+        ],
+        trends: [],
+      },
+      slippageBps: 0,
+      takerFeeBps: 0,
+      tradingParams,
+      bracketMode: BracketMode.ATR,
+      configOverrides: {
+        atrInterval: '1m',
+        atrPeriod: 2,
+        atrStopMultiplier: 1.5,
+        riskRewardRatio: 2,
+      },
+    });
+
+    // ATR 2 at 1.5x is a 3% stop, the 6% target fills instead of the 4% percent one
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0].exitReason).toBe('take_profit');
+    expect(result.trades[0].exitPrice).toBeCloseTo(106, 6);
+  });
+
+  it('should apply config overrides to the strategy', async () => {
+    const result = await service.run({
+      token: 'HYPE',
+      candles: [candle(0, 100), candle(1, 101)],
+      signals: signals(Recommendation.BUY, 0.7),
+      configOverrides: { predictorMinConfidence: 0.9 },
+      tradingParams,
+    });
+
+    expect(result.trades).toHaveLength(0);
+    expect(result.finalBalance).toBe(10000);
+    expect(result.sharpeRatio).toBe(0);
+  });
+
+  it('should replace Date.now only while running', async () => {
+    const originalNow = Date.now;
+
+    await service.run({
+      token: 'HYPE',
+      candles: [candle(0, 100)],
+      signals: signals(Recommendation.HOLD),
+      tradingParams,
+    });
+
+    expect(Date.now).toBe(originalNow);
+  });
+
+  it('should reject runs without candles', async () => {
+    await expect(service.run({ token: 'HYPE', candles: [] })).rejects.toThrow(
+      'Backtest requires at least one candle',
+    );
+  });
+});
@@ -0,0 +1,486 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  BacktestCandle,
+  BacktestEquityPoint,
+  BacktestExitReason,
+  BacktestOptions,
+  BacktestResult,
+  BacktestTrade,
+  Platform,
+  PositionDirection,
+  TradePositionStatus,
+} from '../../shared';
+import { PlatformTradingParams } from '../../shared/ports/trading/PlatformTradingStrategyPort';
+import {
+  EntryTimingService,
+  ExtremeTrackingService,
+} from '../../shared/services/entry-timing';
+import { HyperliquidTradingStrategyService } from '../hyperliquid/HyperliquidTradingStrategy.service';
+import { buildHyperliquidEntryTimingConfig } from '../hyperliquid/HyperliquidEntryTimingConfig';
+import { TrailingService } from '../trade-manager/Trailing.service';
+import { BracketService } from '../trade-manager/Bracket.service';
+import { TradePositionDocument } from '../trade-position/TradePosition.schema';
+import { PerpDocument } from '../perps/Perp.schema';
+import { DashboardOverview } from '../dashboard/Dashboard.dto';
+import { BacktestClock } from './BacktestClock';
+import {
+  BacktestHyperliquidService,
+  BacktestMarket,
+  BacktestPerpService,
+  ReplayIndexerAdapter,
+  ReplayPredictorAdapter,
+} from './BacktestReplay';
+
+const MINUTES_PER_YEAR = 365 * 24 * 60;
+
+interface SimulatedPosition {
+  direction: PositionDirection;
+  entryTime: Date;
+  entryPrice: number;
+  size: number;
+  amountIn: number;
+  leverage: number;
+  // Tracked in the DB, checked against the close like monitorAndClosePositions
+  stopLossPrice: number;
+  takeProfitPrice: number;
+  // Resting trigger orders on the exchange
+  exchangeStopLossPrice: number;
+  exchangeTakeProfitPrice: number;
+  entryFee: number;
+  trailCount: number;
+  lastTrailAt?: Date;
+  entryReason: string;
+}
+
+interface BacktestRun {
+  options: BacktestOptions;
+  market: BacktestMarket;
+  strategy: HyperliquidTradingStrategyService;
+  perp: Partial<PerpDocument>;
+  bracket: BracketService;
+  trailing: TrailingService;
+  tradingParams: PlatformTradingParams;
+  slippage: number;
+  feeRate: number;
+  balance: number;
+  position: SimulatedPosition | null;
+  trades: BacktestTrade[];
+  equityCurve: BacktestEquityPoint[];
+}
+
+/**
+ * Replays historical candles and recorded predictor responses through the
+ * live Hyperliquid strategy, entry timing and trailing logic
+ *
+ * Each 1-minute candle advances a simulated clock to its close. Resting SL/TP
+ * triggers are checked against the candle range, and on every evaluation step
+ * the same sequence as TradeManagerService runs: trailing, SL/TP breach,
+ * strategy exit, then entry for a flat book.
+ */
+@Injectable()
+export class BacktestService {
+  private readonly logger = new Logger(BacktestService.name);
+  private running = false;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async run(options: BacktestOptions): Promise<BacktestResult> {
+    if (!options.candles?.length) {
+      throw new Error('Backtest requires at least one candle');
+    }
+
+    // The simulated clock replaces Date.now globally, so runs cannot overlap
+    if (this.running) {
+      throw new Error('A backtest is already running');
+    }
+
+    const interval = Math.max(1, options.evaluationIntervalMinutes || 1);
+    this.logger.log(
+      `Starting backtest for ${options.token}: ${options.candles.length} candles, evaluation every ${interval}m`,
+    );
+
+    this.running = true;
+    const clock = new BacktestClock();
+    clock.install();
+
+    try {
+      const candles = [...options.candles].sort(
+        (a, b) => a.timestamp - b.timestamp,
+      );
+      const run = this.createRun({ ...options, candles }, clock);
+
+      for (let i = 0; i < candles.length; i++) {
+        const candle = run.market.advanceTo(i);
+
+        if (run.position) {
+          this.checkTriggers(run, candle);
+        }
+
+        if (i % interval === 0) {
+          if (run.position) {
+            await this.evaluateOpenPosition(run, candle);
+          } else {
+            await this.evaluateEntry(run, candle);
+          }
+        }
+
+        run.equityCurve.push({
+          timestamp: new Date(clock.now()),
+          equity: run.balance + this.unrealizedPnl(run, candle.close),
+        });
+      }
+
+      const lastCandle = candles[candles.length - 1];
+      if (run.position) {
+        this.closePosition(run, lastCandle.close, 'end_of_data');
+      }
+
+      return this.buildResult(run, candles);
+    } finally {
+      clock.uninstall();
+      this.running = false;
+    }
+  }
+
+  private createRun(
+    options: BacktestOptions,
+    clock: BacktestClock,
+  ): BacktestRun {
+    const config = new ConfigService({
+      hyperliquid: {
+        ...this.configService.get('hyperliquid'),
+        ...options.configOverrides,
+        enabled: true,
+      },
+    });
+
+    const market = new BacktestMarket(options.token, options.candles, clock);
+    const predictor = new ReplayPredictorAdapter(
+      options.signals || { predictions: [], trends: [] },
+      (options.signalMaxAgeMinutes ?? 60) * 60_000,
+    );
+    const entryTiming = new EntryTimingService(
+      buildHyperliquidEntryTimingConfig(config),
+      new ExtremeTrackingService(new ReplayIndexerAdapter(market)),
+    );
+    const hyperliquidService = new BacktestHyperliquidService(config, market);
+
+    // Sizing and leverage are filled in once the trading params are resolved
+    const perp: Partial<PerpDocument> = {
+      name: options.token,
+      token: options.token,
+      platform: Platform.HYPERLIQUID,
+      isActive: true,
+      bracketMode: options.bracketMode,
+    };
+    const strategy = new HyperliquidTradingStrategyService(
+      config,
+      hyperliquidService,
+      new BacktestPerpService(perp),
+      predictor,
+      entryTiming,
+    );
+    // Unset overrides keep the strategy defaults
+    const overrides = Object.entries(options.tradingParams || {}).filter(
+      ([, value]) => value !== undefined,
+    );
+    const tradingParams: PlatformTradingParams = {
+      ...strategy.getDefaultTradingParams(),
+      ...Object.fromEntries(overrides),
+    };
+    perp.defaultLeverage = tradingParams.defaultLeverage;
+    perp.recommendedAmount = tradingParams.defaultAmountIn;
+
+    const bracket = new BracketService(config, hyperliquidService);
+
+    return {
+      options,
+      market,
+      strategy,
+      perp,
+      bracket,
+      trailing: new TrailingService(config, predictor, bracket),
+      tradingParams,
+      slippage: (options.slippageBps ?? 5) / 10000,
+      feeRate: (options.takerFeeBps ?? 4.5) / 10000,
+      balance: options.initialBalance ?? 10000,
+      position: null,
+      trades: [],
+      equityCurve: [],
+    };
+  }
+
+  /**
+   * Fire resting exchange triggers hit within the candle range
+   * When both are inside the range the stop-loss is assumed to fill first
+   */
+  private checkTriggers(run: BacktestRun, candle: BacktestCandle): void {
+    const { position } = run;
+    const isLong = position.direction === PositionDirection.LONG;
+    const sl = position.exchangeStopLossPrice;
+    const tp = position.exchangeTakeProfitPrice;
+
+    const slHit = isLong ? candle.low <= sl : candle.high >= sl;
+    if (slHit) {
+      // Gap through the trigger fills at the open
+      const gapped = isLong ? candle.open < sl : candle.open > sl;
+      this.closePosition(run, gapped ? candle.open : sl, 'stop_loss');
+      return;
+    }
+
+    const tpHit = isLong ? candle.high >= tp : candle.low <= tp;
+    if (tpHit) {
+      const gapped = isLong ? candle.open > tp : candle.open < tp;
+      this.closePosition(run, gapped ? candle.open : tp, 'take_profit');
+    }
+  }
+
+  private async evaluateOpenPosition(
+    run: BacktestRun,
+    candle: BacktestCandle,
+  ): Promise<void> {
+    const { position } = run;
+    const price = candle.close;
+
+    const evaluation = await run.trailing.evaluateTrailing(
+      this.toPositionDocument(run),
+      price,
+    );
+    if (evaluation.shouldTrail) {
+      // Both legs are replaced on the exchange and tracked in the DB
+      position.stopLossPrice = evaluation.newStopLossPrice;
+      position.takeProfitPrice = evaluation.newTakeProfitPrice;
+      position.exchangeStopLossPrice = evaluation.newStopLossPrice;
+      position.exchangeTakeProfitPrice = evaluation.newTakeProfitPrice;
+      position.lastTrailAt = new Date(Date.now());
+      position.trailCount++;
+    }
+
+    const isLong = position.direction === PositionDirection.LONG;
+    if (
+      isLong ? price <= position.stopLossPrice : price >= position.stopLossPrice
+    ) {
+      this.closePosition(run, price, 'stop_loss');
+      return;
+    }
+    if (
+      isLong
+        ? price >= position.takeProfitPrice
+        : price <= position.takeProfitPrice
+    ) {
+      this.closePosition(run, price, 'take_profit');
+      return;
+    }
+
+    const exitDecision = await run.strategy.shouldExitPosition(
+      this.toPositionDocument(run),
+      run.tradingParams,
+    );
+    if (exitDecision.shouldExit) {
+      this.closePosition(run, price, 'strategy_exit', exitDecision.reason);
+    }
+  }
+
+  private async evaluateEntry(
+    run: BacktestRun,
+    candle: BacktestCandle,
+  ): Promise<void> {
+    const decision = await run.strategy.shouldEnterPosition(
+      run.options.token,
+      run.tradingParams,
+    );
+
+    const direction = decision.metadata?.direction as PositionDirection;
+    const amountIn = decision.recommendedAmount || 0;
+    if (!decision.shouldTrade || !direction || amountIn <= 0) {
+      return;
+    }
+
+    const isLong = direction === PositionDirection.LONG;
+    const entryPrice =
+      candle.close * (isLong ? 1 + run.slippage : 1 - run.slippage);
+    const size = amountIn / entryPrice;
+
+    // Same SL/TP derivation as TradeManagerService.enterPosition, from the mark
+    const { stopLossPrice, takeProfitPrice } =
+      await run.bracket.calculateBracket(
+        run.options.token,
+        direction,
+        candle.close,
+        run.tradingParams,
+        run.perp as PerpDocument,
+      );
+
+    const entryFee = entryPrice * size * run.feeRate;
+    run.balance -= entryFee;
+    run.position = {
+      direction,
+      entryTime: new Date(Date.now()),
+      entryPrice,
+      size,
+      amountIn,
+      leverage:
+        decision.metadata?.leverage || run.tradingParams.defaultLeverage || 1,
+      stopLossPrice,
+      takeProfitPrice,
+      exchangeStopLossPrice: stopLossPrice,
+      exchangeTakeProfitPrice: takeProfitPrice,
+      entryFee,
+      trailCount: 0,
+      entryReason: decision.reason,
+    };
+    run.market.setPosition(isLong ? size : -size, entryPrice);
+  }
+
+  private closePosition(
+    run: BacktestRun,
+    price: number,
+    exitReason: BacktestExitReason,
+    exitDetail?: string,
+  ): void {
+    const { position } = run;
+    const isLong = position.direction === PositionDirection.LONG;
+    const exitPrice = price * (isLong ? 1 - run.slippage : 1 + run.slippage);
+    const realizedPnl =
+      (exitPrice - position.entryPrice) * position.size * (isLong ? 1 : -1);
+    const exitFee = exitPrice * position.size * run.feeRate;
+
+    run.balance += realizedPnl - exitFee;
+    run.trades.push({
+      token: run.options.token,
+      direction: position.direction,
+      entryTime: position.entryTime,
+      exitTime: new Date(Date.now()),
+      entryPrice: position.entryPrice,
+      exitPrice,
+      size: position.size,
+      amountIn: position.amountIn,
+      leverage: position.leverage,
+      realizedPnl,
+      fees: position.entryFee + exitFee,
+      trailCount: position.trailCount,
+      entryReason: position.entryReason,
+      exitReason,
+      exitDetail,
+    });
+
+    run.position = null;
+    run.market.clearPosition();
+  }
+
+  private unrealizedPnl(run: BacktestRun, price: number): number {
+    const { position } = run;
+    if (!position) {
+      return 0;
+    }
+    const sign = position.direction === PositionDirection.LONG ? 1 : -1;
+    return (price - position.entryPrice) * position.size * sign;
+  }
+
+  private toPositionDocument(run: BacktestRun): TradePositionDocument {
+    const { position } = run;
+    return {
+      platform: Platform.HYPERLIQUID,
+      token: run.options.token,
+      status: TradePositionStatus.OPEN,
+      positionDirection: position.direction,
+      entryPrice: position.entryPrice,
+      stopLossPrice: position.stopLossPrice,
+      takeProfitPrice: position.takeProfitPrice,
+      lastTrailAt: position.lastTrailAt,
+      trailCount: position.trailCount,
+      amountIn: position.amountIn,
+      leverage: position.leverage,
+      timeOpened: position.entryTime,
+    } as TradePositionDocument;
+  }
+
+  private buildResult(
+    run: BacktestRun,
+    candles: BacktestCandle[],
+  ): BacktestResult {
+    const initialBalance = run.options.initialBalance ?? 10000;
+    const { maxDrawdown, maxDrawdownPercent } = this.calculateDrawdown(
+      run.equityCurve,
+    );
+
+    return {
+      token: run.options.token,
+      startTime: new Date(candles[0].timestamp),
+      endTime: new Date(candles[candles.length - 1].timestamp + 60_000),
+      initialBalance,
+      finalBalance: run.balance,
+      overview: this.calculateOverview(run.trades),
+      totalFees: run.trades.reduce((sum, t) => sum + t.fees, 0),
+      maxDrawdown,
+      maxDrawdownPercent,
+      sharpeRatio: this.calculateSharpeRatio(run.equityCurve),
+      trades: run.trades,
+      equityCurve: run.equityCurve,
+    };
+  }
+
+  private calculateOverview(trades: BacktestTrade[]): DashboardOverview {
+    const winningTrades = trades.filter((t) => t.realizedPnl > 0).length;
+    const totalPnl = trades.reduce((sum, t) => sum + t.realizedPnl, 0);
+    const totalFees = trades.reduce((sum, t) => sum + t.fees, 0);
+    return {
+      totalPnl,
+      totalFees,
+      // Funding is not simulated
+      totalFundingPaid: 0,
+      totalNetPnl: totalPnl - totalFees,
+      totalVolume: trades.reduce((sum, t) => sum + t.amountIn, 0),
+      winRate: trades.length > 0 ? (winningTrades / trades.length) * 100 : 0,
+      openPositionsCount: 0, // Positions are closed at the end of the data
+      closedPositionsCount: trades.length,
+      totalTrades: trades.length,
+    };
+  }
+
+  private calculateDrawdown(equityCurve: BacktestEquityPoint[]): {
+    maxDrawdown: number;
+    maxDrawdownPercent: number;
+  } {
+    let peak = equityCurve[0]?.equity || 0;
+    let maxDrawdown = 0;
+    let maxDrawdownPercent = 0;
+
+    for (const { equity } of equityCurve) {
+      peak = Math.max(peak, equity);
+      const drawdown = peak - equity;
+      if (drawdown > maxDrawdown) {
+        maxDrawdown = drawdown;
+        maxDrawdownPercent = peak > 0 ? (drawdown / peak) * 100 : 0;
+      }
+    }
+
+    return { maxDrawdown, maxDrawdownPercent };
+  }
+
+  /**
+   * Annualized Sharpe ratio (risk-free rate 0) from 1-minute equity returns
+   */
+  private calculateSharpeRatio(equityCurve: BacktestEquityPoint[]): number {
+    if (equityCurve.length < 3) {
+      return 0;
+    }
+
+    const returns: number[] = [];
+    for (let i = 1; i < equityCurve.length; i++) {
+      const previous = equityCurve[i - 1].equity;
+      if (previous > 0) {
+        returns.push(equityCurve[i].equity / previous - 1);
+      }
+    }
+
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance =
+      returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) /
+      (returns.length - 1);
+    const stdDev = Math.sqrt(variance);
+
+    return stdDev > 0 ? (mean / stdDev) * Math.sqrt(MINUTES_PER_YEAR) : 0;
+  }
+}
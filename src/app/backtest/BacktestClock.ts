@@ -0,0 +1,34 @@
+/**
+ * Simulated clock for backtests
+ * While installed, Date.now returns the simulated time so time-based logic in
+ * the services under test (e.g. trailing rate limiting) follows the replayed
+ * candles instead of wall-clock time
+ */
+export class BacktestClock {
+  private current = 0;
+  private originalNow: (() => number) | null = null;
+
+  now(): number {
+    return this.current;
+  }
+
+  set(timestamp: number): void {
+    this.current = timestamp;
+  }
+
+  install(): void {
+    if (this.originalNow) {
+      return;
+    }
+    this.originalNow = Date.now;
+    Date.now = (): number => this.current;
+  }
+
+  uninstall(): void {
+    if (!this.originalNow) {
+      return;
+    }
+    Date.now = this.originalNow;
+    this.originalNow = null;
+  }
+}
@@ -0,0 +1,81 @@
+import { BacktestDataLoaderService } from './BacktestDataLoader.service';
+
+describe('BacktestDataLoaderService', () => {
+  const service = new BacktestDataLoaderService();
+
+  describe('parseCsvCandles', () => {
+    it('should parse epoch and ISO timestamps and sort ascending', () => {
+      const candles = service.parseCsvCandles(
+        [
+          'timestamp,open,high,low,close,volume',
+          '2024-01-01T00:01:00Z,101,102,100,101.5,5',
+          '1704067200000,100,101,99,100.5,3',
+        ].join('\n'),
+      );
+
+      expect(candles).toEqual([
+        {
+          timestamp: 1704067200000,
+          open: 100,
+          high: 101,
+          low: 99,
+          close: 100.5,
+          volume: 3,
+        },
+        {
+          timestamp: 1704067260000,
+          open: 101,
+          high: 102,
+          low: 100,
+          close: 101.5,
+          volume: 5,
+        },
+      ]);
+    });
+
+    it('should reject files with missing columns or invalid prices', () => {
+      expect(() =>
+        service.parseCsvCandles('timestamp,open,high,low\n1,1,1,1'),
+      ).toThrow('Candle CSV is missing column: close');
+      expect(() =>
+        service.parseCsvCandles('timestamp,open,high,low,close\n1,1,1,2,1'),
+      ).toThrow('Candle high below low at row 2');
+    });
+  });
+
+  describe('parseJsonCandles', () => {
+    it('should accept indexer OHLCV candles', () => {
+      const candles = service.parseJsonCandles(
+        JSON.stringify({
+          candles: [
+            {
+              timestamp: '2024-01-01T00:00:00Z',
+              open_price: 100,
+              high_price: 101,
+              low_price: 99,
+              close_price: 100.5,
+              volume: 3,
+            },
+          ],
+        }),
+      );
+
+      expect(candles).toEqual([
+        {
+          timestamp: 1704067200000,
+          open: 100,
+          high: 101,
+          low: 99,
+          close: 100.5,
+          volume: 3,
+        },
+      ]);
+    });
+  });
+
+  it('should require an indexer adapter to fetch candles', async () => {
+    await expect(service.loadCandlesFromIndexer('HYPE', 60)).rejects.toThrow(
+      'Indexer adapter is not available',
+    );
+  });
+});
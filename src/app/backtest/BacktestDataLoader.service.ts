@@ -0,0 +1,177 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { IndexerAdapter } from '../../infrastructure/indexer/IndexerAdapter';
+import { OHLCVCandle } from '../../infrastructure/indexer/types';
+import { BacktestCandle, BacktestSignals } from '../../shared';
+
+/**
+ * Loads historical candles and recorded predictor responses for backtests
+ *
+ * Candle files:
+ * - CSV with a header row: timestamp,open,high,low,close,volume
+ *   (timestamp as epoch milliseconds or ISO 8601)
+ * - JSON array of BacktestCandle or indexer OHLCVCandle objects
+ *
+ * Signal files: JSON object { predictions: PredictionResponse[], trends: TrendsResponse[] }
+ */
+@Injectable()
+export class BacktestDataLoaderService {
+  private readonly logger = new Logger(BacktestDataLoaderService.name);
+
+  constructor(private readonly indexerAdapter?: IndexerAdapter) {}
+
+  /**
+   * Fetch the most recent 1-minute candles from the indexer
+   */
+  async loadCandlesFromIndexer(
+    token: string,
+    limit: number,
+  ): Promise<BacktestCandle[]> {
+    if (!this.indexerAdapter) {
+      throw new Error('Indexer adapter is not available');
+    }
+
+    const response = await this.indexerAdapter.getOHLCV(token, limit);
+    const candles = this.fromOHLCVCandles(response.candles || []);
+
+    this.logger.log(
+      `Loaded ${candles.length} candles for ${token} from indexer`,
+    );
+    return candles;
+  }
+
+  async loadCandlesFromFile(filePath: string): Promise<BacktestCandle[]> {
+    const content = await readFile(filePath, 'utf8');
+    const candles =
+      extname(filePath).toLowerCase() === '.csv'
+        ? this.parseCsvCandles(content)
+        : this.parseJsonCandles(content);
+
+    this.logger.log(`Loaded ${candles.length} candles from ${filePath}`);
+    return candles;
+  }
+
+  async loadSignalsFromFile(filePath: string): Promise<BacktestSignals> {
+    const content = await readFile(filePath, 'utf8');
+    const parsed = JSON.parse(content) as Partial<BacktestSignals>;
+
+    const signals: BacktestSignals = {
+      predictions: parsed.predictions || [],
+      trends: parsed.trends || [],
+    };
+
+    this.logger.log(
+      `Loaded ${signals.predictions.length} predictions and ${signals.trends.length} trend snapshots from ${filePath}`,
+    );
+    return signals;
+  }
+
+  parseCsvCandles(content: string): BacktestCandle[] {
+    const lines = content
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+
+    if (lines.length === 0) {
+      return [];
+    }
+
+    const header = lines[0].split(',').map((h) => h.trim().toLowerCase());
+    const column = (name: string): number => {
+      const index = header.indexOf(name);
+      if (index === -1) {
+        throw new Error(`Candle CSV is missing column: ${name}`);
+      }
+      return index;
+    };
+
+    const columns = {
+      timestamp: column('timestamp'),
+      open: column('open'),
+      high: column('high'),
+      low: column('low'),
+      close: column('close'),
+    };
+    const volumeIndex = header.indexOf('volume');
+
+    const candles = lines.slice(1).map((line, index) => {
+      const values = line.split(',').map((v) => v.trim());
+      const candle: BacktestCandle = {
+        timestamp: this.parseTimestamp(values[columns.timestamp]),
+        open: parseFloat(values[columns.open]),
+        high: parseFloat(values[columns.high]),
+        low: parseFloat(values[columns.low]),
+        close: parseFloat(values[columns.close]),
+        volume: volumeIndex === -1 ? 0 : parseFloat(values[volumeIndex]) || 0,
+      };
+      this.validateCandle(candle, index + 2);
+      return candle;
+    });
+
+    return this.sortCandles(candles);
+  }
+
+  parseJsonCandles(content: string): BacktestCandle[] {
+    const parsed = JSON.parse(content);
+    const rows: Array<BacktestCandle | OHLCVCandle> = Array.isArray(parsed)
+      ? parsed
+      : parsed.candles || [];
+
+    const candles = rows.map((row, index) => {
+      const candle =
+        'close_price' in row
+          ? this.fromOHLCVCandle(row)
+          : {
+              ...row,
+              timestamp: this.parseTimestamp(row.timestamp),
+              volume: row.volume || 0,
+            };
+      this.validateCandle(candle, index);
+      return candle;
+    });
+
+    return this.sortCandles(candles);
+  }
+
+  fromOHLCVCandles(candles: OHLCVCandle[]): BacktestCandle[] {
+    return this.sortCandles(candles.map((c) => this.fromOHLCVCandle(c)));
+  }
+
+  private fromOHLCVCandle(candle: OHLCVCandle): BacktestCandle {
+    return {
+      timestamp: this.parseTimestamp(candle.timestamp),
+      open: candle.open_price,
+      high: candle.high_price,
+      low: candle.low_price,
+      close: candle.close_price,
+      volume: candle.volume || 0,
+    };
+  }
+
+  private parseTimestamp(value: string | number): number {
+    const timestamp =
+      typeof value === 'number' || /^\d+$/.test(value)
+        ? Number(value)
+        : new Date(value).getTime();
+
+    if (isNaN(timestamp)) {
+      throw new Error(`Invalid candle timestamp: ${value}`);
+    }
+    return timestamp;
+  }
+
+  private validateCandle(candle: BacktestCandle, row: number): void {
+    const prices = [candle.open, candle.high, candle.low, candle.close];
+    if (prices.some((p) => isNaN(p) || p <= 0)) {
+      throw new Error(`Invalid candle prices at row ${row}`);
+    }
+    if (candle.high < candle.low) {
+      throw new Error(`Candle high below low at row ${row}`);
+    }
+  }
+
+  private sortCandles(candles: BacktestCandle[]): BacktestCandle[] {
+    return candles.sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
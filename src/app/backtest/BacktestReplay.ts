@@ -0,0 +1,289 @@
+import { ConfigService } from '@nestjs/config';
+import { IndexerAdapter } from '../../infrastructure/indexer/IndexerAdapter';
+import {
+  LastPriceResponse,
+  OHLCVResponse,
+} from '../../infrastructure/indexer/types';
+import { PredictorAdapter } from '../../infrastructure/predictor/PredictorAdapter';
+import { HyperliquidService } from '../../infrastructure/hyperliquid/HyperliquidService';
+import {
+  BacktestCandle,
+  BacktestSignals,
+  HLCandle,
+  HLPosition,
+  HLTicker,
+  PositionDirection,
+  PredictionResponse,
+  SlippageEstimate,
+  TrendsResponse,
+} from '../../shared';
+import { PerpService } from '../perps/Perp.service';
+import { PerpDocument } from '../perps/Perp.schema';
+import { CANDLE_INTERVAL_MS } from '../trade-manager/Bracket.service';
+import { BacktestClock } from './BacktestClock';
+
+const CANDLE_MS = 60_000;
+
+/**
+ * Replayed market state shared by the stand-in adapters
+ * Only candles that have closed at the simulated time are visible
+ */
+export class BacktestMarket {
+  private visibleCount = 0;
+  private openPosition: { szi: number; entryPx: number } | null = null;
+
+  constructor(
+    readonly token: string,
+    private readonly candles: BacktestCandle[],
+    private readonly clock: BacktestClock,
+  ) {}
+
+  /**
+   * Advance to the candle at index and move the clock to its close time
+   */
+  advanceTo(index: number): BacktestCandle {
+    const candle = this.candles[index];
+    this.visibleCount = index + 1;
+    this.clock.set(candle.timestamp + CANDLE_MS);
+    return candle;
+  }
+
+  currentPrice(): number {
+    return this.candles[this.visibleCount - 1]?.close || 0;
+  }
+
+  /**
+   * Closed candles opened within [startTime, endTime), oldest first
+   */
+  candlesBetween(startTime: number, endTime: number): BacktestCandle[] {
+    return this.candles
+      .slice(0, this.visibleCount)
+      .filter(({ timestamp }) => timestamp >= startTime && timestamp < endTime);
+  }
+
+  /**
+   * Most recent closed candles, newest first (indexer ordering)
+   */
+  recentCandles(limit: number): BacktestCandle[] {
+    const start = Math.max(0, this.visibleCount - limit);
+    return this.candles.slice(start, this.visibleCount).reverse();
+  }
+
+  setPosition(szi: number, entryPx: number): void {
+    this.openPosition = { szi, entryPx };
+  }
+
+  clearPosition(): void {
+    this.openPosition = null;
+  }
+
+  getPosition(): { szi: number; entryPx: number } | null {
+    return this.openPosition;
+  }
+}
+
+/**
+ * Serves OHLCV candles from the replayed market instead of the indexer API
+ */
+export class ReplayIndexerAdapter extends IndexerAdapter {
+  constructor(private readonly market: BacktestMarket) {
+    super();
+  }
+
+  async getLastPrice(token: string): Promise<LastPriceResponse> {
+    return {
+      token_symbol: token,
+      type: 'main',
+      price: this.market.currentPrice(),
+      timestamp: new Date(Date.now()).toISOString(),
+    };
+  }
+
+  async getOHLCV(token: string, limit: number = 60): Promise<OHLCVResponse> {
+    return {
+      token_symbol: token,
+      type: 'main',
+      interval: '1m',
+      candles: this.market.recentCandles(limit).map((candle) => ({
+        timestamp: new Date(candle.timestamp).toISOString(),
+        open_price: candle.open,
+        high_price: candle.high,
+        low_price: candle.low,
+        close_price: candle.close,
+        volume: candle.volume,
+      })),
+    };
+  }
+}
+
+/**
+ * Answers predictor calls with the latest recorded response at simulated time
+ */
+export class ReplayPredictorAdapter extends PredictorAdapter {
+  private readonly predictions: PredictionResponse[];
+  private readonly trends: TrendsResponse[];
+
+  constructor(
+    signals: BacktestSignals,
+    private readonly maxAgeMs: number,
+  ) {
+    super('replay', 0);
+    const byTime = <T extends { timestamp: string }>(a: T, b: T): number =>
+      new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+    this.predictions = [...signals.predictions].sort(byTime);
+    this.trends = [...signals.trends].sort(byTime);
+  }
+
+  async predictToken(token: string): Promise<PredictionResponse | undefined> {
+    return this.findLatest(this.predictions, (p) => p.token_address === token);
+  }
+
+  async getTrendsForToken(token: string): Promise<TrendsResponse | undefined> {
+    return this.findLatest(this.trends, (t) => t.token === token);
+  }
+
+  private findLatest<T extends { timestamp: string }>(
+    records: T[],
+    matches: (record: T) => boolean,
+  ): T | undefined {
+    const now = Date.now();
+    for (let i = records.length - 1; i >= 0; i--) {
+      const recordTime = new Date(records[i].timestamp).getTime();
+      if (recordTime > now || !matches(records[i])) {
+        continue;
+      }
+      return now - recordTime <= this.maxAgeMs ? records[i] : undefined;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Market data and positions the trading strategy reads from Hyperliquid
+ * Only getTicker, getPositions, estimateSlippage and getCandles are used by
+ * the strategy and brackets; nothing reaches the exchange client
+ */
+export class BacktestHyperliquidService extends HyperliquidService {
+  constructor(
+    configService: ConfigService,
+    private readonly market: BacktestMarket,
+  ) {
+    super(null, configService, null);
+  }
+
+  async getTicker(symbol: string): Promise<HLTicker> {
+    const price = String(this.market.currentPrice());
+    return {
+      coin: symbol,
+      bid: price,
+      ask: price,
+      last: price,
+      mark: price,
+      volume24h: '0',
+      openInterest: '0',
+      fundingRate: '0',
+    };
+  }
+
+  /**
+   * Candles carry no depth, so the replay applies its flat slippage at fill
+   * time instead and every entry passes the strategy's execution check
+   */
+  async estimateSlippage(
+    _symbol: string,
+    _direction: PositionDirection,
+    quoteAmount: number,
+  ): Promise<SlippageEstimate> {
+    const price = this.market.currentPrice();
+    return {
+      bestBid: price,
+      bestAsk: price,
+      midPrice: price,
+      spreadBps: 0,
+      averagePrice: price,
+      slippageBps: 0,
+      filledQuote: quoteAmount,
+      fullyFillable: true,
+    };
+  }
+
+  /**
+   * Closed 1-minute candles rolled up into the interval, so ATR brackets and
+   * trailing measure the replayed volatility
+   */
+  async getCandles(
+    symbol: string,
+    interval: string,
+    startTime: number,
+    endTime: number = Date.now(),
+  ): Promise<HLCandle[]> {
+    const intervalMs = CANDLE_INTERVAL_MS[interval];
+    if (!intervalMs) {
+      throw new Error(`Unsupported candle interval ${interval}`);
+    }
+
+    const candles: HLCandle[] = [];
+    for (const candle of this.market.candlesBetween(startTime, endTime)) {
+      const openTime = Math.floor(candle.timestamp / intervalMs) * intervalMs;
+      const last = candles[candles.length - 1];
+      if (last?.t === openTime) {
+        last.h = Math.max(last.h, candle.high);
+        last.l = Math.min(last.l, candle.low);
+        last.c = candle.close;
+        last.v += candle.volume;
+        last.n += 1;
+        continue;
+      }
+      candles.push({
+        t: openTime,
+        T: openTime + intervalMs - 1,
+        s: symbol,
+        i: interval,
+        o: candle.open,
+        h: candle.high,
+        l: candle.low,
+        c: candle.close,
+        v: candle.volume,
+        n: 1,
+      });
+    }
+    return candles;
+  }
+
+  async getPositions(): Promise<HLPosition[]> {
+    const position = this.market.getPosition();
+    if (!position) {
+      return [];
+    }
+
+    const price = this.market.currentPrice();
+    return [
+      {
+        coin: this.market.token,
+        szi: String(position.szi),
+        entryPx: String(position.entryPx),
+        leverage: { type: 'cross', value: 1, rawUsd: '0' },
+        liquidationPx: '0',
+        marginUsed: '0',
+        maxLeverage: 1,
+        positionValue: String(Math.abs(position.szi) * price),
+        returnOnEquity: '0',
+        unrealizedPnl: String((price - position.entryPx) * position.szi),
+        cumFunding: { allTime: '0', sinceChange: '0', sinceOpen: '0' },
+      },
+    ];
+  }
+}
+
+/**
+ * Returns the perp definition under test without touching the database
+ */
+export class BacktestPerpService extends PerpService {
+  constructor(private readonly perp: Partial<PerpDocument>) {
+    super(null);
+  }
+
+  async findByToken(token: string): Promise<PerpDocument | null> {
+    return this.perp.token === token ? (this.perp as PerpDocument) : null;
+  }
+}
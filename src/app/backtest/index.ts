@@ -0,0 +1,4 @@
+export * from './Backtest.module';
+export * from './Backtest.service';
+export * from './BacktestDataLoader.service';
+export * from './BacktestClock';
@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  CircuitBreakerTrip,
+  CircuitBreakerTripSchema,
+} from './CircuitBreakerTrip.schema';
+import {
+  CircuitBreakerState,
+  CircuitBreakerStateSchema,
+} from './CircuitBreakerState.schema';
+import { CircuitBreakerService } from './CircuitBreaker.service';
+import { CircuitBreakerTripRepository } from './CircuitBreakerTrip.repository';
+import { CircuitBreakerStateRepository } from './CircuitBreakerState.repository';
+import { HyperliquidModule } from '../hyperliquid/Hyperliquid.module';
+import { TradePositionModule } from '../trade-position/TradePosition.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: CircuitBreakerTrip.name, schema: CircuitBreakerTripSchema },
+      { name: CircuitBreakerState.name, schema: CircuitBreakerStateSchema },
+    ]),
+    HyperliquidModule,
+    TradePositionModule,
+  ],
+  providers: [
+    CircuitBreakerService,
+    CircuitBreakerTripRepository,
+    CircuitBreakerStateRepository,
+  ],
+  exports: [CircuitBreakerService],
+})
+export class CircuitBreakerModule {}
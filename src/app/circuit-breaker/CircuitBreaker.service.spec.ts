@@ -0,0 +1,239 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CircuitBreakerService } from './CircuitBreaker.service';
+import { CircuitBreakerTripRepository } from './CircuitBreakerTrip.repository';
+import { CircuitBreakerStateRepository } from './CircuitBreakerState.repository';
+import { HyperliquidService } from '../../infrastructure/hyperliquid/HyperliquidService';
+import { TradePositionService } from '../trade-position/TradePosition.service';
+import { CircuitBreakerReason, HLPosition, Platform } from '../../shared';
+
+describe('CircuitBreakerService', () => {
+  let service: CircuitBreakerService;
+  let hyperliquidService: jest.Mocked<HyperliquidService>;
+  let tradePositionService: jest.Mocked<TradePositionService>;
+  let circuitBreakerTripRepository: jest.Mocked<CircuitBreakerTripRepository>;
+  let circuitBreakerStateRepository: jest.Mocked<CircuitBreakerStateRepository>;
+  let config: Record<string, unknown>;
+
+  const today = new Date().toISOString().split('T')[0];
+  const dayStart = new Date(`${today}T00:00:00.000Z`).getTime();
+
+  const state = (overrides: Record<string, unknown> = {}): any => ({
+    _id: 'state-id',
+    isPaper: false,
+    day: today,
+    dailyPnlOffset: 0,
+    peakEquity: 1000,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    config = {
+      'hyperliquid.enabled': true,
+      'hyperliquid.paperTrading': false,
+      'hyperliquid.maxDailyLossUsd': 100,
+      'hyperliquid.maxDrawdownPercent': 10,
+      'hyperliquid.circuitBreakerFlatten': false,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CircuitBreakerService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key in config ? config[key] : defaultValue,
+            ),
+          },
+        },
+        {
+          provide: HyperliquidService,
+          useValue: {
+            getBalance: jest
+              .fn()
+              .mockResolvedValue({ total: 1000, available: 800 }),
+            getPositions: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: TradePositionService,
+          useValue: {
+            getPositionsOpenBetween: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: CircuitBreakerTripRepository,
+          useValue: {
+            getAll: jest.fn().mockResolvedValue([]),
+            create: jest.fn((trip) =>
+              Promise.resolve({ _id: 'trip', ...trip }),
+            ),
+            updateById: jest.fn(),
+          },
+        },
+        {
+          provide: CircuitBreakerStateRepository,
+          useValue: {
+            getState: jest.fn().mockResolvedValue(state()),
+            updateById: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(CircuitBreakerService);
+    hyperliquidService = module.get(HyperliquidService);
+    tradePositionService = module.get(TradePositionService);
+    circuitBreakerTripRepository = module.get(CircuitBreakerTripRepository);
+    circuitBreakerStateRepository = module.get(CircuitBreakerStateRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should allow entries when both thresholds are disabled', async () => {
+    config['hyperliquid.maxDailyLossUsd'] = 0;
+    config['hyperliquid.maxDrawdownPercent'] = 0;
+
+    expect(await service.check()).toBeNull();
+    expect(hyperliquidService.getBalance).not.toHaveBeenCalled();
+  });
+
+  it('should track peak equity without tripping inside the limits', async () => {
+    hyperliquidService.getBalance.mockResolvedValue({
+      total: 1200,
+      available: 1000,
+    });
+
+    expect(await service.check()).toBeNull();
+    expect(circuitBreakerStateRepository.updateById).toHaveBeenCalledWith(
+      'state-id',
+      expect.objectContaining({
+        day: today,
+        equity: 1200,
+        peakEquity: 1200,
+        drawdownPercent: 0,
+        dailyPnl: 0,
+      }),
+    );
+    expect(circuitBreakerTripRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should trip on the daily loss from today fills and open positions', async () => {
+    tradePositionService.getPositionsOpenBetween.mockResolvedValue([
+      {
+        fills: [
+          // Realized yesterday, not part of today's PnL
+          { closedPnl: -500, fee: 1, timestamp: dayStart - 1000 },
+          { closedPnl: -60, fee: 2, timestamp: dayStart + 1000 },
+        ],
+      },
+    ] as any);
+    hyperliquidService.getPositions.mockResolvedValue([
+      { coin: 'ETH', unrealizedPnl: '-40' } as HLPosition,
+    ]);
+
+    const trip = await service.check();
+
+    expect(tradePositionService.getPositionsOpenBetween).toHaveBeenCalledWith(
+      Platform.HYPERLIQUID,
+      new Date(dayStart),
+      expect.any(Date),
+      false,
+    );
+    expect(trip).toEqual(
+      expect.objectContaining({
+        reason: CircuitBreakerReason.DAILY_LOSS,
+        dailyPnl: -102,
+        flatten: false,
+        isPaper: false,
+      }),
+    );
+  });
+
+  it('should trip on drawdown from the peak and flag flattening', async () => {
+    config['hyperliquid.circuitBreakerFlatten'] = true;
+    hyperliquidService.getBalance.mockResolvedValue({
+      total: 880,
+      available: 880,
+    });
+
+    const trip = await service.check();
+
+    expect(trip).toEqual(
+      expect.objectContaining({
+        reason: CircuitBreakerReason.DRAWDOWN,
+        peakEquity: 1000,
+        flatten: true,
+      }),
+    );
+    expect(trip.drawdownPercent).toBeCloseTo(12);
+  });
+
+  it('should stay tripped until re-armed', async () => {
+    circuitBreakerTripRepository.getAll.mockResolvedValue([
+      { _id: 'trip-id', reason: CircuitBreakerReason.DRAWDOWN },
+    ] as any);
+
+    const trip = await service.check();
+
+    expect(trip._id).toBe('trip-id');
+    expect(hyperliquidService.getBalance).not.toHaveBeenCalled();
+  });
+
+  it('should forget the offset of a previous day', async () => {
+    circuitBreakerStateRepository.getState.mockResolvedValue(
+      state({ day: '2000-01-01', dailyPnlOffset: -150 }),
+    );
+    hyperliquidService.getPositions.mockResolvedValue([
+      { coin: 'ETH', unrealizedPnl: '-50' } as HLPosition,
+    ]);
+
+    expect(await service.check()).toBeNull();
+    expect(circuitBreakerStateRepository.updateById).toHaveBeenCalledWith(
+      'state-id',
+      expect.objectContaining({ dailyPnlOffset: 0, dailyPnl: -50 }),
+    );
+  });
+
+  it('should re-arm from the current equity and daily PnL', async () => {
+    circuitBreakerTripRepository.getAll.mockResolvedValueOnce([
+      {
+        _id: 'trip-id',
+        reason: CircuitBreakerReason.DAILY_LOSS,
+        trippedAt: new Date(),
+      },
+    ] as any);
+    hyperliquidService.getBalance.mockResolvedValue({
+      total: 850,
+      available: 850,
+    });
+    hyperliquidService.getPositions.mockResolvedValue([
+      { coin: 'ETH', unrealizedPnl: '-120' } as HLPosition,
+    ]);
+
+    await service.rearm();
+
+    expect(circuitBreakerStateRepository.updateById).toHaveBeenCalledWith(
+      'state-id',
+      expect.objectContaining({
+        dailyPnlOffset: -120,
+        peakEquity: 850,
+        dailyPnl: 0,
+      }),
+    );
+    expect(circuitBreakerTripRepository.updateById).toHaveBeenCalledWith(
+      'trip-id',
+      { rearmedAt: expect.any(Date) },
+    );
+  });
+
+  it('should refuse to re-arm when not tripped', async () => {
+    await expect(service.rearm()).rejects.toThrow(
+      'Circuit breaker is not tripped',
+    );
+  });
+});
@@ -0,0 +1,267 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HyperliquidService } from '../../infrastructure/hyperliquid/HyperliquidService';
+import {
+  CircuitBreakerReason,
+  CircuitBreakerSnapshot,
+  Platform,
+} from '../../shared';
+import { TradePositionService } from '../trade-position/TradePosition.service';
+import { CircuitBreakerTripRepository } from './CircuitBreakerTrip.repository';
+import { CircuitBreakerTripDocument } from './CircuitBreakerTrip.schema';
+import { CircuitBreakerStateRepository } from './CircuitBreakerState.repository';
+
+export interface CircuitBreakerStatus {
+  maxDailyLossUsd: number;
+  maxDrawdownPercent: number;
+  flatten: boolean;
+  activeTrip: CircuitBreakerTripDocument | null;
+  // Values of the last check
+  snapshot: CircuitBreakerSnapshot | null;
+  checkedAt?: Date;
+  recentTrips: CircuitBreakerTripDocument[];
+}
+
+/**
+ * Halts new entries after a losing day or a deep equity drawdown
+ * Daily PnL is the realized PnL (after fees) of today's fills plus the
+ * unrealized PnL of open exchange positions; drawdown is measured from the
+ * highest account equity seen. A trip stays active, and optionally flattens
+ * open positions, until it is re-armed by hand.
+ */
+@Injectable()
+export class CircuitBreakerService {
+  private readonly logger = new Logger(CircuitBreakerService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly hyperliquidService: HyperliquidService,
+    private readonly tradePositionService: TradePositionService,
+    private readonly circuitBreakerTripRepository: CircuitBreakerTripRepository,
+    private readonly circuitBreakerStateRepository: CircuitBreakerStateRepository,
+  ) {}
+
+  /**
+   * Compare account PnL and equity with the thresholds and trip when one is
+   * breached; returns the active trip, or null when entries are allowed
+   */
+  async check(): Promise<CircuitBreakerTripDocument | null> {
+    if (!this.isEnabled()) {
+      return null;
+    }
+
+    const activeTrip = await this.getActiveTrip();
+    if (activeTrip) {
+      return activeTrip;
+    }
+
+    const snapshot = await this.takeSnapshot();
+    const maxDailyLossUsd = this.getMaxDailyLossUsd();
+    const maxDrawdownPercent = this.getMaxDrawdownPercent();
+
+    if (maxDailyLossUsd > 0 && snapshot.dailyPnl <= -maxDailyLossUsd) {
+      return this.trip(
+        CircuitBreakerReason.DAILY_LOSS,
+        `Daily PnL ${snapshot.dailyPnl.toFixed(2)} USD breached the ${maxDailyLossUsd} USD daily loss limit`,
+        snapshot,
+      );
+    }
+    if (
+      maxDrawdownPercent > 0 &&
+      snapshot.drawdownPercent >= maxDrawdownPercent
+    ) {
+      return this.trip(
+        CircuitBreakerReason.DRAWDOWN,
+        `Equity ${snapshot.equity.toFixed(2)} is ${snapshot.drawdownPercent.toFixed(2)}% below its peak of ${snapshot.peakEquity.toFixed(2)}, limit is ${maxDrawdownPercent}%`,
+        snapshot,
+      );
+    }
+
+    return null;
+  }
+
+  async getActiveTrip(): Promise<CircuitBreakerTripDocument | null> {
+    const [trip] = await this.circuitBreakerTripRepository.getAll({
+      filter: { isPaper: this.isPaper(), rearmedAt: null },
+      queryOptions: { limit: 1, sort: { trippedAt: -1 } },
+    });
+    return trip || null;
+  }
+
+  async getStatus(): Promise<CircuitBreakerStatus> {
+    const isPaper = this.isPaper();
+    const [activeTrip, state, recentTrips] = await Promise.all([
+      this.getActiveTrip(),
+      this.circuitBreakerStateRepository.getState(isPaper),
+      this.circuitBreakerTripRepository.getAll({
+        filter: { isPaper },
+        queryOptions: { limit: 10, sort: { trippedAt: -1 } },
+      }),
+    ]);
+
+    return {
+      maxDailyLossUsd: this.getMaxDailyLossUsd(),
+      maxDrawdownPercent: this.getMaxDrawdownPercent(),
+      flatten: this.shouldFlatten(),
+      activeTrip,
+      snapshot: state.checkedAt
+        ? {
+            equity: state.equity,
+            peakEquity: state.peakEquity,
+            drawdownPercent: state.drawdownPercent,
+            dailyPnl: state.dailyPnl,
+          }
+        : null,
+      checkedAt: state.checkedAt,
+      recentTrips,
+    };
+  }
+
+  /**
+   * Clear the active trip and restart measuring from the current account:
+   * peak equity becomes the current equity and today's loss so far is
+   * forgiven, otherwise the next check would trip again
+   */
+  async rearm(): Promise<CircuitBreakerStatus> {
+    const activeTrip = await this.getActiveTrip();
+    if (!activeTrip) {
+      throw new Error('Circuit breaker is not tripped');
+    }
+
+    const isPaper = this.isPaper();
+    const [equity, dailyPnl] = await Promise.all([
+      this.getEquity(),
+      this.getDailyPnl(isPaper),
+    ]);
+    const state = await this.circuitBreakerStateRepository.getState(isPaper);
+    await this.circuitBreakerStateRepository.updateById(String(state._id), {
+      day: this.getUtcDay(),
+      dailyPnlOffset: dailyPnl,
+      peakEquity: equity,
+      equity,
+      drawdownPercent: 0,
+      dailyPnl: 0,
+      checkedAt: new Date(),
+    });
+    await this.circuitBreakerTripRepository.updateById(String(activeTrip._id), {
+      rearmedAt: new Date(),
+    });
+
+    this.logger.log(
+      `Circuit breaker re-armed after ${activeTrip.reason} trip of ${activeTrip.trippedAt.toISOString()}`,
+    );
+    return this.getStatus();
+  }
+
+  /**
+   * Current values, persisting the new peak equity and the day rollover
+   */
+  private async takeSnapshot(): Promise<CircuitBreakerSnapshot> {
+    const isPaper = this.isPaper();
+    const [state, equity, rawDailyPnl] = await Promise.all([
+      this.circuitBreakerStateRepository.getState(isPaper),
+      this.getEquity(),
+      this.getDailyPnl(isPaper),
+    ]);
+
+    const day = this.getUtcDay();
+    const dailyPnlOffset = state.day === day ? state.dailyPnlOffset || 0 : 0;
+    const peakEquity = Math.max(state.peakEquity || 0, equity);
+    const snapshot: CircuitBreakerSnapshot = {
+      equity,
+      peakEquity,
+      drawdownPercent:
+        peakEquity > 0 ? ((peakEquity - equity) / peakEquity) * 100 : 0,
+      dailyPnl: rawDailyPnl - dailyPnlOffset,
+    };
+
+    await this.circuitBreakerStateRepository.updateById(String(state._id), {
+      day,
+      dailyPnlOffset,
+      ...snapshot,
+      checkedAt: new Date(),
+    });
+    return snapshot;
+  }
+
+  private async trip(
+    reason: CircuitBreakerReason,
+    message: string,
+    snapshot: CircuitBreakerSnapshot,
+  ): Promise<CircuitBreakerTripDocument> {
+    const flatten = this.shouldFlatten();
+    this.logger.warn(
+      `Circuit breaker tripped: ${message}. New entries are halted${flatten ? ' and open positions will be closed' : ''} until re-armed`,
+    );
+
+    return this.circuitBreakerTripRepository.create({
+      reason,
+      message,
+      ...snapshot,
+      flatten,
+      isPaper: this.isPaper(),
+      trippedAt: new Date(),
+    });
+  }
+
+  private async getEquity(): Promise<number> {
+    const balance = await this.hyperliquidService.getBalance();
+    return balance.total;
+  }
+
+  /**
+   * Realized PnL after fees of today's fills plus current unrealized PnL
+   */
+  private async getDailyPnl(isPaper: boolean): Promise<number> {
+    const dayStart = new Date(`${this.getUtcDay()}T00:00:00.000Z`);
+    const [positions, exchangePositions] = await Promise.all([
+      this.tradePositionService.getPositionsOpenBetween(
+        Platform.HYPERLIQUID,
+        dayStart,
+        new Date(),
+        isPaper,
+      ),
+      this.hyperliquidService.getPositions(),
+    ]);
+
+    const realizedPnl = positions
+      .flatMap((position) => position.fills || [])
+      .filter((fill) => fill.timestamp >= dayStart.getTime())
+      .reduce((sum, fill) => sum + (fill.closedPnl || 0) - (fill.fee || 0), 0);
+    const unrealizedPnl = exchangePositions.reduce(
+      (sum, position) => sum + (parseFloat(position.unrealizedPnl) || 0),
+      0,
+    );
+
+    return realizedPnl + unrealizedPnl;
+  }
+
+  private getUtcDay(): string {
+    return new Date().toISOString().split('T')[0];
+  }
+
+  private isEnabled(): boolean {
+    return (
+      !!this.configService.get<boolean>('hyperliquid.enabled') &&
+      (this.getMaxDailyLossUsd() > 0 || this.getMaxDrawdownPercent() > 0)
+    );
+  }
+
+  private isPaper(): boolean {
+    return !!this.configService.get<boolean>('hyperliquid.paperTrading');
+  }
+
+  private shouldFlatten(): boolean {
+    return !!this.configService.get<boolean>(
+      'hyperliquid.circuitBreakerFlatten',
+    );
+  }
+
+  private getMaxDailyLossUsd(): number {
+    return this.configService.get<number>('hyperliquid.maxDailyLossUsd', 0);
+  }
+
+  private getMaxDrawdownPercent(): number {
+    return this.configService.get<number>('hyperliquid.maxDrawdownPercent', 0);
+  }
+}
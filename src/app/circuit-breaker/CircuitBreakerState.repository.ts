@@ -0,0 +1,26 @@
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { BaseMongoRepository } from '../../shared';
+import {
+  CircuitBreakerState,
+  CircuitBreakerStateDocument,
+} from './CircuitBreakerState.schema';
+
+@Injectable()
+export class CircuitBreakerStateRepository extends BaseMongoRepository<CircuitBreakerStateDocument> {
+  constructor(
+    @InjectModel(CircuitBreakerState.name)
+    circuitBreakerStateModel: Model<CircuitBreakerStateDocument>,
+  ) {
+    super(circuitBreakerStateModel);
+  }
+
+  async getState(isPaper: boolean): Promise<CircuitBreakerStateDocument> {
+    const state = await this.getOne({ filter: { isPaper } });
+    if (!state) {
+      return this.create({ isPaper, dailyPnlOffset: 0 });
+    }
+    return state;
+  }
+}
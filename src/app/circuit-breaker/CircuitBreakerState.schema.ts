@@ -0,0 +1,51 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type CircuitBreakerStateDocument = CircuitBreakerState & Document;
+
+/**
+ * Peak equity and daily PnL baseline of the circuit breaker, one document
+ * for live and one for paper trading
+ */
+@Schema({
+  timestamps: true,
+})
+export class CircuitBreakerState {
+  static readonly modelName = 'CircuitBreakerState';
+
+  @Prop({ type: Boolean, default: false })
+  isPaper: boolean;
+
+  // UTC day (YYYY-MM-DD) the daily PnL offset applies to
+  @Prop({ type: String })
+  day?: string;
+
+  // Daily PnL at the last re-arm, subtracted for the rest of the day
+  @Prop({ type: Number, default: 0 })
+  dailyPnlOffset: number;
+
+  @Prop({ type: Number })
+  peakEquity?: number;
+
+  // Last check
+  @Prop({ type: Number })
+  equity?: number;
+
+  @Prop({ type: Number })
+  drawdownPercent?: number;
+
+  @Prop({ type: Number })
+  dailyPnl?: number;
+
+  @Prop({ type: Date })
+  checkedAt?: Date;
+
+  createdAt?: Date;
+
+  updatedAt?: Date;
+}
+
+export const CircuitBreakerStateSchema =
+  SchemaFactory.createForClass(CircuitBreakerState);
+
+CircuitBreakerStateSchema.index({ isPaper: 1 }, { unique: true });
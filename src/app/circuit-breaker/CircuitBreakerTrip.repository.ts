@@ -0,0 +1,18 @@
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { BaseMongoRepository } from '../../shared';
+import {
+  CircuitBreakerTrip,
+  CircuitBreakerTripDocument,
+} from './CircuitBreakerTrip.schema';
+
+@Injectable()
+export class CircuitBreakerTripRepository extends BaseMongoRepository<CircuitBreakerTripDocument> {
+  constructor(
+    @InjectModel(CircuitBreakerTrip.name)
+    circuitBreakerTripModel: Model<CircuitBreakerTripDocument>,
+  ) {
+    super(circuitBreakerTripModel);
+  }
+}
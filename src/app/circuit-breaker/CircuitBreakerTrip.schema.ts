@@ -0,0 +1,55 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { CircuitBreakerReason } from '../../shared';
+
+export type CircuitBreakerTripDocument = CircuitBreakerTrip & Document;
+
+/**
+ * A circuit breaker trip; it stays active until it is re-armed
+ */
+@Schema({
+  timestamps: true,
+})
+export class CircuitBreakerTrip {
+  static readonly modelName = 'CircuitBreakerTrip';
+
+  @Prop({ type: String, enum: CircuitBreakerReason, required: true })
+  reason: CircuitBreakerReason;
+
+  @Prop({ type: String, required: true })
+  message: string;
+
+  @Prop({ type: Number })
+  equity: number;
+
+  @Prop({ type: Number })
+  peakEquity: number;
+
+  @Prop({ type: Number })
+  drawdownPercent: number;
+
+  @Prop({ type: Number })
+  dailyPnl: number;
+
+  // Open positions are closed while the trip is active
+  @Prop({ type: Boolean, default: false })
+  flatten: boolean;
+
+  @Prop({ type: Boolean, default: false })
+  isPaper: boolean;
+
+  @Prop({ type: Date, required: true })
+  trippedAt: Date;
+
+  @Prop({ type: Date })
+  rearmedAt?: Date;
+
+  createdAt?: Date;
+
+  updatedAt?: Date;
+}
+
+export const CircuitBreakerTripSchema =
+  SchemaFactory.createForClass(CircuitBreakerTrip);
+
+CircuitBreakerTripSchema.index({ isPaper: 1, rearmedAt: 1, trippedAt: -1 });
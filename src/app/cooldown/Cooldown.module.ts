@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Cooldown, CooldownSchema } from './Cooldown.schema';
+import { CooldownService } from './Cooldown.service';
+import { CooldownRepository } from './Cooldown.repository';
+import { PerpModule } from '../perps/Perp.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Cooldown.name, schema: CooldownSchema },
+    ]),
+    PerpModule,
+  ],
+  providers: [CooldownService, CooldownRepository],
+  exports: [CooldownService],
+})
+export class CooldownModule {}
@@ -0,0 +1,15 @@
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { BaseMongoRepository } from '../../shared';
+import { Cooldown, CooldownDocument } from './Cooldown.schema';
+
+@Injectable()
+export class CooldownRepository extends BaseMongoRepository<CooldownDocument> {
+  constructor(
+    @InjectModel(Cooldown.name)
+    cooldownModel: Model<CooldownDocument>,
+  ) {
+    super(cooldownModel);
+  }
+}
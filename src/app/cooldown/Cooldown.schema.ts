@@ -0,0 +1,40 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { ExitReason, PositionDirection } from '../../shared';
+
+export type CooldownDocument = Cooldown & Document;
+
+/**
+ * Re-entry block for a token and direction, started by the last exit
+ */
+@Schema({
+  timestamps: true,
+})
+export class Cooldown {
+  static readonly modelName = 'Cooldown';
+
+  @Prop({ type: String, required: true })
+  token: string;
+
+  @Prop({ type: String, enum: PositionDirection, required: true })
+  direction: PositionDirection;
+
+  @Prop({ type: String, enum: ExitReason, required: true })
+  reason: ExitReason;
+
+  // Position whose exit started the cooldown
+  @Prop({ type: Types.ObjectId, ref: 'TradePosition' })
+  position?: string;
+
+  @Prop({ type: Date, required: true })
+  until: Date;
+
+  createdAt?: Date;
+
+  updatedAt?: Date;
+}
+
+export const CooldownSchema = SchemaFactory.createForClass(Cooldown);
+
+CooldownSchema.index({ token: 1, direction: 1 }, { unique: true });
+CooldownSchema.index({ until: 1 });
@@ -0,0 +1,171 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CooldownService } from './Cooldown.service';
+import { CooldownRepository } from './Cooldown.repository';
+import { PerpService } from '../perps/Perp.service';
+import { ExitReason, PositionDirection } from '../../shared';
+
+describe('CooldownService', () => {
+  let service: CooldownService;
+  let perpService: jest.Mocked<PerpService>;
+  let cooldownRepository: jest.Mocked<CooldownRepository>;
+
+  const MINUTE = 60 * 1000;
+
+  const position = (overrides: Record<string, unknown> = {}): any => ({
+    _id: 'position-id',
+    token: 'BTC',
+    positionDirection: PositionDirection.LONG,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const config: Record<string, unknown> = {
+      'hyperliquid.cooldownMinutes.stop_loss': 60,
+      'hyperliquid.cooldownMinutes.take_profit': 0,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CooldownService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key in config ? config[key] : defaultValue,
+            ),
+          },
+        },
+        {
+          provide: PerpService,
+          useValue: { findByToken: jest.fn().mockResolvedValue(null) },
+        },
+        {
+          provide: CooldownRepository,
+          useValue: {
+            getOneAndUpdate: jest.fn((filter, update) =>
+              Promise.resolve({ ...filter, ...update.$set }),
+            ),
+            getOne: jest.fn().mockResolvedValue(null),
+            getAll: jest.fn().mockResolvedValue([]),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(CooldownService);
+    perpService = module.get(PerpService);
+    cooldownRepository = module.get(CooldownRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getExitReason', () => {
+    it('should take the reason from the SL/TP trigger that closed the position', () => {
+      const stopLoss = { isTrigger: true, triggerType: 'sl' } as any;
+      const takeProfit = { isTrigger: true, triggerType: 'tp' } as any;
+
+      expect(service.getExitReason(position(), stopLoss)).toBe(
+        ExitReason.STOP_LOSS,
+      );
+      expect(
+        service.getExitReason(
+          position({ exitReason: ExitReason.AI_EXIT }),
+          takeProfit,
+        ),
+      ).toBe(ExitReason.TAKE_PROFIT);
+    });
+
+    it('should fall back to the reason stored with the exit, then manual', () => {
+      const exitOrder = { isTrigger: false } as any;
+
+      expect(
+        service.getExitReason(
+          position({ exitReason: ExitReason.AI_EXIT }),
+          exitOrder,
+        ),
+      ).toBe(ExitReason.AI_EXIT);
+      expect(service.getExitReason(position(), null)).toBe(ExitReason.MANUAL);
+    });
+  });
+
+  describe('startCooldown', () => {
+    it('should block the direction for the configured minutes', async () => {
+      const closedAt = new Date('2024-01-01T12:00:00.000Z');
+
+      const cooldown = await service.startCooldown(
+        position(),
+        ExitReason.STOP_LOSS,
+        closedAt,
+      );
+
+      expect(cooldownRepository.getOneAndUpdate).toHaveBeenCalledWith(
+        { token: 'BTC', direction: PositionDirection.LONG },
+        {
+          $set: {
+            reason: ExitReason.STOP_LOSS,
+            position: 'position-id',
+            until: new Date(closedAt.getTime() + 60 * MINUTE),
+          },
+        },
+        { upsert: true, new: true },
+      );
+      expect(cooldown?.until).toEqual(new Date('2024-01-01T13:00:00.000Z'));
+    });
+
+    it('should prefer the perp cooldown over the default', async () => {
+      perpService.findByToken.mockResolvedValue({
+        cooldownMinutes: { [ExitReason.STOP_LOSS]: 5 },
+      } as any);
+      const closedAt = new Date();
+
+      const cooldown = await service.startCooldown(
+        position(),
+        ExitReason.STOP_LOSS,
+        closedAt,
+      );
+
+      expect(cooldown?.until).toEqual(
+        new Date(closedAt.getTime() + 5 * MINUTE),
+      );
+    });
+
+    it('should not start a cooldown that is disabled', async () => {
+      expect(
+        await service.startCooldown(position(), ExitReason.TAKE_PROFIT),
+      ).toBeNull();
+      perpService.findByToken.mockResolvedValue({
+        cooldownMinutes: { [ExitReason.STOP_LOSS]: 0 },
+      } as any);
+      expect(
+        await service.startCooldown(position(), ExitReason.STOP_LOSS),
+      ).toBeNull();
+      expect(cooldownRepository.getOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when the cooldown cannot be stored', async () => {
+      cooldownRepository.getOneAndUpdate.mockRejectedValue(
+        new Error('Mongo unavailable'),
+      );
+
+      await expect(
+        service.startCooldown(position(), ExitReason.STOP_LOSS),
+      ).resolves.toBeNull();
+    });
+  });
+
+  it('should only return cooldowns that have not expired', async () => {
+    await service.getActiveCooldown('BTC', PositionDirection.SHORT);
+
+    expect(cooldownRepository.getOne).toHaveBeenCalledWith({
+      filter: {
+        token: 'BTC',
+        direction: PositionDirection.SHORT,
+        until: { $gt: expect.any(Date) },
+      },
+    });
+  });
+});
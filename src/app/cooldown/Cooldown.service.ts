@@ -0,0 +1,117 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ExitReason, PositionDirection } from '../../shared';
+import { PerpService } from '../perps/Perp.service';
+import { TradeOrderDocument } from '../trade-order/TradeOrder.schema';
+import { TradePositionDocument } from '../trade-position/TradePosition.schema';
+import { CooldownRepository } from './Cooldown.repository';
+import { CooldownDocument } from './Cooldown.schema';
+
+/**
+ * Cooldown registry: blocks re-entering a token in the direction of a
+ * position that was just closed, for a time that depends on why it closed.
+ * Cooldowns live in Mongo, so a restart does not lift them.
+ */
+@Injectable()
+export class CooldownService {
+  private readonly logger = new Logger(CooldownService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly perpService: PerpService,
+    private readonly cooldownRepository: CooldownRepository,
+  ) {}
+
+  /**
+   * Why a position closed: the SL/TP trigger that filled, otherwise the
+   * reason the bot gave when it sent the exit, otherwise it was closed
+   * outside the bot
+   */
+  getExitReason(
+    position: TradePositionDocument,
+    closingOrder?: TradeOrderDocument | null,
+  ): ExitReason {
+    if (closingOrder?.isTrigger && closingOrder.triggerType) {
+      return closingOrder.triggerType === 'sl'
+        ? ExitReason.STOP_LOSS
+        : ExitReason.TAKE_PROFIT;
+    }
+    return position.exitReason || ExitReason.MANUAL;
+  }
+
+  /**
+   * Start the cooldown for the token and direction of a closed position,
+   * replacing the previous one; never throws, a failure only costs the cooldown
+   */
+  async startCooldown(
+    position: TradePositionDocument,
+    reason: ExitReason,
+    closedAt: Date = new Date(),
+  ): Promise<CooldownDocument | null> {
+    const { token, positionDirection } = position;
+    if (!positionDirection) {
+      return null;
+    }
+
+    try {
+      const minutes = await this.getCooldownMinutes(token, reason);
+      if (minutes <= 0) {
+        return null;
+      }
+
+      const until = new Date(closedAt.getTime() + minutes * 60 * 1000);
+      const cooldown = await this.cooldownRepository.getOneAndUpdate(
+        { token, direction: positionDirection },
+        {
+          $set: {
+            reason,
+            position: String(position._id),
+            until,
+          },
+        },
+        { upsert: true, new: true },
+      );
+
+      this.logger.log(
+        `${token} ${positionDirection} cooling down after ${reason} until ${until.toISOString()}`,
+      );
+      return cooldown;
+    } catch (error) {
+      this.logger.error(
+        `Failed to start cooldown for ${token} ${positionDirection}`,
+        error,
+      );
+      return null;
+    }
+  }
+
+  async getActiveCooldown(
+    token: string,
+    direction: PositionDirection,
+  ): Promise<CooldownDocument | null> {
+    return this.cooldownRepository.getOne({
+      filter: { token, direction, until: { $gt: new Date() } },
+    });
+  }
+
+  async getActiveCooldowns(): Promise<CooldownDocument[]> {
+    return this.cooldownRepository.getAll({
+      filter: { until: { $gt: new Date() } },
+      queryOptions: { sort: { until: 1 } },
+    });
+  }
+
+  /**
+   * The perp's cooldown for the reason, HL_COOLDOWN_*_MINUTES when unset
+   */
+  private async getCooldownMinutes(
+    token: string,
+    reason: ExitReason,
+  ): Promise<number> {
+    const perp = await this.perpService.findByToken(token);
+    return (
+      perp?.cooldownMinutes?.[reason] ??
+      this.configService.get<number>(`hyperliquid.cooldownMinutes.${reason}`, 0)
+    );
+  }
+}
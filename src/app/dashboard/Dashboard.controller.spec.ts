@@ -7,10 +7,16 @@ import { DashboardService } from './Dashboard.service';
 import {
   createTestingModuleWithProviders,
   TradePositionStatus,
+  TradingDecisionOutcome,
 } from '../../shared';
 import { TimePeriod } from './Dashboard.dto';
 import { plainToInstance } from 'class-transformer';
-import { UpdatePositionExitFlagDto, UpdateSettingsDto } from '../../shared';
+import { validate } from 'class-validator';
+import {
+  UpdatePositionExitFlagDto,
+  UpdatePositionMarginDto,
+  UpdateSettingsDto,
+} from '../../shared';
 import { AuthService } from '../auth/Auth.service';
 
 describe('DashboardController', () => {
@@ -89,15 +95,36 @@ describe('DashboardController', () => {
     updatedAt: new Date(),
   };
 
+  const mockCircuitBreaker = {
+    maxDailyLossUsd: 100,
+    maxDrawdownPercent: 10,
+    flatten: false,
+    activeTrip: null,
+    snapshot: null,
+    recentTrips: [],
+  };
+
   beforeEach(async () => {
     mockDashboardService = {
       getAnalytics: jest.fn().mockResolvedValue(mockAnalytics),
       getPositions: jest.fn().mockResolvedValue(mockPaginatedPositions),
       updatePositionExitFlag: jest.fn().mockResolvedValue(mockPosition),
+      updatePositionMargin: jest.fn().mockResolvedValue(mockPosition),
       getAllPerps: jest.fn().mockResolvedValue([mockPerp]),
       updatePerp: jest.fn().mockResolvedValue(mockPerp),
       getSettings: jest.fn().mockResolvedValue(mockSettings),
       updateSettings: jest.fn().mockResolvedValue(mockSettings),
+      getDecisions: jest.fn().mockResolvedValue({
+        decisions: [],
+        total: 0,
+        limit: 50,
+        offset: 0,
+      }),
+      getDecision: jest.fn().mockResolvedValue(null),
+      getLatestReconciliationReport: jest.fn().mockResolvedValue(null),
+      getCircuitBreakerStatus: jest.fn().mockResolvedValue(mockCircuitBreaker),
+      rearmCircuitBreaker: jest.fn().mockResolvedValue(mockCircuitBreaker),
+      getActiveCooldowns: jest.fn().mockResolvedValue([]),
     } as any;
 
     mockConfigService = {
@@ -155,6 +182,7 @@ describe('DashboardController', () => {
         undefined,
         undefined,
         undefined,
+        undefined,
       );
     });
 
@@ -173,6 +201,7 @@ describe('DashboardController', () => {
         '2024-01-01',
         '2024-01-31',
         'BTC',
+        undefined,
       );
     });
   });
@@ -187,6 +216,7 @@ describe('DashboardController', () => {
         TradePositionStatus.OPEN,
         50,
         0,
+        undefined,
       );
     });
 
@@ -198,6 +228,7 @@ describe('DashboardController', () => {
         TradePositionStatus.OPEN,
         undefined,
         undefined,
+        undefined,
       );
     });
   });
@@ -236,6 +267,62 @@ describe('DashboardController', () => {
     });
   });
 
+  describe('updatePositionMargin', () => {
+    it('should pass the margin amount to the service', async () => {
+      const result = await controller.updatePositionMargin(
+        '507f1f77bcf86cd799439011',
+        { amount: -10 },
+      );
+
+      expect(result).toEqual(mockPosition);
+      expect(mockDashboardService.updatePositionMargin).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        -10,
+      );
+    });
+
+    it('should reject a zero amount', async () => {
+      const errors = await validate(
+        plainToInstance(UpdatePositionMarginDto, { amount: 0 }),
+      );
+
+      expect(errors).toHaveLength(1);
+    });
+
+    it('should throw NotFoundException if position not found', async () => {
+      mockDashboardService.updatePositionMargin.mockResolvedValue(null);
+
+      await expect(
+        controller.updatePositionMargin('invalid-id', { amount: 10 }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should return the circuit breaker status', async () => {
+      const result = await controller.getCircuitBreaker();
+
+      expect(result).toEqual(mockCircuitBreaker);
+      expect(mockDashboardService.getCircuitBreakerStatus).toHaveBeenCalled();
+    });
+
+    it('should re-arm the circuit breaker', async () => {
+      const result = await controller.rearmCircuitBreaker();
+
+      expect(result).toEqual(mockCircuitBreaker);
+      expect(mockDashboardService.rearmCircuitBreaker).toHaveBeenCalled();
+    });
+  });
+
+  describe('getCooldowns', () => {
+    it('should return the active cooldowns', async () => {
+      const result = await controller.getCooldowns();
+
+      expect(result).toEqual([]);
+      expect(mockDashboardService.getActiveCooldowns).toHaveBeenCalled();
+    });
+  });
+
   describe('getPerps', () => {
     it('should return all perps', async () => {
       const result = await controller.getPerps();
@@ -320,4 +407,38 @@ describe('DashboardController', () => {
       );
     });
   });
+
+  describe('getDecisions', () => {
+    it('should pass query filters to the service', async () => {
+      await controller.getDecisions({
+        token: 'BTC',
+        outcome: TradingDecisionOutcome.REJECTED,
+        limit: 10,
+        offset: 0,
+      });
+
+      expect(mockDashboardService.getDecisions).toHaveBeenCalledWith(
+        'BTC',
+        TradingDecisionOutcome.REJECTED,
+        undefined,
+        undefined,
+        10,
+        0,
+      );
+    });
+
+    it('should throw NotFoundException if decision not found', async () => {
+      await expect(controller.getDecision('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('getReconciliation', () => {
+    it('should throw NotFoundException if no report exists', async () => {
+      await expect(controller.getReconciliation()).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
 });
@@ -2,6 +2,7 @@ import {
   Controller,
   Get,
   Patch,
+  Post,
   Body,
   Param,
   Query,
@@ -15,14 +16,21 @@ import {
   DashboardAnalytics,
   PaginatedPositionsResponse,
   PositionResponse,
+  GetDecisionsQueryDto,
+  PaginatedDecisionsResponse,
+  DecisionResponse,
 } from './Dashboard.dto';
 import { PerpDocument } from '../perps/Perp.schema';
 import { SettingsDocument } from '../settings/Settings.schema';
+import { ReconciliationReportDocument } from '../reconciliation/Reconciliation.schema';
+import { CircuitBreakerStatus } from '../circuit-breaker/CircuitBreaker.service';
+import { CooldownDocument } from '../cooldown/Cooldown.schema';
 import { JwtAuthGuard } from '../auth/guards/Jwt-auth.guard';
 import {
   UpdatePerpDto,
   UpdateSettingsDto,
   UpdatePositionExitFlagDto,
+  UpdatePositionMarginDto,
 } from '../../shared';
 import { CsrfGuard } from '../auth/guards/Csrf.guard';
 
@@ -40,6 +48,7 @@ export class DashboardController {
       query.startDate,
       query.endDate,
       query.token,
+      query.isPaper,
     );
   }
 
@@ -51,6 +60,7 @@ export class DashboardController {
       query.status,
       query.limit,
       query.offset,
+      query.isPaper,
     );
   }
 
@@ -72,6 +82,76 @@ export class DashboardController {
     return position;
   }
 
+  @Post('positions/:id/margin')
+  @UseGuards(CsrfGuard)
+  async updatePositionMargin(
+    @Param('id') id: string,
+    @Body() body: UpdatePositionMarginDto,
+  ): Promise<PositionResponse> {
+    const position = await this.dashboardService.updatePositionMargin(
+      id,
+      body.amount,
+    );
+
+    if (!position) {
+      throw new NotFoundException(`Position with id ${id} not found`);
+    }
+
+    return position;
+  }
+
+  @Get('decisions')
+  async getDecisions(
+    @Query() query: GetDecisionsQueryDto,
+  ): Promise<PaginatedDecisionsResponse> {
+    return this.dashboardService.getDecisions(
+      query.token,
+      query.outcome,
+      query.startDate,
+      query.endDate,
+      query.limit,
+      query.offset,
+    );
+  }
+
+  @Get('decisions/:id')
+  async getDecision(@Param('id') id: string): Promise<DecisionResponse> {
+    const decision = await this.dashboardService.getDecision(id);
+
+    if (!decision) {
+      throw new NotFoundException(`Decision with id ${id} not found`);
+    }
+
+    return decision;
+  }
+
+  @Get('reconciliation')
+  async getReconciliation(): Promise<ReconciliationReportDocument> {
+    const report = await this.dashboardService.getLatestReconciliationReport();
+
+    if (!report) {
+      throw new NotFoundException('No reconciliation report found');
+    }
+
+    return report;
+  }
+
+  @Get('circuit-breaker')
+  async getCircuitBreaker(): Promise<CircuitBreakerStatus> {
+    return this.dashboardService.getCircuitBreakerStatus();
+  }
+
+  @Post('circuit-breaker/rearm')
+  @UseGuards(CsrfGuard)
+  async rearmCircuitBreaker(): Promise<CircuitBreakerStatus> {
+    return this.dashboardService.rearmCircuitBreaker();
+  }
+
+  @Get('cooldowns')
+  async getCooldowns(): Promise<CooldownDocument[]> {
+    return this.dashboardService.getActiveCooldowns();
+  }
+
   @Get('perps')
   async getPerps(): Promise<PerpDocument[]> {
     return this.dashboardService.getAllPerps();
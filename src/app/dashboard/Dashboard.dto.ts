@@ -3,11 +3,12 @@ import {
   IsOptional,
   IsDateString,
   IsNumber,
+  IsBoolean,
   Min,
   Max,
 } from 'class-validator';
-import { Type } from 'class-transformer';
-import { TradePositionStatus } from '../../shared';
+import { Transform, Type } from 'class-transformer';
+import { TradePositionStatus, TradingDecisionOutcome } from '../../shared';
 
 export enum TimePeriod {
   LAST_7_DAYS = 'LAST_7_DAYS',
@@ -18,6 +19,13 @@ export enum TimePeriod {
   CUSTOM = 'CUSTOM',
 }
 
+// Query strings carry booleans as 'true'/'false'
+const toOptionalBoolean = ({ value }: { value: unknown }): unknown => {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return value;
+};
+
 export class GetAnalyticsQueryDto {
   @IsOptional()
   @IsEnum(TimePeriod)
@@ -33,6 +41,11 @@ export class GetAnalyticsQueryDto {
 
   @IsOptional()
   token?: string;
+
+  @IsOptional()
+  @Transform(toOptionalBoolean)
+  @IsBoolean()
+  isPaper?: boolean;
 }
 
 export class GetPositionsQueryDto {
@@ -53,10 +66,51 @@ export class GetPositionsQueryDto {
   @Min(0)
   @Max(100000) // ✅ Prevent DoS with reasonable limit
   offset?: number = 0;
+
+  @IsOptional()
+  @Transform(toOptionalBoolean)
+  @IsBoolean()
+  isPaper?: boolean;
+}
+
+export class GetDecisionsQueryDto {
+  @IsOptional()
+  token?: string;
+
+  @IsOptional()
+  @IsEnum(TradingDecisionOutcome)
+  outcome?: TradingDecisionOutcome;
+
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(1000)
+  limit?: number = 50;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100000)
+  offset?: number = 0;
 }
 
 export interface DashboardOverview {
+  // Gross realized PnL, before fees and funding
   totalPnl: number;
+  totalFees: number;
+  totalFundingPaid: number;
+  // Realized PnL minus fees and funding paid
+  totalNetPnl: number;
   totalVolume: number;
   winRate: number;
   openPositionsCount: number;
@@ -67,11 +121,13 @@ export interface DashboardOverview {
 export interface TimeSeriesDataPoint {
   date: string;
   pnl: number;
+  netPnl: number;
 }
 
 export interface TokenBreakdown {
   token: string;
   totalPnl: number;
+  totalNetPnl: number;
   totalVolume: number;
   winRate: number;
   tradeCount: number;
@@ -94,9 +150,18 @@ export interface PositionResponse {
   currentPrice?: number;
   takeProfitPrice?: number;
   stopLossPrice?: number;
+  // Gross realized PnL, before fees and funding
   realizedPnl?: number;
+  totalFees: number;
+  // Realized PnL minus fees
+  netRealizedPnl: number;
+  // Positive when funding was paid, negative when received
+  fundingPaid: number;
+  // Realized PnL minus fees and funding paid
+  netPnl: number;
   leverage?: number;
   exitFlag?: boolean;
+  isPaper?: boolean;
   timeOpened?: Date;
   timeClosed?: Date;
   pnlPercent?: number;
@@ -108,3 +173,26 @@ export interface PaginatedPositionsResponse {
   limit: number;
   offset: number;
 }
+
+export interface DecisionResponse {
+  id: string;
+  platform: string;
+  token: string;
+  outcome: TradingDecisionOutcome;
+  shouldTrade: boolean;
+  reason?: string;
+  confidence?: number;
+  recommendedAmount?: number;
+  direction?: string;
+  metadata?: Record<string, unknown>;
+  entryError?: string;
+  positionId?: string;
+  createdAt?: Date;
+}
+
+export interface PaginatedDecisionsResponse {
+  decisions: DecisionResponse[];
+  total: number;
+  limit: number;
+  offset: number;
+}
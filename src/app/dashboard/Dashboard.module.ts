@@ -6,9 +6,24 @@ import { PerpModule } from '../perps/Perp.module';
 import { SettingsModule } from '../settings/Settings.module';
 import { CsrfGuard } from '../auth/guards/Csrf.guard';
 import { AuthModule } from '../auth/Auth.module';
+import { TradingDecisionModule } from '../trading-decision/TradingDecision.module';
+import { ReconciliationModule } from '../reconciliation/Reconciliation.module';
+import { HyperliquidModule } from '../hyperliquid/Hyperliquid.module';
+import { CircuitBreakerModule } from '../circuit-breaker/CircuitBreaker.module';
+import { CooldownModule } from '../cooldown/Cooldown.module';
 
 @Module({
-  imports: [TradePositionModule, PerpModule, SettingsModule, AuthModule],
+  imports: [
+    TradePositionModule,
+    PerpModule,
+    SettingsModule,
+    AuthModule,
+    TradingDecisionModule,
+    ReconciliationModule,
+    HyperliquidModule,
+    CircuitBreakerModule,
+    CooldownModule,
+  ],
   controllers: [DashboardController],
   providers: [DashboardService, CsrfGuard],
   exports: [DashboardService],
@@ -1,13 +1,20 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
 import { DashboardService } from './Dashboard.service';
 import {
   createTestingModuleWithProviders,
   TradePositionStatus,
+  TradingDecisionOutcome,
 } from '../../shared';
 import { TradePositionRepository } from '../trade-position/TradePosition.repository';
 import { PerpRepository } from '../perps/Perp.repository';
 import { SettingsRepository } from '../settings/Settings.repository';
+import { TradingDecisionRepository } from '../trading-decision/TradingDecision.repository';
+import { ReconciliationReportRepository } from '../reconciliation/Reconciliation.repository';
+import { HyperliquidPlatformService } from '../hyperliquid/HyperliquidPlatform.service';
+import { CircuitBreakerService } from '../circuit-breaker/CircuitBreaker.service';
+import { CooldownService } from '../cooldown/Cooldown.service';
 import { TimePeriod } from './Dashboard.dto';
 import { Platform, PositionDirection, Currency } from '../../shared';
 
@@ -16,6 +23,11 @@ describe('DashboardService', () => {
   let mockTradePositionRepository: jest.Mocked<TradePositionRepository>;
   let mockPerpRepository: jest.Mocked<PerpRepository>;
   let mockSettingsRepository: jest.Mocked<SettingsRepository>;
+  let mockTradingDecisionRepository: jest.Mocked<TradingDecisionRepository>;
+  let mockReconciliationReportRepository: jest.Mocked<ReconciliationReportRepository>;
+  let mockHyperliquidPlatformService: jest.Mocked<HyperliquidPlatformService>;
+  let mockCircuitBreakerService: jest.Mocked<CircuitBreakerService>;
+  let mockCooldownService: jest.Mocked<CooldownService>;
   let module: TestingModule;
 
   const mockPosition = {
@@ -68,11 +80,27 @@ describe('DashboardService', () => {
     updatedAt: new Date(),
   };
 
+  const mockDecision = {
+    _id: '507f1f77bcf86cd799439015',
+    platform: Platform.HYPERLIQUID,
+    token: 'BTC',
+    outcome: TradingDecisionOutcome.ENTERED,
+    shouldTrade: true,
+    reason: 'Predictor BUY with confidence 0.8',
+    confidence: 0.8,
+    recommendedAmount: 100,
+    direction: PositionDirection.LONG,
+    metadata: { trend: 'UP' },
+    position: '507f1f77bcf86cd799439011',
+    createdAt: new Date('2024-01-01'),
+  };
+
   beforeEach(async () => {
     mockTradePositionRepository = {
       getAll: jest.fn().mockResolvedValue([mockPosition, mockClosedPosition]),
       count: jest.fn().mockResolvedValue(2),
       updateById: jest.fn(),
+      getById: jest.fn(),
     } as any;
 
     mockPerpRepository = {
@@ -86,6 +114,29 @@ describe('DashboardService', () => {
       create: jest.fn(),
     } as any;
 
+    mockTradingDecisionRepository = {
+      getAll: jest.fn().mockResolvedValue([mockDecision]),
+      count: jest.fn().mockResolvedValue(1),
+      getById: jest.fn().mockResolvedValue(mockDecision),
+    } as any;
+
+    mockReconciliationReportRepository = {
+      getAll: jest.fn().mockResolvedValue([]),
+    } as any;
+
+    mockHyperliquidPlatformService = {
+      updateIsolatedMargin: jest.fn(),
+    } as any;
+
+    mockCircuitBreakerService = {
+      getStatus: jest.fn(),
+      rearm: jest.fn(),
+    } as any;
+
+    mockCooldownService = {
+      getActiveCooldowns: jest.fn(),
+    } as any;
+
     module = await createTestingModuleWithProviders({
       providers: [
         DashboardService,
@@ -101,6 +152,26 @@ describe('DashboardService', () => {
           provide: SettingsRepository,
           useValue: mockSettingsRepository,
         },
+        {
+          provide: TradingDecisionRepository,
+          useValue: mockTradingDecisionRepository,
+        },
+        {
+          provide: ReconciliationReportRepository,
+          useValue: mockReconciliationReportRepository,
+        },
+        {
+          provide: HyperliquidPlatformService,
+          useValue: mockHyperliquidPlatformService,
+        },
+        {
+          provide: CircuitBreakerService,
+          useValue: mockCircuitBreakerService,
+        },
+        {
+          provide: CooldownService,
+          useValue: mockCooldownService,
+        },
       ],
     }).compile();
 
@@ -139,6 +210,26 @@ describe('DashboardService', () => {
       expect(result.overview.winRate).toBe(50); // 1 winning trade out of 2
     });
 
+    it('should report PnL net of fees and funding', async () => {
+      mockTradePositionRepository.getAll.mockResolvedValue([
+        { ...mockPosition, totalFees: 2, fundingPaid: 5 },
+        { ...mockClosedPosition, totalFees: 4, fundingPaid: 12 },
+      ] as any);
+
+      const result = await service.getAnalytics(TimePeriod.LAST_30_DAYS);
+
+      expect(result.overview.totalPnl).toBe(100);
+      expect(result.overview.totalFees).toBe(6);
+      expect(result.overview.totalFundingPaid).toBe(17);
+      expect(result.overview.totalNetPnl).toBe(77);
+      expect(result.timeSeries).toEqual([
+        { date: '2024-01-02', pnl: 100, netPnl: 84 },
+      ]);
+      expect(result.tokenBreakdown[0]).toEqual(
+        expect.objectContaining({ totalPnl: 100, totalNetPnl: 77 }),
+      );
+    });
+
     it('should filter by token when provided', async () => {
       await service.getAnalytics(
         TimePeriod.LAST_30_DAYS,
@@ -200,6 +291,24 @@ describe('DashboardService', () => {
       });
     });
 
+    it('should filter paper positions', async () => {
+      await service.getPositions(undefined, 50, 0, true);
+
+      expect(mockTradePositionRepository.getAll).toHaveBeenCalledWith({
+        filter: { isPaper: true },
+        queryOptions: expect.any(Object),
+      });
+    });
+
+    it('should treat positions without isPaper as live', async () => {
+      await service.getPositions(undefined, 50, 0, false);
+
+      expect(mockTradePositionRepository.getAll).toHaveBeenCalledWith({
+        filter: { isPaper: { $ne: true } },
+        queryOptions: expect.any(Object),
+      });
+    });
+
     it('should calculate PnL percentage correctly', async () => {
       const result = await service.getPositions(undefined, 50, 0);
       const position = result.positions[0];
@@ -208,6 +317,24 @@ describe('DashboardService', () => {
       // LONG position: (51000 - 50000) / 50000 * 100 = 2%
       expect(position.pnlPercent).toBe(2);
     });
+
+    it('should return gross and net PnL after fees and funding', async () => {
+      mockTradePositionRepository.getAll.mockResolvedValueOnce([
+        { ...mockClosedPosition, totalFees: 3, fundingPaid: 12.5 },
+      ] as any);
+
+      const result = await service.getPositions(undefined, 50, 0);
+
+      expect(result.positions[0]).toEqual(
+        expect.objectContaining({
+          realizedPnl: 100,
+          totalFees: 3,
+          netRealizedPnl: 97,
+          fundingPaid: 12.5,
+          netPnl: 84.5,
+        }),
+      );
+    });
   });
 
   describe('updatePositionExitFlag', () => {
@@ -239,6 +366,48 @@ describe('DashboardService', () => {
     });
   });
 
+  describe('updatePositionMargin', () => {
+    it('should adjust the isolated margin of the position', async () => {
+      mockTradePositionRepository.getById.mockResolvedValue(
+        mockPosition as any,
+      );
+
+      const result = await service.updatePositionMargin(
+        '507f1f77bcf86cd799439011',
+        25,
+      );
+
+      expect(result?.token).toBe('BTC');
+      expect(
+        mockHyperliquidPlatformService.updateIsolatedMargin,
+      ).toHaveBeenCalledWith(mockPosition, 25);
+    });
+
+    it('should turn a rejected adjustment into a bad request', async () => {
+      mockTradePositionRepository.getById.mockResolvedValue(
+        mockPosition as any,
+      );
+      mockHyperliquidPlatformService.updateIsolatedMargin.mockRejectedValue(
+        new Error('Position for BTC is not isolated'),
+      );
+
+      await expect(
+        service.updatePositionMargin('507f1f77bcf86cd799439011', 25),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should return null if position not found', async () => {
+      mockTradePositionRepository.getById.mockResolvedValue(null);
+
+      const result = await service.updatePositionMargin('invalid-id', 25);
+
+      expect(result).toBeNull();
+      expect(
+        mockHyperliquidPlatformService.updateIsolatedMargin,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getAllPerps', () => {
     it('should return all perps', async () => {
       const result = await service.getAllPerps();
@@ -269,6 +438,18 @@ describe('DashboardService', () => {
         updates,
       );
     });
+
+    it('should reject a take-profit ladder closing more than the position', async () => {
+      await expect(
+        service.updatePerp('507f1f77bcf86cd799439013', {
+          takeProfitLadder: [
+            { rMultiple: 1, sizePercent: 60 },
+            { rMultiple: 2, sizePercent: 50 },
+          ],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPerpRepository.updateById).not.toHaveBeenCalled();
+    });
   });
 
   describe('getSettings', () => {
@@ -319,4 +500,119 @@ describe('DashboardService', () => {
       });
     });
   });
+
+  describe('getDecisions', () => {
+    it('should return paginated decisions newest first', async () => {
+      const result = await service.getDecisions();
+
+      expect(result).toEqual({
+        decisions: [
+          expect.objectContaining({
+            id: mockDecision._id,
+            token: 'BTC',
+            outcome: TradingDecisionOutcome.ENTERED,
+            positionId: mockDecision.position,
+          }),
+        ],
+        total: 1,
+        limit: 50,
+        offset: 0,
+      });
+      expect(mockTradingDecisionRepository.getAll).toHaveBeenCalledWith({
+        filter: {},
+        queryOptions: { limit: 50, skip: 0, sort: { createdAt: -1 } },
+      });
+    });
+
+    it('should filter by token, outcome and time range', async () => {
+      await service.getDecisions(
+        'BTC',
+        TradingDecisionOutcome.REJECTED,
+        '2024-01-01T00:00:00.000Z',
+        '2024-01-02T00:00:00.000Z',
+        10,
+        20,
+      );
+
+      const filter = {
+        token: 'BTC',
+        outcome: TradingDecisionOutcome.REJECTED,
+        createdAt: {
+          $gte: new Date('2024-01-01T00:00:00.000Z'),
+          $lte: new Date('2024-01-02T00:00:00.000Z'),
+        },
+      };
+      expect(mockTradingDecisionRepository.getAll).toHaveBeenCalledWith({
+        filter,
+        queryOptions: { limit: 10, skip: 20, sort: { createdAt: -1 } },
+      });
+      expect(mockTradingDecisionRepository.count).toHaveBeenCalledWith(filter);
+    });
+  });
+
+  describe('getDecision', () => {
+    it('should return null if decision not found', async () => {
+      mockTradingDecisionRepository.getById.mockResolvedValue(null);
+
+      const result = await service.getDecision('missing');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('getLatestReconciliationReport', () => {
+    it('should return the newest report', async () => {
+      const report = { _id: 'report-id', discrepancies: [] };
+      mockReconciliationReportRepository.getAll.mockResolvedValue([
+        report as any,
+      ]);
+
+      const result = await service.getLatestReconciliationReport();
+
+      expect(result).toBe(report);
+      expect(mockReconciliationReportRepository.getAll).toHaveBeenCalledWith({
+        queryOptions: { limit: 1, sort: { createdAt: -1 } },
+      });
+    });
+
+    it('should return null if no reconciliation has run', async () => {
+      const result = await service.getLatestReconciliationReport();
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('rearmCircuitBreaker', () => {
+    it('should return the status after re-arming', async () => {
+      const status = { activeTrip: null, recentTrips: [] };
+      mockCircuitBreakerService.rearm.mockResolvedValue(status as any);
+
+      const result = await service.rearmCircuitBreaker();
+
+      expect(result).toBe(status);
+    });
+
+    it('should turn a refused re-arm into a bad request', async () => {
+      mockCircuitBreakerService.rearm.mockRejectedValue(
+        new Error('Circuit breaker is not tripped'),
+      );
+
+      await expect(service.rearmCircuitBreaker()).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('getActiveCooldowns', () => {
+    it('should return the cooldowns that are still running', async () => {
+      const cooldowns = [{ token: 'BTC', direction: 'LONG' }];
+      mockCooldownService.getActiveCooldowns.mockResolvedValue(
+        cooldowns as any,
+      );
+
+      const result = await service.getActiveCooldowns();
+
+      expect(result).toBe(cooldowns);
+    });
+  });
 });
@@ -1,4 +1,4 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { TradePositionRepository } from '../trade-position/TradePosition.repository';
 import { PerpRepository } from '../perps/Perp.repository';
 import { SettingsRepository } from '../settings/Settings.repository';
@@ -10,8 +10,10 @@ import {
   TokenBreakdown,
   PositionResponse,
   PaginatedPositionsResponse,
+  DecisionResponse,
+  PaginatedDecisionsResponse,
 } from './Dashboard.dto';
-import { TradePositionStatus } from '../../shared';
+import { TradePositionStatus, TradingDecisionOutcome } from '../../shared';
 import {
   TradePosition,
   TradePositionDocument,
@@ -19,6 +21,20 @@ import {
 import { PerpDocument } from '../perps/Perp.schema';
 import { UpdatePerpDto } from '../perps/Perp.service';
 import { SettingsDocument } from '../settings/Settings.schema';
+import { TradingDecisionRepository } from '../trading-decision/TradingDecision.repository';
+import {
+  TradingDecision,
+  TradingDecisionDocument,
+} from '../trading-decision/TradingDecision.schema';
+import { ReconciliationReportRepository } from '../reconciliation/Reconciliation.repository';
+import { ReconciliationReportDocument } from '../reconciliation/Reconciliation.schema';
+import { HyperliquidPlatformService } from '../hyperliquid/HyperliquidPlatform.service';
+import {
+  CircuitBreakerService,
+  CircuitBreakerStatus,
+} from '../circuit-breaker/CircuitBreaker.service';
+import { CooldownService } from '../cooldown/Cooldown.service';
+import { CooldownDocument } from '../cooldown/Cooldown.schema';
 import { FilterQuery } from 'mongoose';
 
 @Injectable()
@@ -29,6 +45,11 @@ export class DashboardService {
     private readonly tradePositionRepository: TradePositionRepository,
     private readonly perpRepository: PerpRepository,
     private readonly settingsRepository: SettingsRepository,
+    private readonly tradingDecisionRepository: TradingDecisionRepository,
+    private readonly reconciliationReportRepository: ReconciliationReportRepository,
+    private readonly hyperliquidPlatformService: HyperliquidPlatformService,
+    private readonly circuitBreakerService: CircuitBreakerService,
+    private readonly cooldownService: CooldownService,
   ) {}
 
   async getAnalytics(
@@ -36,6 +57,7 @@ export class DashboardService {
     startDate?: string,
     endDate?: string,
     token?: string,
+    isPaper?: boolean,
   ): Promise<DashboardAnalytics> {
     const dateRange = this.getDateRange(period, startDate, endDate);
     const filter: FilterQuery<TradePosition> = {
@@ -49,6 +71,8 @@ export class DashboardService {
       filter.token = token;
     }
 
+    this.applyPaperFilter(filter, isPaper);
+
     // ✅ Use aggregation pipeline instead of loading all positions into memory
     const [overview, timeSeries, tokenBreakdown] = await Promise.all([
       this.calculateOverviewAggregation(filter),
@@ -67,12 +91,15 @@ export class DashboardService {
     status?: TradePositionStatus,
     limit: number = 50,
     offset: number = 0,
+    isPaper?: boolean,
   ): Promise<PaginatedPositionsResponse> {
     const filter: FilterQuery<TradePosition> = {};
     if (status) {
       filter.status = status;
     }
 
+    this.applyPaperFilter(filter, isPaper);
+
     const positions = await this.tradePositionRepository.getAll({
       filter,
       queryOptions: {
@@ -111,6 +138,29 @@ export class DashboardService {
     return this.mapPositionToResponse(position);
   }
 
+  async updatePositionMargin(
+    id: string,
+    amount: number,
+  ): Promise<PositionResponse | null> {
+    const position = await this.tradePositionRepository.getById(id);
+
+    if (!position) {
+      return null;
+    }
+
+    try {
+      await this.hyperliquidPlatformService.updateIsolatedMargin(
+        position,
+        amount,
+      );
+    } catch (error) {
+      // Not open, not isolated or rejected by the exchange
+      throw new BadRequestException(error.message);
+    }
+
+    return this.mapPositionToResponse(position);
+  }
+
   async getAllPerps(): Promise<PerpDocument[]> {
     return this.perpRepository.getAll();
   }
@@ -119,6 +169,16 @@ export class DashboardService {
     id: string,
     updateDto: UpdatePerpDto,
   ): Promise<PerpDocument | null> {
+    const ladderPercent = (updateDto.takeProfitLadder || []).reduce(
+      (sum, rung) => sum + rung.sizePercent,
+      0,
+    );
+    if (ladderPercent > 100) {
+      throw new BadRequestException(
+        `Take-profit ladder closes ${ladderPercent}% of the position, at most 100% allowed`,
+      );
+    }
+
     return this.perpRepository.updateById(id, updateDto);
   }
 
@@ -146,6 +206,93 @@ export class DashboardService {
     return this.settingsRepository.create({ closeAllPositions });
   }
 
+  async getDecisions(
+    token?: string,
+    outcome?: TradingDecisionOutcome,
+    startDate?: string,
+    endDate?: string,
+    limit: number = 50,
+    offset: number = 0,
+  ): Promise<PaginatedDecisionsResponse> {
+    const filter: FilterQuery<TradingDecision> = {};
+    if (token) {
+      filter.token = token;
+    }
+    if (outcome) {
+      filter.outcome = outcome;
+    }
+    if (startDate || endDate) {
+      filter.createdAt = {
+        ...(startDate && { $gte: new Date(startDate) }),
+        ...(endDate && { $lte: new Date(endDate) }),
+      };
+    }
+
+    const decisions = await this.tradingDecisionRepository.getAll({
+      filter,
+      queryOptions: {
+        limit,
+        skip: offset,
+        sort: { createdAt: -1 },
+      },
+    });
+
+    const total = await this.tradingDecisionRepository.count(filter);
+
+    return {
+      decisions: decisions.map((decision) =>
+        this.mapDecisionToResponse(decision),
+      ),
+      total,
+      limit,
+      offset,
+    };
+  }
+
+  async getDecision(id: string): Promise<DecisionResponse | null> {
+    const decision = await this.tradingDecisionRepository.getById(id);
+    return decision ? this.mapDecisionToResponse(decision) : null;
+  }
+
+  async getLatestReconciliationReport(): Promise<ReconciliationReportDocument | null> {
+    const [report] = await this.reconciliationReportRepository.getAll({
+      queryOptions: { limit: 1, sort: { createdAt: -1 } },
+    });
+    return report || null;
+  }
+
+  async getCircuitBreakerStatus(): Promise<CircuitBreakerStatus> {
+    return this.circuitBreakerService.getStatus();
+  }
+
+  async rearmCircuitBreaker(): Promise<CircuitBreakerStatus> {
+    try {
+      return await this.circuitBreakerService.rearm();
+    } catch (error) {
+      // Not tripped, or the account could not be read to restart from
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  async getActiveCooldowns(): Promise<CooldownDocument[]> {
+    return this.cooldownService.getActiveCooldowns();
+  }
+
+  /**
+   * Restrict to paper or live positions; positions created before paper
+   * trading existed have no isPaper field and count as live
+   */
+  private applyPaperFilter(
+    filter: FilterQuery<TradePosition>,
+    isPaper?: boolean,
+  ): void {
+    if (isPaper === true) {
+      filter.isPaper = true;
+    } else if (isPaper === false) {
+      filter.isPaper = { $ne: true };
+    }
+  }
+
   private getDateRange(
     period?: TimePeriod,
     startDate?: string,
@@ -184,6 +331,8 @@ export class DashboardService {
     positions: TradePositionDocument[],
   ): DashboardOverview {
     let totalPnl = 0;
+    let totalFees = 0;
+    let totalFundingPaid = 0;
     let totalVolume = 0;
     let winningTrades = 0;
     let openPositionsCount = 0;
@@ -198,6 +347,8 @@ export class DashboardService {
 
       const pnl = position.totalRealizedPnl || position.realizedPnl || 0;
       totalPnl += pnl;
+      totalFees += position.totalFees || 0;
+      totalFundingPaid += position.fundingPaid || 0;
       totalVolume += position.amountIn || 0;
 
       if (pnl > 0) {
@@ -210,6 +361,9 @@ export class DashboardService {
 
     return {
       totalPnl,
+      totalFees,
+      totalFundingPaid,
+      totalNetPnl: totalPnl - totalFees - totalFundingPaid,
       totalVolume,
       winRate,
       openPositionsCount,
@@ -221,7 +375,7 @@ export class DashboardService {
   private calculateTimeSeries(
     positions: TradePositionDocument[],
   ): TimeSeriesDataPoint[] {
-    const dailyPnl = new Map<string, number>();
+    const dailyPnl = new Map<string, { pnl: number; netPnl: number }>();
 
     // Only create entries for dates that have data (optimization)
     // This avoids creating 365+ Date objects for large date ranges
@@ -229,15 +383,18 @@ export class DashboardService {
       if (position.timeClosed) {
         const dateKey = position.timeClosed.toISOString().split('T')[0];
         const pnl = position.totalRealizedPnl || position.realizedPnl || 0;
-        const currentPnl = dailyPnl.get(dateKey) || 0;
-        dailyPnl.set(dateKey, currentPnl + pnl);
+        const current = dailyPnl.get(dateKey) || { pnl: 0, netPnl: 0 };
+        dailyPnl.set(dateKey, {
+          pnl: current.pnl + pnl,
+          netPnl: current.netPnl + this.getNetPnl(position),
+        });
       }
     }
 
     // Convert to array and sort by date
     // Frontend charts can handle sparse data (gaps are fine)
     return Array.from(dailyPnl.entries())
-      .map(([date, pnl]) => ({ date, pnl }))
+      .map(([date, { pnl, netPnl }]) => ({ date, pnl, netPnl }))
       .sort((a, b) => a.date.localeCompare(b.date));
   }
 
@@ -248,6 +405,7 @@ export class DashboardService {
       string,
       {
         totalPnl: number;
+        totalNetPnl: number;
         totalVolume: number;
         winningTrades: number;
         totalTrades: number;
@@ -258,6 +416,7 @@ export class DashboardService {
       const token = position.token || 'UNKNOWN';
       const stats = tokenStats.get(token) || {
         totalPnl: 0,
+        totalNetPnl: 0,
         totalVolume: 0,
         winningTrades: 0,
         totalTrades: 0,
@@ -265,6 +424,7 @@ export class DashboardService {
 
       const pnl = position.totalRealizedPnl || position.realizedPnl || 0;
       stats.totalPnl += pnl;
+      stats.totalNetPnl += this.getNetPnl(position);
       stats.totalVolume += position.amountIn || 0;
       stats.totalTrades++;
 
@@ -280,6 +440,7 @@ export class DashboardService {
       .map(([token, stats]) => ({
         token,
         totalPnl: stats.totalPnl,
+        totalNetPnl: stats.totalNetPnl,
         totalVolume: stats.totalVolume,
         winRate:
           stats.totalTrades > 0
@@ -290,6 +451,25 @@ export class DashboardService {
       .sort((a, b) => b.totalPnl - a.totalPnl); // Sort by PnL descending
   }
 
+  /**
+   * Realized PnL minus fees
+   * Computed from totalFees so positions stored before fees were tracked
+   * report their gross PnL
+   */
+  private getNetRealizedPnl(position: TradePositionDocument): number {
+    return (
+      (position.totalRealizedPnl || position.realizedPnl || 0) -
+      (position.totalFees || 0)
+    );
+  }
+
+  /**
+   * Realized PnL minus fees and the funding paid while the position was open
+   */
+  private getNetPnl(position: TradePositionDocument): number {
+    return this.getNetRealizedPnl(position) - (position.fundingPaid || 0);
+  }
+
   private mapPositionToResponse(
     position: TradePositionDocument,
   ): PositionResponse {
@@ -317,8 +497,13 @@ export class DashboardService {
       takeProfitPrice: position.takeProfitPrice,
       stopLossPrice: position.stopLossPrice,
       realizedPnl: position.totalRealizedPnl || position.realizedPnl,
+      totalFees: position.totalFees || 0,
+      netRealizedPnl: this.getNetRealizedPnl(position),
+      fundingPaid: position.fundingPaid || 0,
+      netPnl: this.getNetPnl(position),
       leverage: position.leverage,
       exitFlag: position.exitFlag,
+      isPaper: !!position.isPaper,
       timeOpened: position.timeOpened,
       timeClosed: position.timeClosed,
       pnlPercent,
@@ -358,4 +543,24 @@ export class DashboardService {
     });
     return this.calculateTokenBreakdown(positions);
   }
+
+  private mapDecisionToResponse(
+    decision: TradingDecisionDocument,
+  ): DecisionResponse {
+    return {
+      id: decision._id.toString(),
+      platform: decision.platform,
+      token: decision.token,
+      outcome: decision.outcome,
+      shouldTrade: decision.shouldTrade,
+      reason: decision.reason,
+      confidence: decision.confidence,
+      recommendedAmount: decision.recommendedAmount,
+      direction: decision.direction,
+      metadata: decision.metadata,
+      entryError: decision.entryError,
+      positionId: decision.position ? String(decision.position) : undefined,
+      createdAt: decision.createdAt,
+    };
+  }
 }
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { FundingPayment, FundingPaymentSchema } from './FundingPayment.schema';
+import { FundingService } from './Funding.service';
+import { FundingPaymentRepository } from './FundingPayment.repository';
+import { HyperliquidModule } from '../hyperliquid/Hyperliquid.module';
+import { TradePositionModule } from '../trade-position/TradePosition.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: FundingPayment.name, schema: FundingPaymentSchema },
+    ]),
+    HyperliquidModule,
+    TradePositionModule,
+  ],
+  providers: [FundingService, FundingPaymentRepository],
+  exports: [FundingService, FundingPaymentRepository],
+})
+export class FundingModule {}
@@ -0,0 +1,248 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { FundingService } from './Funding.service';
+import { FundingPaymentRepository } from './FundingPayment.repository';
+import { HyperliquidService } from '../../infrastructure/hyperliquid/HyperliquidService';
+import { TradePositionService } from '../trade-position/TradePosition.service';
+import {
+  HLUserFunding,
+  Platform,
+  PositionDirection,
+  TradePositionStatus,
+} from '../../shared';
+
+describe('FundingService', () => {
+  let service: FundingService;
+  let hyperliquidService: jest.Mocked<HyperliquidService>;
+  let tradePositionService: jest.Mocked<TradePositionService>;
+  let fundingPaymentRepository: jest.Mocked<FundingPaymentRepository>;
+  let config: Record<string, unknown>;
+
+  const HOUR = 60 * 60 * 1000;
+  const now = Date.now();
+
+  const payment = (
+    coin: string,
+    time: number,
+    usdc: string,
+    szi = '0.1',
+  ): HLUserFunding => ({
+    delta: { coin, fundingRate: '0.0001', szi, type: 'funding', usdc },
+    hash: '0x0000000000000000000000000000000000000000000000000000000000000000',
+    time,
+  });
+
+  const position = (overrides: Record<string, unknown> = {}): any => ({
+    _id: 'position-id',
+    token: 'BTC',
+    status: TradePositionStatus.OPEN,
+    positionDirection: PositionDirection.LONG,
+    timeOpened: new Date(now - 5 * HOUR),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    config = {
+      'hyperliquid.enabled': true,
+      'hyperliquid.paperTrading': false,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FundingService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key in config ? config[key] : defaultValue,
+            ),
+          },
+        },
+        {
+          provide: HyperliquidService,
+          useValue: { getUserFunding: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: TradePositionService,
+          useValue: {
+            getPositionsOpenBetween: jest.fn().mockResolvedValue([]),
+            updateTradePosition: jest.fn(),
+          },
+        },
+        {
+          provide: FundingPaymentRepository,
+          useValue: {
+            getLast: jest.fn().mockResolvedValue(undefined),
+            getOneAndUpdate: jest.fn().mockResolvedValue(null),
+            getAll: jest.fn().mockResolvedValue([]),
+            updateById: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(FundingService);
+    hyperliquidService = module.get(HyperliquidService);
+    tradePositionService = module.get(TradePositionService);
+    fundingPaymentRepository = module.get(FundingPaymentRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should skip paper trading', async () => {
+    config['hyperliquid.paperTrading'] = true;
+
+    expect(await service.syncFunding()).toBeNull();
+    expect(hyperliquidService.getUserFunding).not.toHaveBeenCalled();
+  });
+
+  it('should continue from the last stored payment', async () => {
+    const lastTime = new Date(now - 2 * HOUR);
+    fundingPaymentRepository.getLast.mockResolvedValue({
+      time: lastTime,
+    } as any);
+
+    expect(await service.syncFunding()).toBe(0);
+    expect(hyperliquidService.getUserFunding).toHaveBeenCalledWith(
+      lastTime.getTime() + 1,
+      expect.any(Number),
+    );
+  });
+
+  it('should attribute payments to the position open on the coin and recompute its funding', async () => {
+    hyperliquidService.getUserFunding.mockResolvedValue([
+      payment('BTC', now - 3 * HOUR, '-0.5'),
+      payment('BTC', now - 2 * HOUR, '-0.25'),
+      // Opened after the ETH position closed
+      payment('ETH', now - HOUR, '0.1'),
+    ]);
+    tradePositionService.getPositionsOpenBetween.mockResolvedValue([
+      position(),
+      position({
+        _id: 'eth-position',
+        token: 'ETH',
+        status: TradePositionStatus.CLOSED,
+        timeClosed: new Date(now - 2 * HOUR),
+      }),
+    ]);
+    fundingPaymentRepository.getAll.mockImplementation(async ({ filter }) =>
+      filter.position === 'position-id'
+        ? ([{ usdc: -0.5 }, { usdc: -0.25 }] as any)
+        : [],
+    );
+
+    const stored = await service.syncFunding();
+
+    expect(stored).toBe(3);
+    expect(tradePositionService.getPositionsOpenBetween).toHaveBeenCalledWith(
+      Platform.HYPERLIQUID,
+      new Date(now - 3 * HOUR),
+      new Date(now - HOUR),
+    );
+    expect(fundingPaymentRepository.getOneAndUpdate).toHaveBeenCalledWith(
+      { coin: 'BTC', time: new Date(now - 3 * HOUR) },
+      {
+        $setOnInsert: expect.objectContaining({
+          usdc: -0.5,
+          szi: 0.1,
+          position: 'position-id',
+        }),
+      },
+      { upsert: true },
+    );
+    const ethUpdate = fundingPaymentRepository.getOneAndUpdate.mock.calls[2][1];
+    expect(ethUpdate.$setOnInsert).not.toHaveProperty('position');
+    expect(fundingPaymentRepository.getAll).toHaveBeenCalledWith({
+      filter: { position: 'position-id' },
+    });
+    expect(tradePositionService.updateTradePosition).toHaveBeenCalledTimes(1);
+    expect(tradePositionService.updateTradePosition).toHaveBeenCalledWith(
+      'position-id',
+      { fundingPaid: 0.75 },
+    );
+  });
+
+  it('should not attribute a payment to a position on the other side', async () => {
+    hyperliquidService.getUserFunding.mockResolvedValue([
+      payment('BTC', now - HOUR, '0.3', '-0.1'),
+    ]);
+    tradePositionService.getPositionsOpenBetween.mockResolvedValue([
+      position(),
+    ]);
+
+    await service.syncFunding();
+
+    const update = fundingPaymentRepository.getOneAndUpdate.mock.calls[0][1];
+    expect(update.$setOnInsert).not.toHaveProperty('position');
+    expect(tradePositionService.updateTradePosition).not.toHaveBeenCalled();
+  });
+
+  it('should attribute stored payments once their position is recorded', async () => {
+    const unattributed = {
+      _id: 'payment-id',
+      coin: 'BTC',
+      time: new Date(now - 3 * HOUR),
+      usdc: -0.5,
+      szi: 0.1,
+    };
+    // Unattributed before the sync, the position's only payment after it
+    fundingPaymentRepository.getAll.mockResolvedValue([unattributed] as any);
+    tradePositionService.getPositionsOpenBetween.mockResolvedValue([
+      position(),
+    ]);
+
+    expect(await service.syncFunding()).toBe(0);
+    expect(fundingPaymentRepository.getAll).toHaveBeenCalledWith({
+      filter: {
+        position: { $exists: false },
+        time: { $gte: expect.any(Date) },
+      },
+    });
+    expect(tradePositionService.getPositionsOpenBetween).toHaveBeenCalledWith(
+      Platform.HYPERLIQUID,
+      new Date(now - 3 * HOUR),
+      new Date(now - 3 * HOUR),
+    );
+    expect(fundingPaymentRepository.updateById).toHaveBeenCalledWith(
+      'payment-id',
+      { position: 'position-id' },
+    );
+    expect(tradePositionService.updateTradePosition).toHaveBeenCalledWith(
+      'position-id',
+      { fundingPaid: 0.5 },
+    );
+  });
+
+  it('should not count payments that are already stored', async () => {
+    hyperliquidService.getUserFunding.mockResolvedValue([
+      payment('BTC', now - HOUR, '-0.5'),
+    ]);
+    tradePositionService.getPositionsOpenBetween.mockResolvedValue([
+      position(),
+    ]);
+    fundingPaymentRepository.getOneAndUpdate.mockResolvedValue({
+      _id: 'payment-id',
+    } as any);
+
+    expect(await service.syncFunding()).toBe(0);
+    expect(tradePositionService.updateTradePosition).not.toHaveBeenCalled();
+  });
+
+  it('should page through the funding history', async () => {
+    const fullPage = Array.from({ length: 500 }, (_, i) =>
+      payment('BTC', now - 1000 * HOUR + i * HOUR, '-0.01'),
+    );
+    hyperliquidService.getUserFunding
+      .mockResolvedValueOnce(fullPage)
+      .mockResolvedValueOnce([payment('BTC', now - HOUR, '-0.01')]);
+
+    expect(await service.syncFunding()).toBe(501);
+    expect(hyperliquidService.getUserFunding).toHaveBeenCalledTimes(2);
+    expect(hyperliquidService.getUserFunding.mock.calls[1][0]).toBe(
+      fullPage[499].time + 1,
+    );
+  });
+});
@@ -0,0 +1,238 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HyperliquidService } from '../../infrastructure/hyperliquid/HyperliquidService';
+import {
+  HL_SYMBOL_REVERSE_MAP,
+  HLUserFunding,
+  Platform,
+  PositionDirection,
+} from '../../shared';
+import { TradePositionDocument } from '../trade-position/TradePosition.schema';
+import { TradePositionService } from '../trade-position/TradePosition.service';
+import { FundingPaymentRepository } from './FundingPayment.repository';
+
+// userFunding returns at most this many payments per request
+const PAGE_SIZE = 500;
+
+/**
+ * Funding ledger: pulls the account's userFunding history from Hyperliquid,
+ * stores every payment once and attributes it to the position that was open
+ * on the coin when it settled. Payments without a position are retried on
+ * later syncs within the lookback. The position's fundingPaid is recomputed
+ * from its payments, so a payment seen twice is never counted twice.
+ */
+@Injectable()
+export class FundingService {
+  private readonly logger = new Logger(FundingService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly hyperliquidService: HyperliquidService,
+    private readonly tradePositionService: TradePositionService,
+    private readonly fundingPaymentRepository: FundingPaymentRepository,
+  ) {}
+
+  /**
+   * Store the payments made since the last stored one and attribute earlier
+   * payments whose position was recorded since
+   * Returns the number of new payments, or null when Hyperliquid trading is
+   * disabled or simulated (paper positions do not accrue funding)
+   */
+  async syncFunding(): Promise<number | null> {
+    if (
+      !this.configService.get<boolean>('hyperliquid.enabled') ||
+      this.configService.get<boolean>('hyperliquid.paperTrading')
+    ) {
+      return null;
+    }
+
+    const affectedPositionIds = new Set(await this.attributeStoredPayments());
+
+    const last = await this.fundingPaymentRepository.getLast('time');
+    const startTime = last
+      ? new Date(last.time).getTime() + 1
+      : Date.now() - this.getLookbackMs();
+    const payments = await this.fetchPayments(startTime, Date.now());
+
+    const stored = await this.storePayments(payments, affectedPositionIds);
+
+    for (const positionId of affectedPositionIds) {
+      await this.updatePositionFunding(positionId);
+    }
+
+    this.logger.log(
+      `Stored ${stored} funding payments, ${affectedPositionIds.size} positions updated`,
+    );
+    return stored;
+  }
+
+  /**
+   * Sum of a position's payments, positive when funding was paid
+   */
+  async getFundingPaid(positionId: string): Promise<number> {
+    const payments = await this.fundingPaymentRepository.getAll({
+      filter: { position: positionId },
+    });
+    return -payments.reduce((sum, payment) => sum + payment.usdc, 0);
+  }
+
+  /**
+   * Store new payments, adding the positions they were attributed to
+   */
+  private async storePayments(
+    payments: HLUserFunding[],
+    affectedPositionIds: Set<string>,
+  ): Promise<number> {
+    if (payments.length === 0) {
+      return 0;
+    }
+
+    const positions = await this.getPositionsOpenAt(
+      payments.map((payment) => payment.time),
+    );
+
+    let stored = 0;
+    for (const payment of payments) {
+      const position = this.findPosition(
+        positions,
+        payment.delta.coin,
+        parseFloat(payment.delta.szi),
+        payment.time,
+      );
+      const existing = await this.fundingPaymentRepository.getOneAndUpdate(
+        { coin: payment.delta.coin, time: new Date(payment.time) },
+        {
+          $setOnInsert: {
+            coin: payment.delta.coin,
+            time: new Date(payment.time),
+            usdc: parseFloat(payment.delta.usdc),
+            fundingRate: parseFloat(payment.delta.fundingRate),
+            szi: parseFloat(payment.delta.szi),
+            hash: payment.hash,
+            ...(position && { position: String(position._id) }),
+          },
+        },
+        { upsert: true },
+      );
+      if (existing) {
+        continue;
+      }
+
+      stored++;
+      if (position) {
+        affectedPositionIds.add(String(position._id));
+      }
+    }
+    return stored;
+  }
+
+  /**
+   * Attribute stored payments that had no position when they were synced,
+   * e.g. funding on a position reconciliation adopted later
+   * Returns the ids of the positions that got payments
+   */
+  private async attributeStoredPayments(): Promise<string[]> {
+    const unattributed = await this.fundingPaymentRepository.getAll({
+      filter: {
+        position: { $exists: false },
+        time: { $gte: new Date(Date.now() - this.getLookbackMs()) },
+      },
+    });
+    if (unattributed.length === 0) {
+      return [];
+    }
+
+    const positions = await this.getPositionsOpenAt(
+      unattributed.map((payment) => new Date(payment.time).getTime()),
+    );
+
+    const positionIds: string[] = [];
+    for (const payment of unattributed) {
+      const position = this.findPosition(
+        positions,
+        payment.coin,
+        payment.szi,
+        new Date(payment.time).getTime(),
+      );
+      if (!position) {
+        continue;
+      }
+
+      await this.fundingPaymentRepository.updateById(String(payment._id), {
+        position: String(position._id),
+      });
+      positionIds.push(String(position._id));
+    }
+
+    if (positionIds.length > 0) {
+      this.logger.log(
+        `Attributed ${positionIds.length} stored funding payments to their positions`,
+      );
+    }
+    return positionIds;
+  }
+
+  private async getPositionsOpenAt(
+    times: number[],
+  ): Promise<TradePositionDocument[]> {
+    return this.tradePositionService.getPositionsOpenBetween(
+      Platform.HYPERLIQUID,
+      new Date(Math.min(...times)),
+      new Date(Math.max(...times)),
+    );
+  }
+
+  private getLookbackMs(): number {
+    return this.configService.get<number>(
+      'hyperliquid.fundingLookbackMs',
+      604800000,
+    );
+  }
+
+  private async fetchPayments(
+    startTime: number,
+    endTime: number,
+  ): Promise<HLUserFunding[]> {
+    const payments: HLUserFunding[] = [];
+    let from = startTime;
+
+    for (;;) {
+      const page = await this.hyperliquidService.getUserFunding(from, endTime);
+      payments.push(...page);
+      if (page.length < PAGE_SIZE) {
+        return payments;
+      }
+      from = Math.max(...page.map((payment) => payment.time)) + 1;
+    }
+  }
+
+  private async updatePositionFunding(positionId: string): Promise<void> {
+    await this.tradePositionService.updateTradePosition(positionId, {
+      fundingPaid: await this.getFundingPaid(positionId),
+    });
+  }
+
+  /**
+   * The position on the payment's coin and side that was open when it settled
+   */
+  private findPosition(
+    positions: TradePositionDocument[],
+    coin: string,
+    szi: number,
+    time: number,
+  ): TradePositionDocument | undefined {
+    const token = HL_SYMBOL_REVERSE_MAP[coin] || coin;
+    const direction =
+      szi > 0 ? PositionDirection.LONG : PositionDirection.SHORT;
+
+    return positions.find(
+      (position) =>
+        position.token === token &&
+        (!position.positionDirection ||
+          position.positionDirection === direction) &&
+        new Date(position.timeOpened).getTime() <= time &&
+        (!position.timeClosed ||
+          new Date(position.timeClosed).getTime() >= time),
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { BaseMongoRepository } from '../../shared';
+import {
+  FundingPayment,
+  FundingPaymentDocument,
+} from './FundingPayment.schema';
+
+@Injectable()
+export class FundingPaymentRepository extends BaseMongoRepository<FundingPaymentDocument> {
+  constructor(
+    @InjectModel(FundingPayment.name)
+    fundingPaymentModel: Model<FundingPaymentDocument>,
+  ) {
+    super(fundingPaymentModel);
+  }
+}
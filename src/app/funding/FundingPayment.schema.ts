@@ -0,0 +1,50 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { TradePositionDocument } from '../trade-position/TradePosition.schema';
+
+export type FundingPaymentDocument = FundingPayment & Document;
+
+/**
+ * One hourly funding payment pulled from the Hyperliquid userFunding history
+ */
+@Schema({
+  timestamps: true,
+})
+export class FundingPayment {
+  static readonly modelName = 'FundingPayment';
+
+  @Prop({ type: String, required: true })
+  coin: string;
+
+  @Prop({ type: Date, required: true })
+  time: Date;
+
+  // Signed like the exchange reports it: negative when funding was paid
+  @Prop({ type: Number, required: true })
+  usdc: number;
+
+  @Prop({ type: Number })
+  fundingRate?: number;
+
+  // Signed position size the payment was charged on
+  @Prop({ type: Number })
+  szi?: number;
+
+  @Prop({ type: String })
+  hash?: string;
+
+  // Unset when no tracked position was open on the coin at that time
+  @Prop({ type: Types.ObjectId, ref: 'TradePosition', index: true })
+  position?: string | TradePositionDocument;
+
+  createdAt?: Date;
+
+  updatedAt?: Date;
+}
+
+export const FundingPaymentSchema =
+  SchemaFactory.createForClass(FundingPayment);
+
+// Funding settles once per coin and hour, the hash is not unique
+FundingPaymentSchema.index({ coin: 1, time: 1 }, { unique: true });
+FundingPaymentSchema.index({ time: -1 });
@@ -1,7 +1,10 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
 import { HyperliquidService } from '../../infrastructure/hyperliquid/HyperliquidService';
 import { HyperliquidWebSocketService } from '../../infrastructure/hyperliquid/HyperliquidWebSocket.service';
+import { PaperHyperliquidService } from '../../infrastructure/hyperliquid/PaperHyperliquidService';
+import { PaperHyperliquidWebSocketService } from '../../infrastructure/hyperliquid/PaperHyperliquidWebSocket.service';
 import { HyperliquidTradingStrategyService } from './HyperliquidTradingStrategy.service';
 import { HyperliquidTokenDiscoveryService } from './HyperliquidTokenDiscovery.service';
 import { HyperliquidSignatureAdapter } from '../../infrastructure/hyperliquid/HyperliquidSignatureAdapter';
@@ -14,11 +17,12 @@ import { PerpModule } from '../perps';
 import { PredictorModule } from '../predictor/Predictor.module';
 import { CryptoJsService, IndexerAdapter } from '../../infrastructure';
 import { HyperliquidPlatformService } from './HyperliquidPlatform.service';
+import { HyperliquidAlgoExecutionService } from './HyperliquidAlgoExecution.service';
 import {
   EntryTimingService,
-  EntryTimingConfig,
   ExtremeTrackingService,
 } from '../../shared/services/entry-timing';
+import { buildHyperliquidEntryTimingConfig } from './HyperliquidEntryTimingConfig';
 
 @Module({
   imports: [
@@ -37,6 +41,12 @@ import {
         const keySecret = configService.get<string>('hyperliquid.keySecret');
 
         if (!privateKey || !keySecret) {
+          if (configService.get<boolean>('hyperliquid.paperTrading')) {
+            // Paper trading never signs exchange actions, any key will do
+            return new HyperliquidSignatureAdapter(
+              ethers.Wallet.createRandom().privateKey,
+            );
+          }
           throw new Error('Hyperliquid private key and secret are required');
         }
 
@@ -87,9 +97,55 @@ import {
       inject: [ConfigService, HyperliquidSignatureAdapter],
     },
 
-    // Main service
-    HyperliquidService,
-    HyperliquidWebSocketService,
+    // Main services, replaced by simulated ones in paper-trading mode
+    {
+      provide: HyperliquidWebSocketService,
+      useFactory: (
+        configService: ConfigService,
+        signatureAdapter: HyperliquidSignatureAdapter,
+      ): HyperliquidWebSocketService => {
+        return configService.get<boolean>('hyperliquid.paperTrading')
+          ? new PaperHyperliquidWebSocketService(
+              configService,
+              signatureAdapter,
+            )
+          : new HyperliquidWebSocketService(configService, signatureAdapter);
+      },
+      inject: [ConfigService, HyperliquidSignatureAdapter],
+    },
+    {
+      provide: HyperliquidService,
+      useFactory: (
+        client: HyperliquidClient,
+        configService: ConfigService,
+        signatureAdapter: HyperliquidSignatureAdapter,
+        webSocket: HyperliquidWebSocketService,
+      ): HyperliquidService => {
+        if (
+          configService.get<boolean>('hyperliquid.paperTrading') &&
+          webSocket instanceof PaperHyperliquidWebSocketService
+        ) {
+          return new PaperHyperliquidService(
+            client,
+            configService,
+            signatureAdapter,
+            webSocket,
+          );
+        }
+        return new HyperliquidService(
+          client,
+          configService,
+          signatureAdapter,
+          webSocket,
+        );
+      },
+      inject: [
+        HyperliquidClient,
+        ConfigService,
+        HyperliquidSignatureAdapter,
+        HyperliquidWebSocketService,
+      ],
+    },
 
     // Platform services
     // ExtremeTrackingService - for real OHLCV-based correction depth
@@ -108,38 +164,16 @@ import {
         configService: ConfigService,
         extremeTracker: ExtremeTrackingService,
       ): EntryTimingService => {
-        const config: EntryTimingConfig = {
-          enabled: configService.get<boolean>(
-            'hyperliquid.entryTimingEnabled',
-            true,
-          ),
-          shortTimeframe: configService.get<'5m' | '15m'>(
-            'hyperliquid.entryTimingShortTimeframe',
-            '5m',
-          ),
-          minCorrectionPct: configService.get<number>(
-            'hyperliquid.entryTimingMinCorrectionPct',
-            1.5,
-          ),
-          reversalConfidence: configService.get<number>(
-            'hyperliquid.entryTimingReversalConfidence',
-            0.6,
-          ),
-          useRealExtremes: configService.get<boolean>(
-            'hyperliquid.entryTimingUseRealExtremes',
-            true, // Enabled by default in production
-          ),
-          extremeLookbackMinutes: configService.get<number>(
-            'hyperliquid.entryTimingExtremeLookbackMinutes',
-            60,
-          ),
-        };
-        return new EntryTimingService(config, extremeTracker);
+        return new EntryTimingService(
+          buildHyperliquidEntryTimingConfig(configService),
+          extremeTracker,
+        );
       },
       inject: [ConfigService, ExtremeTrackingService],
     },
     HyperliquidTradingStrategyService,
     HyperliquidTokenDiscoveryService,
+    HyperliquidAlgoExecutionService,
     HyperliquidPlatformService,
   ],
   exports: [
@@ -150,6 +184,7 @@ import {
     HyperliquidTokenDiscoveryService,
     HyperliquidSignatureAdapter,
     HyperliquidClient,
+    HyperliquidAlgoExecutionService,
     HyperliquidPlatformService,
   ],
 })
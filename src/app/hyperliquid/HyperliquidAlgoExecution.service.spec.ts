@@ -0,0 +1,430 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { HyperliquidAlgoExecutionService } from './HyperliquidAlgoExecution.service';
+import { HyperliquidService } from '../../infrastructure/hyperliquid/HyperliquidService';
+import { HyperliquidClient } from '../../infrastructure/hyperliquid/HyperliquidClient';
+import { HyperliquidSignatureAdapter } from '../../infrastructure/hyperliquid/HyperliquidSignatureAdapter';
+import { PaperHyperliquidService } from '../../infrastructure/hyperliquid/PaperHyperliquidService';
+import { PaperHyperliquidWebSocketService } from '../../infrastructure/hyperliquid/PaperHyperliquidWebSocket.service';
+import { TradeOrderService } from '../trade-order/TradeOrder.service';
+import { TradePositionService } from '../trade-position/TradePosition.service';
+import {
+  buildClientOrderId,
+  ClientOrderRole,
+  ExecutionAlgo,
+  HLOpenOrder,
+  PositionDirection,
+  TradeOrderStatus,
+  TradePositionStatus,
+} from '../../shared';
+
+describe('HyperliquidAlgoExecutionService', () => {
+  let service: HyperliquidAlgoExecutionService;
+  let hyperliquidService: jest.Mocked<HyperliquidService>;
+  let tradeOrderService: jest.Mocked<TradeOrderService>;
+  let tradePositionService: jest.Mocked<TradePositionService>;
+
+  const positionId = '507f1f77bcf86cd799439011';
+  const entryCloid = buildClientOrderId(positionId, ClientOrderRole.ENTRY);
+  const childCloid = (sequence: number) =>
+    buildClientOrderId(positionId, ClientOrderRole.ALGO_CHILD, sequence);
+
+  const parentOrder = (
+    algo: Record<string, unknown> = {},
+    overrides: Record<string, unknown> = {},
+  ): any => ({
+    _id: 'parent-id',
+    position: positionId,
+    coin: 'BTC',
+    side: 'B',
+    price: 50000,
+    filledSize: 0,
+    algo: {
+      algo: ExecutionAlgo.TWAP,
+      direction: PositionDirection.LONG,
+      totalSize: 0.1,
+      slices: 5,
+      intervalMs: 30000,
+      childCount: 0,
+      nextChildAt: new Date(),
+      expiresAt: new Date(Date.now() + 60000),
+      ...algo,
+    },
+    ...overrides,
+  });
+
+  const iceberg = (algo: Record<string, unknown> = {}) =>
+    parentOrder({
+      algo: ExecutionAlgo.ICEBERG,
+      slices: undefined,
+      displaySize: 0.01,
+      intervalMs: 5000,
+      ...algo,
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HyperliquidAlgoExecutionService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) => defaultValue),
+          },
+        },
+        {
+          provide: HyperliquidService,
+          useValue: {
+            getTicker: jest.fn().mockResolvedValue({ mark: '50000' }),
+            getOrderbook: jest.fn().mockResolvedValue({
+              coin: 'BTC',
+              levels: [
+                [{ px: '49990', sz: '1', n: 1 }],
+                [{ px: '50010', sz: '1', n: 1 }],
+              ],
+            }),
+            getOpenOrders: jest.fn().mockResolvedValue([]),
+            placePerpOrder: jest.fn().mockResolvedValue({
+              orderId: '201',
+              status: TradeOrderStatus.CREATED,
+              size: 0.02,
+              price: 50000,
+              type: 'Ioc',
+            }),
+            cancelOrder: jest.fn(),
+          },
+        },
+        {
+          provide: TradeOrderService,
+          useValue: {
+            getByClientOrderId: jest.fn(),
+            getDueAlgoOrders: jest.fn().mockResolvedValue([]),
+            createTradeOrder: jest.fn().mockResolvedValue({ _id: 'child-id' }),
+            updateTradeOrder: jest.fn(),
+          },
+        },
+        {
+          provide: TradePositionService,
+          useValue: {
+            getTradePositionById: jest.fn().mockResolvedValue({
+              _id: positionId,
+              status: TradePositionStatus.OPEN,
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(HyperliquidAlgoExecutionService);
+    hyperliquidService = module.get(HyperliquidService);
+    tradeOrderService = module.get(TradeOrderService);
+    tradePositionService = module.get(TradePositionService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should size checks by the child notional', () => {
+    expect(service.getChildNotional(ExecutionAlgo.TWAP, 1000)).toBe(200);
+    expect(service.getChildNotional(ExecutionAlgo.ICEBERG, 1000)).toBe(500);
+    expect(service.getChildNotional(ExecutionAlgo.ICEBERG, 300)).toBe(300);
+  });
+
+  it('should persist the parent state and leave the first child to the scheduler', async () => {
+    tradeOrderService.getByClientOrderId.mockResolvedValue({
+      _id: 'parent-id',
+    } as any);
+
+    const result = await service.start({
+      algo: ExecutionAlgo.TWAP,
+      token: 'BTC',
+      direction: PositionDirection.LONG,
+      quoteAmount: 5000,
+      clientOrderId: entryCloid,
+      leverage: 3,
+    });
+
+    expect(result).toEqual(
+      expect.objectContaining({
+        status: TradeOrderStatus.CREATED,
+        size: 0.1,
+        type: ExecutionAlgo.TWAP,
+      }),
+    );
+    expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+      'parent-id',
+      expect.objectContaining({
+        size: 0.1,
+        remainingSize: 0.1,
+        price: 50000,
+        algo: expect.objectContaining({
+          algo: ExecutionAlgo.TWAP,
+          totalSize: 0.1,
+          slices: 5,
+          leverage: 3,
+          childCount: 0,
+          nextChildAt: expect.any(Date),
+        }),
+      }),
+    );
+    expect(hyperliquidService.placePerpOrder).not.toHaveBeenCalled();
+  });
+
+  it('should spread the unfilled size over the remaining TWAP slices', async () => {
+    tradeOrderService.getDueAlgoOrders.mockResolvedValue([
+      parentOrder({ childCount: 1, leverage: 3 }, { filledSize: 0.02 }),
+    ]);
+
+    await service.processDueOrders();
+
+    expect(tradeOrderService.createTradeOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        position: positionId,
+        clientOrderId: childCloid(2),
+        parentOrder: 'parent-id',
+      }),
+    );
+    const params = hyperliquidService.placePerpOrder.mock.calls[0][0];
+    expect(params.size).toBeCloseTo(0.02);
+    expect(params).toEqual(
+      expect.objectContaining({ tif: 'Ioc', clientOrderId: childCloid(2) }),
+    );
+    // Leverage was set with the first child
+    expect(params.leverage).toBeUndefined();
+    expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+      'parent-id',
+      {
+        algo: expect.objectContaining({
+          childCount: 2,
+          nextChildAt: expect.any(Date),
+        }),
+      },
+    );
+  });
+
+  it('should rest iceberg children at the opposite touch', async () => {
+    tradeOrderService.getDueAlgoOrders.mockResolvedValue([iceberg()]);
+
+    await service.processDueOrders();
+
+    expect(hyperliquidService.placePerpOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        size: 0.01,
+        price: 50010,
+        tif: 'Gtc',
+        clientOrderId: childCloid(1),
+      }),
+    );
+  });
+
+  it('should wait while the last iceberg child is still resting', async () => {
+    tradeOrderService.getDueAlgoOrders.mockResolvedValue([
+      iceberg({ childCount: 2 }),
+    ]);
+    tradeOrderService.getByClientOrderId.mockResolvedValue({
+      _id: 'child-id',
+      orderId: '202',
+    } as any);
+    hyperliquidService.getOpenOrders.mockResolvedValue([
+      { coin: 'BTC', oid: 202 } as HLOpenOrder,
+    ]);
+
+    await service.processDueOrders();
+
+    expect(tradeOrderService.getByClientOrderId).toHaveBeenCalledWith(
+      childCloid(2),
+    );
+    expect(hyperliquidService.placePerpOrder).not.toHaveBeenCalled();
+    expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+      'parent-id',
+      { algo: expect.objectContaining({ childCount: 2 }) },
+    );
+  });
+
+  it('should wait for the position to be created', async () => {
+    tradePositionService.getTradePositionById.mockResolvedValue(null);
+    tradeOrderService.getDueAlgoOrders.mockResolvedValue([parentOrder()]);
+
+    await service.processDueOrders();
+
+    expect(hyperliquidService.placePerpOrder).not.toHaveBeenCalled();
+    expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+      'parent-id',
+      { algo: expect.objectContaining({ nextChildAt: expect.any(Date) }) },
+    );
+  });
+
+  it('should finish once the aggregated fills cover the parent', async () => {
+    tradeOrderService.getDueAlgoOrders.mockResolvedValue([
+      parentOrder({ childCount: 3 }, { filledSize: 0.0999 }),
+    ]);
+
+    await service.processDueOrders();
+
+    expect(hyperliquidService.placePerpOrder).not.toHaveBeenCalled();
+    const update = tradeOrderService.updateTradeOrder.mock.calls[0][1];
+    expect(update.algo).not.toHaveProperty('nextChildAt');
+    expect(update.status).toBeUndefined();
+  });
+
+  it('should cancel the resting child and the parent when it expires unfilled', async () => {
+    tradeOrderService.getDueAlgoOrders.mockResolvedValue([
+      iceberg({ childCount: 1, expiresAt: new Date(Date.now() - 1000) }),
+    ]);
+    tradeOrderService.getByClientOrderId.mockResolvedValue({
+      _id: 'child-id',
+      orderId: '201',
+    } as any);
+    hyperliquidService.getOpenOrders.mockResolvedValue([
+      { coin: 'BTC', oid: 201 } as HLOpenOrder,
+    ]);
+
+    await service.processDueOrders();
+
+    expect(hyperliquidService.cancelOrder).toHaveBeenCalledWith('201', 'BTC');
+    expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+      'child-id',
+      { status: TradeOrderStatus.CANCELLED },
+    );
+    expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+      'parent-id',
+      expect.objectContaining({ status: TradeOrderStatus.CANCELLED }),
+    );
+  });
+
+  it('should mark a child FAILED and retry it without counting it as sent', async () => {
+    hyperliquidService.placePerpOrder.mockRejectedValue(
+      new Error('Order rejected'),
+    );
+    tradeOrderService.getDueAlgoOrders.mockResolvedValue([parentOrder()]);
+
+    await service.processDueOrders();
+
+    expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+      'child-id',
+      { status: TradeOrderStatus.FAILED },
+    );
+    expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+      'parent-id',
+      {
+        algo: expect.objectContaining({
+          childCount: 0,
+          failedAttempts: 1,
+          nextChildAt: expect.any(Date),
+        }),
+      },
+    );
+  });
+
+  it('should retry a failed child under its cloid and record', async () => {
+    tradeOrderService.getDueAlgoOrders.mockResolvedValue([
+      parentOrder({ childCount: 1, failedAttempts: 1 }, { filledSize: 0.02 }),
+    ]);
+    tradeOrderService.getByClientOrderId.mockResolvedValue({
+      _id: 'failed-child-id',
+    } as any);
+
+    await service.processDueOrders();
+
+    expect(tradeOrderService.getByClientOrderId).toHaveBeenCalledWith(
+      childCloid(2),
+    );
+    expect(tradeOrderService.createTradeOrder).not.toHaveBeenCalled();
+    expect(hyperliquidService.placePerpOrder).toHaveBeenCalledWith(
+      expect.objectContaining({ clientOrderId: childCloid(2) }),
+    );
+    expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+      'failed-child-id',
+      expect.objectContaining({ orderId: '201' }),
+    );
+    expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+      'parent-id',
+      {
+        algo: expect.objectContaining({ childCount: 2, failedAttempts: 0 }),
+      },
+    );
+  });
+
+  it('should give the parent up after repeated child failures', async () => {
+    hyperliquidService.placePerpOrder.mockRejectedValue(
+      new Error('Order rejected'),
+    );
+    tradeOrderService.getDueAlgoOrders.mockResolvedValue([
+      parentOrder({ childCount: 1, failedAttempts: 2 }, { filledSize: 0.02 }),
+    ]);
+
+    await service.processDueOrders();
+
+    const update = tradeOrderService.updateTradeOrder.mock.calls.find(
+      ([id]) => id === 'parent-id',
+    )[1];
+    expect(update.algo).toEqual(expect.objectContaining({ childCount: 1 }));
+    expect(update.algo).not.toHaveProperty('nextChildAt');
+  });
+
+  describe('on the paper exchange', () => {
+    let paperService: PaperHyperliquidService;
+
+    beforeEach(() => {
+      const mids = { HYPE: '50000' };
+      const client = {
+        getInfo: jest.fn((type: string) =>
+          Promise.resolve(
+            type === 'allMids'
+              ? mids
+              : [
+                  {
+                    universe: [
+                      { name: 'HYPE', szDecimals: 5, maxLeverage: 40 },
+                    ],
+                  },
+                  [{ markPx: mids.HYPE, dayNtlVlm: '0', openInterest: '0' }],
+                ],
+          ),
+        ),
+      } as unknown as HyperliquidClient;
+      // Config defaults, one open position at most
+      const config = {
+        get: jest.fn((key: string, defaultValue?: unknown) => defaultValue),
+      } as unknown as ConfigService;
+
+      paperService = new PaperHyperliquidService(
+        client,
+        config,
+        {} as HyperliquidSignatureAdapter,
+        {
+          publishFill: jest.fn(),
+        } as unknown as PaperHyperliquidWebSocketService,
+      );
+      service = new HyperliquidAlgoExecutionService(
+        config,
+        paperService,
+        tradeOrderService,
+        tradePositionService,
+      );
+    });
+
+    afterEach(() => {
+      paperService.onModuleDestroy();
+    });
+
+    it('should keep adding TWAP slices to the position the first one opened', async () => {
+      tradeOrderService.getDueAlgoOrders
+        .mockResolvedValueOnce([parentOrder({}, { coin: 'HYPE' })])
+        .mockResolvedValueOnce([
+          parentOrder({ childCount: 1 }, { coin: 'HYPE', filledSize: 0.02 }),
+        ]);
+
+      await service.processDueOrders();
+      await service.processDueOrders();
+
+      expect(tradeOrderService.updateTradeOrder).not.toHaveBeenCalledWith(
+        'child-id',
+        { status: TradeOrderStatus.FAILED },
+      );
+      const [position] = await paperService.getPositions();
+      expect(position.szi).toBe('0.04');
+    });
+  });
+});
@@ -0,0 +1,420 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AlgoOrderState,
+  buildClientOrderId,
+  ClientOrderRole,
+  ExecutionAlgo,
+  HL_DEFAULTS,
+  MarginMode,
+  PositionDirection,
+  TradeOrderResult,
+  TradeOrderStatus,
+  TradePositionStatus,
+} from '../../shared';
+import { HyperliquidService } from '../../infrastructure/hyperliquid/HyperliquidService';
+import { TradeOrderService } from '../trade-order/TradeOrder.service';
+import { TradeOrderDocument } from '../trade-order/TradeOrder.schema';
+import { TradePositionService } from '../trade-position/TradePosition.service';
+
+// Attempts at placing one child before the parent is given up
+const MAX_CHILD_ATTEMPTS = 3;
+
+export interface StartAlgoOptions {
+  algo: ExecutionAlgo;
+  token: string;
+  direction: PositionDirection;
+  quoteAmount: number;
+  // Cloid of the parent TradeOrder, persisted by the caller before starting
+  clientOrderId: string;
+  leverage?: number;
+  marginMode?: MarginMode;
+  limitPrice?: number;
+}
+
+/**
+ * TWAP and iceberg execution on top of HyperliquidService.placePerpOrder
+ * The parent TradeOrder holds the algo state and every child is a TradeOrder
+ * pointing at it; processDueOrders runs on a schedule and reads the state from
+ * Mongo, so a restart only delays the next child
+ */
+@Injectable()
+export class HyperliquidAlgoExecutionService {
+  private readonly logger = new Logger(HyperliquidAlgoExecutionService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly hyperliquidService: HyperliquidService,
+    private readonly tradeOrderService: TradeOrderService,
+    private readonly tradePositionService: TradePositionService,
+  ) {}
+
+  /**
+   * Notional of a single child order, what pre-trade checks should look at
+   */
+  getChildNotional(algo: ExecutionAlgo, quoteAmount: number): number {
+    if (algo === ExecutionAlgo.TWAP) {
+      return (
+        quoteAmount /
+        this.configService.get<number>('hyperliquid.twapSlices', 5)
+      );
+    }
+    return Math.min(
+      quoteAmount,
+      this.configService.get<number>('hyperliquid.icebergDisplayNotional', 500),
+    );
+  }
+
+  /**
+   * Turn the persisted entry order into an algo parent
+   * The first child goes out on the next scheduler run, once the caller has
+   * created the position the children fill into
+   */
+  async start(options: StartAlgoOptions): Promise<TradeOrderResult> {
+    const { algo, token, direction, quoteAmount, clientOrderId } = options;
+
+    const parent =
+      await this.tradeOrderService.getByClientOrderId(clientOrderId);
+    if (!parent) {
+      throw new Error(`Parent order for ${algo} on ${token} not found`);
+    }
+
+    const ticker = await this.hyperliquidService.getTicker(token);
+    const markPrice = parseFloat(ticker.mark);
+    const totalSize = quoteAmount / markPrice;
+    const isTwap = algo === ExecutionAlgo.TWAP;
+    const intervalMs = isTwap
+      ? this.configService.get<number>('hyperliquid.twapIntervalMs', 30000)
+      : this.configService.get<number>('hyperliquid.icebergPollMs', 5000);
+    const now = Date.now();
+
+    const state: AlgoOrderState = {
+      algo,
+      direction,
+      totalSize,
+      ...(isTwap
+        ? {
+            slices: this.configService.get<number>('hyperliquid.twapSlices', 5),
+          }
+        : {
+            displaySize: this.getChildNotional(algo, quoteAmount) / markPrice,
+          }),
+      intervalMs,
+      limitPrice: options.limitPrice,
+      leverage: options.leverage,
+      marginMode: options.marginMode,
+      childCount: 0,
+      nextChildAt: new Date(now),
+      expiresAt: new Date(
+        now +
+          this.configService.get<number>(
+            'hyperliquid.algoMaxDurationMs',
+            1800000,
+          ),
+      ),
+    };
+
+    await this.tradeOrderService.updateTradeOrder(String(parent._id), {
+      type: algo,
+      size: totalSize,
+      remainingSize: totalSize,
+      price: markPrice,
+      algo: state,
+    });
+
+    this.logger.log(
+      `Started ${algo} ${direction} for ${token}: ${totalSize} over ${isTwap ? `${state.slices} slices` : `children of ${state.displaySize}`}`,
+    );
+
+    return {
+      clientOrderId,
+      status: TradeOrderStatus.CREATED,
+      size: totalSize,
+      price: markPrice,
+      type: algo,
+      message: '',
+    };
+  }
+
+  /**
+   * Advance every parent order whose next step is due
+   */
+  async processDueOrders(): Promise<void> {
+    const parents = await this.tradeOrderService.getDueAlgoOrders();
+
+    for (const parent of parents) {
+      try {
+        await this.step(parent);
+      } catch (error) {
+        // The parent stays due and is retried on the next run
+        this.logger.error(
+          `Failed to advance ${parent.algo.algo} order ${String(parent._id)} for ${parent.coin}`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * One step of a parent order: finish it, wait for its resting iceberg
+   * child, or send the next child sized from the fills aggregated so far
+   * A child that fails is retried on the next run, the parent is finished
+   * after MAX_CHILD_ATTEMPTS failures
+   */
+  private async step(parent: TradeOrderDocument): Promise<void> {
+    const state = parent.algo;
+    const remainingSize = state.totalSize - (parent.filledSize || 0);
+    const position = await this.tradePositionService.getTradePositionById(
+      this.getPositionId(parent),
+    );
+
+    const finishReason =
+      Date.now() >= new Date(state.expiresAt).getTime()
+        ? 'expired'
+        : position?.status === TradePositionStatus.CLOSED
+          ? 'position closed'
+          : remainingSize * parent.price < HL_DEFAULTS.MIN_ORDER_SIZE_USD
+            ? 'filled'
+            : state.algo === ExecutionAlgo.TWAP &&
+                state.childCount >= state.slices
+              ? 'all slices sent'
+              : null;
+    if (finishReason) {
+      await this.finish(parent, finishReason);
+      return;
+    }
+
+    // The position is created once enterPosition returns, wait for it
+    if (!position) {
+      await this.reschedule(parent, state);
+      return;
+    }
+
+    if (
+      state.algo === ExecutionAlgo.ICEBERG &&
+      (await this.getRestingChild(parent))
+    ) {
+      await this.reschedule(parent, state);
+      return;
+    }
+
+    try {
+      await this.sendChild(parent, this.getChildSize(parent, remainingSize));
+    } catch (error) {
+      const failedAttempts = (state.failedAttempts || 0) + 1;
+      if (failedAttempts >= MAX_CHILD_ATTEMPTS) {
+        this.logger.error(
+          `Giving up ${state.algo} order ${String(parent._id)} for ${parent.coin} after ${failedAttempts} failed attempts at child ${state.childCount + 1}: ${error.message}`,
+        );
+        await this.finish(
+          parent,
+          `child ${state.childCount + 1} failed: ${error.message}`,
+        );
+        return;
+      }
+
+      // The same child is retried on the next run
+      await this.reschedule(parent, { ...state, failedAttempts });
+      return;
+    }
+
+    await this.reschedule(parent, {
+      ...state,
+      childCount: state.childCount + 1,
+      failedAttempts: 0,
+    });
+  }
+
+  /**
+   * TWAP spreads what is left over the remaining slices, an iceberg shows at
+   * most its display size; a child below the exchange minimum takes the rest
+   */
+  private getChildSize(
+    parent: TradeOrderDocument,
+    remainingSize: number,
+  ): number {
+    const { algo, slices, displaySize, childCount } = parent.algo;
+    const size =
+      algo === ExecutionAlgo.TWAP
+        ? remainingSize / (slices - childCount)
+        : Math.min(displaySize, remainingSize);
+
+    return size * parent.price < HL_DEFAULTS.MIN_ORDER_SIZE_USD
+      ? remainingSize
+      : size;
+  }
+
+  /**
+   * Place the next child; throws when it could not be placed
+   */
+  private async sendChild(
+    parent: TradeOrderDocument,
+    size: number,
+  ): Promise<void> {
+    const state = parent.algo;
+    const token = parent.coin;
+    const sequence = state.childCount + 1;
+    const isTwap = state.algo === ExecutionAlgo.TWAP;
+    const clientOrderId = buildClientOrderId(
+      this.getPositionId(parent),
+      ClientOrderRole.ALGO_CHILD,
+      sequence,
+    );
+    const price = isTwap
+      ? undefined
+      : (state.limitPrice ?? (await this.getTouchPrice(token, state)));
+
+    // A retried child keeps its cloid and the record of the failed attempt
+    const child =
+      (state.failedAttempts &&
+        (await this.tradeOrderService.getByClientOrderId(clientOrderId))) ||
+      (await this.tradeOrderService.createTradeOrder({
+        status: TradeOrderStatus.CREATED,
+        position: this.getPositionId(parent),
+        type: isTwap ? 'market' : 'limit',
+        coin: token,
+        side: parent.side,
+        clientOrderId,
+        parentOrder: String(parent._id),
+      }));
+
+    try {
+      const result = await this.hyperliquidService.placePerpOrder({
+        symbol: token,
+        direction: state.direction,
+        quoteAmount: size * (price ?? parent.price),
+        size,
+        // TWAP slices take liquidity, iceberg children rest what does not fill
+        tif: isTwap ? 'Ioc' : 'Gtc',
+        ...(price && { price }),
+        // Leverage only has to be set once, with the first child
+        ...(state.leverage &&
+          sequence === 1 && {
+            leverage: state.leverage,
+            marginMode: state.marginMode,
+          }),
+        clientOrderId,
+      });
+
+      await this.tradeOrderService.updateTradeOrder(String(child._id), {
+        orderId: result.orderId,
+        status: result.status,
+        type: result.type,
+        size: result.size,
+        price: result.price,
+      });
+
+      this.logger.log(
+        `Sent ${state.algo} child ${sequence} for ${token}: size=${result.size}, price=${price ?? 'IOC'}`,
+      );
+    } catch (error) {
+      await this.tradeOrderService.updateTradeOrder(String(child._id), {
+        status: TradeOrderStatus.FAILED,
+      });
+      this.logger.warn(
+        `${state.algo} child ${sequence} for ${token} failed: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Iceberg children join the opposite side of the book, so each one takes
+   * what is shown at the touch and rests the rest at that price
+   */
+  private async getTouchPrice(
+    token: string,
+    state: AlgoOrderState,
+  ): Promise<number> {
+    const book = await this.hyperliquidService.getOrderbook(token);
+    const [bids, asks] = book.levels || [[], []];
+    const touch =
+      state.direction === PositionDirection.LONG ? asks?.[0] : bids?.[0];
+    if (!touch) {
+      throw new Error(`Order book is empty for ${token}`);
+    }
+    return parseFloat(touch.px);
+  }
+
+  /**
+   * The last child of a parent when it still rests on the exchange
+   */
+  private async getRestingChild(
+    parent: TradeOrderDocument,
+  ): Promise<TradeOrderDocument | null> {
+    if (parent.algo.childCount === 0) {
+      return null;
+    }
+
+    const child = await this.tradeOrderService.getByClientOrderId(
+      buildClientOrderId(
+        this.getPositionId(parent),
+        ClientOrderRole.ALGO_CHILD,
+        parent.algo.childCount,
+      ),
+    );
+    if (!child?.orderId) {
+      return null;
+    }
+
+    const openOrders = await this.hyperliquidService.getOpenOrders();
+    return openOrders.some((order) => String(order.oid) === child.orderId)
+      ? child
+      : null;
+  }
+
+  private async reschedule(
+    parent: TradeOrderDocument,
+    state: AlgoOrderState,
+  ): Promise<void> {
+    await this.tradeOrderService.updateTradeOrder(String(parent._id), {
+      algo: { ...state, nextChildAt: new Date(Date.now() + state.intervalMs) },
+    });
+  }
+
+  /**
+   * Stop a parent order: cancel its resting child and clear nextChildAt
+   * A parent that filled nothing is marked CANCELLED, otherwise its status
+   * stays what the aggregated fills made it
+   */
+  private async finish(
+    parent: TradeOrderDocument,
+    reason: string,
+  ): Promise<void> {
+    const token = parent.coin;
+    const restingChild =
+      parent.algo.algo === ExecutionAlgo.ICEBERG
+        ? await this.getRestingChild(parent)
+        : null;
+    if (restingChild) {
+      try {
+        await this.hyperliquidService.cancelOrder(restingChild.orderId, token);
+        await this.tradeOrderService.updateTradeOrder(
+          String(restingChild._id),
+          { status: TradeOrderStatus.CANCELLED },
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Failed to cancel resting ${parent.algo.algo} child ${restingChild.orderId} for ${token}: ${error.message}`,
+        );
+      }
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { nextChildAt, ...state } = parent.algo;
+    await this.tradeOrderService.updateTradeOrder(String(parent._id), {
+      algo: state,
+      ...(!parent.filledSize && { status: TradeOrderStatus.CANCELLED }),
+    });
+
+    this.logger.log(
+      `Finished ${parent.algo.algo} for ${token} (${reason}): filled ${parent.filledSize || 0} of ${parent.algo.totalSize}`,
+    );
+  }
+
+  private getPositionId(order: TradeOrderDocument): string {
+    return typeof order.position === 'string'
+      ? order.position
+      : String(order.position._id);
+  }
+}
@@ -0,0 +1,31 @@
+import { ConfigService } from '@nestjs/config';
+import { EntryTimingConfig } from '../../shared/services/entry-timing';
+
+/**
+ * Build the entry timing configuration from the hyperliquid config namespace
+ */
+export const buildHyperliquidEntryTimingConfig = (
+  configService: ConfigService,
+): EntryTimingConfig => ({
+  enabled: configService.get<boolean>('hyperliquid.entryTimingEnabled', true),
+  shortTimeframe: configService.get<'5m' | '15m'>(
+    'hyperliquid.entryTimingShortTimeframe',
+    '5m',
+  ),
+  minCorrectionPct: configService.get<number>(
+    'hyperliquid.entryTimingMinCorrectionPct',
+    1.5,
+  ),
+  reversalConfidence: configService.get<number>(
+    'hyperliquid.entryTimingReversalConfidence',
+    0.6,
+  ),
+  useRealExtremes: configService.get<boolean>(
+    'hyperliquid.entryTimingUseRealExtremes',
+    true, // Enabled by default in production
+  ),
+  extremeLookbackMinutes: configService.get<number>(
+    'hyperliquid.entryTimingExtremeLookbackMinutes',
+    60,
+  ),
+});
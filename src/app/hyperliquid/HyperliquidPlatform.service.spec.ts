@@ -5,12 +5,23 @@ import { HyperliquidService } from '../../infrastructure/hyperliquid/Hyperliquid
 import { HyperliquidWebSocketService } from '../../infrastructure/hyperliquid/HyperliquidWebSocket.service';
 import { TradeOrderService } from '../trade-order/TradeOrder.service';
 import { TradePositionService } from '../trade-position/TradePosition.service';
+import { HyperliquidAlgoExecutionService } from './HyperliquidAlgoExecution.service';
 import {
   Platform,
   TradeType,
   Currency,
   PositionDirection,
   TradeOrderStatus,
+  RiskRejectionCode,
+  RiskRejectionError,
+  HLOpenOrder,
+  HLPosition,
+  buildClientOrderId,
+  ClientOrderRole,
+  EntryMode,
+  ExecutionAlgo,
+  MarginMode,
+  TradePositionStatus,
 } from '../../shared';
 import { PredictorAdapter } from '../../infrastructure/predictor/PredictorAdapter';
 
@@ -18,14 +29,24 @@ describe('HyperliquidPlatformService', () => {
   let service: HyperliquidPlatformService;
   let hyperliquidService: jest.Mocked<HyperliquidService>;
   let tradeOrderService: jest.Mocked<TradeOrderService>;
+  let algoExecution: jest.Mocked<HyperliquidAlgoExecutionService>;
+  let tradePositionService: jest.Mocked<TradePositionService>;
   let module: TestingModule;
+  let bracketOrders: boolean;
 
   beforeEach(async () => {
+    bracketOrders = false;
     const mockConfigService = {
       get: jest.fn((key: string, defaultValue?: any) => {
+        if (key === 'hyperliquid.bracketOrders') {
+          return bracketOrders;
+        }
         if (key === 'hyperliquid.maxNotionalPerOrder') {
           return 10000;
         }
+        if (key === 'hyperliquid.maxTotalNotional') {
+          return 1000;
+        }
         return defaultValue;
       }),
     };
@@ -34,6 +55,19 @@ describe('HyperliquidPlatformService', () => {
       placePerpOrder: jest.fn(),
       getTicker: jest.fn(),
       getPosition: jest.fn(),
+      getPositions: jest.fn().mockResolvedValue([]),
+      getOpenOrders: jest.fn().mockResolvedValue([]),
+      getOrderbook: jest.fn(),
+      placeBracketOrder: jest.fn(),
+      modifyPerpOrder: jest.fn(),
+      cancelOrder: jest.fn(),
+      updateIsolatedMargin: jest.fn(),
+      estimateSlippage: jest.fn().mockResolvedValue({
+        spreadBps: 2,
+        slippageBps: 3,
+        filledQuote: 1000,
+        fullyFillable: true,
+      }),
     };
 
     const mockWebSocketService = {
@@ -43,14 +77,23 @@ describe('HyperliquidPlatformService', () => {
 
     const mockTradeOrderService = {
       createTradeOrder: jest.fn(),
+      updateTradeOrder: jest.fn(),
+      countTradeOrders: jest.fn().mockResolvedValue(1),
       handleOrderFill: jest.fn(),
       handleOrderUpdate: jest.fn(),
       getByOrderId: jest.fn(),
+      getByClientOrderId: jest.fn(),
       getMany: jest.fn(),
     };
 
     const mockTradePositionService = {
       getTradePositionById: jest.fn(),
+      updateTradePosition: jest.fn(),
+    };
+
+    const mockAlgoExecution = {
+      getChildNotional: jest.fn(),
+      start: jest.fn(),
     };
 
     const mockPredictorAdapter = {
@@ -80,6 +123,10 @@ describe('HyperliquidPlatformService', () => {
           provide: TradePositionService,
           useValue: mockTradePositionService,
         },
+        {
+          provide: HyperliquidAlgoExecutionService,
+          useValue: mockAlgoExecution,
+        },
         {
           provide: PredictorAdapter,
           useValue: mockPredictorAdapter,
@@ -92,6 +139,8 @@ describe('HyperliquidPlatformService', () => {
     );
     hyperliquidService = module.get(HyperliquidService);
     tradeOrderService = module.get(TradeOrderService);
+    algoExecution = module.get(HyperliquidAlgoExecutionService);
+    tradePositionService = module.get(TradePositionService);
   });
 
   afterEach(async () => {
@@ -112,6 +161,9 @@ describe('HyperliquidPlatformService', () => {
       };
 
       hyperliquidService.placePerpOrder.mockResolvedValue(mockOrderResult);
+      hyperliquidService.getTicker.mockResolvedValue({
+        mark: '50000',
+      } as any);
       jest
         .spyOn(service as any, 'determineDirection')
         .mockResolvedValue(PositionDirection.LONG);
@@ -164,6 +216,63 @@ describe('HyperliquidPlatformService', () => {
       });
     });
 
+    it('should use the requested direction and leverage instead of trend signals', async () => {
+      const determineDirection = jest
+        .spyOn(service as any, 'determineDirection')
+        .mockResolvedValue(PositionDirection.LONG);
+      hyperliquidService.placePerpOrder.mockResolvedValue({
+        orderId: 'order-456',
+        status: TradeOrderStatus.CREATED,
+      });
+      hyperliquidService.getTicker.mockResolvedValue({
+        mark: '3000',
+      } as any);
+
+      const result = await service.enterPosition({
+        platform: Platform.HYPERLIQUID,
+        tradeType: TradeType.PERPETUAL,
+        currency: Currency.USDC,
+        token: 'ETH',
+        amountIn: 200,
+        direction: PositionDirection.SHORT,
+        leverage: 4,
+        stopLossPrice: 3300,
+        takeProfitPrice: 2400,
+      });
+
+      expect(determineDirection).not.toHaveBeenCalled();
+      expect(hyperliquidService.placePerpOrder).toHaveBeenCalledWith({
+        symbol: 'ETH',
+        direction: PositionDirection.SHORT,
+        quoteAmount: 200,
+        tif: 'Ioc',
+        leverage: 4,
+      });
+      expect(result.metadata?.direction).toBe(PositionDirection.SHORT);
+    });
+
+    it('should refuse entries whose SL/TP sides do not match the direction', async () => {
+      hyperliquidService.getTicker.mockResolvedValue({
+        mark: '3000',
+      } as any);
+
+      await expect(
+        service.enterPosition({
+          platform: Platform.HYPERLIQUID,
+          tradeType: TradeType.PERPETUAL,
+          currency: Currency.USDC,
+          token: 'ETH',
+          amountIn: 200,
+          direction: PositionDirection.SHORT,
+          // LONG-style protection
+          stopLossPrice: 2700,
+          takeProfitPrice: 3600,
+        }),
+      ).rejects.toThrow('SL/TP sides do not match SHORT entry for ETH');
+
+      expect(hyperliquidService.placePerpOrder).not.toHaveBeenCalled();
+    });
+
     it('should handle errors gracefully', async () => {
       jest
         .spyOn(service as any, 'determineDirection')
@@ -183,6 +292,143 @@ describe('HyperliquidPlatformService', () => {
       ).rejects.toThrow('Exchange error');
     });
 
+    describe('total notional cap', () => {
+      const enterSol = (amountIn: number) =>
+        service.enterPosition({
+          platform: Platform.HYPERLIQUID,
+          tradeType: TradeType.PERPETUAL,
+          currency: Currency.USDC,
+          token: 'SOL',
+          amountIn,
+        });
+
+      beforeEach(() => {
+        jest
+          .spyOn(service as any, 'determineDirection')
+          .mockResolvedValue(PositionDirection.LONG);
+        hyperliquidService.placePerpOrder.mockResolvedValue({
+          orderId: 'order-789',
+          status: TradeOrderStatus.CREATED,
+        });
+        hyperliquidService.getPositions.mockResolvedValue([
+          { coin: 'BTC', positionValue: '600' } as HLPosition,
+        ]);
+        hyperliquidService.getOpenOrders.mockResolvedValue([
+          {
+            coin: 'ETH',
+            sz: '0.1',
+            limitPx: '2000',
+            triggerPx: '0',
+            isTrigger: false,
+            reduceOnly: false,
+          } as HLOpenOrder,
+          // Reduce-only SL cannot add exposure
+          {
+            coin: 'BTC',
+            sz: '0.01',
+            limitPx: '45000',
+            triggerPx: '45000',
+            isTrigger: true,
+            reduceOnly: true,
+          } as HLOpenOrder,
+        ]);
+      });
+
+      it('should reject entries that would exceed maxTotalNotional', async () => {
+        const error = await enterSol(250).catch((e) => e);
+
+        expect(error).toBeInstanceOf(RiskRejectionError);
+        expect(error.rejection).toEqual(
+          expect.objectContaining({
+            code: RiskRejectionCode.MAX_TOTAL_NOTIONAL,
+            details: {
+              requestedNotional: 250,
+              positionsNotional: 600,
+              openOrdersNotional: 200,
+              projectedNotional: 1050,
+              maxTotalNotional: 1000,
+            },
+          }),
+        );
+        expect(hyperliquidService.placePerpOrder).not.toHaveBeenCalled();
+      });
+
+      it('should allow entries within the cap', async () => {
+        const result = await enterSol(200);
+
+        expect(result.orderId).toBe('order-789');
+        expect(hyperliquidService.placePerpOrder).toHaveBeenCalled();
+      });
+    });
+
+    describe('execution cost limits', () => {
+      const enterSol = (
+        limits: { maxSpreadBps?: number; maxSlippageBps?: number } = {},
+      ) =>
+        service.enterPosition({
+          platform: Platform.HYPERLIQUID,
+          tradeType: TradeType.PERPETUAL,
+          currency: Currency.USDC,
+          token: 'SOL',
+          amountIn: 100,
+          direction: PositionDirection.SHORT,
+          ...limits,
+        });
+
+      beforeEach(() => {
+        hyperliquidService.placePerpOrder.mockResolvedValue({
+          orderId: 'order-789',
+          status: TradeOrderStatus.CREATED,
+        });
+      });
+
+      it('should estimate slippage for the entry side and amount', async () => {
+        await enterSol();
+
+        expect(hyperliquidService.estimateSlippage).toHaveBeenCalledWith(
+          'SOL',
+          PositionDirection.SHORT,
+          100,
+        );
+        expect(hyperliquidService.placePerpOrder).toHaveBeenCalled();
+      });
+
+      it('should reject entries above the perp spread limit', async () => {
+        const error = await enterSol({ maxSpreadBps: 1 }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(RiskRejectionError);
+        expect(error.rejection.code).toBe(RiskRejectionCode.MAX_SPREAD);
+        expect(hyperliquidService.placePerpOrder).not.toHaveBeenCalled();
+      });
+
+      it('should reject entries above the slippage limit or deeper than the book', async () => {
+        const slippageError = await enterSol({ maxSlippageBps: 2 }).catch(
+          (e) => e,
+        );
+        hyperliquidService.estimateSlippage.mockResolvedValueOnce({
+          spreadBps: 2,
+          slippageBps: 3,
+          filledQuote: 40,
+          fullyFillable: false,
+        } as any);
+        const depthError = await enterSol().catch((e) => e);
+
+        expect(slippageError.rejection).toEqual(
+          expect.objectContaining({
+            code: RiskRejectionCode.MAX_SLIPPAGE,
+            details: expect.objectContaining({
+              slippageBps: 3,
+              maxSlippageBps: 2,
+            }),
+          }),
+        );
+        expect(depthError.rejection.reason).toBe(
+          'Order book of SOL only covers 40.00 of 100.00',
+        );
+        expect(hyperliquidService.placePerpOrder).not.toHaveBeenCalled();
+      });
+    });
+
     it('should throw error when direction cannot be determined', async () => {
       jest.spyOn(service as any, 'determineDirection').mockResolvedValue(null);
 
@@ -216,40 +462,663 @@ describe('HyperliquidPlatformService', () => {
         .spyOn(service as any, 'determineDirection')
         .mockResolvedValue(PositionDirection.SHORT);
 
-      const result = await service.enterPosition({
+      const result = await service.enterPosition({
+        platform: Platform.HYPERLIQUID,
+        tradeType: TradeType.PERPETUAL,
+        currency: Currency.USDC,
+        token: 'SOL',
+        amountIn: 75,
+      });
+
+      expect(hyperliquidService.placePerpOrder).toHaveBeenCalledWith({
+        symbol: 'SOL',
+        direction: PositionDirection.SHORT,
+        quoteAmount: 75,
+        tif: 'Ioc',
+      });
+      expect(result.orderId).toBe('short-order-789');
+      expect(result.metadata?.direction).toBe(PositionDirection.SHORT);
+    });
+
+    it('should handle predictor service unavailability', async () => {
+      jest
+        .spyOn(service as any, 'determineDirection')
+        .mockRejectedValue(new Error('Predictor service unavailable'));
+
+      await expect(
+        service.enterPosition({
+          platform: Platform.HYPERLIQUID,
+          tradeType: TradeType.PERPETUAL,
+          currency: Currency.USDC,
+          token: 'ETH',
+          amountIn: 200,
+        }),
+      ).rejects.toThrow('Predictor service unavailable');
+
+      expect(hyperliquidService.placePerpOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('maker entries', () => {
+    const positionId = '507f1f77bcf86cd799439011';
+    const entryCloid = buildClientOrderId(positionId, ClientOrderRole.ENTRY);
+
+    const book = (bid: string, ask: string) =>
+      ({
+        coin: 'BTC',
+        levels: [[{ px: bid, sz: '1', n: 1 }], [{ px: ask, sz: '1', n: 1 }]],
+      }) as any;
+
+    const restingEntry = (limitPx: string) =>
+      ({
+        coin: 'BTC',
+        oid: 101,
+        limitPx,
+        sz: '0.02',
+        origSz: '0.02',
+        side: 'B',
+        isTrigger: false,
+        reduceOnly: false,
+      }) as HLOpenOrder;
+
+    const makerEntry = (overrides: Record<string, unknown> = {}) => ({
+      token: 'BTC',
+      direction: PositionDirection.LONG,
+      orderId: '101',
+      clientOrderId: entryCloid,
+      positionId,
+      deadline: Date.now() + 60000,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      hyperliquidService.getOrderbook.mockResolvedValue(book('49990', '50010'));
+      tradeOrderService.getByClientOrderId.mockResolvedValue({
+        _id: 'entry-record-id',
+      } as any);
+    });
+
+    it('should rest a post-only entry at the best bid and start requoting', async () => {
+      hyperliquidService.placePerpOrder.mockResolvedValue({
+        orderId: '101',
+        status: TradeOrderStatus.CREATED,
+        type: 'Alo',
+      });
+
+      const result = await service.enterPosition({
+        platform: Platform.HYPERLIQUID,
+        tradeType: TradeType.PERPETUAL,
+        currency: Currency.USDC,
+        token: 'BTC',
+        amountIn: 1000,
+        direction: PositionDirection.LONG,
+        clientOrderId: entryCloid,
+        positionId,
+        entryMode: EntryMode.MAKER,
+      });
+
+      expect(result.orderId).toBe('101');
+      expect(hyperliquidService.placePerpOrder).toHaveBeenCalledWith({
+        symbol: 'BTC',
+        direction: PositionDirection.LONG,
+        quoteAmount: 1000,
+        price: 49990,
+        tif: 'Alo',
+        clientOrderId: entryCloid,
+      });
+      expect((service as any).makerEntryTimers.has('BTC')).toBe(true);
+    });
+
+    it('should requote to the new best bid and keep the cloid', async () => {
+      hyperliquidService.getOpenOrders.mockResolvedValue([
+        restingEntry('49990'),
+      ]);
+      hyperliquidService.getOrderbook.mockResolvedValue(book('50020', '50030'));
+      hyperliquidService.modifyPerpOrder.mockResolvedValue({
+        orderId: '102',
+        status: TradeOrderStatus.CREATED,
+      });
+      const entry = makerEntry();
+
+      await (service as any).requoteMakerEntry(entry);
+
+      expect(hyperliquidService.modifyPerpOrder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderId: '101',
+          price: 50020,
+          size: 0.02,
+          tif: 'Alo',
+          clientOrderId: entryCloid,
+        }),
+      );
+      expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+        'entry-record-id',
+        { orderId: '102', limitPrice: 50020 },
+      );
+      expect(entry.orderId).toBe('102');
+      expect((service as any).makerEntryTimers.has('BTC')).toBe(true);
+    });
+
+    it('should stop requoting once the entry no longer rests', async () => {
+      hyperliquidService.getOpenOrders.mockResolvedValue([]);
+
+      await (service as any).requoteMakerEntry(makerEntry());
+
+      expect(hyperliquidService.modifyPerpOrder).not.toHaveBeenCalled();
+      expect((service as any).makerEntryTimers.has('BTC')).toBe(false);
+    });
+
+    it('should cancel at the deadline and send the remainder as IOC', async () => {
+      hyperliquidService.getOpenOrders.mockResolvedValue([
+        restingEntry('49990'),
+      ]);
+      tradeOrderService.createTradeOrder.mockResolvedValue({
+        _id: 'fallback-record-id',
+      } as any);
+      hyperliquidService.placePerpOrder.mockResolvedValue({
+        orderId: '103',
+        status: TradeOrderStatus.CREATED,
+      });
+
+      await (service as any).requoteMakerEntry(
+        makerEntry({ deadline: Date.now() - 1 }),
+      );
+
+      expect(hyperliquidService.cancelOrder).toHaveBeenCalledWith('101', 'BTC');
+      expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+        'entry-record-id',
+        { status: TradeOrderStatus.CANCELLED },
+      );
+      const fallbackCloid = buildClientOrderId(
+        positionId,
+        ClientOrderRole.ENTRY_FALLBACK,
+      );
+      expect(hyperliquidService.placePerpOrder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          size: 0.02,
+          tif: 'Ioc',
+          clientOrderId: fallbackCloid,
+        }),
+      );
+      expect(tradeOrderService.createTradeOrder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          position: positionId,
+          side: 'B',
+          clientOrderId: fallbackCloid,
+        }),
+      );
+      expect((service as any).makerEntryTimers.has('BTC')).toBe(false);
+    });
+  });
+
+  describe('bracket entries', () => {
+    const positionId = '507f1f77bcf86cd799439011';
+    const entryCloid = buildClientOrderId(positionId, ClientOrderRole.ENTRY);
+    const slCloid = buildClientOrderId(positionId, ClientOrderRole.STOP_LOSS);
+    const tpCloid = buildClientOrderId(positionId, ClientOrderRole.TAKE_PROFIT);
+
+    const enterWithBracket = () =>
+      service.enterPosition({
+        platform: Platform.HYPERLIQUID,
+        tradeType: TradeType.PERPETUAL,
+        currency: Currency.USDC,
+        token: 'BTC',
+        amountIn: 1000,
+        direction: PositionDirection.LONG,
+        stopLossPrice: 48000,
+        takeProfitPrice: 55000,
+        clientOrderId: entryCloid,
+        positionId,
+      });
+
+    beforeEach(() => {
+      bracketOrders = true;
+      hyperliquidService.getTicker.mockResolvedValue({ mark: '50000' } as any);
+      tradeOrderService.createTradeOrder.mockImplementation(
+        async (options) =>
+          ({
+            _id: `${options.triggerType}-record-id`,
+            ...options,
+          }) as any,
+      );
+    });
+
+    it('should send entry, SL and TP as one order and persist the SL/TP records', async () => {
+      hyperliquidService.placeBracketOrder.mockResolvedValue({
+        entry: {
+          orderId: '301',
+          status: TradeOrderStatus.CREATED,
+          size: 0.02,
+          type: 'Ioc',
+        },
+        stopLoss: {
+          status: TradeOrderStatus.CREATED,
+          size: 0.02,
+          triggerType: 'sl',
+        },
+        takeProfit: {
+          orderId: '303',
+          status: TradeOrderStatus.CREATED,
+          size: 0.02,
+          triggerType: 'tp',
+        },
+      });
+
+      const result = await enterWithBracket();
+
+      expect(result.orderId).toBe('301');
+      expect(hyperliquidService.placePerpOrder).not.toHaveBeenCalled();
+      expect(hyperliquidService.placeBracketOrder).toHaveBeenCalledWith({
+        entry: expect.objectContaining({
+          tif: 'Ioc',
+          clientOrderId: entryCloid,
+        }),
+        stopLoss: expect.objectContaining({
+          direction: PositionDirection.SHORT,
+          triggerPrice: 48000,
+          triggerType: 'sl',
+          reduceOnly: true,
+          clientOrderId: slCloid,
+        }),
+        takeProfit: expect.objectContaining({
+          triggerPrice: 55000,
+          clientOrderId: tpCloid,
+        }),
+        grouping: 'normalTpsl',
+      });
+      expect(tradeOrderService.createTradeOrder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          position: positionId,
+          type: 'trigger_sl',
+          isTrigger: true,
+          triggerPrice: 48000,
+          clientOrderId: slCloid,
+        }),
+      );
+      // The SL waits for the entry fill, its oid comes with the order update
+      expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+        'sl-record-id',
+        expect.not.objectContaining({ orderId: expect.anything() }),
+      );
+      expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+        'tp-record-id',
+        expect.objectContaining({
+          orderId: '303',
+          status: TradeOrderStatus.CREATED,
+        }),
+      );
+    });
+
+    it('should mark the SL/TP records FAILED when the bracket is rejected', async () => {
+      hyperliquidService.placeBracketOrder.mockRejectedValue(
+        new Error('Failed to place bracket entry: no status'),
+      );
+
+      await expect(enterWithBracket()).rejects.toThrow(
+        'Failed to place bracket entry',
+      );
+      expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+        'sl-record-id',
+        { status: TradeOrderStatus.FAILED },
+      );
+      expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+        'tp-record-id',
+        { status: TradeOrderStatus.FAILED },
+      );
+    });
+
+    it('should keep the single IOC entry when bracket orders are disabled', async () => {
+      bracketOrders = false;
+      hyperliquidService.placePerpOrder.mockResolvedValue({
+        orderId: '301',
+        status: TradeOrderStatus.CREATED,
+      });
+
+      await enterWithBracket();
+
+      expect(hyperliquidService.placeBracketOrder).not.toHaveBeenCalled();
+      expect(tradeOrderService.createTradeOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('algo entries', () => {
+    const positionId = '507f1f77bcf86cd799439011';
+    const entryCloid = buildClientOrderId(positionId, ClientOrderRole.ENTRY);
+
+    it('should check execution cost per child and start the algo', async () => {
+      algoExecution.getChildNotional.mockReturnValue(200);
+      algoExecution.start.mockResolvedValue({
+        clientOrderId: entryCloid,
+        status: TradeOrderStatus.CREATED,
+        size: 0.02,
+        price: 50000,
+        type: ExecutionAlgo.TWAP,
+        message: '',
+      });
+
+      const result = await service.enterPosition({
+        platform: Platform.HYPERLIQUID,
+        tradeType: TradeType.PERPETUAL,
+        currency: Currency.USDC,
+        token: 'BTC',
+        amountIn: 1000,
+        leverage: 3,
+        direction: PositionDirection.LONG,
+        clientOrderId: entryCloid,
+        positionId,
+        executionAlgo: ExecutionAlgo.TWAP,
+      });
+
+      expect(result.type).toBe(ExecutionAlgo.TWAP);
+      expect(hyperliquidService.estimateSlippage).toHaveBeenCalledWith(
+        'BTC',
+        PositionDirection.LONG,
+        200,
+      );
+      expect(algoExecution.start).toHaveBeenCalledWith({
+        algo: ExecutionAlgo.TWAP,
+        token: 'BTC',
+        direction: PositionDirection.LONG,
+        quoteAmount: 1000,
+        clientOrderId: entryCloid,
+        leverage: 3,
+      });
+      expect(hyperliquidService.placePerpOrder).not.toHaveBeenCalled();
+    });
+
+    it('should still check the total notional of the parent order', async () => {
+      algoExecution.getChildNotional.mockReturnValue(200);
+
+      await expect(
+        service.enterPosition({
+          platform: Platform.HYPERLIQUID,
+          tradeType: TradeType.PERPETUAL,
+          currency: Currency.USDC,
+          token: 'BTC',
+          amountIn: 1500,
+          direction: PositionDirection.LONG,
+          clientOrderId: entryCloid,
+          executionAlgo: ExecutionAlgo.ICEBERG,
+        }),
+      ).rejects.toThrow(RiskRejectionError);
+      expect(algoExecution.start).not.toHaveBeenCalled();
+    });
+
+    it('should resize live SL/TP orders when an algo child fills', async () => {
+      const position = {
+        _id: positionId,
+        token: 'BTC',
+        positionDirection: PositionDirection.LONG,
+        stopLossPrice: 48000,
+        takeProfitPrice: 55000,
+      };
+      tradeOrderService.getByOrderId.mockResolvedValue({
+        position,
+        parentOrder: 'parent-id',
+      } as any);
+      tradeOrderService.getMany.mockResolvedValue([{ isTrigger: true }] as any);
+      const replaceSl = jest
+        .spyOn(service, 'replaceStopLossOrder')
+        .mockResolvedValue({ newOrderId: 'sl', cancelledCount: 0 });
+      const replaceTp = jest
+        .spyOn(service, 'replaceTakeProfitOrder')
+        .mockResolvedValue({ newOrderId: 'tp', cancelledCount: 0 });
+
+      await (service as any).handlePositionFillForSlTp({
+        orderId: '201',
+        size: '0.004',
+        closedPnl: '0',
+      });
+
+      expect(replaceSl).toHaveBeenCalledWith(
+        'BTC',
+        PositionDirection.LONG,
+        positionId,
+        48000,
+      );
+      expect(replaceTp).toHaveBeenCalledWith(
+        'BTC',
+        PositionDirection.LONG,
+        positionId,
+        55000,
+      );
+    });
+  });
+
+  describe('take-profit ladders', () => {
+    const positionId = '507f1f77bcf86cd799439011';
+    const position = {
+      _id: positionId,
+      token: 'BTC',
+      status: TradePositionStatus.OPEN,
+      positionDirection: PositionDirection.LONG,
+      entryPrice: 50000,
+      stopLossPrice: 49000,
+      takeProfitPrice: 55000,
+      takeProfitLadder: [
+        { rMultiple: 1, sizePercent: 50, price: 51000 },
+        { rMultiple: 2, sizePercent: 30, price: 52000 },
+      ],
+    };
+
+    beforeEach(() => {
+      // SL/TP already placed with the entry
+      tradeOrderService.getMany.mockResolvedValue([{ isTrigger: true }] as any);
+      tradeOrderService.countTradeOrders.mockResolvedValue(0);
+      tradeOrderService.createTradeOrder.mockResolvedValue({
+        _id: 'rung-record-id',
+      } as any);
+      hyperliquidService.getPosition.mockResolvedValue({
+        szi: '0.02',
+      } as HLPosition);
+      hyperliquidService.getTicker.mockResolvedValue({ mark: '50000' } as any);
+      hyperliquidService.placePerpOrder.mockResolvedValue({
+        orderId: 'rung-oid',
+        status: TradeOrderStatus.CREATED,
+      } as any);
+    });
+
+    it('should place a reduce-only TP per rung once the entry fills', async () => {
+      tradeOrderService.getByOrderId.mockResolvedValue({ position } as any);
+
+      await (service as any).handlePositionFillForSlTp({
+        orderId: '301',
+        size: '0.02',
+        closedPnl: '0',
+      });
+
+      expect(hyperliquidService.placePerpOrder).toHaveBeenCalledTimes(2);
+      expect(hyperliquidService.placePerpOrder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          direction: PositionDirection.SHORT,
+          triggerType: 'tp',
+          triggerPrice: 51000,
+          quoteAmount: 500,
+          reduceOnly: true,
+          clientOrderId: buildClientOrderId(
+            positionId,
+            ClientOrderRole.TAKE_PROFIT_RUNG,
+            1,
+          ),
+        }),
+      );
+      expect(hyperliquidService.placePerpOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ triggerPrice: 52000, quoteAmount: 300 }),
+      );
+      expect(tradeOrderService.createTradeOrder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          triggerType: 'tp',
+          triggerPrice: 52000,
+          ladderRung: 2,
+        }),
+      );
+    });
+
+    it('should not place the ladder again or before an algo parent fills', async () => {
+      tradeOrderService.getByOrderId.mockResolvedValue({ position } as any);
+      tradeOrderService.countTradeOrders.mockResolvedValue(2);
+
+      await (service as any).handlePositionFillForSlTp({
+        orderId: '301',
+        size: '0.02',
+        closedPnl: '0',
+      });
+
+      tradeOrderService.getByOrderId.mockResolvedValue({
+        position,
+        parentOrder: 'parent-id',
+      } as any);
+      tradeOrderService.countTradeOrders.mockResolvedValue(0);
+      jest
+        .spyOn(service, 'replaceStopLossOrder')
+        .mockResolvedValue({ newOrderId: 'sl', cancelledCount: 0 });
+      jest
+        .spyOn(service, 'replaceTakeProfitOrder')
+        .mockResolvedValue({ newOrderId: 'tp', cancelledCount: 0 });
+
+      await (service as any).handlePositionFillForSlTp({
+        orderId: '302',
+        size: '0.004',
+        closedPnl: '0',
+      });
+
+      expect(tradeOrderService.countTradeOrders).toHaveBeenCalledWith({
+        _id: 'parent-id',
+        status: TradeOrderStatus.FILLED,
+      });
+      expect(hyperliquidService.placePerpOrder).not.toHaveBeenCalled();
+    });
+
+    it('should move the SL to break-even once the first rung fills', async () => {
+      tradeOrderService.getByOrderId.mockResolvedValue({
+        position,
+        ladderRung: 1,
+        status: TradeOrderStatus.FILLED,
+        filledSize: 0.01,
+      } as any);
+      const replaceSl = jest
+        .spyOn(service, 'replaceStopLossOrder')
+        .mockResolvedValue({ newOrderId: 'sl', cancelledCount: 1 });
+
+      await (service as any).handleTakeProfitRungFill({
+        orderId: 'rung-oid',
+        size: '0.01',
+        closedPnl: '10',
+      });
+
+      expect(replaceSl).toHaveBeenCalledWith(
+        'BTC',
+        PositionDirection.LONG,
+        positionId,
+        50000,
+      );
+      expect(tradePositionService.updateTradePosition).toHaveBeenCalledWith(
+        positionId,
+        { stopLossPrice: 50000 },
+      );
+    });
+
+    it('should move the SL on the first part of a rung filled at the entry', async () => {
+      tradeOrderService.getByOrderId.mockResolvedValue({
+        position,
+        ladderRung: 1,
+        status: TradeOrderStatus.PARTIALLY_FILLED,
+        filledSize: 0.004,
+      } as any);
+      const replaceSl = jest
+        .spyOn(service, 'replaceStopLossOrder')
+        .mockResolvedValue({ newOrderId: 'sl', cancelledCount: 1 });
+
+      await (service as any).handleTakeProfitRungFill({
+        orderId: 'rung-oid',
+        size: '0.004',
+        closedPnl: '0',
+      });
+
+      expect(replaceSl).toHaveBeenCalledWith(
+        'BTC',
+        PositionDirection.LONG,
+        positionId,
+        50000,
+      );
+    });
+
+    it('should leave the SL alone when it is already at break-even', async () => {
+      tradeOrderService.getByOrderId.mockResolvedValue({
+        position: { ...position, stopLossPrice: 50000 },
+        ladderRung: 2,
+        status: TradeOrderStatus.FILLED,
+        filledSize: 0.006,
+      } as any);
+      const replaceSl = jest.spyOn(service, 'replaceStopLossOrder');
+
+      await (service as any).handleTakeProfitRungFill({
+        orderId: 'rung-oid',
+        size: '0.006',
+        closedPnl: '12',
+      });
+
+      expect(replaceSl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isolated margin', () => {
+    it('should apply the perp margin mode with the entry leverage', async () => {
+      jest
+        .spyOn(service as any, 'determineDirection')
+        .mockResolvedValue(PositionDirection.LONG);
+      hyperliquidService.placePerpOrder.mockResolvedValue({
+        orderId: 'order-456',
+        status: TradeOrderStatus.CREATED,
+      });
+      hyperliquidService.getTicker.mockResolvedValue({ mark: '3000' } as any);
+
+      await service.enterPosition({
         platform: Platform.HYPERLIQUID,
         tradeType: TradeType.PERPETUAL,
         currency: Currency.USDC,
-        token: 'SOL',
-        amountIn: 75,
+        token: 'ETH',
+        amountIn: 200,
+        leverage: 4,
+        marginMode: MarginMode.ISOLATED,
       });
 
-      expect(hyperliquidService.placePerpOrder).toHaveBeenCalledWith({
-        symbol: 'SOL',
-        direction: PositionDirection.SHORT,
-        quoteAmount: 75,
-        tif: 'Ioc',
-      });
-      expect(result.orderId).toBe('short-order-789');
-      expect(result.metadata?.direction).toBe(PositionDirection.SHORT);
+      expect(hyperliquidService.placePerpOrder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          leverage: 4,
+          marginMode: MarginMode.ISOLATED,
+        }),
+      );
     });
 
-    it('should handle predictor service unavailability', async () => {
-      jest
-        .spyOn(service as any, 'determineDirection')
-        .mockRejectedValue(new Error('Predictor service unavailable'));
-
-      await expect(
-        service.enterPosition({
-          platform: Platform.HYPERLIQUID,
-          tradeType: TradeType.PERPETUAL,
-          currency: Currency.USDC,
+    it('should adjust the margin of an open position', async () => {
+      await service.updateIsolatedMargin(
+        {
+          _id: 'position-1',
           token: 'ETH',
-          amountIn: 200,
-        }),
-      ).rejects.toThrow('Predictor service unavailable');
+          status: TradePositionStatus.OPEN,
+        } as any,
+        -20,
+      );
 
-      expect(hyperliquidService.placePerpOrder).not.toHaveBeenCalled();
+      expect(hyperliquidService.updateIsolatedMargin).toHaveBeenCalledWith(
+        'ETH',
+        -20,
+      );
+    });
+
+    it('should refuse to adjust the margin of a closed position', async () => {
+      await expect(
+        service.updateIsolatedMargin(
+          {
+            _id: 'position-1',
+            token: 'ETH',
+            status: TradePositionStatus.CLOSED,
+          } as any,
+          20,
+        ),
+      ).rejects.toThrow('Position position-1 for ETH is not open');
+      expect(hyperliquidService.updateIsolatedMargin).not.toHaveBeenCalled();
     });
   });
 
@@ -303,6 +1172,9 @@ describe('HyperliquidPlatformService', () => {
       hyperliquidService.placePerpOrder
         .mockResolvedValueOnce(mockSlResult)
         .mockResolvedValueOnce(mockTpResult);
+      tradeOrderService.createTradeOrder
+        .mockResolvedValueOnce({ _id: 'sl-record-id' } as any)
+        .mockResolvedValueOnce({ _id: 'tp-record-id' } as any);
 
       await service.createStopLossAndTakeProfitOrders(
         'BTC',
@@ -322,6 +1194,10 @@ describe('HyperliquidPlatformService', () => {
         triggerType: 'sl',
         isMarket: true,
         reduceOnly: true,
+        clientOrderId: buildClientOrderId(
+          'position-id-123',
+          ClientOrderRole.STOP_LOSS,
+        ),
       });
 
       // Should create TP order (SHORT to close LONG)
@@ -333,28 +1209,74 @@ describe('HyperliquidPlatformService', () => {
         triggerType: 'tp',
         isMarket: true,
         reduceOnly: true,
+        clientOrderId: buildClientOrderId(
+          'position-id-123',
+          ClientOrderRole.TAKE_PROFIT,
+        ),
       });
 
-      // Should save both orders to database
+      // Should save both orders with their cloids before sending
       expect(tradeOrderService.createTradeOrder).toHaveBeenCalledTimes(2);
       expect(tradeOrderService.createTradeOrder).toHaveBeenCalledWith(
         expect.objectContaining({
-          orderId: 'sl-order-123',
+          status: TradeOrderStatus.CREATED,
           position: 'position-id-123',
           triggerType: 'sl',
           triggerPrice: 45000,
           isTrigger: true,
+          clientOrderId: buildClientOrderId(
+            'position-id-123',
+            ClientOrderRole.STOP_LOSS,
+          ),
         }),
       );
       expect(tradeOrderService.createTradeOrder).toHaveBeenCalledWith(
         expect.objectContaining({
-          orderId: 'tp-order-456',
           position: 'position-id-123',
           triggerType: 'tp',
           triggerPrice: 60000,
           isTrigger: true,
         }),
       );
+      expect(
+        tradeOrderService.createTradeOrder.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        hyperliquidService.placePerpOrder.mock.invocationCallOrder[0],
+      );
+
+      // And complete them with the exchange order ids
+      expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+        'sl-record-id',
+        expect.objectContaining({ orderId: 'sl-order-123' }),
+      );
+      expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+        'tp-record-id',
+        expect.objectContaining({ orderId: 'tp-order-456' }),
+      );
+    });
+
+    it('should mark the persisted order FAILED when the exchange rejects it', async () => {
+      hyperliquidService.placePerpOrder.mockRejectedValue(
+        new Error('Insufficient margin'),
+      );
+      tradeOrderService.createTradeOrder.mockResolvedValue({
+        _id: 'sl-record-id',
+      } as any);
+
+      await expect(
+        service.createStopLossAndTakeProfitOrders(
+          'BTC',
+          PositionDirection.LONG,
+          0.002,
+          'position-id-123',
+          45000,
+        ),
+      ).rejects.toThrow('Insufficient margin');
+
+      expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+        'sl-record-id',
+        { status: TradeOrderStatus.FAILED },
+      );
     });
 
     it('should create only stop-loss order when TP price not provided', async () => {
@@ -830,6 +1752,48 @@ describe('HyperliquidPlatformService', () => {
         }),
       );
     });
+
+    it('should widen the IOC band on retries and report the remaining size', async () => {
+      hyperliquidService.getTicker.mockResolvedValue({
+        coin: 'BTC',
+        mark: '50000',
+      } as any);
+      hyperliquidService.getPosition.mockResolvedValue({
+        coin: 'BTC',
+        szi: '0.004',
+      } as any);
+      hyperliquidService.placePerpOrder.mockResolvedValue({
+        orderId: 'exit-order-2',
+        status: TradeOrderStatus.CREATED,
+        size: 0.004,
+        filledSize: 0.003,
+        averagePrice: 49900,
+      });
+
+      const result = await service.exitPosition(
+        {
+          token: 'BTC',
+          platform: Platform.HYPERLIQUID,
+          positionDirection: PositionDirection.LONG,
+        } as any,
+        'exit-cloid',
+        3,
+      );
+
+      expect(hyperliquidService.placePerpOrder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tif: 'Ioc',
+          reduceOnly: true,
+          slippageBps: 150,
+          clientOrderId: 'exit-cloid',
+        }),
+      );
+      expect(result).toMatchObject({
+        filledSize: 0.003,
+        averagePrice: 49900,
+      });
+      expect(result.remainingSize).toBeCloseTo(0.001);
+    });
   });
 
   describe('replaceTakeProfitOrder', () => {
@@ -838,10 +1802,110 @@ describe('HyperliquidPlatformService', () => {
       hyperliquidService.getPosition.mockReset();
       hyperliquidService.placePerpOrder.mockReset();
       hyperliquidService.cancelOrder = jest.fn().mockResolvedValue(undefined);
+      // Modify is rejected unless a test says otherwise, exercising the fallback
+      hyperliquidService.modifyPerpOrder = jest
+        .fn()
+        .mockRejectedValue(new Error('Cannot modify canceled or filled order'));
       tradeOrderService.getMany.mockReset();
       tradeOrderService.createTradeOrder.mockReset();
     });
 
+    it('should modify the live TP order in place instead of placing a new one', async () => {
+      hyperliquidService.getTicker.mockResolvedValue({
+        mark: '50000',
+      } as any);
+      hyperliquidService.getPosition.mockResolvedValue({
+        coin: 'BTC',
+        szi: '0.1',
+      } as any);
+      (hyperliquidService.modifyPerpOrder as jest.Mock).mockResolvedValue({
+        orderId: 'tp-modified-2',
+        status: TradeOrderStatus.CREATED,
+        size: 0.1,
+        price: 50000,
+      });
+      tradeOrderService.getMany.mockResolvedValue([
+        { _id: 'tp-record-id', orderId: 'tp-1', clientOrderId: '0xabc' } as any,
+      ]);
+
+      const result = await service.replaceTakeProfitOrder(
+        'BTC',
+        PositionDirection.LONG,
+        'pos-123',
+        55000,
+      );
+
+      expect(tradeOrderService.getMany).toHaveBeenCalledWith({
+        position: 'pos-123',
+        isTrigger: true,
+        triggerType: 'tp',
+        ladderRung: { $exists: false },
+        status: TradeOrderStatus.CREATED,
+        orderId: { $exists: true },
+      });
+      expect(hyperliquidService.modifyPerpOrder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderId: 'tp-1',
+          clientOrderId: '0xabc',
+          direction: PositionDirection.SHORT,
+          triggerPrice: 55000,
+          triggerType: 'tp',
+          reduceOnly: true,
+        }),
+      );
+      expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+        'tp-record-id',
+        expect.objectContaining({
+          orderId: 'tp-modified-2',
+          triggerPrice: 55000,
+        }),
+      );
+      expect(hyperliquidService.placePerpOrder).not.toHaveBeenCalled();
+      expect(hyperliquidService.cancelOrder).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        newOrderId: 'tp-modified-2',
+        cancelledCount: 0,
+      });
+    });
+
+    it('should cancel leftover live TP orders after modifying the latest one', async () => {
+      hyperliquidService.getTicker.mockResolvedValue({
+        mark: '50000',
+      } as any);
+      hyperliquidService.getPosition.mockResolvedValue({
+        coin: 'BTC',
+        szi: '0.1',
+      } as any);
+      (hyperliquidService.modifyPerpOrder as jest.Mock).mockResolvedValue({
+        orderId: 'tp-2',
+        status: TradeOrderStatus.CREATED,
+      });
+      tradeOrderService.getMany.mockResolvedValue([
+        { _id: 'old-record-id', orderId: 'tp-1' } as any,
+        { _id: 'new-record-id', orderId: 'tp-2' } as any,
+      ]);
+
+      const result = await service.replaceTakeProfitOrder(
+        'BTC',
+        PositionDirection.LONG,
+        'pos-123',
+        55000,
+      );
+
+      expect(hyperliquidService.modifyPerpOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ orderId: 'tp-2' }),
+      );
+      expect(hyperliquidService.cancelOrder).toHaveBeenCalledWith(
+        'tp-1',
+        'BTC',
+      );
+      expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+        'old-record-id',
+        { status: TradeOrderStatus.CANCELLED },
+      );
+      expect(result).toEqual({ newOrderId: 'tp-2', cancelledCount: 1 });
+    });
+
     it('should create new TP order BEFORE cancelling old ones (protection gap fix)', async () => {
       // Given: Position with old TP order
       hyperliquidService.getTicker.mockResolvedValue({
@@ -1025,6 +2089,9 @@ describe('HyperliquidPlatformService', () => {
       });
 
       tradeOrderService.getMany.mockResolvedValue([]);
+      tradeOrderService.createTradeOrder.mockResolvedValue({
+        _id: 'tp-record-id',
+      } as any);
 
       // When: Replace TP
       await service.replaceTakeProfitOrder(
@@ -1034,16 +2101,62 @@ describe('HyperliquidPlatformService', () => {
         55000,
       );
 
-      // Then: New order saved to DB
+      // Then: New order saved to DB with its trail-1 cloid before sending
+      const clientOrderId = buildClientOrderId(
+        'pos-btc-123',
+        ClientOrderRole.TRAIL,
+        1,
+      );
       expect(tradeOrderService.createTradeOrder).toHaveBeenCalledWith(
         expect.objectContaining({
-          orderId: 'new-tp-btc-999',
           position: 'pos-btc-123',
           triggerType: 'tp',
           triggerPrice: 55000,
           isTrigger: true,
+          clientOrderId,
         }),
       );
+      expect(hyperliquidService.placePerpOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ clientOrderId }),
+      );
+      expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+        'tp-record-id',
+        expect.objectContaining({ orderId: 'new-tp-btc-999' }),
+      );
+    });
+
+    it('should cancel old TP orders by cloid when they have one', async () => {
+      hyperliquidService.getTicker.mockResolvedValue({
+        mark: '50000',
+      } as any);
+      hyperliquidService.getPosition.mockResolvedValue({
+        coin: 'BTC',
+        szi: '0.1',
+      } as any);
+      hyperliquidService.placePerpOrder.mockResolvedValue({
+        orderId: 'new-tp-123',
+        status: TradeOrderStatus.CREATED,
+      });
+      hyperliquidService.cancelOrderByCloid = jest
+        .fn()
+        .mockResolvedValue(undefined);
+      tradeOrderService.getMany.mockResolvedValue([
+        { orderId: 'old-tp-456', clientOrderId: '0xabc' } as any,
+      ]);
+
+      const result = await service.replaceTakeProfitOrder(
+        'BTC',
+        PositionDirection.LONG,
+        'pos-123',
+        55000,
+      );
+
+      expect(hyperliquidService.cancelOrderByCloid).toHaveBeenCalledWith(
+        '0xabc',
+        'BTC',
+      );
+      expect(hyperliquidService.cancelOrder).not.toHaveBeenCalled();
+      expect(result.cancelledCount).toBe(1);
     });
 
     it('should handle multiple old TP orders', async () => {
@@ -1289,8 +2402,107 @@ describe('HyperliquidPlatformService', () => {
         position: 'pos-query-test',
         isTrigger: true,
         triggerType: 'tp',
+        ladderRung: { $exists: false },
         orderId: { $ne: 'new-unique-123' }, // Excludes new order!
+        status: {
+          $nin: [TradeOrderStatus.FAILED, TradeOrderStatus.CANCELLED],
+        },
+      });
+    });
+  });
+
+  describe('replaceStopLossOrder', () => {
+    beforeEach(() => {
+      hyperliquidService.getTicker.mockReset();
+      hyperliquidService.getPosition.mockReset();
+      hyperliquidService.placePerpOrder.mockReset();
+      hyperliquidService.cancelOrder = jest.fn().mockResolvedValue(undefined);
+      hyperliquidService.cancelOrderByCloid = jest
+        .fn()
+        .mockResolvedValue(undefined);
+      hyperliquidService.modifyPerpOrder = jest
+        .fn()
+        .mockRejectedValue(new Error('Cannot modify canceled or filled order'));
+      tradeOrderService.getMany.mockReset();
+      tradeOrderService.createTradeOrder.mockReset();
+
+      hyperliquidService.getTicker.mockResolvedValue({
+        mark: '50000',
+      } as any);
+      hyperliquidService.getPosition.mockResolvedValue({
+        coin: 'BTC',
+        szi: '0.1',
+      } as any);
+    });
+
+    it('should place the new SL order before cancelling old SL orders', async () => {
+      hyperliquidService.placePerpOrder.mockResolvedValue({
+        orderId: 'new-sl-123',
+        status: TradeOrderStatus.CREATED,
+      });
+      tradeOrderService.getMany.mockResolvedValue([
+        { orderId: 'old-sl-456', clientOrderId: '0xabc' } as any,
+      ]);
+
+      const result = await service.replaceStopLossOrder(
+        'BTC',
+        PositionDirection.LONG,
+        'pos-123',
+        49000,
+      );
+
+      expect(hyperliquidService.placePerpOrder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          direction: PositionDirection.SHORT,
+          triggerPrice: 49000,
+          triggerType: 'sl',
+          reduceOnly: true,
+          clientOrderId: buildClientOrderId(
+            'pos-123',
+            ClientOrderRole.TRAIL_STOP_LOSS,
+            1,
+          ),
+        }),
+      );
+      expect(tradeOrderService.getMany).toHaveBeenCalledWith({
+        position: 'pos-123',
+        isTrigger: true,
+        triggerType: 'sl',
+        ladderRung: { $exists: false },
+        orderId: { $ne: 'new-sl-123' },
+        status: {
+          $nin: [TradeOrderStatus.FAILED, TradeOrderStatus.CANCELLED],
+        },
       });
+      expect(
+        hyperliquidService.placePerpOrder.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        (hyperliquidService.cancelOrderByCloid as jest.Mock).mock
+          .invocationCallOrder[0],
+      );
+      expect(result).toEqual({ newOrderId: 'new-sl-123', cancelledCount: 1 });
+    });
+
+    it('should keep old SL orders when modify and the new order both fail', async () => {
+      hyperliquidService.placePerpOrder.mockRejectedValue(
+        new Error('Exchange error'),
+      );
+      tradeOrderService.getMany.mockResolvedValue([
+        { orderId: 'old-sl-456' } as any,
+      ]);
+
+      await expect(
+        service.replaceStopLossOrder(
+          'BTC',
+          PositionDirection.LONG,
+          'pos-123',
+          49000,
+        ),
+      ).rejects.toThrow('Exchange error');
+
+      expect(hyperliquidService.modifyPerpOrder).toHaveBeenCalled();
+      expect(hyperliquidService.cancelOrder).not.toHaveBeenCalled();
+      expect(hyperliquidService.cancelOrderByCloid).not.toHaveBeenCalled();
     });
   });
 });
@@ -1,4 +1,4 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import {
   PositionDirection,
@@ -8,6 +8,19 @@ import {
   Platform,
   TradeType,
   retryCallback,
+  RiskRejectionCode,
+  RiskRejectionError,
+  buildClientOrderId,
+  ClientOrderRole,
+  CreateTradeOrderOptions,
+  PlacePerpOrderParams,
+  TradeOrderStatus,
+  EntryMode,
+  HLOpenOrder,
+  UpdateTradeOrderOptions,
+  BracketOrderResult,
+  MarginMode,
+  TradePositionStatus,
 } from '../../shared';
 import { HyperliquidService } from '../../infrastructure/hyperliquid/HyperliquidService';
 import { HyperliquidWebSocketService } from '../../infrastructure/hyperliquid/HyperliquidWebSocket.service';
@@ -18,11 +31,32 @@ import {
 } from '../../infrastructure';
 import { TradePositionDocument } from '../trade-position/TradePosition.schema';
 import { TradeOrderService } from '../trade-order/TradeOrder.service';
+import { TradeOrderDocument } from '../trade-order/TradeOrder.schema';
 import { TradePositionService } from '../trade-position/TradePosition.service';
+import { HyperliquidAlgoExecutionService } from './HyperliquidAlgoExecution.service';
+
+/**
+ * A resting maker entry followed by the requote timer
+ */
+interface MakerEntry {
+  token: string;
+  direction: PositionDirection;
+  // Changes with every requote, the cloid stays the same
+  orderId: string;
+  clientOrderId?: string;
+  positionId?: string;
+  leverage?: number;
+  marginMode?: MarginMode;
+  deadline: number;
+}
 
 @Injectable()
-export class HyperliquidPlatformService extends BasePlatformService {
+export class HyperliquidPlatformService
+  extends BasePlatformService
+  implements OnModuleDestroy
+{
   protected readonly logger = new Logger(HyperliquidPlatformService.name);
+  private readonly makerEntryTimers = new Map<string, NodeJS.Timeout>();
 
   constructor(
     private readonly configService: ConfigService,
@@ -31,11 +65,19 @@ export class HyperliquidPlatformService extends BasePlatformService {
     private readonly hyperliquidWebSocket?: HyperliquidWebSocketService,
     private readonly tradeOrderService?: TradeOrderService,
     private readonly tradePositionService?: TradePositionService,
+    private readonly algoExecution?: HyperliquidAlgoExecutionService,
   ) {
     super(predictorAdapter);
     this.registerWebSocketHandlers();
   }
 
+  onModuleDestroy(): void {
+    for (const timer of this.makerEntryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.makerEntryTimers.clear();
+  }
+
   /**
    * Validate order size against maximum notional amount
    * Throws error if order size exceeds configured limit
@@ -63,6 +105,155 @@ export class HyperliquidPlatformService extends BasePlatformService {
     );
   }
 
+  /**
+   * Pre-trade check of account-wide exposure against maxTotalNotional
+   * Exposure is the notional of open exchange positions plus resting orders
+   * that can still open or increase a position (reduce-only orders excluded)
+   */
+  private async validateTotalNotional(
+    token: string,
+    quoteAmount: number,
+  ): Promise<void> {
+    const maxTotalNotional = this.configService.get<number>(
+      'hyperliquid.maxTotalNotional',
+      50000,
+    );
+
+    const [positions, openOrders] = await Promise.all([
+      this.hyperliquidService.getPositions(),
+      this.hyperliquidService.getOpenOrders(),
+    ]);
+
+    const positionsNotional = positions.reduce(
+      (sum, position) => sum + Math.abs(parseFloat(position.positionValue)),
+      0,
+    );
+    const openOrdersNotional = openOrders
+      .filter((order) => !order.reduceOnly)
+      .reduce((sum, order) => {
+        const price = parseFloat(
+          order.isTrigger ? order.triggerPx : order.limitPx,
+        );
+        return sum + parseFloat(order.sz) * price;
+      }, 0);
+
+    const currentNotional = positionsNotional + openOrdersNotional;
+    const projectedNotional = currentNotional + quoteAmount;
+
+    if (projectedNotional > maxTotalNotional) {
+      throw new RiskRejectionError({
+        code: RiskRejectionCode.MAX_TOTAL_NOTIONAL,
+        reason: `Entry of ${quoteAmount.toFixed(2)} for ${token} would raise total notional to ${projectedNotional.toFixed(2)}, above maximum ${maxTotalNotional}`,
+        details: {
+          requestedNotional: quoteAmount,
+          positionsNotional,
+          openOrdersNotional,
+          projectedNotional,
+          maxTotalNotional,
+        },
+        timestamp: new Date(),
+      });
+    }
+
+    this.logger.log(
+      `Total notional validation passed for ${token}: ${projectedNotional.toFixed(2)} (max: ${maxTotalNotional})`,
+    );
+  }
+
+  /**
+   * Pre-trade check of the spread and of the slippage expected from walking
+   * the order book for quoteAmount, against the perp limits or the defaults
+   */
+  private async validateExecutionCost(
+    token: string,
+    direction: PositionDirection,
+    quoteAmount: number,
+    perpMaxSpreadBps?: number,
+    perpMaxSlippageBps?: number,
+  ): Promise<void> {
+    const maxSpreadBps =
+      perpMaxSpreadBps ??
+      this.configService.get<number>('hyperliquid.maxSpreadBps', 50);
+    const maxSlippageBps =
+      perpMaxSlippageBps ??
+      this.configService.get<number>('hyperliquid.maxSlippageBps', 50);
+
+    const estimate = await this.hyperliquidService.estimateSlippage(
+      token,
+      direction,
+      quoteAmount,
+    );
+    const details = {
+      requestedNotional: quoteAmount,
+      spreadBps: estimate.spreadBps,
+      slippageBps: estimate.slippageBps,
+      fillableNotional: estimate.filledQuote,
+      maxSpreadBps,
+      maxSlippageBps,
+    };
+
+    if (estimate.spreadBps > maxSpreadBps) {
+      throw new RiskRejectionError({
+        code: RiskRejectionCode.MAX_SPREAD,
+        reason: `Spread of ${token} is ${estimate.spreadBps.toFixed(1)} bps, above maximum ${maxSpreadBps} bps`,
+        details,
+        timestamp: new Date(),
+      });
+    }
+
+    if (!estimate.fullyFillable || estimate.slippageBps > maxSlippageBps) {
+      throw new RiskRejectionError({
+        code: RiskRejectionCode.MAX_SLIPPAGE,
+        reason: estimate.fullyFillable
+          ? `Expected slippage of ${quoteAmount.toFixed(2)} ${direction} ${token} is ${estimate.slippageBps.toFixed(1)} bps, above maximum ${maxSlippageBps} bps`
+          : `Order book of ${token} only covers ${estimate.filledQuote.toFixed(2)} of ${quoteAmount.toFixed(2)}`,
+        details,
+        timestamp: new Date(),
+      });
+    }
+
+    this.logger.log(
+      `Execution cost validation passed for ${token}: spread ${estimate.spreadBps.toFixed(1)} bps, slippage ${estimate.slippageBps.toFixed(1)} bps`,
+    );
+  }
+
+  /**
+   * Refuse entries whose SL/TP prices sit on the wrong side for the direction
+   * LONG needs SL below and TP above the mark price, SHORT the reverse
+   */
+  private async validateProtectionSides(
+    token: string,
+    direction: PositionDirection,
+    stopLossPrice?: number,
+    takeProfitPrice?: number,
+  ): Promise<void> {
+    if (!stopLossPrice && !takeProfitPrice) {
+      return;
+    }
+
+    const ticker = await this.hyperliquidService.getTicker(token);
+    const markPrice = parseFloat(ticker?.mark);
+    if (!markPrice || isNaN(markPrice)) {
+      throw new Error(
+        `Invalid mark price for ${token}, cannot validate SL/TP sides`,
+      );
+    }
+
+    const isLong = direction === PositionDirection.LONG;
+    const stopLossValid =
+      !stopLossPrice ||
+      (isLong ? stopLossPrice < markPrice : stopLossPrice > markPrice);
+    const takeProfitValid =
+      !takeProfitPrice ||
+      (isLong ? takeProfitPrice > markPrice : takeProfitPrice < markPrice);
+
+    if (!stopLossValid || !takeProfitValid) {
+      throw new Error(
+        `SL/TP sides do not match ${direction} entry for ${token} (SL: ${stopLossPrice}, TP: ${takeProfitPrice}, mark: ${markPrice})`,
+      );
+    }
+  }
+
   /**
    * Register WebSocket handlers for order fills and updates
    */
@@ -73,9 +264,13 @@ export class HyperliquidPlatformService extends BasePlatformService {
 
     // Register handler for order fills
     this.hyperliquidWebSocket.onOrderFill(async (fill) => {
-      await this.tradeOrderService.handleOrderFill(fill);
+      const applied = await this.tradeOrderService.handleOrderFill(fill);
+      if (!applied) {
+        return;
+      }
       // After handling the fill, check if we need to create SL/TP orders
       await this.handlePositionFillForSlTp(fill);
+      await this.handleTakeProfitRungFill(fill);
     });
 
     // Register handler for order updates
@@ -142,6 +337,13 @@ export class HyperliquidPlatformService extends BasePlatformService {
           position.stopLossPrice,
           position.takeProfitPrice,
         );
+      } else if (order.parentOrder) {
+        // Every algo child grows the position, resize SL/TP to the exchange size
+        await this.resizeSlTpOrders(position);
+      }
+
+      if (position.takeProfitLadder?.length) {
+        await this.ensureTakeProfitLadder(position, order);
       }
     } catch (error) {
       this.logger.error(
@@ -151,15 +353,143 @@ export class HyperliquidPlatformService extends BasePlatformService {
     }
   }
 
+  /**
+   * Place the ladder rungs of a position once its entry has filled
+   * Rungs are sized from the exchange position, so algo entries wait for the
+   * parent to fill; the entry cloids make a second placement a no-op
+   */
+  private async ensureTakeProfitLadder(
+    position: TradePositionDocument,
+    entryOrder: TradeOrderDocument,
+  ): Promise<void> {
+    const positionId = String(position._id);
+
+    if (entryOrder.parentOrder) {
+      const filledParents = await this.tradeOrderService.countTradeOrders({
+        _id: entryOrder.parentOrder,
+        status: TradeOrderStatus.FILLED,
+      });
+      if (filledParents === 0) {
+        return;
+      }
+    }
+
+    const rungOrders = await this.tradeOrderService.countTradeOrders({
+      position: positionId,
+      ladderRung: { $exists: true },
+      status: { $ne: TradeOrderStatus.FAILED },
+    });
+    if (rungOrders > 0) {
+      return;
+    }
+
+    await this.placeTakeProfitLadder(position);
+  }
+
+  /**
+   * Move the SL to the entry price on the first fill of any take-profit rung,
+   * so the rest of the position can no longer turn into a loss
+   */
+  private async handleTakeProfitRungFill(fill: OrderFill): Promise<void> {
+    try {
+      if (!this.tradeOrderService || !this.tradePositionService) {
+        return;
+      }
+
+      // Partial fills count, a rung that never completes still moves the SL
+      const order = await this.tradeOrderService.getByOrderId(fill.orderId, {
+        queryOptions: { populate: 'position' },
+      });
+      if (!order?.ladderRung || !(order.filledSize > 0)) {
+        return;
+      }
+
+      const position =
+        typeof order.position === 'string'
+          ? await this.tradePositionService.getTradePositionById(order.position)
+          : order.position;
+      if (
+        !position ||
+        position.status !== TradePositionStatus.OPEN ||
+        !position.entryPrice
+      ) {
+        return;
+      }
+
+      const breakEven = position.entryPrice;
+      const isLong = position.positionDirection === PositionDirection.LONG;
+      const atBreakEven =
+        position.stopLossPrice !== undefined &&
+        position.stopLossPrice !== null &&
+        (isLong
+          ? position.stopLossPrice >= breakEven
+          : position.stopLossPrice <= breakEven);
+      if (atBreakEven) {
+        return;
+      }
+
+      const positionId = String(position._id);
+      this.logger.log(
+        `Take-profit rung ${order.ladderRung} of ${position.token} filled, moving SL of position ${positionId} to break-even at ${breakEven}`,
+      );
+      await this.replaceStopLossOrder(
+        position.token,
+        position.positionDirection,
+        positionId,
+        breakEven,
+      );
+      await this.tradePositionService.updateTradePosition(positionId, {
+        stopLossPrice: breakEven,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to move the SL to break-even after take-profit rung fill ${fill.orderId}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Replace live SL/TP orders at their current prices, which sizes them to
+   * the exchange position
+   */
+  private async resizeSlTpOrders(
+    position: TradePositionDocument,
+  ): Promise<void> {
+    const positionId = String(position._id);
+    this.logger.log(
+      `Resizing SL/TP orders for position ${positionId} after algo child fill`,
+    );
+
+    if (position.stopLossPrice) {
+      await this.replaceStopLossOrder(
+        position.token,
+        position.positionDirection,
+        positionId,
+        position.stopLossPrice,
+      );
+    }
+    if (position.takeProfitPrice) {
+      await this.replaceTakeProfitOrder(
+        position.token,
+        position.positionDirection,
+        positionId,
+        position.takeProfitPrice,
+      );
+    }
+  }
+
   /**
    * Check if position already has SL/TP trigger orders
    */
   private async hasExistingSlTpOrders(positionId: string): Promise<boolean> {
     try {
       // Query orders for this position that are trigger orders
+      // Records of orders the exchange never accepted do not count
       const orders = await this.tradeOrderService.getMany({
         position: positionId,
         isTrigger: true,
+        status: { $ne: TradeOrderStatus.FAILED },
       });
       return orders.length > 0;
     } catch (error) {
@@ -180,6 +510,7 @@ export class HyperliquidPlatformService extends BasePlatformService {
       currency,
       token,
       amountIn,
+      leverage,
       stopLossPrice,
       takeProfitPrice,
     } = options;
@@ -190,6 +521,8 @@ export class HyperliquidPlatformService extends BasePlatformService {
       currency,
       token,
       amountIn,
+      direction: options.direction,
+      leverage,
       stopLossPrice,
       takeProfitPrice,
     });
@@ -207,28 +540,47 @@ export class HyperliquidPlatformService extends BasePlatformService {
         );
       }
 
-      // Determine direction based on the trade
+      // Use the direction the caller computed SL/TP for, trend signals only as fallback
       // For perps, we're either going long or short on the base asset
       // amountIn represents the quote amount (USDC) we want to use
-      const direction = await this.determineDirection(token);
+      const direction =
+        options.direction || (await this.determineDirection(token));
       if (!direction) {
         throw new Error(
           `Unable to determine trading direction for ${token}. No valid trend signals found.`,
         );
       }
 
-      // Validate order size before placing order to prevent extremely large orders
-      this.validateOrderSize(options.amountIn, 'entry position');
+      // Algo entries hit the book one child at a time, so size and execution
+      // cost are checked per child while the total notional covers the parent
+      const orderAmount = options.executionAlgo
+        ? this.algoExecution.getChildNotional(
+            options.executionAlgo,
+            options.amountIn,
+          )
+        : options.amountIn;
 
-      const tradeOrderResult = await this.hyperliquidService.placePerpOrder({
-        symbol: token,
+      // Validate order size before placing order to prevent extremely large orders
+      this.validateOrderSize(orderAmount, 'entry position');
+      await this.validateTotalNotional(token, options.amountIn);
+      await this.validateExecutionCost(
+        token,
         direction,
-        quoteAmount: options.amountIn,
-        // Use market order by default (no price specified)
-        tif: 'Ioc', // Immediate or Cancel for market-like execution
-      });
+        orderAmount,
+        options.maxSpreadBps,
+        options.maxSlippageBps,
+      );
+      await this.validateProtectionSides(
+        token,
+        direction,
+        stopLossPrice,
+        takeProfitPrice,
+      );
 
-      const { orderId, status, size, price, fee, type } = tradeOrderResult;
+      const tradeOrderResult = await this.placeEntryOrder(options, direction);
+
+      const { orderId, status, size, price, fee, type, isPaper } =
+        tradeOrderResult;
 
       this.logger.log(`Hyperliquid order placed successfully`, {
         orderId,
@@ -245,6 +597,7 @@ export class HyperliquidPlatformService extends BasePlatformService {
         price,
         fee,
         type,
+        isPaper,
         message: '',
         // Pass SL/TP info so caller can create orders after position is created
         metadata: {
@@ -259,6 +612,375 @@ export class HyperliquidPlatformService extends BasePlatformService {
     }
   }
 
+  /**
+   * Send the entry as an algo parent, a maker ALO order or a single IOC
+   * Leverage is applied via updateLeverage before the order is submitted
+   */
+  private async placeEntryOrder(
+    options: EnterPositionOptions,
+    direction: PositionDirection,
+  ): Promise<TradeOrderResult> {
+    const { token, leverage, marginMode, clientOrderId } = options;
+
+    if (options.executionAlgo) {
+      if (!clientOrderId || !this.algoExecution) {
+        throw new Error(
+          `${options.executionAlgo} entry for ${token} needs a persisted entry order`,
+        );
+      }
+      return this.algoExecution.start({
+        algo: options.executionAlgo,
+        token,
+        direction,
+        quoteAmount: options.amountIn,
+        clientOrderId,
+        leverage,
+        marginMode,
+      });
+    }
+
+    if (options.entryMode === EntryMode.MAKER) {
+      return this.placeMakerEntry(options, direction);
+    }
+
+    if (
+      this.configService.get<boolean>('hyperliquid.bracketOrders', false) &&
+      (options.stopLossPrice || options.takeProfitPrice) &&
+      options.positionId &&
+      this.tradeOrderService
+    ) {
+      return this.placeBracketEntry(options, direction);
+    }
+
+    return this.hyperliquidService.placePerpOrder({
+      symbol: token,
+      direction,
+      quoteAmount: options.amountIn,
+      // Use market order by default (no price specified)
+      tif: 'Ioc', // Immediate or Cancel for market-like execution
+      ...(leverage && { leverage, marginMode }),
+      ...(clientOrderId && { clientOrderId }),
+    });
+  }
+
+  /**
+   * Send the IOC entry and its SL/TP as one grouped order, so the position is
+   * protected from its first fill; SL/TP records are persisted with their
+   * cloids first and pick up their oids from the response or order updates
+   */
+  private async placeBracketEntry(
+    options: EnterPositionOptions,
+    direction: PositionDirection,
+  ): Promise<TradeOrderResult> {
+    const { token, leverage, marginMode, clientOrderId, positionId } = options;
+    const closeDirection =
+      direction === PositionDirection.LONG
+        ? PositionDirection.SHORT
+        : PositionDirection.LONG;
+
+    const protection = [
+      options.stopLossPrice &&
+        this.buildProtectionOrder(
+          token,
+          closeDirection,
+          positionId,
+          'sl',
+          options.stopLossPrice,
+          options.amountIn,
+        ),
+      options.takeProfitPrice &&
+        this.buildProtectionOrder(
+          token,
+          closeDirection,
+          positionId,
+          'tp',
+          options.takeProfitPrice,
+          options.amountIn,
+        ),
+    ].filter(Boolean);
+    const records = await Promise.all(
+      protection.map(([params, record]) =>
+        this.tradeOrderService.createTradeOrder({
+          ...record,
+          clientOrderId: params.clientOrderId,
+        }),
+      ),
+    );
+
+    let result: BracketOrderResult;
+    try {
+      result = await this.hyperliquidService.placeBracketOrder({
+        entry: {
+          symbol: token,
+          direction,
+          quoteAmount: options.amountIn,
+          tif: 'Ioc',
+          ...(leverage && { leverage, marginMode }),
+          ...(clientOrderId && { clientOrderId }),
+        },
+        stopLoss: protection.find(
+          ([params]) => params.triggerType === 'sl',
+        )?.[0],
+        takeProfit: protection.find(
+          ([params]) => params.triggerType === 'tp',
+        )?.[0],
+        grouping: this.configService.get<'normalTpsl' | 'positionTpsl'>(
+          'hyperliquid.bracketGrouping',
+          'normalTpsl',
+        ),
+      });
+    } catch (error) {
+      await Promise.all(
+        records.map((record) =>
+          this.tradeOrderService.updateTradeOrder(String(record._id), {
+            status: TradeOrderStatus.FAILED,
+          }),
+        ),
+      );
+      throw error;
+    }
+
+    await Promise.all(
+      records.map((record) => {
+        const leg =
+          record.triggerType === 'sl' ? result.stopLoss : result.takeProfit;
+        if (leg?.status !== TradeOrderStatus.CREATED) {
+          this.logger.warn(
+            `Bracket ${record.triggerType.toUpperCase()} for ${token} rejected: ${leg?.message || 'no status'}`,
+          );
+        }
+        return this.tradeOrderService.updateTradeOrder(String(record._id), {
+          ...(leg?.orderId && { orderId: leg.orderId }),
+          status: leg?.status ?? TradeOrderStatus.FAILED,
+          size: leg?.size,
+          price: leg?.price,
+        });
+      }),
+    );
+
+    this.logger.log(
+      `Bracket entry for ${token} placed with ${records.length} protection order(s)`,
+    );
+
+    return result.entry;
+  }
+
+  /**
+   * Rest a post-only (ALO) entry at the best bid (LONG) or best ask (SHORT)
+   * A timer requotes it as the book moves and sends whatever is left as IOC
+   * after makerTimeoutMs; the position stays CREATED until fills arrive
+   */
+  private async placeMakerEntry(
+    options: EnterPositionOptions,
+    direction: PositionDirection,
+  ): Promise<TradeOrderResult> {
+    const { token, leverage, marginMode, clientOrderId, positionId } = options;
+    const price = await this.getMakerPrice(token, direction);
+
+    const result = await this.hyperliquidService.placePerpOrder({
+      symbol: token,
+      direction,
+      quoteAmount: options.amountIn,
+      price,
+      tif: 'Alo',
+      ...(leverage && { leverage, marginMode }),
+      ...(clientOrderId && { clientOrderId }),
+    });
+
+    const timeoutMs = this.configService.get<number>(
+      'hyperliquid.makerTimeoutMs',
+      60000,
+    );
+    this.scheduleMakerRequote({
+      token,
+      direction,
+      orderId: result.orderId,
+      clientOrderId,
+      positionId,
+      leverage,
+      marginMode,
+      deadline: Date.now() + timeoutMs,
+    });
+
+    this.logger.log(
+      `Maker entry for ${token} resting at ${price}, IOC fallback in ${timeoutMs}ms`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Best price on our own side of the book, where an ALO order joins the queue
+   */
+  private async getMakerPrice(
+    token: string,
+    direction: PositionDirection,
+  ): Promise<number> {
+    const book = await this.hyperliquidService.getOrderbook(token);
+    const [bids, asks] = book.levels || [[], []];
+    const best = direction === PositionDirection.LONG ? bids?.[0] : asks?.[0];
+    if (!best) {
+      throw new Error(`Order book is empty for ${token}`);
+    }
+    return parseFloat(best.px);
+  }
+
+  private scheduleMakerRequote(entry: MakerEntry): void {
+    const intervalMs = this.configService.get<number>(
+      'hyperliquid.makerRequoteIntervalMs',
+      5000,
+    );
+
+    const timer = setTimeout(() => {
+      this.makerEntryTimers.delete(entry.token);
+      this.requoteMakerEntry(entry).catch((error) => {
+        this.logger.error(
+          `Failed to requote maker entry for ${entry.token}`,
+          error,
+        );
+        // Keep following the order; the loop ends once it no longer rests
+        this.scheduleMakerRequote(entry);
+      });
+    }, intervalMs);
+
+    this.makerEntryTimers.set(entry.token, timer);
+  }
+
+  /**
+   * One requote tick of a maker entry
+   * Stops once the order no longer rests (filled or cancelled); past the
+   * deadline the order is cancelled and its remainder sent as IOC
+   */
+  private async requoteMakerEntry(entry: MakerEntry): Promise<void> {
+    const { token, direction } = entry;
+
+    const openOrders = await this.hyperliquidService.getOpenOrders();
+    const resting = openOrders.find(
+      (order) => String(order.oid) === entry.orderId,
+    );
+    if (!resting) {
+      this.logger.log(
+        `Maker entry ${entry.orderId} for ${token} no longer rests, requoting stopped`,
+      );
+      return;
+    }
+
+    if (Date.now() >= entry.deadline) {
+      await this.fallBackToTakerEntry(entry, resting);
+      return;
+    }
+
+    const price = await this.getMakerPrice(token, direction);
+    if (price !== parseFloat(resting.limitPx)) {
+      const size = parseFloat(resting.sz);
+      try {
+        const result = await this.hyperliquidService.modifyPerpOrder({
+          symbol: token,
+          direction,
+          quoteAmount: size * price,
+          size,
+          price,
+          tif: 'Alo',
+          orderId: entry.orderId,
+          ...(entry.clientOrderId && { clientOrderId: entry.clientOrderId }),
+        });
+        entry.orderId = result.orderId;
+        await this.updateEntryRecord(entry, {
+          orderId: result.orderId,
+          limitPrice: price,
+        });
+        this.logger.log(
+          `Requoted maker entry for ${token} from ${resting.limitPx} to ${price}`,
+        );
+      } catch (error) {
+        // ALO modifies are rejected when the book moved through the new price
+        this.logger.warn(
+          `Requote of maker entry for ${token} rejected: ${error.message}`,
+        );
+      }
+    }
+
+    this.scheduleMakerRequote(entry);
+  }
+
+  /**
+   * Cancel a maker entry that did not fill in time and send its remaining
+   * size as an IOC order with its own tracked trade order
+   */
+  private async fallBackToTakerEntry(
+    entry: MakerEntry,
+    resting: HLOpenOrder,
+  ): Promise<void> {
+    const { token, direction, positionId } = entry;
+
+    try {
+      await this.hyperliquidService.cancelOrder(entry.orderId, token);
+    } catch (error) {
+      this.logger.warn(
+        `Could not cancel maker entry ${entry.orderId} for ${token}, it filled or was cancelled: ${error.message}`,
+      );
+      return;
+    }
+
+    const record = await this.findEntryRecord(entry);
+    if (record && !record.filledSize) {
+      await this.tradeOrderService.updateTradeOrder(String(record._id), {
+        status: TradeOrderStatus.CANCELLED,
+      });
+    }
+
+    const size = parseFloat(resting.sz);
+    this.logger.log(
+      `Maker entry for ${token} timed out, sending remaining ${size} as IOC`,
+    );
+
+    await this.placeTrackedOrder(
+      {
+        symbol: token,
+        direction,
+        quoteAmount: size * parseFloat(resting.limitPx),
+        size,
+        tif: 'Ioc',
+        ...(entry.leverage && {
+          leverage: entry.leverage,
+          marginMode: entry.marginMode,
+        }),
+        ...(positionId && {
+          clientOrderId: buildClientOrderId(
+            positionId,
+            ClientOrderRole.ENTRY_FALLBACK,
+          ),
+        }),
+      },
+      {
+        status: TradeOrderStatus.CREATED,
+        position: positionId,
+        type: 'market',
+        coin: token,
+        side: direction === PositionDirection.LONG ? 'B' : 'S',
+      },
+    );
+  }
+
+  private async findEntryRecord(
+    entry: MakerEntry,
+  ): Promise<TradeOrderDocument | null> {
+    if (!this.tradeOrderService || !entry.clientOrderId) {
+      return null;
+    }
+    return this.tradeOrderService.getByClientOrderId(entry.clientOrderId);
+  }
+
+  private async updateEntryRecord(
+    entry: MakerEntry,
+    update: UpdateTradeOrderOptions,
+  ): Promise<void> {
+    const record = await this.findEntryRecord(entry);
+    if (record) {
+      await this.tradeOrderService.updateTradeOrder(String(record._id), update);
+    }
+  }
+
   /**
    * Create stop-loss and take-profit trigger orders after entering a position
    * This should be called after the position is created and we have the position ID
@@ -364,87 +1086,247 @@ export class HyperliquidPlatformService extends BasePlatformService {
     }
 
     // Create SL and TP orders in parallel to reduce latency
+    // Each order is persisted with its cloid before it is sent
     const [slResult, tpResult] = await Promise.all([
       stopLossPrice
-        ? this.hyperliquidService
-            .placePerpOrder({
-              symbol: token,
-              direction: closeDirection,
+        ? this.placeTrackedOrder(
+            ...this.buildProtectionOrder(
+              token,
+              closeDirection,
+              positionId,
+              'sl',
+              stopLossPrice,
               quoteAmount,
-              triggerPrice: stopLossPrice,
-              triggerType: 'sl',
-              isMarket: true,
-              reduceOnly: true,
-            })
-            .catch((error) => {
-              this.logger.error('Failed to create stop-loss order', error);
-              throw error;
-            })
+            ),
+          ).catch((error) => {
+            this.logger.error('Failed to create stop-loss order', error);
+            throw error;
+          })
         : Promise.resolve(null),
       takeProfitPrice
-        ? this.hyperliquidService
-            .placePerpOrder({
-              symbol: token,
-              direction: closeDirection,
+        ? this.placeTrackedOrder(
+            ...this.buildProtectionOrder(
+              token,
+              closeDirection,
+              positionId,
+              'tp',
+              takeProfitPrice,
               quoteAmount,
-              triggerPrice: takeProfitPrice,
-              triggerType: 'tp',
-              isMarket: true,
-              reduceOnly: true,
-            })
-            .catch((error) => {
-              this.logger.error('Failed to create take-profit order', error);
-              throw error;
-            })
+            ),
+          ).catch((error) => {
+            this.logger.error('Failed to create take-profit order', error);
+            throw error;
+          })
         : Promise.resolve(null),
     ]);
 
-    // Save SL order to database
-    if (slResult?.orderId && this.tradeOrderService) {
+    if (slResult?.orderId) {
       this.logger.log(`Stop-loss order created`, {
         orderId: slResult.orderId,
         token,
         triggerPrice: stopLossPrice,
       });
-
-      await this.tradeOrderService.createTradeOrder({
-        orderId: slResult.orderId,
-        status: slResult.status,
-        position: positionId,
-        type: slResult.type || 'trigger_sl',
-        coin: token,
-        side: closeDirection,
-        size: slResult.size,
-        price: slResult.price,
-        isTrigger: true,
-        triggerPrice: stopLossPrice,
-        triggerType: 'sl',
-        isMarket: true,
-      });
     }
 
-    if (tpResult?.orderId && this.tradeOrderService) {
+    if (tpResult?.orderId) {
       this.logger.log(`Take-profit order created`, {
         orderId: tpResult.orderId,
         token,
         triggerPrice: takeProfitPrice,
       });
+    }
+  }
 
-      await this.tradeOrderService.createTradeOrder({
-        orderId: tpResult.orderId,
-        status: tpResult.status,
+  /**
+   * Place a reduce-only TP trigger per ladder rung, each closing its share of
+   * the exchange position; the position's TP keeps covering the full size, so
+   * it closes whatever the rungs leave
+   * A rung that fails or is already through the price is skipped, the others
+   * and the TP still protect the position
+   */
+  private async placeTakeProfitLadder(
+    position: TradePositionDocument,
+  ): Promise<void> {
+    const { token, positionDirection, takeProfitLadder } = position;
+    const positionId = String(position._id);
+    if (!takeProfitLadder?.length) {
+      return;
+    }
+
+    const exchangePosition = await this.hyperliquidService.getPosition(token);
+    const size = exchangePosition?.szi
+      ? Math.abs(parseFloat(exchangePosition.szi))
+      : position.remainingSize || position.totalFilledSize;
+    if (!size) {
+      this.logger.warn(
+        `No position size for ${token}, skipping take-profit ladder of position ${positionId}`,
+      );
+      return;
+    }
+
+    const ticker = await this.hyperliquidService.getTicker(token);
+    const currentPrice = parseFloat(ticker.mark);
+    const quoteAmount = calculateQuoteAmount(size, currentPrice);
+    const isLong = positionDirection === PositionDirection.LONG;
+    const closeDirection = isLong
+      ? PositionDirection.SHORT
+      : PositionDirection.LONG;
+
+    await Promise.all(
+      takeProfitLadder.map(async (rung, index) => {
+        const ladderRung = index + 1;
+        if (isLong ? rung.price <= currentPrice : rung.price >= currentPrice) {
+          this.logger.warn(
+            `Take-profit rung ${ladderRung} of ${token} at ${rung.price} is already through the price ${currentPrice}, skipping`,
+          );
+          return;
+        }
+
+        const [params, record] = this.buildProtectionOrder(
+          token,
+          closeDirection,
+          positionId,
+          'tp',
+          rung.price,
+          (quoteAmount * rung.sizePercent) / 100,
+        );
+        try {
+          this.validateOrderSize(params.quoteAmount, 'take-profit rung');
+          const result = await this.placeTrackedOrder(
+            {
+              ...params,
+              clientOrderId: buildClientOrderId(
+                positionId,
+                ClientOrderRole.TAKE_PROFIT_RUNG,
+                ladderRung,
+              ),
+            },
+            { ...record, ladderRung },
+          );
+          this.logger.log(`Take-profit rung ${ladderRung} created`, {
+            orderId: result?.orderId,
+            token,
+            triggerPrice: rung.price,
+            sizePercent: rung.sizePercent,
+          });
+        } catch (error) {
+          this.logger.error(
+            `Failed to create take-profit rung ${ladderRung} for ${token}`,
+            error,
+          );
+        }
+      }),
+    );
+  }
+
+  /**
+   * Exchange params and TradeOrder record of a reduce-only SL/TP trigger
+   */
+  private buildProtectionOrder(
+    token: string,
+    closeDirection: PositionDirection,
+    positionId: string,
+    triggerType: 'sl' | 'tp',
+    triggerPrice: number,
+    quoteAmount: number,
+  ): [PlacePerpOrderParams, CreateTradeOrderOptions] {
+    return [
+      {
+        symbol: token,
+        direction: closeDirection,
+        quoteAmount,
+        triggerPrice,
+        triggerType,
+        isMarket: true,
+        reduceOnly: true,
+        clientOrderId: buildClientOrderId(
+          positionId,
+          triggerType === 'sl'
+            ? ClientOrderRole.STOP_LOSS
+            : ClientOrderRole.TAKE_PROFIT,
+        ),
+      },
+      {
+        status: TradeOrderStatus.CREATED,
         position: positionId,
-        type: tpResult.type || 'trigger_tp',
+        type: `trigger_${triggerType}`,
         coin: token,
         side: closeDirection,
-        size: tpResult.size,
-        price: tpResult.price,
         isTrigger: true,
-        triggerPrice: takeProfitPrice,
-        triggerType: 'tp',
+        triggerPrice,
+        triggerType,
         isMarket: true,
-      });
+      },
+    ];
+  }
+
+  /**
+   * Persist a trade order with its cloid, then send it to the exchange
+   * The record gets the exchange order id once the order is accepted and is
+   * marked FAILED when it is not, so a crash mid-request leaves a cloid to
+   * look the order up by
+   */
+  private async placeTrackedOrder(
+    params: PlacePerpOrderParams,
+    tradeOrder: CreateTradeOrderOptions,
+  ): Promise<TradeOrderResult> {
+    const record = this.tradeOrderService
+      ? await this.tradeOrderService.createTradeOrder({
+          ...tradeOrder,
+          clientOrderId: params.clientOrderId,
+        })
+      : null;
+    const recordId = record ? String(record._id) : null;
+
+    let result: TradeOrderResult;
+    try {
+      result = await this.hyperliquidService.placePerpOrder(params);
+    } catch (error) {
+      if (recordId) {
+        await this.tradeOrderService.updateTradeOrder(recordId, {
+          status: TradeOrderStatus.FAILED,
+        });
+      }
+      throw error;
+    }
+
+    if (recordId) {
+      await this.tradeOrderService.updateTradeOrder(
+        recordId,
+        result?.orderId
+          ? {
+              orderId: result.orderId,
+              status: result.status,
+              type: result.type || tradeOrder.type,
+              size: result.size,
+              price: result.price,
+              ...(result.triggerPrice && { triggerPrice: result.triggerPrice }),
+            }
+          : { status: TradeOrderStatus.FAILED },
+      );
     }
+
+    return result;
+  }
+
+  /**
+   * Add (positive) or remove (negative) USD margin on an open isolated
+   * position, capping what it can lose independently of the account
+   */
+  async updateIsolatedMargin(
+    position: TradePositionDocument,
+    amountUsd: number,
+  ): Promise<void> {
+    if (position.status !== TradePositionStatus.OPEN) {
+      throw new Error(
+        `Position ${String(position._id)} for ${position.token} is not open`,
+      );
+    }
+
+    await this.hyperliquidService.updateIsolatedMargin(
+      position.token,
+      amountUsd,
+    );
   }
 
   async getCurrentPrice(token: string): Promise<number> {
@@ -454,8 +1336,8 @@ export class HyperliquidPlatformService extends BasePlatformService {
 
   /**
    * Replace take-profit order for trailing functionality
-   * Creates new TP order FIRST, then cancels old ones to avoid protection gap
-   * Does NOT update stop-loss on exchange (SL is DB-only for trailing)
+   * Modifies the live TP order in place; when the modify is rejected, creates
+   * a new TP order FIRST, then cancels old ones to avoid protection gap
    * @returns Object with new order ID and count of cancelled orders for verification
    */
   async replaceTakeProfitOrder(
@@ -464,6 +1346,44 @@ export class HyperliquidPlatformService extends BasePlatformService {
     positionId: string,
     newTpPrice: number,
   ): Promise<{ newOrderId: string; cancelledCount: number }> {
+    return this.replaceTriggerOrder(
+      token,
+      direction,
+      positionId,
+      'tp',
+      newTpPrice,
+    );
+  }
+
+  /**
+   * Replace stop-loss order for trailing functionality
+   * Same flow as replaceTakeProfitOrder: modify in place, or place the new SL
+   * before cancelling the old ones, so the position is never left without a stop
+   * @returns Object with new order ID and count of cancelled orders for verification
+   */
+  async replaceStopLossOrder(
+    token: string,
+    direction: PositionDirection,
+    positionId: string,
+    newSlPrice: number,
+  ): Promise<{ newOrderId: string; cancelledCount: number }> {
+    return this.replaceTriggerOrder(
+      token,
+      direction,
+      positionId,
+      'sl',
+      newSlPrice,
+    );
+  }
+
+  private async replaceTriggerOrder(
+    token: string,
+    direction: PositionDirection,
+    positionId: string,
+    triggerType: 'sl' | 'tp',
+    newTriggerPrice: number,
+  ): Promise<{ newOrderId: string; cancelledCount: number }> {
+    const label = triggerType.toUpperCase();
     try {
       // 1. Fetch current exchange position size to handle partial fills
       // Do this FIRST before any order operations
@@ -486,7 +1406,7 @@ export class HyperliquidPlatformService extends BasePlatformService {
       if (!exchangePosition || !exchangePosition.szi) {
         this.logger.error(`Failed to fetch position for ${token}`, retryError);
         throw new Error(
-          `Cannot replace TP order: no position found for ${token}`,
+          `Cannot replace ${label} order: no position found for ${token}`,
         );
       }
 
@@ -494,7 +1414,7 @@ export class HyperliquidPlatformService extends BasePlatformService {
 
       if (actualSize === 0) {
         this.logger.warn(
-          `Position size is 0 for ${token}, skipping TP order creation`,
+          `Position size is 0 for ${token}, skipping ${label} order creation`,
         );
         return { newOrderId: null, cancelledCount: 0 };
       }
@@ -505,11 +1425,14 @@ export class HyperliquidPlatformService extends BasePlatformService {
       const quoteAmount = calculateQuoteAmount(actualSize, currentPrice);
 
       this.logger.log(
-        `Replacing TP order for ${token}: size=${actualSize}, currentPrice=${currentPrice}, newTP=${newTpPrice}`,
+        `Replacing ${label} order for ${token}: size=${actualSize}, currentPrice=${currentPrice}, new${label}=${newTriggerPrice}`,
       );
 
       // Validate order size
-      this.validateOrderSize(quoteAmount, 'replace take-profit');
+      this.validateOrderSize(
+        quoteAmount,
+        triggerType === 'tp' ? 'replace take-profit' : 'replace stop-loss',
+      );
 
       // 3. Determine close direction (opposite of position direction)
       const closeDirection =
@@ -517,97 +1440,229 @@ export class HyperliquidPlatformService extends BasePlatformService {
           ? PositionDirection.SHORT
           : PositionDirection.LONG;
 
-      // 4. IMPORTANT: Place new TP trigger order BEFORE cancelling old ones
-      // This eliminates the gap where position has no TP protection
-      const tpResult = await this.hyperliquidService.placePerpOrder({
-        symbol: token,
-        direction: closeDirection,
-        quoteAmount,
-        triggerPrice: newTpPrice,
-        triggerType: 'tp',
-        isMarket: true,
-        reduceOnly: true,
-      });
-
-      // 5. Verify new TP order was created successfully
-      if (!tpResult?.orderId) {
-        throw new Error(
-          `Failed to create new TP order for ${token}: orderId is missing`,
-        );
-      }
-
-      this.logger.log(
-        `New TP order created for trailing: orderId=${tpResult.orderId}, triggerPrice=${newTpPrice}`,
+      // 4. Prefer modifying the live order in place, so there is never a
+      // second live order of the same type that could fill as well
+      const modified = await this.modifyTriggerOrder(
+        token,
+        positionId,
+        triggerType,
+        {
+          symbol: token,
+          direction: closeDirection,
+          quoteAmount,
+          triggerPrice: newTriggerPrice,
+          triggerType,
+          isMarket: true,
+          reduceOnly: true,
+        },
       );
+      if (modified) {
+        return modified;
+      }
 
-      // 6. Persist new TP order in DB
-      if (this.tradeOrderService) {
-        await this.tradeOrderService.createTradeOrder({
-          orderId: tpResult.orderId,
-          status: tpResult.status,
+      // 5. Fallback: Place new trigger order BEFORE cancelling old ones
+      // This eliminates the gap where position has no SL/TP protection
+      // The order is persisted with its trail-N cloid before it is sent
+      const trailSequence = this.tradeOrderService
+        ? await this.tradeOrderService.countTradeOrders({
+            position: positionId,
+            isTrigger: true,
+            triggerType,
+          })
+        : 0;
+      const newResult = await this.placeTrackedOrder(
+        {
+          symbol: token,
+          direction: closeDirection,
+          quoteAmount,
+          triggerPrice: newTriggerPrice,
+          triggerType,
+          isMarket: true,
+          reduceOnly: true,
+          clientOrderId: buildClientOrderId(
+            positionId,
+            triggerType === 'tp'
+              ? ClientOrderRole.TRAIL
+              : ClientOrderRole.TRAIL_STOP_LOSS,
+            trailSequence,
+          ),
+        },
+        {
+          status: TradeOrderStatus.CREATED,
           position: positionId,
-          type: tpResult.type || 'trigger_tp',
+          type: `trigger_${triggerType}`,
           coin: token,
           side: closeDirection,
-          size: tpResult.size,
-          price: tpResult.price,
           isTrigger: true,
-          triggerPrice: newTpPrice,
-          triggerType: 'tp',
+          triggerPrice: newTriggerPrice,
+          triggerType,
           isMarket: true,
-        });
+        },
+      );
+
+      // 6. Verify new trigger order was created successfully
+      if (!newResult?.orderId) {
+        throw new Error(
+          `Failed to create new ${label} order for ${token}: orderId is missing`,
+        );
       }
 
-      // 7. Now that new TP order is confirmed, cancel old TP orders
-      // Query for existing TP orders (excluding the one we just created)
+      this.logger.log(
+        `New ${label} order created for trailing: orderId=${newResult.orderId}, triggerPrice=${newTriggerPrice}`,
+      );
+
+      // 7. Now that new trigger order is confirmed, cancel old ones
+      // Query for existing orders of the same type (excluding the one we just created)
       let cancelledCount = 0;
       if (this.tradeOrderService) {
-        const existingTpOrders = await this.tradeOrderService.getMany({
+        const existingOrders = await this.tradeOrderService.getMany({
           position: positionId,
           isTrigger: true,
-          triggerType: 'tp',
+          triggerType,
+          ladderRung: { $exists: false },
           // Exclude the newly created order
-          orderId: { $ne: tpResult.orderId },
+          orderId: { $ne: newResult.orderId },
+          status: {
+            $nin: [TradeOrderStatus.FAILED, TradeOrderStatus.CANCELLED],
+          },
         });
 
-        if (existingTpOrders.length > 0) {
-          this.logger.log(
-            `Cancelling ${existingTpOrders.length} old TP order(s) for ${token}`,
-          );
-
-          // Cancel all old TP orders
-          for (const order of existingTpOrders) {
-            try {
-              await this.hyperliquidService.cancelOrder(order.orderId, token);
-              cancelledCount++;
-              this.logger.log(`Cancelled old TP order: ${order.orderId}`);
-            } catch (cancelError) {
-              // Log but don't throw - the new TP order is already in place
-              this.logger.warn(
-                `Failed to cancel old TP order ${order.orderId}: ${cancelError.message}`,
-                cancelError,
-              );
-            }
-          }
-        }
+        cancelledCount = await this.cancelTriggerOrders(
+          token,
+          label,
+          existingOrders,
+        );
       }
 
       // Return success verification data
       return {
-        newOrderId: tpResult.orderId,
+        newOrderId: newResult.orderId,
         cancelledCount,
       };
     } catch (error) {
       this.logger.error(
-        `Failed to replace TP order for ${token}: ${error.message}`,
+        `Failed to replace ${label} order for ${token}: ${error.message}`,
         error,
       );
       throw error;
     }
   }
 
+  /**
+   * Modify the live SL/TP order of a position with batchModify
+   * Extra live orders of the same type are cancelled once the modify succeeds
+   * Returns null when there is no live order or the exchange rejects the
+   * modify, so the caller can fall back to place-then-cancel
+   */
+  private async modifyTriggerOrder(
+    token: string,
+    positionId: string,
+    triggerType: 'sl' | 'tp',
+    params: PlacePerpOrderParams,
+  ): Promise<{ newOrderId: string; cancelledCount: number } | null> {
+    if (!this.tradeOrderService) {
+      return null;
+    }
+
+    const label = triggerType.toUpperCase();
+    const liveOrders = await this.tradeOrderService.getMany({
+      position: positionId,
+      isTrigger: true,
+      triggerType,
+      // Ladder rungs keep their prices
+      ladderRung: { $exists: false },
+      status: TradeOrderStatus.CREATED,
+      orderId: { $exists: true },
+    });
+    if (liveOrders.length === 0) {
+      return null;
+    }
+
+    // The most recent order is modified, older leftovers are cancelled
+    const target = liveOrders[liveOrders.length - 1];
+    let result: TradeOrderResult;
+    try {
+      result = await this.hyperliquidService.modifyPerpOrder({
+        ...params,
+        orderId: target.orderId,
+        // The modified order keeps its cloid so fills still map to the record
+        clientOrderId: target.clientOrderId,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Modify of ${label} order ${target.orderId} for ${token} rejected, falling back to place-then-cancel: ${error.message}`,
+      );
+      return null;
+    }
+
+    await this.tradeOrderService.updateTradeOrder(String(target._id), {
+      orderId: result.orderId,
+      // As rounded for the exchange
+      triggerPrice: result.triggerPrice ?? params.triggerPrice,
+      size: result.size,
+      price: result.price,
+    });
+
+    this.logger.log(
+      `Modified ${label} order for trailing: orderId=${result.orderId}, triggerPrice=${result.triggerPrice ?? params.triggerPrice}`,
+    );
+
+    const cancelledCount = await this.cancelTriggerOrders(
+      token,
+      label,
+      liveOrders.slice(0, -1),
+    );
+    return { newOrderId: result.orderId, cancelledCount };
+  }
+
+  /**
+   * Cancel replaced SL/TP orders and mark their records CANCELLED
+   * Failures are only logged, the replacement order is already in place
+   */
+  private async cancelTriggerOrders(
+    token: string,
+    label: string,
+    orders: TradeOrderDocument[],
+  ): Promise<number> {
+    if (orders.length === 0) {
+      return 0;
+    }
+
+    this.logger.log(
+      `Cancelling ${orders.length} old ${label} order(s) for ${token}`,
+    );
+
+    let cancelledCount = 0;
+    for (const order of orders) {
+      try {
+        if (order.clientOrderId) {
+          await this.hyperliquidService.cancelOrderByCloid(
+            order.clientOrderId,
+            token,
+          );
+        } else {
+          await this.hyperliquidService.cancelOrder(order.orderId, token);
+        }
+        await this.tradeOrderService.updateTradeOrder(String(order._id), {
+          status: TradeOrderStatus.CANCELLED,
+        });
+        cancelledCount++;
+        this.logger.log(`Cancelled old ${label} order: ${order.orderId}`);
+      } catch (cancelError) {
+        // Log but don't throw - the new order is already in place
+        this.logger.warn(
+          `Failed to cancel old ${label} order ${order.orderId}: ${cancelError.message}`,
+          cancelError,
+        );
+      }
+    }
+    return cancelledCount;
+  }
+
   async exitPosition(
     tradePosition: TradePositionDocument,
+    clientOrderId?: string,
+    attempt = 1,
   ): Promise<TradeOrderResult> {
     try {
       const { token, platform, positionDirection } = tradePosition;
@@ -673,19 +1728,40 @@ export class HyperliquidPlatformService extends BasePlatformService {
       // Validate order size before placing closing order
       this.validateOrderSize(quoteAmount, 'exit position');
 
+      // Every retry widens the IOC band so the remainder crosses more of the book
+      const slippageBps =
+        this.configService.get<number>('hyperliquid.iocSlippageBps', 50) +
+        (attempt - 1) *
+          this.configService.get<number>('hyperliquid.exitSlippageStepBps', 50);
+
       const tradeOrderResult = await this.hyperliquidService.placePerpOrder({
         symbol: token,
         direction: closeDirection,
         quoteAmount,
         reduceOnly: true, // Ensure this order only reduces the position
         tif: 'Ioc', // Immediate or Cancel for market execution
+        slippageBps,
+        ...(clientOrderId && { clientOrderId }),
       });
 
-      const { orderId, status, size, price, fee, type } = tradeOrderResult;
+      const { orderId, status, size, price, fee, type, filledSize } =
+        tradeOrderResult;
+      const remainingSize =
+        filledSize === undefined
+          ? undefined
+          : Math.max(0, positionSizeToClose - filledSize);
 
       this.logger.log(
         `Successfully placed closing order for ${token} position`,
-        { orderId, size, price },
+        {
+          orderId,
+          size,
+          price,
+          attempt,
+          slippageBps,
+          filledSize,
+          remainingSize,
+        },
       );
 
       return {
@@ -695,6 +1771,9 @@ export class HyperliquidPlatformService extends BasePlatformService {
         price,
         fee,
         type,
+        filledSize,
+        averagePrice: tradeOrderResult.averagePrice,
+        remainingSize,
         message: '',
       };
     } catch (error) {
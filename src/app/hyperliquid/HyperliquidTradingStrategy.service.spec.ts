@@ -93,6 +93,7 @@ describe('HyperliquidTradingStrategyService', () => {
       placePerpOrder: jest.fn(),
       cancelOrder: jest.fn(),
       getMarkets: jest.fn(),
+      estimateSlippage: jest.fn(),
     } as any;
 
     mockPerpService = {
@@ -495,6 +496,82 @@ describe('HyperliquidTradingStrategyService', () => {
       expect(result.confidence).toBeGreaterThan(0.65);
     });
 
+    describe('market fallback without AI prediction', () => {
+      beforeEach(() => {
+        mockPerpService.findByToken.mockResolvedValue({
+          token: 'BTC',
+          maxSpreadBps: 10,
+        } as any);
+        mockPredictorAdapter.predictToken.mockResolvedValue(null);
+        mockHyperliquidService.getTicker.mockResolvedValue({
+          coin: 'BTC',
+          mark: '50010',
+          bid: '49990',
+          ask: '50010',
+          last: '50000',
+          volume24h: '1000000',
+          openInterest: '500000',
+          fundingRate: '0.0001',
+        });
+        mockHyperliquidService.estimateSlippage.mockResolvedValue({
+          slippageBps: 3,
+          fullyFillable: true,
+        } as any);
+        mockConfigService.get.mockImplementation(
+          (key: string, defaultValue?: any) =>
+            key === 'hyperliquid.enabled' ? true : defaultValue,
+        );
+      });
+
+      it('should enter when spread and slippage are within the limits', async () => {
+        const result = await service.shouldEnterPosition(
+          'BTC',
+          mockTradingParams,
+        );
+
+        expect(result.shouldTrade).toBe(true);
+        expect(result.metadata.direction).toBe(PositionDirection.LONG);
+        expect(mockHyperliquidService.estimateSlippage).toHaveBeenCalledWith(
+          'BTC',
+          PositionDirection.LONG,
+          1000,
+        );
+      });
+
+      it('should skip when the spread exceeds the perp limit', async () => {
+        mockPerpService.findByToken.mockResolvedValue({
+          token: 'BTC',
+          maxSpreadBps: 2,
+        } as any);
+
+        const result = await service.shouldEnterPosition(
+          'BTC',
+          mockTradingParams,
+        );
+
+        expect(result.shouldTrade).toBe(false);
+        expect(result.reason).toBe('Spread too wide (0.04%, max 2 bps)');
+        expect(mockHyperliquidService.estimateSlippage).not.toHaveBeenCalled();
+      });
+
+      it('should skip when the expected slippage exceeds the default limit', async () => {
+        mockHyperliquidService.estimateSlippage.mockResolvedValue({
+          slippageBps: 80,
+          fullyFillable: true,
+        } as any);
+
+        const result = await service.shouldEnterPosition(
+          'BTC',
+          mockTradingParams,
+        );
+
+        expect(result.shouldTrade).toBe(false);
+        expect(result.reason).toBe(
+          'Expected slippage too high (80.0 bps, max 50 bps)',
+        );
+      });
+    });
+
     describe('ticker validation for extreme tracking', () => {
       const setupTest = () => {
         mockPerpService.findByToken.mockResolvedValue({
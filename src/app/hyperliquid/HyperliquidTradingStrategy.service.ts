@@ -391,11 +391,13 @@ export class HyperliquidTradingStrategyService extends PlatformTradingStrategyPo
       const spread = (askPrice - bidPrice) / markPrice;
       const momentum = markPrice > (bidPrice + askPrice) / 2 ? 'UP' : 'DOWN';
 
-      if (spread > 0.005) {
-        // If spread is too wide (>0.5%), skip
+      const maxSpreadBps =
+        perp.maxSpreadBps ??
+        this.configService.get<number>('hyperliquid.maxSpreadBps', 50);
+      if (spread * 10000 > maxSpreadBps) {
         return {
           shouldTrade: false,
-          reason: `Spread too wide (${(spread * 100).toFixed(2)}%)`,
+          reason: `Spread too wide (${(spread * 100).toFixed(2)}%, max ${maxSpreadBps} bps)`,
           confidence: 0.3,
           metadata: { direction: PositionDirection.LONG },
         };
@@ -404,6 +406,24 @@ export class HyperliquidTradingStrategyService extends PlatformTradingStrategyPo
       const direction =
         momentum === 'UP' ? PositionDirection.LONG : PositionDirection.SHORT;
 
+      // Walk the book for the amount we would enter with
+      const maxSlippageBps =
+        perp.maxSlippageBps ??
+        this.configService.get<number>('hyperliquid.maxSlippageBps', 50);
+      const slippage = await this.hyperliquidService.estimateSlippage(
+        token,
+        direction,
+        tradingParams.defaultAmountIn,
+      );
+      if (!slippage.fullyFillable || slippage.slippageBps > maxSlippageBps) {
+        return {
+          shouldTrade: false,
+          reason: `Expected slippage too high (${slippage.slippageBps.toFixed(1)} bps${slippage.fullyFillable ? '' : ', book too thin'}, max ${maxSlippageBps} bps)`,
+          confidence: 0.3,
+          metadata: { direction },
+        };
+      }
+
       return {
         shouldTrade: true,
         reason: `Market momentum ${momentum}, entering ${direction}`,
@@ -416,6 +436,7 @@ export class HyperliquidTradingStrategyService extends PlatformTradingStrategyPo
             this.configService.get<number>('hyperliquid.defaultLeverage', 3),
           markPrice,
           spread,
+          slippageBps: slippage.slippageBps,
         },
       };
     } catch (error) {
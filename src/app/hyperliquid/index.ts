@@ -1,3 +1,5 @@
 export * from './Hyperliquid.module';
 export * from './HyperliquidTradingStrategy.service';
 export * from './HyperliquidTokenDiscovery.service';
+export * from './HyperliquidEntryTimingConfig';
+export * from './HyperliquidAlgoExecution.service';
@@ -0,0 +1,47 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { HyperliquidAlgoExecutionService } from '../hyperliquid/HyperliquidAlgoExecution.service';
+import { LockService } from './Lock.service';
+
+@Injectable()
+export class AlgoExecutionScheduler {
+  private readonly logger = new Logger(AlgoExecutionScheduler.name);
+  private static readonly LOCK_NAME = 'algo-execution';
+  private static readonly LEASE_MS = 4_000; // < 5 s cron
+
+  constructor(
+    private readonly algoExecutionService: HyperliquidAlgoExecutionService,
+    private readonly lockService: LockService,
+  ) {}
+
+  @Cron('*/5 * * * * *') // Every 5 seconds
+  async run(): Promise<void> {
+    const now = new Date();
+    const leaseUntil = new Date(
+      now.getTime() + AlgoExecutionScheduler.LEASE_MS,
+    );
+
+    try {
+      if (
+        await this.lockService.acquireLock(
+          AlgoExecutionScheduler.LOCK_NAME,
+          leaseUntil,
+        )
+      ) {
+        await this.algoExecutionService.processDueOrders();
+      } else {
+        this.logger.debug(
+          'Algo Execution Scheduler skipped - lock acquired by another instance',
+        );
+      }
+    } catch (error) {
+      this.logger.error('Algo Execution Scheduler error:', error);
+    } finally {
+      try {
+        await this.lockService.releaseLock(AlgoExecutionScheduler.LOCK_NAME);
+      } catch (error) {
+        this.logger.warn('Failed to release lock:', error);
+      }
+    }
+  }
+}
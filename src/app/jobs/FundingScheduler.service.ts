@@ -0,0 +1,45 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { FundingService } from '../funding/Funding.service';
+import { LockService } from './Lock.service';
+
+@Injectable()
+export class FundingScheduler {
+  private readonly logger = new Logger(FundingScheduler.name);
+  private static readonly LOCK_NAME = 'funding';
+  private static readonly LEASE_MS = 600_000; // < hourly cron
+
+  constructor(
+    private readonly fundingService: FundingService,
+    private readonly lockService: LockService,
+  ) {}
+
+  @Cron('5 * * * *') // Every hour, shortly after funding settles
+  async run(): Promise<void> {
+    const now = new Date();
+    const leaseUntil = new Date(now.getTime() + FundingScheduler.LEASE_MS);
+
+    try {
+      if (
+        await this.lockService.acquireLock(
+          FundingScheduler.LOCK_NAME,
+          leaseUntil,
+        )
+      ) {
+        await this.fundingService.syncFunding();
+      } else {
+        this.logger.debug(
+          'Funding Scheduler skipped - lock acquired by another instance',
+        );
+      }
+    } catch (error) {
+      this.logger.error('Funding Scheduler error:', error);
+    } finally {
+      try {
+        await this.lockService.releaseLock(FundingScheduler.LOCK_NAME);
+      } catch (error) {
+        this.logger.warn('Failed to release lock:', error);
+      }
+    }
+  }
+}
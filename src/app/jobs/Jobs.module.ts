@@ -1,7 +1,13 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { TradeMonitorScheduler } from './TradeMonitorScheduler.service';
+import { ReconciliationScheduler } from './ReconciliationScheduler.service';
+import { AlgoExecutionScheduler } from './AlgoExecutionScheduler.service';
+import { FundingScheduler } from './FundingScheduler.service';
 import { TradeManagerModule } from '../trade-manager/TradeManager.module';
+import { ReconciliationModule } from '../reconciliation/Reconciliation.module';
+import { HyperliquidModule } from '../hyperliquid/Hyperliquid.module';
+import { FundingModule } from '../funding/Funding.module';
 import { Lock, LockSchema } from './Lock.schema';
 import { LockRepository } from './Lock.repository';
 import { LockService } from './Lock.service';
@@ -10,8 +16,18 @@ import { LockService } from './Lock.service';
   imports: [
     MongooseModule.forFeature([{ name: Lock.name, schema: LockSchema }]),
     TradeManagerModule,
+    ReconciliationModule,
+    HyperliquidModule,
+    FundingModule,
+  ],
+  providers: [
+    TradeMonitorScheduler,
+    ReconciliationScheduler,
+    AlgoExecutionScheduler,
+    FundingScheduler,
+    LockRepository,
+    LockService,
   ],
-  providers: [TradeMonitorScheduler, LockRepository, LockService],
   exports: [TradeMonitorScheduler],
 })
 export class JobsModule {}
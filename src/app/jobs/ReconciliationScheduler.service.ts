@@ -0,0 +1,50 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { ReconciliationTrigger } from '../../shared';
+import { ReconciliationService } from '../reconciliation/Reconciliation.service';
+import { LockService } from './Lock.service';
+
+@Injectable()
+export class ReconciliationScheduler {
+  private readonly logger = new Logger(ReconciliationScheduler.name);
+  private static readonly LOCK_NAME = 'reconciliation';
+  private static readonly LEASE_MS = 240_000; // < 5 min cron
+
+  constructor(
+    private readonly reconciliationService: ReconciliationService,
+    private readonly lockService: LockService,
+  ) {}
+
+  @Cron('*/5 * * * *') // Every 5 minutes
+  async run(): Promise<void> {
+    const now = new Date();
+    const leaseUntil = new Date(
+      now.getTime() + ReconciliationScheduler.LEASE_MS,
+    );
+
+    try {
+      if (
+        await this.lockService.acquireLock(
+          ReconciliationScheduler.LOCK_NAME,
+          leaseUntil,
+        )
+      ) {
+        await this.reconciliationService.reconcile(
+          ReconciliationTrigger.SCHEDULE,
+        );
+      } else {
+        this.logger.debug(
+          'Reconciliation Scheduler skipped - lock acquired by another instance',
+        );
+      }
+    } catch (error) {
+      this.logger.error('Reconciliation Scheduler error:', error);
+    } finally {
+      try {
+        await this.lockService.releaseLock(ReconciliationScheduler.LOCK_NAME);
+      } catch (error) {
+        this.logger.warn('Failed to release lock:', error);
+      }
+    }
+  }
+}
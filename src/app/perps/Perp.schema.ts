@@ -1,6 +1,18 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
-import { Currency, Platform } from '../../shared';
+import {
+  BracketMode,
+  CooldownMinutes,
+  Currency,
+  EntryMode,
+  ExecutionAlgo,
+  ExitReason,
+  MarginMode,
+  Platform,
+  RiskRejection,
+  RiskRejectionCode,
+  TakeProfitRung,
+} from '../../shared';
 
 export type PerpDocument = Perp & Document;
 
@@ -47,6 +59,68 @@ export class Perp {
   @Prop({ type: Number })
   recommendedAmount?: number;
 
+  // Entry execution limits, HL_MAX_SPREAD_BPS / HL_MAX_SLIPPAGE_BPS when unset
+  @Prop({ type: Number })
+  maxSpreadBps?: number;
+
+  @Prop({ type: Number })
+  maxSlippageBps?: number;
+
+  // Maker rests a post-only entry and falls back to IOC after HL_MAKER_TIMEOUT_MS
+  @Prop({ type: String, enum: EntryMode, default: EntryMode.TAKER })
+  entryMode?: EntryMode;
+
+  // Splits entries into TWAP / iceberg child orders, single order when unset
+  @Prop({ type: String, enum: ExecutionAlgo })
+  executionAlgo?: ExecutionAlgo;
+
+  // Isolated positions only risk the margin posted for them
+  @Prop({ type: String, enum: MarginMode, default: MarginMode.CROSS })
+  marginMode?: MarginMode;
+
+  // How entry SL/TP are placed; ATR brackets scale with the token's volatility
+  @Prop({ type: String, enum: BracketMode, default: BracketMode.PERCENT })
+  bracketMode?: BracketMode;
+
+  // ATR bracket shape, HL_ATR_STOP_MULTIPLIER / HL_RISK_REWARD_RATIO when unset
+  @Prop({ type: Number })
+  atrStopMultiplier?: number;
+
+  @Prop({ type: Number })
+  riskRewardRatio?: number;
+
+  // Partial take-profits in R multiples of the SL distance, the rest runs to the TP
+  @Prop({
+    type: [{ rMultiple: Number, sizePercent: Number }],
+    _id: false,
+    default: undefined,
+  })
+  takeProfitLadder?: TakeProfitRung[];
+
+  // Re-entry cooldown per exit reason, HL_COOLDOWN_*_MINUTES when unset
+  @Prop({
+    type: {
+      [ExitReason.STOP_LOSS]: Number,
+      [ExitReason.TAKE_PROFIT]: Number,
+      [ExitReason.AI_EXIT]: Number,
+      [ExitReason.MANUAL]: Number,
+    },
+    _id: false,
+  })
+  cooldownMinutes?: CooldownMinutes;
+
+  // Last pre-trade risk check that blocked an entry for this perp
+  @Prop({
+    type: {
+      code: { type: String, enum: RiskRejectionCode },
+      reason: String,
+      details: Object,
+      timestamp: Date,
+    },
+    _id: false,
+  })
+  lastRiskRejection?: RiskRejection;
+
   createdAt?: Date;
 
   updatedAt?: Date;
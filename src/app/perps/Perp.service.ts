@@ -1,7 +1,19 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 import { PerpRepository } from './Perp.repository';
 import { PerpDocument, MarketDirection } from './Perp.schema';
-import { Platform, Optional, PositionDirection, Currency } from '../../shared';
+import {
+  Platform,
+  Optional,
+  CooldownMinutes,
+  PositionDirection,
+  Currency,
+  EntryMode,
+  ExecutionAlgo,
+  MarginMode,
+  BracketMode,
+  RiskRejection,
+  TakeProfitRung,
+} from '../../shared';
 
 export interface CreatePerpDto {
   name: string;
@@ -13,6 +25,11 @@ export interface CreatePerpDto {
   isActive?: boolean;
   defaultLeverage?: number;
   recommendedAmount?: number;
+  maxSpreadBps?: number;
+  maxSlippageBps?: number;
+  entryMode?: EntryMode;
+  executionAlgo?: ExecutionAlgo;
+  marginMode?: MarginMode;
 }
 
 export interface UpdatePerpDto {
@@ -22,6 +39,17 @@ export interface UpdatePerpDto {
   isActive?: boolean;
   defaultLeverage?: number;
   recommendedAmount?: number;
+  maxSpreadBps?: number;
+  maxSlippageBps?: number;
+  entryMode?: EntryMode;
+  executionAlgo?: ExecutionAlgo | null;
+  marginMode?: MarginMode;
+  bracketMode?: BracketMode;
+  atrStopMultiplier?: number;
+  riskRewardRatio?: number;
+  takeProfitLadder?: TakeProfitRung[];
+  cooldownMinutes?: CooldownMinutes;
+  lastRiskRejection?: RiskRejection;
 }
 
 @Injectable()
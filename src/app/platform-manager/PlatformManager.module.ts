@@ -10,6 +10,8 @@ import { PerpModule } from '../perps/Perp.module';
 import { PredictorModule } from '../predictor/Predictor.module';
 import { HyperliquidPlatformService } from '../hyperliquid/HyperliquidPlatform.service';
 import { IndexerModule } from '../indexer/Indexer.module';
+import { TradingDecisionModule } from '../trading-decision/TradingDecision.module';
+import { CooldownModule } from '../cooldown/Cooldown.module';
 
 @Module({
   imports: [
@@ -18,6 +20,8 @@ import { IndexerModule } from '../indexer/Indexer.module';
     PerpModule,
     PredictorModule,
     IndexerModule,
+    TradingDecisionModule,
+    CooldownModule,
   ],
   providers: [
     PlatformManagerService,
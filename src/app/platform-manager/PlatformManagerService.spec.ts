@@ -2,7 +2,10 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { PlatformManagerService } from './PlatformManagerService';
 import { TradePositionService } from '../trade-position/TradePosition.service';
+import { TradingDecisionService } from '../trading-decision/TradingDecision.service';
+import { CooldownService } from '../cooldown/Cooldown.service';
 import {
+  ExitReason,
   Platform,
   TradePositionStatus,
   PositionDirection,
@@ -15,6 +18,8 @@ import { BasePlatformService, IndexerAdapter } from '../../infrastructure';
 describe('PlatformManagerService', () => {
   let service: PlatformManagerService;
   let tradePositionService: jest.Mocked<TradePositionService>;
+  let tradingDecisionService: jest.Mocked<TradingDecisionService>;
+  let cooldownService: jest.Mocked<CooldownService>;
 
   const mockTokenDiscovery: jest.Mocked<PlatformTokenDiscoveryPort> = {
     platform: Platform.HYPERLIQUID,
@@ -53,11 +58,26 @@ describe('PlatformManagerService', () => {
             getLastPrice: jest.fn(),
           },
         },
+        {
+          provide: TradingDecisionService,
+          useValue: {
+            recordDecision: jest.fn().mockResolvedValue({ _id: 'decision-id' }),
+            markEntryFailed: jest.fn(),
+          },
+        },
+        {
+          provide: CooldownService,
+          useValue: {
+            getActiveCooldown: jest.fn().mockResolvedValue(null),
+          },
+        },
       ],
     }).compile();
 
     service = module.get<PlatformManagerService>(PlatformManagerService);
     tradePositionService = module.get(TradePositionService);
+    tradingDecisionService = module.get(TradingDecisionService);
+    cooldownService = module.get(CooldownService);
   });
 
   afterEach(() => {
@@ -147,6 +167,7 @@ describe('PlatformManagerService', () => {
       expect(opportunities[1].tradingDecision.confidence).toBe(0.7);
       expect(opportunities[0]).not.toHaveProperty('marketData');
       expect(opportunities[1]).not.toHaveProperty('marketData');
+      expect(opportunities[0].decisionId).toBe('decision-id');
     });
 
     it('should skip tokens with existing open positions (rebuy prevention)', async () => {
@@ -201,6 +222,72 @@ describe('PlatformManagerService', () => {
       );
     });
 
+    it('should skip tokens cooling down in the decided direction', async () => {
+      tradePositionService.getTradePositionByToken.mockResolvedValue(null);
+      mockTradingStrategy.shouldEnterPosition.mockResolvedValue({
+        shouldTrade: true,
+        reason: 'Good opportunity',
+        confidence: 0.7,
+        recommendedAmount: 50,
+        metadata: { direction: PositionDirection.SHORT },
+      });
+      const until = new Date(Date.now() + 30 * 60 * 1000);
+      cooldownService.getActiveCooldown.mockImplementation((token: string) =>
+        Promise.resolve(
+          token === 'token1'
+            ? ({ reason: ExitReason.STOP_LOSS, until } as any)
+            : null,
+        ),
+      );
+
+      const opportunities = await service.findTradingOpportunities();
+
+      expect(opportunities.map((op) => op.token)).toEqual(['token2']);
+      expect(cooldownService.getActiveCooldown).toHaveBeenCalledWith(
+        'token1',
+        PositionDirection.SHORT,
+      );
+      expect(tradingDecisionService.markEntryFailed).toHaveBeenCalledWith(
+        'decision-id',
+        `SHORT cooldown after stop_loss until ${until.toISOString()}`,
+      );
+    });
+
+    it('should check both directions when the decision has none', async () => {
+      tradePositionService.getTradePositionByToken.mockResolvedValue(null);
+      mockTradingStrategy.shouldEnterPosition.mockResolvedValue({
+        shouldTrade: true,
+        reason: 'Good opportunity',
+        confidence: 0.7,
+        recommendedAmount: 50,
+      });
+      const until = new Date(Date.now() + 30 * 60 * 1000);
+      cooldownService.getActiveCooldown.mockImplementation(
+        (token: string, direction: PositionDirection) =>
+          Promise.resolve(
+            token === 'token1' && direction === PositionDirection.SHORT
+              ? ({ reason: ExitReason.STOP_LOSS, until } as any)
+              : null,
+          ),
+      );
+
+      const opportunities = await service.findTradingOpportunities();
+
+      expect(opportunities.map((op) => op.token)).toEqual(['token2']);
+      expect(cooldownService.getActiveCooldown).toHaveBeenCalledWith(
+        'token2',
+        PositionDirection.LONG,
+      );
+      expect(cooldownService.getActiveCooldown).toHaveBeenCalledWith(
+        'token2',
+        PositionDirection.SHORT,
+      );
+      expect(tradingDecisionService.markEntryFailed).toHaveBeenCalledWith(
+        'decision-id',
+        `SHORT cooldown after stop_loss until ${until.toISOString()}`,
+      );
+    });
+
     it('should not recommend trades when trading strategy returns shouldTrade: false', async () => {
       // Mock no existing positions
       tradePositionService.getTradePositionByToken.mockResolvedValue(null);
@@ -217,6 +304,12 @@ describe('PlatformManagerService', () => {
       const opportunities = await service.findTradingOpportunities();
 
       expect(opportunities).toHaveLength(0);
+      expect(tradingDecisionService.recordDecision).toHaveBeenCalledTimes(2);
+      expect(tradingDecisionService.recordDecision).toHaveBeenCalledWith({
+        platform: Platform.HYPERLIQUID,
+        token: 'token1',
+        decision: expect.objectContaining({ shouldTrade: false }),
+      });
     });
 
     it('should handle errors gracefully and continue processing other platforms', async () => {
@@ -15,6 +15,8 @@ import {
 } from '../../shared';
 import { TradePositionDocument } from '../trade-position/TradePosition.schema';
 import { TradePositionService } from '../trade-position/TradePosition.service';
+import { TradingDecisionService } from '../trading-decision/TradingDecision.service';
+import { CooldownService } from '../cooldown/Cooldown.service';
 import {
   PlatformWebSocketService,
   OrderFillCallback,
@@ -41,6 +43,8 @@ export class PlatformManagerService extends PlatformManagerPort {
   constructor(
     private readonly tradePositionService: TradePositionService,
     private readonly indexerAdapter: IndexerAdapter,
+    private readonly tradingDecisionService: TradingDecisionService,
+    private readonly cooldownService: CooldownService,
   ) {
     super();
     this.initializeDefaultConfigurations();
@@ -56,6 +60,7 @@ export class PlatformManagerService extends PlatformManagerPort {
           defaultAmountIn: 1,
           stopLossPercent: 15,
           takeProfitPercent: 25,
+          maxExitAttempts: 3,
         },
         defaultCurrencyFrom: HL_DEFAULT_CURRENCY_FROM,
       },
@@ -141,13 +146,57 @@ export class PlatformManagerService extends PlatformManagerPort {
             config.tradingParams,
           );
 
-          if (tradingDecision.shouldTrade) {
-            opportunities.push({
+          const decisionRecord =
+            await this.tradingDecisionService.recordDecision({
               platform,
               token,
-              tradingDecision,
+              decision: tradingDecision,
             });
+
+          if (!tradingDecision.shouldTrade) {
+            continue;
+          }
+
+          const decisionId = decisionRecord
+            ? String(decisionRecord._id)
+            : undefined;
+
+          // The direction is only known once the strategy has decided;
+          // without one, a cooldown on either side holds the token back
+          const direction = tradingDecision.metadata?.direction as
+            | PositionDirection
+            | undefined;
+          const sides = direction
+            ? [direction]
+            : [PositionDirection.LONG, PositionDirection.SHORT];
+          let cooldownReason: string | undefined;
+          for (const side of sides) {
+            const cooldown = await this.cooldownService.getActiveCooldown(
+              token,
+              side,
+            );
+            if (cooldown) {
+              cooldownReason = `${side} cooldown after ${cooldown.reason} until ${new Date(cooldown.until).toISOString()}`;
+              break;
+            }
           }
+          if (cooldownReason) {
+            this.logger.log(
+              `Skipping ${token} on ${platform} - ${cooldownReason}`,
+            );
+            await this.tradingDecisionService.markEntryFailed(
+              decisionId,
+              cooldownReason,
+            );
+            continue;
+          }
+
+          opportunities.push({
+            platform,
+            token,
+            tradingDecision,
+            decisionId,
+          });
         }
       } catch (error) {
         this.logger.error(
@@ -331,9 +380,11 @@ export class PlatformManagerService extends PlatformManagerPort {
    */
   async exitPosition(
     tradePosition: TradePositionDocument,
+    clientOrderId?: string,
+    attempt?: number,
   ): Promise<TradeOrderResult> {
     const platformService = this.getPlatformService(tradePosition.platform);
-    return platformService.exitPosition(tradePosition);
+    return platformService.exitPosition(tradePosition, clientOrderId, attempt);
   }
 
   /**
@@ -357,4 +408,26 @@ export class PlatformManagerService extends PlatformManagerPort {
       newTpPrice,
     );
   }
+
+  /**
+   * Replace stop-loss order for trailing functionality
+   * Delegates to platform-specific implementation
+   * Platforms that don't support trailing will use the no-op default
+   * @returns Object with new order ID and count of cancelled orders for verification
+   */
+  async replaceStopLossOrder(
+    platform: Platform,
+    token: string,
+    direction: PositionDirection,
+    positionId: string,
+    newSlPrice: number,
+  ): Promise<{ newOrderId: string; cancelledCount: number }> {
+    const platformService = this.getPlatformService(platform);
+    return await platformService.replaceStopLossOrder(
+      token,
+      direction,
+      positionId,
+      newSlPrice,
+    );
+  }
 }
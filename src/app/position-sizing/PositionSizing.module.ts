@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PositionSizingService } from './PositionSizing.service';
+import { HyperliquidModule } from '../hyperliquid/Hyperliquid.module';
+
+@Module({
+  imports: [HyperliquidModule],
+  providers: [PositionSizingService],
+  exports: [PositionSizingService],
+})
+export class PositionSizingModule {}
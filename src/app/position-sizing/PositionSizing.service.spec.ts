@@ -0,0 +1,130 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PositionSizingService } from './PositionSizing.service';
+import { HyperliquidService } from '../../infrastructure/hyperliquid/HyperliquidService';
+import { RiskRejectionCode, RiskRejectionError } from '../../shared';
+
+describe('PositionSizingService', () => {
+  let service: PositionSizingService;
+  let hyperliquidService: jest.Mocked<HyperliquidService>;
+  let config: Record<string, unknown>;
+
+  // 5% stop, 10% target
+  const input = {
+    token: 'BTC',
+    entryPrice: 100,
+    stopLossPrice: 95,
+    takeProfitPrice: 110,
+    leverage: 5,
+  };
+
+  beforeEach(async () => {
+    config = {
+      'hyperliquid.riskPerTradePercent': 1,
+      'hyperliquid.kellyFraction': 0,
+      'hyperliquid.maxLeveragePerSymbol': 10,
+      'hyperliquid.maxNotionalPerOrder': 10000,
+      'hyperliquid.minOrderNotional': 10,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PositionSizingService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key in config ? config[key] : defaultValue,
+            ),
+          },
+        },
+        {
+          provide: HyperliquidService,
+          useValue: {
+            getBalance: jest
+              .fn()
+              .mockResolvedValue({ total: 10000, available: 8000 }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(PositionSizingService);
+    hyperliquidService = module.get(HyperliquidService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should only be enabled with a risk per trade', () => {
+    expect(service.isEnabled()).toBe(true);
+
+    config['hyperliquid.riskPerTradePercent'] = 0;
+
+    expect(service.isEnabled()).toBe(false);
+  });
+
+  it('should size the notional so the stop loses the risked equity', async () => {
+    const size = await service.calculateSize(input);
+
+    // 1% of 10000 over a 5% stop
+    expect(size.riskUsd).toBeCloseTo(100);
+    expect(size.stopDistancePercent).toBeCloseTo(5);
+    expect(size.amountIn).toBeCloseTo(2000);
+    expect(size.cappedBy).toBeUndefined();
+  });
+
+  it('should cap the notional by leverage and the order maximum', async () => {
+    config['hyperliquid.riskPerTradePercent'] = 20;
+    config['hyperliquid.maxNotionalPerOrder'] = 50000;
+
+    const byLeverage = await service.calculateSize({ ...input, leverage: 2 });
+    expect(byLeverage.amountIn).toBe(20000);
+    expect(byLeverage.cappedBy).toBe('leverage');
+    // 20000 over a 5% stop only risks 1000 of the 2000 asked for
+    expect(byLeverage.riskUsd).toBeCloseTo(1000);
+
+    config['hyperliquid.maxNotionalPerOrder'] = 5000;
+
+    const byOrder = await service.calculateSize(input);
+    expect(byOrder.amountIn).toBe(5000);
+    expect(byOrder.cappedBy).toBe('maxNotionalPerOrder');
+  });
+
+  it('should risk the lower of the fixed percentage and fractional Kelly', async () => {
+    config['hyperliquid.kellyFraction'] = 0.25;
+
+    // Kelly at 2:1 with 40% confidence is 0.4 - 0.6 / 2 = 0.1, a quarter is 2.5%
+    const fixed = await service.calculateSize({ ...input, confidence: 0.4 });
+    expect(fixed.kellyRiskFraction).toBeCloseTo(0.025);
+    expect(fixed.riskUsd).toBeCloseTo(100);
+
+    // Kelly at 2:1 with 35% confidence is 0.025, a quarter is 0.625%
+    const kelly = await service.calculateSize({ ...input, confidence: 0.35 });
+    expect(kelly.riskUsd).toBeCloseTo(62.5);
+    expect(kelly.amountIn).toBeCloseTo(1250);
+  });
+
+  it('should reject trades without an edge', async () => {
+    config['hyperliquid.kellyFraction'] = 0.5;
+
+    const error = await service
+      .calculateSize({ ...input, confidence: 0.3 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(RiskRejectionError);
+    expect(error.rejection.code).toBe(RiskRejectionCode.POSITION_SIZE);
+  });
+
+  it('should reject sizes below the exchange minimum', async () => {
+    hyperliquidService.getBalance.mockResolvedValue({
+      total: 40,
+      available: 40,
+    });
+
+    await expect(service.calculateSize(input)).rejects.toThrow(
+      RiskRejectionError,
+    );
+  });
+});
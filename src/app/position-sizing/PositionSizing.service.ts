@@ -0,0 +1,156 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HyperliquidService } from '../../infrastructure/hyperliquid/HyperliquidService';
+import { RiskRejectionCode, RiskRejectionError } from '../../shared';
+
+export interface PositionSizingInput {
+  token: string;
+  entryPrice: number;
+  stopLossPrice: number;
+  takeProfitPrice?: number;
+  leverage?: number;
+  // Decision confidence, used as the win probability for Kelly sizing
+  confidence?: number;
+}
+
+export interface PositionSize {
+  // Entry notional in USDC
+  amountIn: number;
+  equity: number;
+  // Loss in USDC if the stop is hit
+  riskUsd: number;
+  stopDistancePercent: number;
+  // Fraction of equity risked after fractional Kelly, when enabled
+  kellyRiskFraction?: number;
+  cappedBy?: 'leverage' | 'maxNotionalPerOrder';
+}
+
+/**
+ * Risk-based entry sizing
+ * The notional is chosen so that hitting the planned stop loses
+ * HL_RISK_PER_TRADE_PERCENT of account equity. With HL_KELLY_FRACTION set,
+ * the risked fraction is lowered to that fraction of the Kelly bet for the
+ * decision confidence and the bracket's reward-to-risk. The notional is
+ * capped by what equity can margin at the leverage and by
+ * HL_MAX_NOTIONAL_PER_ORDER.
+ */
+@Injectable()
+export class PositionSizingService {
+  private readonly logger = new Logger(PositionSizingService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly hyperliquidService: HyperliquidService,
+  ) {}
+
+  /**
+   * Risk sizing is off while HL_RISK_PER_TRADE_PERCENT is 0, entries then
+   * keep the decision's recommended amount
+   */
+  isEnabled(): boolean {
+    return this.getRiskPerTradePercent() > 0;
+  }
+
+  /**
+   * Throws a POSITION_SIZE RiskRejectionError when the trade has no edge or
+   * its size is below the exchange minimum
+   */
+  async calculateSize(input: PositionSizingInput): Promise<PositionSize> {
+    const { token, entryPrice, stopLossPrice, takeProfitPrice } = input;
+
+    const stopDistance = Math.abs(entryPrice - stopLossPrice) / entryPrice;
+    if (!stopDistance) {
+      throw new Error(`No stop distance to size ${token} from`);
+    }
+
+    const { total: equity } = await this.hyperliquidService.getBalance();
+
+    let riskFraction = this.getRiskPerTradePercent() / 100;
+    let kellyRiskFraction: number | undefined;
+    const kellyFraction = this.configService.get<number>(
+      'hyperliquid.kellyFraction',
+      0,
+    );
+    if (
+      kellyFraction > 0 &&
+      input.confidence !== undefined &&
+      takeProfitPrice
+    ) {
+      const rewardToRisk =
+        Math.abs(takeProfitPrice - entryPrice) /
+        Math.abs(entryPrice - stopLossPrice);
+      const kelly = input.confidence - (1 - input.confidence) / rewardToRisk;
+      if (kelly <= 0) {
+        throw this.reject(
+          `Confidence ${input.confidence.toFixed(2)} at ${rewardToRisk.toFixed(2)} reward-to-risk gives ${token} no edge`,
+          { confidence: input.confidence, rewardToRisk, kelly },
+        );
+      }
+      kellyRiskFraction = kellyFraction * kelly;
+      riskFraction = Math.min(riskFraction, kellyRiskFraction);
+    }
+
+    let amountIn = (equity * riskFraction) / stopDistance;
+    let cappedBy: PositionSize['cappedBy'];
+
+    const leverage = Math.min(
+      input.leverage ||
+        this.configService.get<number>('hyperliquid.defaultLeverage', 3),
+      this.configService.get<number>('hyperliquid.maxLeveragePerSymbol', 10),
+    );
+    if (amountIn > equity * leverage) {
+      amountIn = equity * leverage;
+      cappedBy = 'leverage';
+    }
+    const maxNotionalPerOrder = this.configService.get<number>(
+      'hyperliquid.maxNotionalPerOrder',
+      10000,
+    );
+    if (amountIn > maxNotionalPerOrder) {
+      amountIn = maxNotionalPerOrder;
+      cappedBy = 'maxNotionalPerOrder';
+    }
+    // What the stop loses at the capped size
+    const riskUsd = amountIn * stopDistance;
+
+    const minOrderNotional = this.configService.get<number>(
+      'hyperliquid.minOrderNotional',
+      10,
+    );
+    if (amountIn < minOrderNotional) {
+      throw this.reject(
+        `Risking ${riskUsd.toFixed(2)} of ${equity.toFixed(2)} equity over a ${(stopDistance * 100).toFixed(2)}% stop sizes ${token} at ${amountIn.toFixed(2)}, below the ${minOrderNotional} minimum`,
+        { equity, riskUsd, amountIn, minOrderNotional },
+      );
+    }
+
+    const size: PositionSize = {
+      amountIn,
+      equity,
+      riskUsd,
+      stopDistancePercent: stopDistance * 100,
+      kellyRiskFraction,
+      cappedBy,
+    };
+    this.logger.log(
+      `Sized ${token} at ${amountIn.toFixed(2)} USDC: risking ${riskUsd.toFixed(2)} of ${equity.toFixed(2)} equity over a ${size.stopDistancePercent.toFixed(2)}% stop${cappedBy ? `, capped by ${cappedBy}` : ''}`,
+    );
+    return size;
+  }
+
+  private reject(
+    reason: string,
+    details: Record<string, number>,
+  ): RiskRejectionError {
+    return new RiskRejectionError({
+      code: RiskRejectionCode.POSITION_SIZE,
+      reason,
+      details,
+      timestamp: new Date(),
+    });
+  }
+
+  private getRiskPerTradePercent(): number {
+    return this.configService.get<number>('hyperliquid.riskPerTradePercent', 0);
+  }
+}
@@ -0,0 +1,28 @@
+import { Global, Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  ReconciliationReport,
+  ReconciliationReportSchema,
+} from './Reconciliation.schema';
+import { ReconciliationService } from './Reconciliation.service';
+import { ReconciliationReportRepository } from './Reconciliation.repository';
+import { HyperliquidModule } from '../hyperliquid/Hyperliquid.module';
+import { TradePositionModule } from '../trade-position/TradePosition.module';
+import { TradeOrderModule } from '../trade-order/TradeOrder.module';
+import { CooldownModule } from '../cooldown/Cooldown.module';
+
+@Global()
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ReconciliationReport.name, schema: ReconciliationReportSchema },
+    ]),
+    HyperliquidModule,
+    TradePositionModule,
+    TradeOrderModule,
+    CooldownModule,
+  ],
+  providers: [ReconciliationService, ReconciliationReportRepository],
+  exports: [ReconciliationService, ReconciliationReportRepository],
+})
+export class ReconciliationModule {}
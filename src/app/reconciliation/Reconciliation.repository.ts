@@ -0,0 +1,18 @@
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { BaseMongoRepository } from '../../shared';
+import {
+  ReconciliationReport,
+  ReconciliationReportDocument,
+} from './Reconciliation.schema';
+
+@Injectable()
+export class ReconciliationReportRepository extends BaseMongoRepository<ReconciliationReportDocument> {
+  constructor(
+    @InjectModel(ReconciliationReport.name)
+    reconciliationReportModel: Model<ReconciliationReportDocument>,
+  ) {
+    super(reconciliationReportModel);
+  }
+}
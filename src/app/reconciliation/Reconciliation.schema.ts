@@ -0,0 +1,69 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import {
+  Platform,
+  ReconciliationAction,
+  ReconciliationDiscrepancy,
+  ReconciliationDiscrepancyType,
+  ReconciliationTrigger,
+} from '../../shared';
+
+export type ReconciliationReportDocument = ReconciliationReport & Document;
+
+@Schema({
+  timestamps: true,
+})
+export class ReconciliationReport {
+  static readonly modelName = 'ReconciliationReport';
+
+  @Prop({ type: String, enum: Platform, required: true })
+  platform: Platform;
+
+  @Prop({ type: String, enum: ReconciliationTrigger, required: true })
+  trigger: ReconciliationTrigger;
+
+  @Prop({ type: Date, required: true })
+  startedAt: Date;
+
+  @Prop({ type: Date })
+  finishedAt?: Date;
+
+  @Prop({ type: Number, default: 0 })
+  exchangePositionCount: number;
+
+  @Prop({ type: Number, default: 0 })
+  databasePositionCount: number;
+
+  @Prop({ type: Number, default: 0 })
+  openOrderCount: number;
+
+  @Prop({
+    type: [
+      {
+        type: { type: String, enum: ReconciliationDiscrepancyType },
+        action: { type: String, enum: ReconciliationAction },
+        token: String,
+        message: String,
+        positionId: String,
+        orderId: String,
+        details: Object,
+        _id: false,
+      },
+    ],
+    default: [],
+  })
+  discrepancies: ReconciliationDiscrepancy[];
+
+  // Set when the run aborted before comparing all state
+  @Prop({ type: String })
+  error?: string;
+
+  createdAt?: Date;
+
+  updatedAt?: Date;
+}
+
+export const ReconciliationReportSchema =
+  SchemaFactory.createForClass(ReconciliationReport);
+
+ReconciliationReportSchema.index({ createdAt: -1 });
@@ -0,0 +1,482 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ReconciliationService } from './Reconciliation.service';
+import { ReconciliationReportRepository } from './Reconciliation.repository';
+import { HyperliquidService } from '../../infrastructure/hyperliquid/HyperliquidService';
+import { TradePositionService } from '../trade-position/TradePosition.service';
+import { TradeOrderService } from '../trade-order/TradeOrder.service';
+import { CooldownService } from '../cooldown/Cooldown.service';
+import {
+  ExitReason,
+  HLOpenOrder,
+  HLPosition,
+  HLUserFill,
+  Platform,
+  PositionDirection,
+  ReconciliationAction,
+  ReconciliationDiscrepancyType,
+  ReconciliationTrigger,
+  TradeOrderStatus,
+  TradePositionStatus,
+} from '../../shared';
+
+describe('ReconciliationService', () => {
+  let service: ReconciliationService;
+  let hyperliquidService: jest.Mocked<HyperliquidService>;
+  let tradePositionService: jest.Mocked<TradePositionService>;
+  let tradeOrderService: jest.Mocked<TradeOrderService>;
+  let reportRepository: jest.Mocked<ReconciliationReportRepository>;
+  let cooldownService: jest.Mocked<CooldownService>;
+  let config: Record<string, unknown>;
+
+  const HOUR = 60 * 60 * 1000;
+
+  const exchangePosition = (coin: string, szi: string): HLPosition =>
+    ({
+      coin,
+      szi,
+      entryPx: '100',
+      positionValue: String(Math.abs(parseFloat(szi)) * 110),
+      marginUsed: '50',
+      leverage: { type: 'cross', value: 3 },
+    }) as HLPosition;
+
+  const dbPosition = (overrides: Record<string, unknown> = {}): any => ({
+    _id: 'position-id',
+    token: 'HYPE',
+    status: TradePositionStatus.OPEN,
+    positionDirection: PositionDirection.LONG,
+    remainingSize: 2,
+    totalRealizedPnl: 0,
+    fills: [],
+    timeOpened: new Date(Date.now() - 2 * HOUR),
+    createdAt: new Date(Date.now() - 2 * HOUR),
+    ...overrides,
+  });
+
+  const fill = (overrides: Partial<HLUserFill>): HLUserFill =>
+    ({
+      coin: 'HYPE',
+      oid: 1,
+      px: '100',
+      sz: '2',
+      side: 'B',
+      closedPnl: '0',
+      time: Date.now() - HOUR,
+      ...overrides,
+    }) as HLUserFill;
+
+  beforeEach(async () => {
+    config = {
+      'hyperliquid.enabled': true,
+      'hyperliquid.paperTrading': false,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReconciliationService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key in config ? config[key] : defaultValue,
+            ),
+          },
+        },
+        {
+          provide: HyperliquidService,
+          useValue: {
+            getPositions: jest.fn().mockResolvedValue([]),
+            getOpenOrders: jest.fn().mockResolvedValue([]),
+            getUserFills: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: TradePositionService,
+          useValue: {
+            getActiveTradePositions: jest.fn().mockResolvedValue([]),
+            createTradePosition: jest
+              .fn()
+              .mockResolvedValue({ _id: 'adopted-id', token: 'HYPE' }),
+            updateTradePosition: jest.fn(),
+          },
+        },
+        {
+          provide: TradeOrderService,
+          useValue: {
+            getByOrderId: jest.fn().mockResolvedValue(null),
+            getByClientOrderId: jest.fn().mockResolvedValue(null),
+            createTradeOrder: jest.fn(),
+            updateTradeOrder: jest.fn(),
+          },
+        },
+        {
+          provide: ReconciliationReportRepository,
+          useValue: {
+            create: jest.fn((report) => Promise.resolve(report)),
+          },
+        },
+        {
+          provide: CooldownService,
+          useValue: {
+            getExitReason: jest.fn().mockReturnValue(ExitReason.MANUAL),
+            startCooldown: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ReconciliationService);
+    hyperliquidService = module.get(HyperliquidService);
+    tradePositionService = module.get(TradePositionService);
+    tradeOrderService = module.get(TradeOrderService);
+    reportRepository = module.get(ReconciliationReportRepository);
+    cooldownService = module.get(CooldownService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should skip reconciliation when Hyperliquid is disabled', async () => {
+    config['hyperliquid.enabled'] = false;
+
+    const report = await service.reconcile(ReconciliationTrigger.SCHEDULE);
+
+    expect(report).toBeNull();
+    expect(hyperliquidService.getPositions).not.toHaveBeenCalled();
+  });
+
+  it('should adopt exchange positions without a database record', async () => {
+    hyperliquidService.getPositions.mockResolvedValue([
+      exchangePosition('HYPE', '-2'),
+    ]);
+
+    const report = await service.reconcile(ReconciliationTrigger.BOOTSTRAP);
+
+    expect(tradePositionService.createTradePosition).toHaveBeenCalledWith(
+      expect.objectContaining({
+        platform: Platform.HYPERLIQUID,
+        status: TradePositionStatus.OPEN,
+        token: 'HYPE',
+        positionDirection: PositionDirection.SHORT,
+        leverage: 3,
+        amountIn: 50,
+        entryPrice: 100,
+        currentPrice: 110,
+        totalFilledSize: 2,
+        remainingSize: 2,
+        isPaper: false,
+      }),
+    );
+    expect(report.discrepancies).toEqual([
+      expect.objectContaining({
+        type: ReconciliationDiscrepancyType.ORPHAN_EXCHANGE_POSITION,
+        action: ReconciliationAction.ADOPTED,
+        positionId: 'adopted-id',
+      }),
+    ]);
+  });
+
+  it('should close positions gone from the exchange and backfill realized PnL', async () => {
+    tradePositionService.getActiveTradePositions.mockResolvedValue([
+      dbPosition({
+        totalRealizedPnl: 5,
+        totalFees: 0.25,
+        fills: [{ orderId: '1', timestamp: Date.now() - HOUR, size: 2 }],
+      }),
+    ]);
+    const exitTime = Date.now() - 30 * 60 * 1000;
+    hyperliquidService.getUserFills.mockResolvedValue([
+      fill({
+        oid: 2,
+        side: 'A',
+        px: '90',
+        sz: '1',
+        closedPnl: '-10',
+        fee: '0.25',
+        time: exitTime,
+      }),
+      fill({
+        oid: 3,
+        side: 'A',
+        px: '95',
+        sz: '1',
+        closedPnl: '-5',
+        fee: '0.5',
+        time: exitTime + 1,
+      }),
+      // Fill from another token and a fill before the position opened
+      fill({ coin: 'ETH', oid: 4, closedPnl: '100' }),
+      fill({ oid: 5, closedPnl: '100', time: Date.now() - 3 * HOUR }),
+    ]);
+    const stopLossOrder = { orderId: '3', isTrigger: true, triggerType: 'sl' };
+    tradeOrderService.getByOrderId.mockResolvedValue(stopLossOrder as any);
+    cooldownService.getExitReason.mockReturnValue(ExitReason.STOP_LOSS);
+
+    const report = await service.reconcile(ReconciliationTrigger.SCHEDULE);
+
+    expect(tradeOrderService.getByOrderId).toHaveBeenCalledWith('3');
+    expect(cooldownService.getExitReason).toHaveBeenCalledWith(
+      expect.objectContaining({ _id: 'position-id' }),
+      stopLossOrder,
+    );
+    expect(cooldownService.startCooldown).toHaveBeenCalledWith(
+      expect.objectContaining({ _id: 'position-id' }),
+      ExitReason.STOP_LOSS,
+      new Date(exitTime + 1),
+    );
+    expect(tradePositionService.updateTradePosition).toHaveBeenCalledWith(
+      'position-id',
+      expect.objectContaining({
+        status: TradePositionStatus.CLOSED,
+        exitReason: ExitReason.STOP_LOSS,
+        realizedPnl: -10,
+        totalRealizedPnl: -10,
+        totalFees: 1,
+        netRealizedPnl: -11,
+        remainingSize: 0,
+        currentPrice: 95,
+        timeClosed: new Date(exitTime + 1),
+      }),
+    );
+    const update = tradePositionService.updateTradePosition.mock.calls[0][1];
+    expect(update.fills.map((f) => f.orderId)).toEqual(['1', '2', '3']);
+    expect(report.discrepancies).toEqual([
+      expect.objectContaining({
+        type: ReconciliationDiscrepancyType.MISSING_EXCHANGE_POSITION,
+        action: ReconciliationAction.CLOSED,
+        details: { backfilledFills: 2, backfilledPnl: -15, realizedPnl: -10 },
+      }),
+    ]);
+  });
+
+  it('should match recorded fills by trade id before the timestamp', async () => {
+    const exitTime = Date.now() - 30 * 60 * 1000;
+    tradePositionService.getActiveTradePositions.mockResolvedValue([
+      dbPosition({
+        fills: [{ orderId: '2', tradeId: '7', timestamp: exitTime, size: 1 }],
+      }),
+    ]);
+    // Two trades of one order in the same millisecond
+    hyperliquidService.getUserFills.mockResolvedValue([
+      fill({ oid: 2, tid: 7, side: 'A', sz: '1', time: exitTime }),
+      fill({ oid: 2, tid: 8, side: 'A', sz: '1', time: exitTime }),
+    ]);
+
+    const report = await service.reconcile(ReconciliationTrigger.SCHEDULE);
+
+    const update = tradePositionService.updateTradePosition.mock.calls[0][1];
+    expect(update.fills.map((f) => f.tradeId)).toEqual(['7', '8']);
+    expect(report.discrepancies[0].details.backfilledFills).toBe(1);
+  });
+
+  it('should not store a trade id for fills without one', async () => {
+    const exitTime = Date.now() - 30 * 60 * 1000;
+    tradePositionService.getActiveTradePositions.mockResolvedValue([
+      dbPosition({ fills: [] }),
+    ]);
+    hyperliquidService.getUserFills.mockResolvedValue([
+      fill({ oid: 2, side: 'A', sz: '1', time: exitTime }),
+    ]);
+
+    await service.reconcile(ReconciliationTrigger.SCHEDULE);
+
+    const update = tradePositionService.updateTradePosition.mock.calls[0][1];
+    expect(update.fills[0]).not.toHaveProperty('tradeId');
+  });
+
+  it('should leave positions with recent fills to the WebSocket handler', async () => {
+    tradePositionService.getActiveTradePositions.mockResolvedValue([
+      dbPosition(),
+    ]);
+    hyperliquidService.getUserFills.mockResolvedValue([
+      fill({ oid: 2, closedPnl: '3', time: Date.now() - 1000 }),
+    ]);
+
+    const report = await service.reconcile(ReconciliationTrigger.SCHEDULE);
+
+    expect(tradePositionService.updateTradePosition).not.toHaveBeenCalled();
+    expect(report.discrepancies).toHaveLength(0);
+  });
+
+  it('should open CREATED positions whose entry filled on exchange', async () => {
+    tradePositionService.getActiveTradePositions.mockResolvedValue([
+      dbPosition({ status: TradePositionStatus.CREATED, remainingSize: 0 }),
+    ]);
+    hyperliquidService.getPositions.mockResolvedValue([
+      exchangePosition('HYPE', '2'),
+    ]);
+
+    const report = await service.reconcile(ReconciliationTrigger.SCHEDULE);
+
+    expect(tradePositionService.updateTradePosition).toHaveBeenCalledWith(
+      'position-id',
+      expect.objectContaining({
+        status: TradePositionStatus.OPEN,
+        entryPrice: 100,
+        totalFilledSize: 2,
+        remainingSize: 2,
+      }),
+    );
+    expect(report.discrepancies[0].type).toBe(
+      ReconciliationDiscrepancyType.MISSED_ENTRY_FILL,
+    );
+  });
+
+  it('should not touch CREATED positions inside the grace period', async () => {
+    tradePositionService.getActiveTradePositions.mockResolvedValue([
+      dbPosition({
+        status: TradePositionStatus.CREATED,
+        createdAt: new Date(),
+      }),
+    ]);
+
+    const report = await service.reconcile(ReconciliationTrigger.SCHEDULE);
+
+    expect(tradePositionService.updateTradePosition).not.toHaveBeenCalled();
+    expect(report.discrepancies).toHaveLength(0);
+  });
+
+  it('should report size and direction mismatches', async () => {
+    tradePositionService.getActiveTradePositions.mockResolvedValue([
+      dbPosition(),
+    ]);
+    hyperliquidService.getPositions.mockResolvedValue([
+      exchangePosition('HYPE', '-3'),
+    ]);
+
+    const report = await service.reconcile(ReconciliationTrigger.SCHEDULE);
+
+    expect(report.discrepancies.map((d) => d.type)).toEqual([
+      ReconciliationDiscrepancyType.DIRECTION_MISMATCH,
+      ReconciliationDiscrepancyType.SIZE_MISMATCH,
+    ]);
+    expect(report.discrepancies[1].details).toEqual({
+      databaseSize: 2,
+      exchangeSize: 3,
+    });
+    expect(tradePositionService.updateTradePosition).not.toHaveBeenCalled();
+  });
+
+  it('should attach untracked resting orders to their position', async () => {
+    tradePositionService.getActiveTradePositions.mockResolvedValue([
+      dbPosition(),
+    ]);
+    hyperliquidService.getPositions.mockResolvedValue([
+      exchangePosition('HYPE', '2'),
+    ]);
+    hyperliquidService.getOpenOrders.mockResolvedValue([
+      {
+        coin: 'HYPE',
+        oid: 42,
+        orderType: 'Stop Market',
+        isTrigger: true,
+        triggerPx: '90',
+        limitPx: '90',
+        sz: '2',
+        origSz: '2',
+        side: 'A',
+        reduceOnly: true,
+      } as HLOpenOrder,
+      {
+        coin: 'ETH',
+        oid: 43,
+        orderType: 'Limit',
+        isTrigger: false,
+        triggerPx: '0',
+        limitPx: '2000',
+        sz: '1',
+        origSz: '1',
+        side: 'B',
+        reduceOnly: false,
+      } as HLOpenOrder,
+    ]);
+
+    const report = await service.reconcile(ReconciliationTrigger.SCHEDULE);
+
+    expect(tradeOrderService.createTradeOrder).toHaveBeenCalledTimes(1);
+    expect(tradeOrderService.createTradeOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: TradeOrderStatus.CREATED,
+        position: 'position-id',
+        orderId: '42',
+        side: 'S',
+        type: 'trigger_sl',
+        isTrigger: true,
+        triggerPrice: 90,
+        triggerType: 'sl',
+      }),
+    );
+    expect(report.discrepancies).toEqual([
+      expect.objectContaining({
+        orderId: '42',
+        action: ReconciliationAction.ADOPTED,
+      }),
+      expect.objectContaining({
+        orderId: '43',
+        action: ReconciliationAction.REPORTED,
+      }),
+    ]);
+  });
+
+  it('should attach the order id to resting orders tracked by cloid', async () => {
+    tradePositionService.getActiveTradePositions.mockResolvedValue([
+      dbPosition(),
+    ]);
+    hyperliquidService.getPositions.mockResolvedValue([
+      exchangePosition('HYPE', '2'),
+    ]);
+    hyperliquidService.getOpenOrders.mockResolvedValue([
+      {
+        coin: 'HYPE',
+        oid: 42,
+        cloid: '0xabc',
+        orderType: 'Take Profit Market',
+        isTrigger: true,
+        triggerPx: '120',
+        limitPx: '120',
+        sz: '2',
+        origSz: '2',
+        side: 'A',
+        reduceOnly: true,
+      } as HLOpenOrder,
+    ]);
+    tradeOrderService.getByClientOrderId.mockResolvedValue({
+      _id: 'order-id',
+    } as any);
+
+    const report = await service.reconcile(ReconciliationTrigger.SCHEDULE);
+
+    expect(tradeOrderService.getByClientOrderId).toHaveBeenCalledWith('0xabc');
+    expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+      'order-id',
+      { orderId: '42' },
+    );
+    expect(tradeOrderService.createTradeOrder).not.toHaveBeenCalled();
+    expect(report.discrepancies).toEqual([
+      expect.objectContaining({
+        orderId: '42',
+        action: ReconciliationAction.ADOPTED,
+      }),
+    ]);
+  });
+
+  it('should store a report with the error when the exchange is unavailable', async () => {
+    hyperliquidService.getPositions.mockRejectedValue(
+      new Error('Exchange unavailable'),
+    );
+
+    const report = await service.reconcile(ReconciliationTrigger.SCHEDULE);
+
+    expect(reportRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        trigger: ReconciliationTrigger.SCHEDULE,
+        error: 'Exchange unavailable',
+        discrepancies: [],
+      }),
+    );
+    expect(report.error).toBe('Exchange unavailable');
+  });
+});
@@ -0,0 +1,503 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HyperliquidService } from '../../infrastructure/hyperliquid/HyperliquidService';
+import {
+  HL_DEFAULT_CURRENCY_FROM,
+  HL_SYMBOL_REVERSE_MAP,
+  HLOpenOrder,
+  HLPosition,
+  HLUserFill,
+  Platform,
+  PositionDirection,
+  PositionType,
+  ReconciliationAction,
+  ReconciliationDiscrepancy,
+  ReconciliationDiscrepancyType,
+  ReconciliationTrigger,
+  TradeOrderStatus,
+  TradePositionStatus,
+} from '../../shared';
+import { TradeOrderService } from '../trade-order/TradeOrder.service';
+import { CooldownService } from '../cooldown/Cooldown.service';
+import { TradePositionDocument } from '../trade-position/TradePosition.schema';
+import { TradePositionService } from '../trade-position/TradePosition.service';
+import { ReconciliationReportRepository } from './Reconciliation.repository';
+import { ReconciliationReportDocument } from './Reconciliation.schema';
+
+// Relative difference tolerated between exchange and database sizes
+const SIZE_TOLERANCE = 0.001;
+
+/**
+ * Compares Hyperliquid positions, open orders and fills with TradePosition and
+ * TradeOrder records and repairs the drift left by crashes or missed WebSocket fills:
+ * - exchange positions without a database record are adopted
+ * - database positions gone from the exchange are closed, realized PnL is
+ *   backfilled from the fill history
+ * - CREATED positions whose entry filled are opened
+ * - resting orders without a trade order record are attached to their position
+ * Size and direction mismatches are only reported.
+ * Every run is stored as a ReconciliationReport.
+ */
+@Injectable()
+export class ReconciliationService {
+  private readonly logger = new Logger(ReconciliationService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly hyperliquidService: HyperliquidService,
+    private readonly tradePositionService: TradePositionService,
+    private readonly tradeOrderService: TradeOrderService,
+    private readonly reconciliationReportRepository: ReconciliationReportRepository,
+    private readonly cooldownService: CooldownService,
+  ) {}
+
+  /**
+   * Run a reconciliation pass
+   * Returns null when Hyperliquid trading is disabled
+   */
+  async reconcile(
+    trigger: ReconciliationTrigger,
+  ): Promise<ReconciliationReportDocument | null> {
+    if (!this.configService.get<boolean>('hyperliquid.enabled')) {
+      return null;
+    }
+
+    const startedAt = new Date();
+    const isPaper = !!this.configService.get<boolean>(
+      'hyperliquid.paperTrading',
+    );
+    const discrepancies: ReconciliationDiscrepancy[] = [];
+    let exchangePositionCount = 0;
+    let databasePositionCount = 0;
+    let openOrderCount = 0;
+    let error: string | undefined;
+
+    this.logger.log(`Starting reconciliation (${trigger})`);
+
+    try {
+      const [exchangePositions, openOrders, fills, databasePositions] =
+        await Promise.all([
+          this.hyperliquidService.getPositions(),
+          this.hyperliquidService.getOpenOrders(),
+          this.hyperliquidService.getUserFills(),
+          this.tradePositionService.getActiveTradePositions(
+            Platform.HYPERLIQUID,
+            isPaper,
+          ),
+        ]);
+
+      const exchangeByToken = new Map<string, HLPosition>();
+      for (const position of exchangePositions) {
+        if (parseFloat(position.szi) !== 0) {
+          exchangeByToken.set(this.toToken(position.coin), position);
+        }
+      }
+      exchangePositionCount = exchangeByToken.size;
+      databasePositionCount = databasePositions.length;
+      openOrderCount = openOrders.length;
+
+      // Positions are sorted newest first, older duplicates are only reported
+      const trackedPositions = new Map<string, TradePositionDocument>();
+      for (const position of databasePositions) {
+        const tracked = trackedPositions.get(position.token);
+        if (tracked) {
+          discrepancies.push({
+            type: ReconciliationDiscrepancyType.DUPLICATE_POSITION,
+            action: ReconciliationAction.REPORTED,
+            token: position.token,
+            positionId: String(position._id),
+            message: `Position ${String(position._id)} duplicates active position ${String(tracked._id)} for ${position.token}`,
+          });
+          continue;
+        }
+        trackedPositions.set(position.token, position);
+      }
+
+      for (const [token, exchangePosition] of exchangeByToken) {
+        const position = trackedPositions.get(token);
+        if (position) {
+          discrepancies.push(
+            ...(await this.compareWithExchange(position, exchangePosition)),
+          );
+        } else {
+          const adopted = await this.adoptExchangePosition(
+            token,
+            exchangePosition,
+            isPaper,
+          );
+          trackedPositions.set(token, adopted.position);
+          discrepancies.push(adopted.discrepancy);
+        }
+      }
+
+      for (const [token, position] of trackedPositions) {
+        if (exchangeByToken.has(token)) {
+          continue;
+        }
+        const discrepancy = await this.closeMissingPosition(position, fills);
+        if (discrepancy) {
+          trackedPositions.delete(token);
+          discrepancies.push(discrepancy);
+        }
+      }
+
+      discrepancies.push(
+        ...(await this.reconcileOpenOrders(openOrders, trackedPositions)),
+      );
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      this.logger.error(`Reconciliation (${trigger}) failed`, err);
+    }
+
+    const report = await this.reconciliationReportRepository.create({
+      platform: Platform.HYPERLIQUID,
+      trigger,
+      startedAt,
+      finishedAt: new Date(),
+      exchangePositionCount,
+      databasePositionCount,
+      openOrderCount,
+      discrepancies,
+      error,
+    });
+
+    if (discrepancies.length > 0) {
+      this.logger.warn(
+        `Reconciliation (${trigger}) found ${discrepancies.length} discrepancies: ${discrepancies
+          .map((d) => `${d.type} ${d.token} (${d.action})`)
+          .join(', ')}`,
+      );
+    } else {
+      this.logger.log(`Reconciliation (${trigger}) found no discrepancies`);
+    }
+
+    return report;
+  }
+
+  private async compareWithExchange(
+    position: TradePositionDocument,
+    exchangePosition: HLPosition,
+  ): Promise<ReconciliationDiscrepancy[]> {
+    const positionId = String(position._id);
+    const token = position.token;
+    const exchangeSize = Math.abs(parseFloat(exchangePosition.szi));
+    const exchangeDirection = this.toDirection(exchangePosition.szi);
+    const entryPrice = parseFloat(exchangePosition.entryPx);
+
+    if (position.status === TradePositionStatus.CREATED) {
+      // Entry fill may still be on its way through the WebSocket
+      if (this.isWithinGracePeriod(position.createdAt)) {
+        return [];
+      }
+
+      await this.tradePositionService.updateTradePosition(positionId, {
+        status: TradePositionStatus.OPEN,
+        timeOpened: position.timeOpened || new Date(),
+        entryPrice,
+        totalFilledSize: exchangeSize,
+        remainingSize: exchangeSize,
+      });
+
+      return [
+        {
+          type: ReconciliationDiscrepancyType.MISSED_ENTRY_FILL,
+          action: ReconciliationAction.OPENED,
+          token,
+          positionId,
+          message: `Position ${positionId} for ${token} is filled on exchange but was still CREATED`,
+          details: { exchangeSize, entryPrice },
+        },
+      ];
+    }
+
+    const discrepancies: ReconciliationDiscrepancy[] = [];
+
+    if (
+      position.positionDirection &&
+      position.positionDirection !== exchangeDirection
+    ) {
+      discrepancies.push({
+        type: ReconciliationDiscrepancyType.DIRECTION_MISMATCH,
+        action: ReconciliationAction.REPORTED,
+        token,
+        positionId,
+        message: `Position ${positionId} for ${token} is ${position.positionDirection} but exchange holds ${exchangeDirection}`,
+      });
+    }
+
+    const databaseSize = position.remainingSize ?? position.totalFilledSize;
+    if (
+      databaseSize !== undefined &&
+      Math.abs(databaseSize - exchangeSize) >
+        SIZE_TOLERANCE * Math.max(databaseSize, exchangeSize)
+    ) {
+      discrepancies.push({
+        type: ReconciliationDiscrepancyType.SIZE_MISMATCH,
+        action: ReconciliationAction.REPORTED,
+        token,
+        positionId,
+        message: `Position ${positionId} for ${token} has size ${databaseSize} but exchange holds ${exchangeSize}`,
+        details: { databaseSize, exchangeSize },
+      });
+    }
+
+    return discrepancies;
+  }
+
+  private async adoptExchangePosition(
+    token: string,
+    exchangePosition: HLPosition,
+    isPaper: boolean,
+  ): Promise<{
+    position: TradePositionDocument;
+    discrepancy: ReconciliationDiscrepancy;
+  }> {
+    const size = Math.abs(parseFloat(exchangePosition.szi));
+    const marginUsed = parseFloat(exchangePosition.marginUsed);
+    const entryPrice = parseFloat(exchangePosition.entryPx);
+
+    const position = await this.tradePositionService.createTradePosition({
+      platform: Platform.HYPERLIQUID,
+      status: TradePositionStatus.OPEN,
+      positionType: PositionType.PERPETUAL,
+      token,
+      currency: HL_DEFAULT_CURRENCY_FROM,
+      amountIn: marginUsed,
+      positionDirection: this.toDirection(exchangePosition.szi),
+      leverage: exchangePosition.leverage?.value,
+      positionSize: marginUsed,
+      entryPrice,
+      currentPrice: parseFloat(exchangePosition.positionValue) / size,
+      totalFilledSize: size,
+      remainingSize: size,
+      isPaper,
+    });
+    const positionId = String(position._id);
+
+    return {
+      position,
+      discrepancy: {
+        type: ReconciliationDiscrepancyType.ORPHAN_EXCHANGE_POSITION,
+        action: ReconciliationAction.ADOPTED,
+        token,
+        positionId,
+        message: `Exchange position for ${token} had no database record, adopted as ${positionId}`,
+        details: { size, entryPrice, marginUsed },
+      },
+    };
+  }
+
+  /**
+   * Close a database position that no longer exists on the exchange,
+   * recording the fills the WebSocket handler missed
+   */
+  private async closeMissingPosition(
+    position: TradePositionDocument,
+    fills: HLUserFill[],
+  ): Promise<ReconciliationDiscrepancy | null> {
+    const positionId = String(position._id);
+    const token = position.token;
+
+    if (
+      position.status === TradePositionStatus.CREATED &&
+      this.isWithinGracePeriod(position.createdAt)
+    ) {
+      return null;
+    }
+
+    const openedAt = (position.timeOpened || position.createdAt).getTime();
+    const tokenFills = fills.filter(
+      (fill) => this.toToken(fill.coin) === token && fill.time >= openedAt,
+    );
+
+    // Recent fills are still being processed by the WebSocket handler
+    if (tokenFills.some((fill) => this.isWithinGracePeriod(fill.time))) {
+      return null;
+    }
+
+    const missedFills = tokenFills
+      .filter((fill) => !this.isFillRecorded(position, fill))
+      .sort((a, b) => a.time - b.time)
+      .map((fill) => ({
+        orderId: String(fill.oid),
+        ...(fill.tid != null && { tradeId: String(fill.tid) }),
+        size: parseFloat(fill.sz),
+        price: parseFloat(fill.px),
+        closedPnl: parseFloat(fill.closedPnl) || undefined,
+        fee: parseFloat(fill.fee) || 0,
+        timestamp: fill.time,
+        side: fill.side,
+      }));
+
+    const backfilledPnl = missedFills.reduce(
+      (sum, fill) => sum + (fill.closedPnl || 0),
+      0,
+    );
+    const totalRealizedPnl = (position.totalRealizedPnl || 0) + backfilledPnl;
+    const totalFees =
+      (position.totalFees || 0) +
+      missedFills.reduce((sum, fill) => sum + fill.fee, 0);
+    const lastFill = missedFills[missedFills.length - 1];
+    const timeClosed = lastFill ? new Date(lastFill.timestamp) : new Date();
+    // A missed SL/TP trigger fill is still known by its order id
+    const exitReason = this.cooldownService.getExitReason(
+      position,
+      lastFill
+        ? await this.tradeOrderService.getByOrderId(lastFill.orderId)
+        : null,
+    );
+
+    await this.tradePositionService.updateTradePosition(positionId, {
+      status: TradePositionStatus.CLOSED,
+      timeClosed,
+      exitReason,
+      realizedPnl: totalRealizedPnl,
+      totalRealizedPnl,
+      totalFees,
+      netRealizedPnl: totalRealizedPnl - totalFees,
+      remainingSize: 0,
+      ...(lastFill && { currentPrice: lastFill.price }),
+      fills: [...(position.fills || []), ...missedFills],
+    });
+    await this.cooldownService.startCooldown(position, exitReason, timeClosed);
+
+    return {
+      type: ReconciliationDiscrepancyType.MISSING_EXCHANGE_POSITION,
+      action: ReconciliationAction.CLOSED,
+      token,
+      positionId,
+      message: `Position ${positionId} for ${token} no longer exists on exchange, closed with ${missedFills.length} backfilled fills`,
+      details: {
+        backfilledFills: missedFills.length,
+        backfilledPnl,
+        realizedPnl: totalRealizedPnl,
+      },
+    };
+  }
+
+  /**
+   * Attach resting orders without a trade order record to their position
+   * Orders whose placement response was lost are matched by their cloid and
+   * get the exchange order id
+   */
+  private async reconcileOpenOrders(
+    openOrders: HLOpenOrder[],
+    positions: Map<string, TradePositionDocument>,
+  ): Promise<ReconciliationDiscrepancy[]> {
+    const discrepancies: ReconciliationDiscrepancy[] = [];
+
+    for (const order of openOrders) {
+      const orderId = String(order.oid);
+      if (await this.tradeOrderService.getByOrderId(orderId)) {
+        continue;
+      }
+
+      const token = this.toToken(order.coin);
+      const size = parseFloat(order.sz);
+      const limitPrice = parseFloat(order.limitPx);
+
+      const tracked = order.cloid
+        ? await this.tradeOrderService.getByClientOrderId(order.cloid)
+        : null;
+      if (tracked) {
+        await this.tradeOrderService.updateTradeOrder(String(tracked._id), {
+          orderId,
+        });
+        discrepancies.push({
+          type: ReconciliationDiscrepancyType.ORPHAN_OPEN_ORDER,
+          action: ReconciliationAction.ADOPTED,
+          token,
+          orderId,
+          message: `Resting order ${orderId} for ${token} matched trade order ${String(tracked._id)} by cloid ${order.cloid}`,
+          details: { size, limitPrice },
+        });
+        continue;
+      }
+
+      const position = positions.get(token);
+
+      if (!position) {
+        discrepancies.push({
+          type: ReconciliationDiscrepancyType.ORPHAN_OPEN_ORDER,
+          action: ReconciliationAction.REPORTED,
+          token,
+          orderId,
+          message: `Resting order ${orderId} for ${token} has no trade order record and no active position`,
+          details: { size, limitPrice },
+        });
+        continue;
+      }
+
+      const triggerType = order.orderType.startsWith('Take Profit')
+        ? 'tp'
+        : 'sl';
+      await this.tradeOrderService.createTradeOrder({
+        status: TradeOrderStatus.CREATED,
+        position: String(position._id),
+        type: order.isTrigger ? `trigger_${triggerType}` : order.orderType,
+        orderId,
+        coin: order.coin,
+        side: order.side === 'B' ? 'B' : 'S',
+        size,
+        price: limitPrice,
+        limitPrice,
+        originalSize: parseFloat(order.origSz),
+        isTrigger: order.isTrigger,
+        ...(order.isTrigger && {
+          triggerPrice: parseFloat(order.triggerPx),
+          triggerType,
+        }),
+      });
+
+      discrepancies.push({
+        type: ReconciliationDiscrepancyType.ORPHAN_OPEN_ORDER,
+        action: ReconciliationAction.ADOPTED,
+        token,
+        orderId,
+        positionId: String(position._id),
+        message: `Resting order ${orderId} for ${token} attached to position ${String(position._id)}`,
+        details: { size, limitPrice },
+      });
+    }
+
+    return discrepancies;
+  }
+
+  private isWithinGracePeriod(time: Date | number): boolean {
+    const graceMs = this.configService.get<number>(
+      'hyperliquid.reconciliationGraceMs',
+      120000,
+    );
+    return new Date(time).getTime() > Date.now() - graceMs;
+  }
+
+  private toToken(coin: string): string {
+    return HL_SYMBOL_REVERSE_MAP[coin] || coin;
+  }
+
+  private toDirection(szi: string): PositionDirection {
+    return parseFloat(szi) > 0
+      ? PositionDirection.LONG
+      : PositionDirection.SHORT;
+  }
+
+  /**
+   * Same matching as TradeOrderService: orderId + tradeId, falling back to
+   * the timestamp for fills recorded without a trade id
+   */
+  private isFillRecorded(
+    position: TradePositionDocument,
+    fill: HLUserFill,
+  ): boolean {
+    const orderId = String(fill.oid);
+    const tradeId = fill.tid !== undefined ? String(fill.tid) : undefined;
+
+    return (position.fills || []).some(
+      (recorded) =>
+        recorded.orderId === orderId &&
+        (recorded.tradeId && tradeId
+          ? recorded.tradeId === tradeId
+          : recorded.timestamp === fill.time),
+    );
+  }
+}
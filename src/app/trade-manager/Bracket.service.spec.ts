@@ -0,0 +1,194 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BracketService } from './Bracket.service';
+import { HyperliquidService } from '../../infrastructure/hyperliquid/HyperliquidService';
+import { BracketMode, HLCandle, PositionDirection } from '../../shared';
+
+describe('BracketService', () => {
+  let service: BracketService;
+  let hyperliquidService: jest.Mocked<HyperliquidService>;
+  let config: Record<string, unknown>;
+
+  const tradingParams = { stopLossPercent: 10, takeProfitPercent: 20 };
+  const atrPerp = { bracketMode: BracketMode.ATR } as any;
+
+  // Every candle ranges `range` around a close of 100, so the ATR is `range`
+  const candles = (count: number, range: number): HLCandle[] =>
+    Array.from({ length: count }, (_, index) => ({
+      t: index,
+      T: index,
+      s: 'BTC',
+      i: '1h',
+      o: 100,
+      c: 100,
+      h: 100 + range / 2,
+      l: 100 - range / 2,
+      v: 0,
+      n: 0,
+    }));
+
+  beforeEach(async () => {
+    config = {
+      'hyperliquid.atrInterval': '1h',
+      'hyperliquid.atrPeriod': 14,
+      'hyperliquid.atrStopMultiplier': 2,
+      'hyperliquid.riskRewardRatio': 2,
+      'hyperliquid.atrMinStopPercent': 1,
+      'hyperliquid.atrMaxStopPercent': 15,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BracketService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key in config ? config[key] : defaultValue,
+            ),
+          },
+        },
+        {
+          provide: HyperliquidService,
+          useValue: {
+            getCandles: jest.fn().mockResolvedValue(candles(29, 2)),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(BracketService);
+    hyperliquidService = module.get(HyperliquidService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should use the fixed percentages for percent perps', async () => {
+    const bracket = await service.calculateBracket(
+      'BTC',
+      PositionDirection.SHORT,
+      100,
+      tradingParams,
+      { bracketMode: BracketMode.PERCENT } as any,
+    );
+
+    expect(bracket.stopLossPrice).toBeCloseTo(110);
+    expect(bracket.takeProfitPrice).toBeCloseTo(80);
+    expect(bracket.atr).toBeUndefined();
+    expect(hyperliquidService.getCandles).not.toHaveBeenCalled();
+  });
+
+  it('should place the SL in ATRs and the TP at the risk-reward ratio', async () => {
+    const bracket = await service.calculateBracket(
+      'BTC',
+      PositionDirection.LONG,
+      100,
+      tradingParams,
+      atrPerp,
+    );
+
+    expect(hyperliquidService.getCandles).toHaveBeenCalledWith(
+      'BTC',
+      '1h',
+      expect.any(Number),
+      expect.any(Number),
+    );
+    const [, , startTime, endTime] =
+      hyperliquidService.getCandles.mock.calls[0];
+    expect(endTime - startTime).toBe(29 * 60 * 60 * 1000);
+    // ATR 2, SL 2 ATR = 4%, TP 2 x 4% = 8%
+    expect(bracket.atr).toBeCloseTo(2);
+    expect(bracket.stopLossPrice).toBeCloseTo(96);
+    expect(bracket.takeProfitPrice).toBeCloseTo(108);
+  });
+
+  it('should prefer the perp multiplier and ratio', async () => {
+    const bracket = await service.calculateBracket(
+      'BTC',
+      PositionDirection.SHORT,
+      100,
+      tradingParams,
+      { ...atrPerp, atrStopMultiplier: 1.5, riskRewardRatio: 3 },
+    );
+
+    expect(bracket.stopLossPrice).toBeCloseTo(103);
+    expect(bracket.takeProfitPrice).toBeCloseTo(91);
+  });
+
+  it('should clamp the SL distance', async () => {
+    hyperliquidService.getCandles.mockResolvedValue(candles(29, 20));
+
+    const wide = await service.calculateBracket(
+      'DOGE',
+      PositionDirection.LONG,
+      100,
+      tradingParams,
+      atrPerp,
+    );
+    expect(wide.stopLossPrice).toBeCloseTo(85);
+    expect(wide.takeProfitPrice).toBeCloseTo(130);
+
+    hyperliquidService.getCandles.mockResolvedValue(candles(29, 0.1));
+
+    const tight = await service.calculateBracket(
+      'BTC',
+      PositionDirection.LONG,
+      100,
+      tradingParams,
+      atrPerp,
+    );
+    expect(tight.stopLossPrice).toBeCloseTo(99);
+    expect(tight.takeProfitPrice).toBeCloseTo(102);
+  });
+
+  it('should fall back to percent when the ATR cannot be measured', async () => {
+    hyperliquidService.getCandles.mockResolvedValue(candles(5, 2));
+
+    const bracket = await service.calculateBracket(
+      'BTC',
+      PositionDirection.LONG,
+      100,
+      tradingParams,
+      atrPerp,
+    );
+    expect(bracket.stopLossPrice).toBeCloseTo(90);
+    expect(bracket.takeProfitPrice).toBeCloseTo(120);
+    expect(bracket.atr).toBeUndefined();
+
+    hyperliquidService.getCandles.mockRejectedValue(new Error('timeout'));
+
+    expect(await service.getAtr('ETH')).toBeNull();
+  });
+
+  it('should price the take-profit ladder in R multiples', async () => {
+    const bracket = await service.calculateBracket(
+      'BTC',
+      PositionDirection.SHORT,
+      100,
+      tradingParams,
+      {
+        bracketMode: BracketMode.PERCENT,
+        takeProfitLadder: [
+          { rMultiple: 2, sizePercent: 30 },
+          { rMultiple: 1, sizePercent: 50 },
+        ],
+      } as any,
+    );
+
+    // SL 10% above, so 1R is 10
+    expect(bracket.takeProfitLadder).toEqual([
+      { rMultiple: 1, sizePercent: 50, price: expect.closeTo(90) },
+      { rMultiple: 2, sizePercent: 30, price: expect.closeTo(80) },
+    ]);
+  });
+
+  it('should cache the ATR per token', async () => {
+    await service.getAtr('BTC');
+    await service.getAtr('BTC');
+
+    expect(hyperliquidService.getCandles).toHaveBeenCalledTimes(1);
+  });
+});
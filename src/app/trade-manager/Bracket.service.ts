@@ -0,0 +1,226 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HyperliquidService } from '../../infrastructure/hyperliquid/HyperliquidService';
+import {
+  BracketMode,
+  PositionDirection,
+  TakeProfitLadderRung,
+  TakeProfitRung,
+  TimeBaseCache,
+  calculateAtr,
+} from '../../shared';
+import { PlatformTradingParams } from '../../shared/ports/trading/PlatformTradingStrategyPort';
+import { PerpDocument } from '../perps/Perp.schema';
+
+export interface Bracket {
+  stopLossPrice: number;
+  takeProfitPrice: number;
+  // Set when the bracket was sized from the ATR
+  atr?: number;
+  // Set when the perp scales out over a take-profit ladder
+  takeProfitLadder?: TakeProfitLadderRung[];
+}
+
+export const CANDLE_INTERVAL_MS: Record<string, number> = {
+  '1m': 60 * 1000,
+  '3m': 3 * 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '30m': 30 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '2h': 2 * 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '8h': 8 * 60 * 60 * 1000,
+  '12h': 12 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Entry SL/TP prices for new positions
+ * Percent brackets use the platform's fixed distances for every token. ATR
+ * brackets put the SL a multiple of the token's ATR away, clamped to
+ * HL_ATR_MIN_STOP_PERCENT..HL_ATR_MAX_STOP_PERCENT of the price, and the TP
+ * at the risk-reward ratio; they fall back to percent when the ATR is unknown.
+ * Perps with a take-profit ladder also get their rungs priced in multiples
+ * of the SL distance (R).
+ */
+@Injectable()
+export class BracketService {
+  private readonly logger = new Logger(BracketService.name);
+  // Candles of the ATR interval barely move within a minute
+  private readonly atrCache = new TimeBaseCache<string, number>(60 * 1000);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly hyperliquidService: HyperliquidService,
+  ) {}
+
+  async calculateBracket(
+    token: string,
+    direction: PositionDirection,
+    entryPrice: number,
+    tradingParams: Pick<
+      PlatformTradingParams,
+      'stopLossPercent' | 'takeProfitPercent'
+    >,
+    perp?: PerpDocument | null,
+  ): Promise<Bracket> {
+    const bracket = await this.calculatePrices(
+      token,
+      direction,
+      entryPrice,
+      tradingParams,
+      perp,
+    );
+    if (perp?.takeProfitLadder?.length) {
+      bracket.takeProfitLadder = this.priceLadder(
+        direction,
+        entryPrice,
+        bracket.stopLossPrice,
+        perp.takeProfitLadder,
+      );
+    }
+    return bracket;
+  }
+
+  private async calculatePrices(
+    token: string,
+    direction: PositionDirection,
+    entryPrice: number,
+    tradingParams: Pick<
+      PlatformTradingParams,
+      'stopLossPercent' | 'takeProfitPercent'
+    >,
+    perp?: PerpDocument | null,
+  ): Promise<Bracket> {
+    if (perp?.bracketMode === BracketMode.ATR) {
+      const atr = await this.getAtr(token);
+      if (atr) {
+        const stopMultiplier =
+          perp.atrStopMultiplier ??
+          this.configService.get<number>('hyperliquid.atrStopMultiplier', 2);
+        const riskRewardRatio =
+          perp.riskRewardRatio ??
+          this.configService.get<number>('hyperliquid.riskRewardRatio', 2);
+        const stopLossPercent = Math.min(
+          Math.max(
+            ((atr * stopMultiplier) / entryPrice) * 100,
+            this.configService.get<number>('hyperliquid.atrMinStopPercent', 1),
+          ),
+          this.configService.get<number>('hyperliquid.atrMaxStopPercent', 15),
+        );
+
+        return {
+          ...this.buildBracket(
+            direction,
+            entryPrice,
+            stopLossPercent,
+            stopLossPercent * riskRewardRatio,
+          ),
+          atr,
+        };
+      }
+
+      this.logger.warn(
+        `No ATR for ${token}, using the percent bracket instead`,
+      );
+    }
+
+    return this.buildBracket(
+      direction,
+      entryPrice,
+      tradingParams.stopLossPercent || 10,
+      tradingParams.takeProfitPercent || 20,
+    );
+  }
+
+  /**
+   * ATR of the token over HL_ATR_PERIOD candles of HL_ATR_INTERVAL, cached
+   * for a minute; null when it cannot be measured
+   */
+  async getAtr(token: string): Promise<number | null> {
+    const cached = this.atrCache.get(token);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    try {
+      const interval = this.configService.get<string>(
+        'hyperliquid.atrInterval',
+        '1h',
+      );
+      const period = this.configService.get<number>(
+        'hyperliquid.atrPeriod',
+        14,
+      );
+      const intervalMs = CANDLE_INTERVAL_MS[interval];
+      if (!intervalMs) {
+        throw new Error(`Unsupported candle interval ${interval}`);
+      }
+
+      // Twice the period so the smoothing has settled
+      const endTime = Date.now();
+      const candles = await this.hyperliquidService.getCandles(
+        token,
+        interval,
+        endTime - (period * 2 + 1) * intervalMs,
+        endTime,
+      );
+      const atr = calculateAtr(candles, period);
+      if (!atr) {
+        this.logger.warn(
+          `Not enough ${interval} candles to measure the ATR of ${token} (${candles.length})`,
+        );
+        return null;
+      }
+
+      this.atrCache.set(token, atr);
+      return atr;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to measure the ATR of ${token}: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Rung prices rMultiple SL distances from the entry, nearest rung first
+   */
+  private priceLadder(
+    direction: PositionDirection,
+    entryPrice: number,
+    stopLossPrice: number,
+    ladder: TakeProfitRung[],
+  ): TakeProfitLadderRung[] {
+    const risk = Math.abs(entryPrice - stopLossPrice);
+    return [...ladder]
+      .sort((a, b) => a.rMultiple - b.rMultiple)
+      .map(({ rMultiple, sizePercent }) => ({
+        rMultiple,
+        sizePercent,
+        price:
+          direction === PositionDirection.LONG
+            ? entryPrice + rMultiple * risk
+            : entryPrice - rMultiple * risk,
+      }));
+  }
+
+  private buildBracket(
+    direction: PositionDirection,
+    entryPrice: number,
+    stopLossPercent: number,
+    takeProfitPercent: number,
+  ): Bracket {
+    if (direction === PositionDirection.LONG) {
+      return {
+        stopLossPrice: entryPrice * (1 - stopLossPercent / 100),
+        takeProfitPrice: entryPrice * (1 + takeProfitPercent / 100),
+      };
+    }
+    return {
+      stopLossPrice: entryPrice * (1 + stopLossPercent / 100),
+      takeProfitPrice: entryPrice * (1 - takeProfitPercent / 100),
+    };
+  }
+}
@@ -1,12 +1,18 @@
 import { DynamicModule, Global, Module } from '@nestjs/common';
 import { TradeManagerService } from './TradeManager.service';
 import { TrailingService } from './Trailing.service';
+import { BracketService } from './Bracket.service';
 import { TradePositionModule } from '../trade-position/TradePosition.module';
 import { PredictorModule } from '../predictor/Predictor.module';
 import { PlatformManagerModule } from '../platform-manager/PlatformManager.module';
 import { PerpModule } from '../perps/Perp.module';
 import { SettingsModule } from '../settings/Settings.module';
 import { TradeOrderModule } from '../trade-order/TradeOrder.module';
+import { TradingDecisionModule } from '../trading-decision/TradingDecision.module';
+import { ReconciliationModule } from '../reconciliation/Reconciliation.module';
+import { CircuitBreakerModule } from '../circuit-breaker/CircuitBreaker.module';
+import { HyperliquidModule } from '../hyperliquid/Hyperliquid.module';
+import { PositionSizingModule } from '../position-sizing/PositionSizing.module';
 
 @Global()
 @Module({
@@ -17,8 +23,13 @@ import { TradeOrderModule } from '../trade-order/TradeOrder.module';
     PlatformManagerModule,
     PerpModule,
     SettingsModule,
+    TradingDecisionModule,
+    ReconciliationModule,
+    CircuitBreakerModule,
+    HyperliquidModule,
+    PositionSizingModule,
   ],
-  providers: [TradeManagerService, TrailingService],
+  providers: [TradeManagerService, TrailingService, BracketService],
   exports: [TradeManagerService],
 })
 export class TradeManagerModule {
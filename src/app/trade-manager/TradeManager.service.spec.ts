@@ -1,13 +1,20 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { Test, TestingModule } from '@nestjs/testing';
 import { TradeManagerService } from './TradeManager.service';
+import { ConfigService } from '@nestjs/config';
 import { TrailingService } from './Trailing.service';
+import { BracketService } from './Bracket.service';
+import { TradingDecisionService } from '../trading-decision/TradingDecision.service';
+import { ReconciliationService } from '../reconciliation/Reconciliation.service';
 import { TradePositionService } from '../trade-position/TradePosition.service';
 import { TradeOrderService } from '../trade-order/TradeOrder.service';
 import { IndexerAdapter } from '../../infrastructure/indexer/IndexerAdapter';
 import { PlatformManagerService } from '../platform-manager/PlatformManagerService';
 import { PerpService } from '../perps/Perp.service';
 import { SettingsService } from '../settings/Settings.service';
+import { CircuitBreakerService } from '../circuit-breaker/CircuitBreaker.service';
+import { PositionSizingService } from '../position-sizing/PositionSizing.service';
+import { HyperliquidService } from '../../infrastructure/hyperliquid/HyperliquidService';
 import {
   Platform,
   TradePositionStatus,
@@ -15,6 +22,14 @@ import {
   PositionDirection,
   Currency,
   TradeOrderStatus,
+  RiskRejectionCode,
+  RiskRejectionError,
+  ReconciliationTrigger,
+  buildClientOrderId,
+  ClientOrderRole,
+  EntryMode,
+  CircuitBreakerReason,
+  ExitReason,
 } from '../../shared';
 
 describe('TradeManagerService', () => {
@@ -22,6 +37,13 @@ describe('TradeManagerService', () => {
   let tradePositionService: jest.Mocked<TradePositionService>;
   let tradeOrderService: jest.Mocked<TradeOrderService>;
   let platformManagerService: jest.Mocked<PlatformManagerService>;
+  let perpService: jest.Mocked<PerpService>;
+  let trailingService: jest.Mocked<TrailingService>;
+  let tradingDecisionService: jest.Mocked<TradingDecisionService>;
+  let reconciliationService: jest.Mocked<ReconciliationService>;
+  let settingsService: jest.Mocked<SettingsService>;
+  let circuitBreakerService: jest.Mocked<CircuitBreakerService>;
+  let positionSizingService: jest.Mocked<PositionSizingService>;
 
   const mockTradingOpportunity = {
     platform: Platform.HYPERLIQUID,
@@ -37,6 +59,7 @@ describe('TradeManagerService', () => {
       },
     },
     priority: 1,
+    decisionId: 'decision-123',
   };
 
   const mockOpenPosition = {
@@ -67,7 +90,11 @@ describe('TradeManagerService', () => {
         {
           provide: TradeOrderService,
           useValue: {
-            createTradeOrder: jest.fn(),
+            createTradeOrder: jest
+              .fn()
+              .mockResolvedValue({ _id: 'order-record-id' }),
+            updateTradeOrder: jest.fn(),
+            countTradeOrders: jest.fn().mockResolvedValue(0),
           },
         },
         {
@@ -89,6 +116,7 @@ describe('TradeManagerService', () => {
             enterPosition: jest.fn(),
             exitPosition: jest.fn(),
             replaceTakeProfitOrder: jest.fn(),
+            replaceStopLossOrder: jest.fn(),
           },
         },
         {
@@ -110,6 +138,49 @@ describe('TradeManagerService', () => {
             evaluateTrailing: jest.fn(),
           },
         },
+        // Percent brackets use the platform trading params
+        BracketService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (_key: string, defaultValue?: unknown) => defaultValue,
+            ),
+          },
+        },
+        {
+          provide: HyperliquidService,
+          useValue: {
+            getCandles: jest.fn(),
+          },
+        },
+        {
+          provide: TradingDecisionService,
+          useValue: {
+            markEntered: jest.fn(),
+            markEntryFailed: jest.fn(),
+          },
+        },
+        {
+          provide: ReconciliationService,
+          useValue: {
+            reconcile: jest.fn(),
+          },
+        },
+        {
+          provide: CircuitBreakerService,
+          useValue: {
+            check: jest.fn().mockResolvedValue(null),
+            getActiveTrip: jest.fn().mockResolvedValue(null),
+          },
+        },
+        {
+          provide: PositionSizingService,
+          useValue: {
+            isEnabled: jest.fn().mockReturnValue(false),
+            calculateSize: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
@@ -117,6 +188,13 @@ describe('TradeManagerService', () => {
     tradePositionService = module.get(TradePositionService);
     tradeOrderService = module.get(TradeOrderService);
     platformManagerService = module.get(PlatformManagerService);
+    perpService = module.get(PerpService);
+    trailingService = module.get(TrailingService);
+    tradingDecisionService = module.get(TradingDecisionService);
+    reconciliationService = module.get(ReconciliationService);
+    settingsService = module.get(SettingsService);
+    circuitBreakerService = module.get(CircuitBreakerService);
+    positionSizingService = module.get(PositionSizingService);
   });
 
   afterEach(() => {
@@ -233,18 +311,51 @@ describe('TradeManagerService', () => {
         }),
       );
 
-      // Verify order created with coin and side
+      // Verify order persisted with its cloid before sending
+      const { clientOrderId } =
+        tradeOrderService.createTradeOrder.mock.calls[0][0];
+      expect(clientOrderId).toMatch(/^0x[0-9a-f]{32}$/);
       expect(tradeOrderService.createTradeOrder).toHaveBeenCalledWith(
         expect.objectContaining({
           status: TradeOrderStatus.CREATED,
-          orderId: 'order-123',
           coin: 'BTC',
           side: 'B', // Buy for LONG
           type: 'market',
+        }),
+      );
+      expect(platformManagerService.enterPosition).toHaveBeenCalledWith(
+        expect.objectContaining({ clientOrderId }),
+      );
+      expect(
+        tradeOrderService.createTradeOrder.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        platformManagerService.enterPosition.mock.invocationCallOrder[0],
+      );
+
+      // Verify the position reuses the id the cloid was derived from
+      const { _id: positionId } =
+        tradePositionService.createTradePosition.mock.calls[0][0];
+      expect(tradeOrderService.createTradeOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ position: positionId }),
+      );
+
+      // Verify the order is completed with the exchange result
+      expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+        'order-record-id',
+        expect.objectContaining({
+          status: TradeOrderStatus.CREATED,
+          orderId: 'order-123',
+          type: 'market',
           size: 0.002,
           price: 50000,
         }),
       );
+
+      // Verify the decision is linked to the opened position
+      expect(tradingDecisionService.markEntered).toHaveBeenCalledWith(
+        'decision-123',
+        'position-id',
+      );
     });
 
     it('should set side to S for SHORT positions', async () => {
@@ -329,14 +440,26 @@ describe('TradeManagerService', () => {
       tradePositionService.createTradePosition.mockResolvedValue(
         mockPosition as any,
       );
+      perpService.findByToken.mockResolvedValue({
+        maxSpreadBps: 10,
+        maxSlippageBps: 25,
+        entryMode: EntryMode.MAKER,
+      } as any);
 
       await (service as any).enterPosition(mockTradingOpportunity);
 
       // Verify SL/TP prices are calculated correctly for LONG
+      // and the perp execution settings are passed on
       expect(platformManagerService.enterPosition).toHaveBeenCalledWith(
         expect.objectContaining({
+          direction: PositionDirection.LONG,
+          leverage: 5,
           stopLossPrice: 45000, // 50000 * (1 - 0.10)
           takeProfitPrice: 60000, // 50000 * (1 + 0.20)
+          maxSpreadBps: 10,
+          maxSlippageBps: 25,
+          entryMode: EntryMode.MAKER,
+          positionId: expect.any(String),
         }),
       );
 
@@ -407,6 +530,7 @@ describe('TradeManagerService', () => {
       // Verify SL/TP prices are calculated correctly for SHORT (inverted)
       const enterPositionCall =
         platformManagerService.enterPosition.mock.calls[0][0];
+      expect(enterPositionCall.direction).toBe(PositionDirection.SHORT);
       expect(enterPositionCall.stopLossPrice).toBeCloseTo(55000, 1); // 50000 * (1 + 0.10) - price goes up = loss for short
       expect(enterPositionCall.takeProfitPrice).toBeCloseTo(40000, 1); // 50000 * (1 - 0.20) - price goes down = profit for short
 
@@ -423,6 +547,109 @@ describe('TradeManagerService', () => {
       ).not.toHaveBeenCalled();
     });
 
+    it('should enter with the risk-sized amount when sizing is enabled', async () => {
+      platformManagerService.getCurrentPrice.mockResolvedValue(50000);
+      platformManagerService.enterPosition.mockResolvedValue({
+        orderId: 'order-sized',
+        status: TradeOrderStatus.CREATED,
+        type: 'market',
+        size: 0.005,
+        price: 50000,
+      });
+      platformManagerService.getPlatformConfiguration.mockReturnValue({
+        platform: Platform.HYPERLIQUID,
+        enabled: true,
+        tradingParams: {
+          maxOpenPositions: 3,
+          defaultAmountIn: 100,
+          stopLossPercent: 10,
+          takeProfitPercent: 20,
+        },
+        defaultCurrencyFrom: Currency.USDC,
+      });
+      tradePositionService.createTradePosition.mockResolvedValue({
+        _id: 'position-sized',
+        ...mockOpenPosition,
+      } as any);
+      positionSizingService.isEnabled.mockReturnValue(true);
+      positionSizingService.calculateSize.mockResolvedValue({
+        amountIn: 250,
+        equity: 1000,
+        riskUsd: 25,
+        stopDistancePercent: 10,
+      });
+
+      await (service as any).enterPosition(mockTradingOpportunity);
+
+      expect(positionSizingService.calculateSize).toHaveBeenCalledWith({
+        token: 'BTC',
+        entryPrice: 50000,
+        stopLossPrice: 45000,
+        takeProfitPrice: 60000,
+        leverage: 5,
+        confidence: 0.8,
+      });
+      expect(platformManagerService.enterPosition).toHaveBeenCalledWith(
+        expect.objectContaining({ amountIn: 250 }),
+      );
+      expect(tradePositionService.createTradePosition).toHaveBeenCalledWith(
+        expect.objectContaining({ amountIn: 250, positionSize: 250 }),
+      );
+    });
+
+    it('should not enter perps without a direction', async () => {
+      platformManagerService.getPlatformConfiguration.mockReturnValue({
+        platform: Platform.HYPERLIQUID,
+        enabled: true,
+        tradingParams: { stopLossPercent: 10, takeProfitPercent: 20 },
+        defaultCurrencyFrom: Currency.USDC,
+      } as any);
+
+      await expect(
+        (service as any).enterPosition({
+          ...mockTradingOpportunity,
+          tradingDecision: {
+            ...mockTradingOpportunity.tradingDecision,
+            metadata: { leverage: 5 },
+          },
+        }),
+      ).rejects.toThrow('has no direction');
+      expect(tradeOrderService.createTradeOrder).not.toHaveBeenCalled();
+      expect(platformManagerService.enterPosition).not.toHaveBeenCalled();
+    });
+
+    it('should look the perp up once per entry', async () => {
+      platformManagerService.getCurrentPrice.mockResolvedValue(50000);
+      platformManagerService.enterPosition.mockResolvedValue({
+        orderId: 'order-once',
+        status: TradeOrderStatus.CREATED,
+        type: 'market',
+        size: 0.002,
+        price: 50000,
+      });
+      platformManagerService.getPlatformConfiguration.mockReturnValue({
+        platform: Platform.HYPERLIQUID,
+        enabled: true,
+        tradingParams: { stopLossPercent: 10, takeProfitPercent: 20 },
+        defaultCurrencyFrom: Currency.USDC,
+      } as any);
+      tradePositionService.createTradePosition.mockResolvedValue({
+        _id: 'position-once',
+        ...mockOpenPosition,
+      } as any);
+      perpService.findByToken.mockResolvedValue({
+        _id: 'perp-id',
+        buyFlag: true,
+      } as any);
+
+      await (service as any).enterPosition(mockTradingOpportunity);
+
+      expect(perpService.findByToken).toHaveBeenCalledTimes(1);
+      expect(perpService.update).toHaveBeenCalledWith('perp-id', {
+        buyFlag: false,
+      });
+    });
+
     it('should handle errors in SL/TP order creation gracefully', async () => {
       platformManagerService.getCurrentPrice.mockResolvedValue(50000);
 
@@ -469,6 +696,321 @@ describe('TradeManagerService', () => {
       // Main order should still be created
       expect(tradeOrderService.createTradeOrder).toHaveBeenCalled();
     });
+
+    it('should mark the entry order FAILED when the platform throws', async () => {
+      platformManagerService.getPlatformConfiguration.mockReturnValue({
+        defaultCurrencyFrom: Currency.USDC,
+        tradingParams: {},
+      } as any);
+      platformManagerService.getCurrentPrice.mockResolvedValue(50000);
+      platformManagerService.enterPosition.mockRejectedValue(
+        new Error('Exchange error'),
+      );
+
+      await expect(
+        (service as any).enterPosition(mockTradingOpportunity),
+      ).rejects.toThrow('Exchange error');
+
+      expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+        'order-record-id',
+        { status: TradeOrderStatus.FAILED },
+      );
+      expect(tradePositionService.createTradePosition).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('evaluateAndApplyTrailing', () => {
+    const trailedPosition = {
+      ...mockOpenPosition,
+      stopLossPrice: 45000,
+      takeProfitPrice: 55000,
+      trailCount: 0,
+    };
+
+    beforeEach(() => {
+      trailingService.evaluateTrailing.mockResolvedValue({
+        shouldTrail: true,
+        newStopLossPrice: 52000,
+        newTakeProfitPrice: 58000,
+        reason: 'Trailing activated',
+      });
+      platformManagerService.replaceStopLossOrder.mockResolvedValue({
+        newOrderId: 'sl-2',
+        cancelledCount: 1,
+      });
+      platformManagerService.replaceTakeProfitOrder.mockResolvedValue({
+        newOrderId: 'tp-2',
+        cancelledCount: 1,
+      });
+    });
+
+    it('should move both SL and TP on the exchange', async () => {
+      await (service as any).evaluateAndApplyTrailing(trailedPosition, 53000);
+
+      expect(platformManagerService.replaceStopLossOrder).toHaveBeenCalledWith(
+        Platform.HYPERLIQUID,
+        'BTC',
+        PositionDirection.LONG,
+        'position-id',
+        52000,
+      );
+      expect(
+        platformManagerService.replaceTakeProfitOrder,
+      ).toHaveBeenCalledWith(
+        Platform.HYPERLIQUID,
+        'BTC',
+        PositionDirection.LONG,
+        'position-id',
+        58000,
+      );
+      expect(tradePositionService.updateTradePosition).toHaveBeenCalledTimes(1);
+    });
+
+    it('should restore the SL and roll back the DB when the TP leg fails', async () => {
+      platformManagerService.replaceTakeProfitOrder.mockRejectedValue(
+        new Error('TP rejected'),
+      );
+
+      await expect(
+        (service as any).evaluateAndApplyTrailing(trailedPosition, 53000),
+      ).rejects.toThrow('TP rejected');
+
+      expect(platformManagerService.replaceStopLossOrder).toHaveBeenCalledTimes(
+        2,
+      );
+      expect(
+        platformManagerService.replaceStopLossOrder,
+      ).toHaveBeenLastCalledWith(
+        Platform.HYPERLIQUID,
+        'BTC',
+        PositionDirection.LONG,
+        'position-id',
+        45000,
+      );
+      expect(tradePositionService.updateTradePosition).toHaveBeenLastCalledWith(
+        'position-id',
+        { stopLossPrice: 45000, takeProfitPrice: 55000 },
+      );
+    });
+
+    it('should leave the TP untouched when the SL leg fails', async () => {
+      platformManagerService.replaceStopLossOrder.mockRejectedValue(
+        new Error('SL rejected'),
+      );
+
+      await expect(
+        (service as any).evaluateAndApplyTrailing(trailedPosition, 53000),
+      ).rejects.toThrow('SL rejected');
+
+      expect(
+        platformManagerService.replaceTakeProfitOrder,
+      ).not.toHaveBeenCalled();
+      expect(platformManagerService.replaceStopLossOrder).toHaveBeenCalledTimes(
+        1,
+      );
+      expect(tradePositionService.updateTradePosition).toHaveBeenLastCalledWith(
+        'position-id',
+        { stopLossPrice: 45000, takeProfitPrice: 55000 },
+      );
+    });
+  });
+
+  describe('onApplicationBootstrap', () => {
+    it('should reconcile exchange state before trading', async () => {
+      const startTrading = jest
+        .spyOn(service, 'startTrading')
+        .mockResolvedValue(undefined);
+      reconciliationService.reconcile.mockRejectedValue(
+        new Error('Exchange unavailable'),
+      );
+
+      await service.onApplicationBootstrap();
+
+      expect(reconciliationService.reconcile).toHaveBeenCalledWith(
+        ReconciliationTrigger.BOOTSTRAP,
+      );
+      expect(startTrading).toHaveBeenCalled();
+      expect(
+        reconciliationService.reconcile.mock.invocationCallOrder[0],
+      ).toBeLessThan(startTrading.mock.invocationCallOrder[0]);
+    });
+  });
+
+  describe('startTrading', () => {
+    const rejection = {
+      code: RiskRejectionCode.MAX_TOTAL_NOTIONAL,
+      reason: 'Total notional above maximum',
+      details: { projectedNotional: 60000, maxTotalNotional: 50000 },
+      timestamp: new Date('2024-01-01'),
+    };
+
+    beforeEach(() => {
+      tradePositionService.getOpenTradePositions.mockResolvedValue([]);
+      platformManagerService.findTradingOpportunities.mockResolvedValue([
+        mockTradingOpportunity,
+      ]);
+      platformManagerService.getPlatformConfiguration.mockReturnValue({
+        defaultCurrencyFrom: Currency.USDC,
+        tradingParams: { maxOpenPositions: 1 },
+      } as any);
+      platformManagerService.getCurrentPrice.mockResolvedValue(50000);
+    });
+
+    it('should record risk rejections on the perp', async () => {
+      platformManagerService.enterPosition.mockRejectedValue(
+        new RiskRejectionError(rejection),
+      );
+      perpService.findByToken.mockResolvedValue({ _id: 'perp-id' } as any);
+
+      await service.startTrading();
+
+      expect(perpService.update).toHaveBeenCalledWith('perp-id', {
+        lastRiskRejection: rejection,
+      });
+      expect(tradePositionService.createTradePosition).not.toHaveBeenCalled();
+    });
+
+    it('should not record other entry failures', async () => {
+      platformManagerService.enterPosition.mockRejectedValue(
+        new Error('Exchange error'),
+      );
+
+      await service.startTrading();
+
+      expect(perpService.update).not.toHaveBeenCalled();
+      expect(tradingDecisionService.markEntryFailed).toHaveBeenCalledWith(
+        'decision-123',
+        'Exchange error',
+      );
+    });
+
+    it('should not enter positions while the circuit breaker is tripped', async () => {
+      circuitBreakerService.check.mockResolvedValue({
+        reason: CircuitBreakerReason.DAILY_LOSS,
+      } as any);
+
+      await service.startTrading();
+
+      expect(
+        platformManagerService.findTradingOpportunities,
+      ).not.toHaveBeenCalled();
+      expect(platformManagerService.enterPosition).not.toHaveBeenCalled();
+    });
+
+    it('should not enter positions when the circuit breaker cannot be evaluated', async () => {
+      circuitBreakerService.check.mockRejectedValue(
+        new Error('Exchange unavailable'),
+      );
+
+      await service.startTrading();
+
+      expect(platformManagerService.enterPosition).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('monitorAndClosePositions', () => {
+    beforeEach(() => {
+      tradePositionService.getOpenTradePositions.mockResolvedValue([
+        mockOpenPosition as any,
+      ]);
+      settingsService.getSettings.mockResolvedValue({
+        closeAllPositions: false,
+      } as any);
+      platformManagerService.getCurrentPrice.mockResolvedValue(50000);
+    });
+
+    it('should flatten positions when the trip asks for it', async () => {
+      const exitPosition = jest
+        .spyOn(service as any, 'exitPosition')
+        .mockResolvedValue(undefined);
+      circuitBreakerService.getActiveTrip.mockResolvedValue({
+        reason: CircuitBreakerReason.DRAWDOWN,
+        flatten: true,
+      } as any);
+
+      await service.monitorAndClosePositions();
+
+      expect(exitPosition).toHaveBeenCalledWith(
+        mockOpenPosition,
+        ExitReason.MANUAL,
+      );
+    });
+
+    it('should keep positions open on a trip without flattening', async () => {
+      const exitPosition = jest
+        .spyOn(service as any, 'exitPosition')
+        .mockResolvedValue(undefined);
+      jest.spyOn(service as any, 'shouldClosePosition').mockResolvedValue(null);
+      circuitBreakerService.getActiveTrip.mockResolvedValue({
+        reason: CircuitBreakerReason.DRAWDOWN,
+        flatten: false,
+      } as any);
+
+      await service.monitorAndClosePositions();
+
+      expect(exitPosition).not.toHaveBeenCalled();
+    });
+
+    it('should keep monitoring positions when the trip lookup fails', async () => {
+      const exitPosition = jest
+        .spyOn(service as any, 'exitPosition')
+        .mockResolvedValue(undefined);
+      jest
+        .spyOn(service as any, 'shouldClosePosition')
+        .mockResolvedValue(ExitReason.STOP_LOSS);
+      circuitBreakerService.getActiveTrip.mockRejectedValue(
+        new Error('db down'),
+      );
+
+      await service.monitorAndClosePositions();
+
+      expect(exitPosition).toHaveBeenCalledWith(
+        mockOpenPosition,
+        ExitReason.STOP_LOSS,
+      );
+    });
+  });
+
+  describe('shouldClosePosition', () => {
+    beforeEach(() => {
+      platformManagerService.getEnabledPlatforms.mockReturnValue([]);
+    });
+
+    const check = (
+      positionDirection: PositionDirection,
+      currentPrice: number,
+    ): Promise<ExitReason | null> =>
+      (service as any).shouldClosePosition(
+        {
+          ...mockOpenPosition,
+          positionDirection,
+          stopLossPrice:
+            positionDirection === PositionDirection.LONG ? 45000 : 55000,
+          takeProfitPrice:
+            positionDirection === PositionDirection.LONG ? 60000 : 40000,
+        },
+        currentPrice,
+      );
+
+    it('should close LONG positions below the SL and above the TP', async () => {
+      expect(await check(PositionDirection.LONG, 50000)).toBeNull();
+      expect(await check(PositionDirection.LONG, 44000)).toBe(
+        ExitReason.STOP_LOSS,
+      );
+      expect(await check(PositionDirection.LONG, 61000)).toBe(
+        ExitReason.TAKE_PROFIT,
+      );
+    });
+
+    it('should close SHORT positions above the SL and below the TP', async () => {
+      expect(await check(PositionDirection.SHORT, 50000)).toBeNull();
+      expect(await check(PositionDirection.SHORT, 56000)).toBe(
+        ExitReason.STOP_LOSS,
+      );
+      expect(await check(PositionDirection.SHORT, 39000)).toBe(
+        ExitReason.TAKE_PROFIT,
+      );
+    });
   });
 
   describe('exitPosition', () => {
@@ -481,16 +1023,39 @@ describe('TradeManagerService', () => {
         price: 52000,
       });
 
-      await (service as any).exitPosition(mockOpenPosition);
+      await (service as any).exitPosition(mockOpenPosition, ExitReason.AI_EXIT);
 
+      expect(tradePositionService.updateTradePosition).toHaveBeenCalledWith(
+        String(mockOpenPosition._id),
+        { exitReason: ExitReason.AI_EXIT },
+      );
       // Verify exit order created with opposite side (S for LONG position)
       expect(tradeOrderService.createTradeOrder).toHaveBeenCalledWith(
         expect.objectContaining({
           status: TradeOrderStatus.CREATED,
-          orderId: 'exit-order-123',
           coin: 'BTC',
           side: 'S', // Sell to close LONG
           type: 'market',
+          clientOrderId: buildClientOrderId(
+            String(mockOpenPosition._id),
+            ClientOrderRole.EXIT,
+            1,
+          ),
+        }),
+      );
+      expect(platformManagerService.exitPosition).toHaveBeenCalledWith(
+        mockOpenPosition,
+        buildClientOrderId(
+          String(mockOpenPosition._id),
+          ClientOrderRole.EXIT,
+          1,
+        ),
+        1,
+      );
+      expect(tradeOrderService.updateTradeOrder).toHaveBeenCalledWith(
+        'order-record-id',
+        expect.objectContaining({
+          orderId: 'exit-order-123',
           size: 0.002,
           price: 52000,
         }),
@@ -519,5 +1084,111 @@ describe('TradeManagerService', () => {
         }),
       );
     });
+
+    describe('retries', () => {
+      const exitCloid = (n: number) =>
+        buildClientOrderId(
+          String(mockOpenPosition._id),
+          ClientOrderRole.EXIT,
+          n,
+        );
+
+      beforeEach(() => {
+        platformManagerService.getPlatformConfiguration.mockReturnValue({
+          tradingParams: { maxExitAttempts: 3 },
+        } as any);
+      });
+
+      it('should number exits after the earlier exit orders of the position', async () => {
+        tradeOrderService.countTradeOrders.mockResolvedValue(2);
+        platformManagerService.exitPosition.mockResolvedValue({
+          orderId: 'exit-3',
+          status: TradeOrderStatus.CREATED,
+          type: 'market',
+          size: 0.002,
+          filledSize: 0.002,
+          remainingSize: 0,
+        });
+
+        await (service as any).exitPosition(mockOpenPosition);
+
+        // Counted by role, the side of filled orders is the exchange's A/B
+        expect(tradeOrderService.countTradeOrders).toHaveBeenCalledWith({
+          position: String(mockOpenPosition._id),
+          clientOrderRole: ClientOrderRole.EXIT,
+        });
+        expect(tradeOrderService.createTradeOrder).toHaveBeenCalledWith(
+          expect.objectContaining({
+            clientOrderId: exitCloid(3),
+            clientOrderRole: ClientOrderRole.EXIT,
+          }),
+        );
+      });
+
+      it('should retry partial fills with a new exit order', async () => {
+        platformManagerService.exitPosition
+          .mockResolvedValueOnce({
+            orderId: 'exit-1',
+            status: TradeOrderStatus.CREATED,
+            type: 'market',
+            size: 0.002,
+            filledSize: 0.001,
+            remainingSize: 0.001,
+          })
+          .mockResolvedValueOnce({
+            orderId: 'exit-2',
+            status: TradeOrderStatus.CREATED,
+            type: 'market',
+            size: 0.001,
+            filledSize: 0.001,
+            remainingSize: 0,
+          });
+
+        await (service as any).exitPosition(mockOpenPosition);
+
+        expect(platformManagerService.exitPosition).toHaveBeenCalledTimes(2);
+        expect(platformManagerService.exitPosition).toHaveBeenLastCalledWith(
+          mockOpenPosition,
+          exitCloid(2),
+          2,
+        );
+        expect(tradeOrderService.createTradeOrder).toHaveBeenCalledTimes(2);
+        expect(tradeOrderService.createTradeOrder).toHaveBeenLastCalledWith(
+          expect.objectContaining({ clientOrderId: exitCloid(2) }),
+        );
+      });
+
+      it('should retry after a failed attempt', async () => {
+        platformManagerService.exitPosition
+          .mockRejectedValueOnce(new Error('Order could not immediately match'))
+          .mockResolvedValueOnce({
+            orderId: 'exit-2',
+            status: TradeOrderStatus.CREATED,
+            type: 'market',
+            size: 0.002,
+          });
+
+        await (service as any).exitPosition(mockOpenPosition);
+
+        expect(platformManagerService.exitPosition).toHaveBeenCalledTimes(2);
+      });
+
+      it('should throw when the position is still open after max attempts', async () => {
+        platformManagerService.exitPosition.mockResolvedValue({
+          orderId: 'exit',
+          status: TradeOrderStatus.CREATED,
+          type: 'market',
+          size: 0.002,
+          filledSize: 0,
+          remainingSize: 0.002,
+        });
+
+        await expect(
+          (service as any).exitPosition(mockOpenPosition),
+        ).rejects.toThrow('Failed to close position BTC');
+        expect(platformManagerService.exitPosition).toHaveBeenCalledTimes(3);
+        expect(tradeOrderService.createTradeOrder).toHaveBeenCalledTimes(3);
+      });
+    });
   });
 });
@@ -10,6 +10,15 @@ import {
   CreateTradePositionOptions,
   MAX_TOTAL_POSITIONS,
   TradeOrderStatus,
+  RiskRejection,
+  RiskRejectionError,
+  ReconciliationTrigger,
+  TradeOrderResult,
+  buildClientOrderId,
+  ClientOrderRole,
+  generateObjectId,
+  ExitReason,
+  TakeProfitLadderRung,
 } from '../../shared';
 import { TradePositionService } from '../trade-position/TradePosition.service';
 import { TradePositionDocument } from '../trade-position/TradePosition.schema';
@@ -18,6 +27,11 @@ import { PerpService } from '../perps/Perp.service';
 import { SettingsService } from '../settings/Settings.service';
 import { TradeOrderService } from '../trade-order/TradeOrder.service';
 import { TrailingService } from './Trailing.service';
+import { BracketService } from './Bracket.service';
+import { TradingDecisionService } from '../trading-decision/TradingDecision.service';
+import { ReconciliationService } from '../reconciliation/Reconciliation.service';
+import { CircuitBreakerService } from '../circuit-breaker/CircuitBreaker.service';
+import { PositionSizingService } from '../position-sizing/PositionSizing.service';
 
 @Injectable()
 export class TradeManagerService implements OnApplicationBootstrap {
@@ -30,10 +44,25 @@ export class TradeManagerService implements OnApplicationBootstrap {
     private perpService: PerpService,
     private settingsService: SettingsService,
     private trailingService: TrailingService,
+    private bracketService: BracketService,
+    private tradingDecisionService: TradingDecisionService,
+    private reconciliationService: ReconciliationService,
+    private circuitBreakerService: CircuitBreakerService,
+    private positionSizingService: PositionSizingService,
   ) {}
 
   async onApplicationBootstrap(): Promise<void> {
     this.logger.log('Starting trade manager on application bootstrap');
+
+    // Repair drift left by a crash before trading decisions rely on positions
+    try {
+      await this.reconciliationService.reconcile(
+        ReconciliationTrigger.BOOTSTRAP,
+      );
+    } catch (error) {
+      this.logger.error('Failed to reconcile positions on bootstrap', error);
+    }
+
     try {
       await this.startTrading();
       this.logger.log('Successfully started trade manager');
@@ -45,6 +74,23 @@ export class TradeManagerService implements OnApplicationBootstrap {
   async startTrading(): Promise<void> {
     this.logger.log('Starting trading process');
 
+    // Without a working breaker no new risk is taken
+    try {
+      const trip = await this.circuitBreakerService.check();
+      if (trip) {
+        this.logger.warn(
+          `Circuit breaker tripped (${trip.reason}), skipping new entries until re-armed`,
+        );
+        return;
+      }
+    } catch (error) {
+      this.logger.error(
+        'Failed to evaluate circuit breaker, skipping new entries',
+        error,
+      );
+      return;
+    }
+
     const currentOpenPositions =
       await this.tradePositionService.getOpenTradePositions();
     this.logger.log(
@@ -94,6 +140,17 @@ export class TradeManagerService implements OnApplicationBootstrap {
         await this.enterPosition(opportunity);
         remainingSlots--; // For now we presume the order is filled, we don't open other positions
       } catch (error) {
+        await this.tradingDecisionService.markEntryFailed(
+          opportunity.decisionId,
+          error instanceof Error ? error.message : String(error),
+        );
+        if (error instanceof RiskRejectionError) {
+          this.logger.warn(
+            `Risk check rejected entry for ${opportunity.token} on ${opportunity.platform}: ${error.message}`,
+          );
+          await this.recordRiskRejection(opportunity.token, error.rejection);
+          continue;
+        }
         this.logger.error(
           `Failed to submit trade order for ${opportunity.token} on ${opportunity.platform}:`,
           error,
@@ -102,11 +159,41 @@ export class TradeManagerService implements OnApplicationBootstrap {
     }
   }
 
+  /**
+   * Store the rejection on the perp so it is visible on the dashboard
+   */
+  private async recordRiskRejection(
+    token: string,
+    rejection: RiskRejection,
+  ): Promise<void> {
+    try {
+      const perp = await this.perpService.findByToken(token);
+      if (perp) {
+        await this.perpService.update(String(perp._id), {
+          lastRiskRejection: rejection,
+        });
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to record risk rejection for ${token}:`, error);
+    }
+  }
+
   async monitorAndClosePositions(): Promise<void> {
     const tradePositions =
       await this.tradePositionService.getOpenTradePositions();
 
     const settings = await this.settingsService.getSettings();
+    let flatten = false;
+    try {
+      const trip = await this.circuitBreakerService.getActiveTrip();
+      flatten = !!trip?.flatten;
+    } catch (error) {
+      this.logger.error(
+        `Failed to load circuit breaker trip: ${error.message}`,
+        error,
+      );
+      // Keep monitoring stops and exits for every position
+    }
 
     for (const tradePosition of tradePositions) {
       const { platform, token, exitFlag } = tradePosition;
@@ -137,17 +224,19 @@ export class TradeManagerService implements OnApplicationBootstrap {
       }
 
       // Step 2: Evaluate exit (stop-loss/TP breach or AI exit)
-      const shouldClosePosition =
+      const exitReason =
         settings.closeAllPositions ||
-        exitFlag ||
-        (await this.shouldClosePosition(tradePosition, price));
+        (flatten && platform === Platform.HYPERLIQUID) ||
+        exitFlag
+          ? ExitReason.MANUAL
+          : await this.shouldClosePosition(tradePosition, price);
 
-      if (shouldClosePosition) {
+      if (exitReason) {
         try {
           this.logger.log(
-            `Closing position for ${token} on ${platform}, flags; closeAllPositions:  ${settings.closeAllPositions}, exitFlag: ${exitFlag}`,
+            `Closing position for ${token} on ${platform} (${exitReason}), flags; closeAllPositions:  ${settings.closeAllPositions}, circuitBreakerFlatten: ${flatten}, exitFlag: ${exitFlag}`,
           );
-          await this.exitPosition(tradePosition);
+          await this.exitPosition(tradePosition, exitReason);
         } catch (error) {
           this.logger.error(`Failed to close position: ${error}`);
         }
@@ -157,13 +246,15 @@ export class TradeManagerService implements OnApplicationBootstrap {
 
   /**
    * Evaluate trailing for a position and apply if conditions are met
-   * This updates both DB and exchange TP order, DB-only SL
+   * Both SL and TP are moved on the exchange; if either leg fails the other
+   * is restored and the DB update is rolled back
    */
   private async evaluateAndApplyTrailing(
     position: TradePositionDocument,
     currentPrice: number,
   ): Promise<void> {
     const { token, positionDirection, platform } = position;
+    const positionId = String(position._id);
 
     const evaluation = await this.trailingService.evaluateTrailing(
       position,
@@ -187,45 +278,52 @@ export class TradeManagerService implements OnApplicationBootstrap {
       progressToTp: evaluation.progressToTp,
     });
 
+    let stopLossReplaced = false;
     try {
       // Update DB first (SL and TP prices, tracking fields)
-      await this.tradePositionService.updateTradePosition(
-        String(position._id),
-        {
-          stopLossPrice: evaluation.newStopLossPrice,
-          takeProfitPrice: evaluation.newTakeProfitPrice,
-          lastTrailAt: new Date(),
-          trailCount: (position.trailCount || 0) + 1,
-        },
+      await this.tradePositionService.updateTradePosition(positionId, {
+        stopLossPrice: evaluation.newStopLossPrice,
+        takeProfitPrice: evaluation.newTakeProfitPrice,
+        lastTrailAt: new Date(),
+        trailCount: (position.trailCount || 0) + 1,
+      });
+
+      // Replace SL then TP on exchange, each placed before the old one is cancelled
+      const slResult = await this.platformManagerService.replaceStopLossOrder(
+        platform,
+        token,
+        positionDirection,
+        positionId,
+        evaluation.newStopLossPrice,
       );
+      stopLossReplaced = true;
 
-      // Replace TP order on exchange (SL stays DB-only)
-      const result = await this.platformManagerService.replaceTakeProfitOrder(
+      const tpResult = await this.platformManagerService.replaceTakeProfitOrder(
         platform,
         token,
         positionDirection,
-        String(position._id),
+        positionId,
         evaluation.newTakeProfitPrice,
       );
 
       this.logger.log(
-        `Successfully trailed ${token}: SL=${evaluation.newStopLossPrice?.toFixed(4)}, TP=${evaluation.newTakeProfitPrice?.toFixed(4)} (trail #${(position.trailCount || 0) + 1}) - New order: ${result.newOrderId}, Cancelled: ${result.cancelledCount}`,
+        `Successfully trailed ${token}: SL=${evaluation.newStopLossPrice?.toFixed(4)}, TP=${evaluation.newTakeProfitPrice?.toFixed(4)} (trail #${(position.trailCount || 0) + 1}) - New orders: SL ${slResult.newOrderId}, TP ${tpResult.newOrderId}, Cancelled: ${slResult.cancelledCount + tpResult.cancelledCount}`,
       );
     } catch (error) {
       this.logger.error(
         `Failed to apply trailing for ${token}: ${error.message}`,
         error,
       );
+      if (stopLossReplaced) {
+        await this.restoreStopLossOrder(position);
+      }
       // Attempt to rollback DB update if exchange operation failed
       try {
-        await this.tradePositionService.updateTradePosition(
-          String(position._id),
-          {
-            stopLossPrice: position.stopLossPrice,
-            takeProfitPrice: position.takeProfitPrice,
-            // Don't rollback lastTrailAt and trailCount to maintain rate limiting
-          },
-        );
+        await this.tradePositionService.updateTradePosition(positionId, {
+          stopLossPrice: position.stopLossPrice,
+          takeProfitPrice: position.takeProfitPrice,
+          // Don't rollback lastTrailAt and trailCount to maintain rate limiting
+        });
         this.logger.log(
           `Rolled back DB changes for ${token} after trailing failure`,
         );
@@ -239,31 +337,70 @@ export class TradeManagerService implements OnApplicationBootstrap {
     }
   }
 
+  /**
+   * Put the exchange SL back at the pre-trail price after the TP leg failed
+   */
+  private async restoreStopLossOrder(
+    position: TradePositionDocument,
+  ): Promise<void> {
+    const { token, positionDirection, platform, stopLossPrice } = position;
+    if (!stopLossPrice) {
+      this.logger.warn(
+        `No previous SL price for ${token}, keeping the trailed SL order`,
+      );
+      return;
+    }
+
+    try {
+      await this.platformManagerService.replaceStopLossOrder(
+        platform,
+        token,
+        positionDirection,
+        String(position._id),
+        stopLossPrice,
+      );
+      this.logger.log(
+        `Restored SL order for ${token} at ${stopLossPrice} after trailing failure`,
+      );
+    } catch (rollbackError) {
+      this.logger.error(
+        `Failed to restore SL order for ${token} after trailing failure`,
+        rollbackError,
+      );
+    }
+  }
+
   /**
    * Determines whether a position should be closed based on various conditions
    * Checks traditional conditions first (cheaper to evaluate), then AI if needed
    * @param tradePosition - The trade position to evaluate
    * @param currentPrice - Current price (if available)
-   * @returns Promise<boolean> - Whether the position should be closed
+   * @returns Promise<ExitReason | null> - Why the position should be closed, null to keep it
    */
   private async shouldClosePosition(
     tradePosition: TradePositionDocument,
     currentPrice: number,
-  ): Promise<boolean> {
-    const { token, platform } = tradePosition;
-
-    const stopLossPrice = tradePosition.stopLossPrice ?? -1;
-    const takeProfitPrice = tradePosition.takeProfitPrice ?? Number.MAX_VALUE;
+  ): Promise<ExitReason | null> {
+    const { token, platform, stopLossPrice, takeProfitPrice } = tradePosition;
 
     // Fallback to traditional stop loss/take profit if stop orders are not set
-    if (
-      currentPrice &&
-      (currentPrice < stopLossPrice || currentPrice > takeProfitPrice)
-    ) {
+    // A SHORT has its SL above and its TP below the price
+    const isLong = tradePosition.positionDirection !== PositionDirection.SHORT;
+    const stopLossHit =
+      !!currentPrice &&
+      !!stopLossPrice &&
+      (isLong ? currentPrice < stopLossPrice : currentPrice > stopLossPrice);
+    const takeProfitHit =
+      !!currentPrice &&
+      !!takeProfitPrice &&
+      (isLong
+        ? currentPrice > takeProfitPrice
+        : currentPrice < takeProfitPrice);
+    if (stopLossHit || takeProfitHit) {
       this.logger.log(
-        `Closing position for ${token}: stop loss/take profit triggered (current: ${currentPrice}, stop loss: ${stopLossPrice}, take profit: ${takeProfitPrice})`,
+        `Closing ${tradePosition.positionDirection} position for ${token}: stop loss/take profit triggered (current: ${currentPrice}, stop loss: ${stopLossPrice}, take profit: ${takeProfitPrice})`,
       );
-      return true;
+      return stopLossHit ? ExitReason.STOP_LOSS : ExitReason.TAKE_PROFIT;
     }
 
     try {
@@ -273,7 +410,7 @@ export class TradeManagerService implements OnApplicationBootstrap {
         this.logger.debug(
           `Skipping AI evaluation for ${token}: platform ${platform} not enabled`,
         );
-        return false;
+        return null;
       }
 
       const exitDecision =
@@ -284,13 +421,13 @@ export class TradeManagerService implements OnApplicationBootstrap {
           this.logger.warn(
             `Ignoring AI exit recommendation for ${token}: based on evaluation error`,
           );
-          return false;
+          return null;
         }
 
         this.logger.log(
           `AI recommends exiting position for ${token} on ${platform}: ${exitDecision.reason} (confidence: ${exitDecision.confidence}, urgency: ${exitDecision.urgency})`,
         );
-        return true;
+        return ExitReason.AI_EXIT;
       }
     } catch (error) {
       this.logger.warn(
@@ -299,7 +436,7 @@ export class TradeManagerService implements OnApplicationBootstrap {
       );
     }
 
-    return false;
+    return null;
   }
 
   private async enterPosition(opportunity: TradingOpportunity): Promise<void> {
@@ -315,49 +452,109 @@ export class TradeManagerService implements OnApplicationBootstrap {
       this.platformManagerService.getPlatformConfiguration(platform);
 
     // Calculate SL/TP prices for perps
+    // The same direction is stored on the position and passed to the platform,
+    // so the entry side matches SL/TP; perps are not entered without one
+    const direction = tradingDecision.metadata?.direction as
+      | PositionDirection
+      | undefined;
+    if (tradeType === TradeType.PERPETUAL && !direction) {
+      throw new Error(
+        `Trading decision for ${token} has no direction, not entering`,
+      );
+    }
     let stopLossPrice: number | undefined;
     let takeProfitPrice: number | undefined;
+    let takeProfitLadder: TakeProfitLadderRung[] | undefined;
+    let amountIn = tradingDecision.recommendedAmount;
+    const perp = await this.perpService.findByToken(token);
 
-    if (
-      tradeType === TradeType.PERPETUAL &&
-      tradingDecision.metadata?.direction
-    ) {
+    if (tradeType === TradeType.PERPETUAL) {
       const currentPrice = await this.platformManagerService.getCurrentPrice(
         platform,
         token,
       );
-      const direction = tradingDecision.metadata.direction as PositionDirection;
-      const stopLossPercent =
-        platformConfig.tradingParams.stopLossPercent || 10;
-      const takeProfitPercent =
-        platformConfig.tradingParams.takeProfitPercent || 20;
-
-      if (direction === PositionDirection.LONG) {
-        stopLossPrice = currentPrice * (1 - stopLossPercent / 100);
-        takeProfitPrice = currentPrice * (1 + takeProfitPercent / 100);
-      } else {
-        stopLossPrice = currentPrice * (1 + stopLossPercent / 100);
-        takeProfitPrice = currentPrice * (1 - takeProfitPercent / 100);
-      }
+      const bracket = await this.bracketService.calculateBracket(
+        token,
+        direction,
+        currentPrice,
+        platformConfig.tradingParams,
+        perp,
+      );
+      ({ stopLossPrice, takeProfitPrice, takeProfitLadder } = bracket);
 
       this.logger.log(
-        `Calculated SL/TP prices for ${token}: SL=${stopLossPrice?.toFixed(2)}, TP=${takeProfitPrice?.toFixed(2)}`,
+        `Calculated SL/TP prices for ${token}: SL=${stopLossPrice?.toFixed(2)}, TP=${takeProfitPrice?.toFixed(2)}${bracket.atr ? ` (ATR ${bracket.atr.toFixed(4)})` : ''}`,
       );
+
+      // Size from the equity at risk to the stop instead of the recommended amount
+      if (this.positionSizingService.isEnabled()) {
+        ({ amountIn } = await this.positionSizingService.calculateSize({
+          token,
+          entryPrice: currentPrice,
+          stopLossPrice,
+          takeProfitPrice,
+          leverage: tradingDecision.metadata?.leverage,
+          confidence: tradingDecision.confidence,
+        }));
+      }
     }
 
-    const result = await this.platformManagerService.enterPosition({
-      platform,
-      currency:
-        this.platformManagerService.getPlatformConfiguration(platform)
-          .defaultCurrencyFrom,
-      token,
-      amountIn: tradingDecision.recommendedAmount,
-      tradeType,
-      stopLossPrice,
-      takeProfitPrice,
+    const tradePositionData = {
+      ...this.createTradePositionData(
+        platform,
+        token,
+        tradingDecision,
+        stopLossPrice,
+        takeProfitPrice,
+        amountIn,
+      ),
+      takeProfitLadder,
+    };
+
+    // Determine side based on position direction for entry order
+    const side =
+      tradePositionData.positionDirection === PositionDirection.LONG
+        ? 'B'
+        : 'S';
+
+    // The position id is allocated up front so the entry cloid derived from it
+    // is stored on the entry order before the order is sent
+    const positionId = generateObjectId();
+    const clientOrderId = buildClientOrderId(positionId, ClientOrderRole.ENTRY);
+    const entryOrder = await this.tradeOrderService.createTradeOrder({
+      status: TradeOrderStatus.CREATED,
+      position: positionId,
+      type: 'market',
+      coin: token,
+      side,
+      clientOrderId,
+      clientOrderRole: ClientOrderRole.ENTRY,
     });
 
-    const { status, orderId, type, size, price } = result;
+    const result = await this.sendTrackedOrder(String(entryOrder._id), () =>
+      this.platformManagerService.enterPosition({
+        platform,
+        currency:
+          this.platformManagerService.getPlatformConfiguration(platform)
+            .defaultCurrencyFrom,
+        token,
+        amountIn,
+        tradeType,
+        direction,
+        leverage: tradingDecision.metadata?.leverage,
+        stopLossPrice,
+        takeProfitPrice,
+        clientOrderId,
+        positionId,
+        entryMode: perp?.entryMode,
+        executionAlgo: perp?.executionAlgo,
+        marginMode: perp?.marginMode,
+        maxSpreadBps: perp?.maxSpreadBps,
+        maxSlippageBps: perp?.maxSlippageBps,
+      }),
+    );
+
+    const { status, orderId, type, size, price, isPaper } = result;
 
     if (status !== TradeOrderStatus.CREATED) {
       this.logger.error(
@@ -367,30 +564,21 @@ export class TradeManagerService implements OnApplicationBootstrap {
       throw new Error('Failed to enter position');
     }
 
-    const tradePositionData = this.createTradePositionData(
-      platform,
-      token,
-      tradingDecision,
-      stopLossPrice,
-      takeProfitPrice,
-    );
-
-    const tradePosition =
-      await this.tradePositionService.createTradePosition(tradePositionData);
+    const tradePosition = await this.tradePositionService.createTradePosition({
+      ...tradePositionData,
+      _id: positionId,
+      isPaper: !!isPaper,
+    });
 
-    // Determine side based on position direction for entry order
-    const side =
-      tradePositionData.positionDirection === PositionDirection.LONG
-        ? 'B'
-        : 'S';
+    await this.tradingDecisionService.markEntered(
+      opportunity.decisionId,
+      String(tradePosition._id),
+    );
 
-    await this.tradeOrderService.createTradeOrder({
+    await this.tradeOrderService.updateTradeOrder(String(entryOrder._id), {
       status,
-      position: String(tradePosition._id),
-      type,
       orderId,
-      coin: token,
-      side,
+      type,
       size,
       price,
     });
@@ -404,7 +592,6 @@ export class TradeManagerService implements OnApplicationBootstrap {
 
     if (tradeType === TradeType.PERPETUAL) {
       try {
-        const perp = await this.perpService.findByToken(token);
         if (perp && perp.buyFlag) {
           await this.perpService.update(String(perp._id), { buyFlag: false });
           this.logger.log(
@@ -418,38 +605,131 @@ export class TradeManagerService implements OnApplicationBootstrap {
     }
   }
 
-  private async exitPosition(position: TradePositionDocument): Promise<void> {
+  /**
+   * Close a position with IOC exit orders until the platform reports it flat
+   * Each attempt is its own TradeOrder (exit-1, exit-2, ...) and the platform
+   * widens the price band on every retry, up to maxExitAttempts
+   * The exit reason is stored first, the fill that closes the position
+   * starts the re-entry cooldown for it
+   */
+  private async exitPosition(
+    position: TradePositionDocument,
+    exitReason: ExitReason,
+  ): Promise<void> {
     const { platform, token, positionDirection } = position;
 
     this.logger.log(`Closing position: ${token} on ${platform}`);
 
-    const result = await this.platformManagerService.exitPosition(position);
+    const positionId = String(position._id);
+    await this.tradePositionService.updateTradePosition(positionId, {
+      exitReason,
+    });
 
-    const { status, orderId, type, size, price } = result;
+    // Determine side based on position direction for exit order (opposite of entry)
+    const side = positionDirection === PositionDirection.LONG ? 'S' : 'B';
+    const maxAttempts =
+      this.platformManagerService.getPlatformConfiguration(platform)
+        ?.tradingParams.maxExitAttempts || 1;
+
+    // Every exit attempt gets its own cloid, numbered after earlier exits
+    // and stored on the exit order before the order is sent
+    const previousExitOrders = await this.tradeOrderService.countTradeOrders({
+      position: positionId,
+      clientOrderRole: ClientOrderRole.EXIT,
+    });
 
-    if (status !== TradeOrderStatus.CREATED) {
-      this.logger.error(
-        `Failed to execute closing position order for ${token} on ${platform}:`,
-        result,
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const clientOrderId = buildClientOrderId(
+        positionId,
+        ClientOrderRole.EXIT,
+        previousExitOrders + attempt,
+      );
+      const exitOrder = await this.tradeOrderService.createTradeOrder({
+        status: TradeOrderStatus.CREATED,
+        position: positionId,
+        type: 'market',
+        coin: token,
+        side,
+        clientOrderId,
+        clientOrderRole: ClientOrderRole.EXIT,
+      });
+
+      let result: TradeOrderResult;
+      try {
+        result = await this.sendTrackedOrder(String(exitOrder._id), () =>
+          this.platformManagerService.exitPosition(
+            position,
+            clientOrderId,
+            attempt,
+          ),
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Exit attempt ${attempt}/${maxAttempts} for ${token} on ${platform} failed: ${error.message}`,
+        );
+        continue;
+      }
+
+      const { status, orderId, type, size, price, remainingSize } = result;
+
+      if (status !== TradeOrderStatus.CREATED) {
+        this.logger.error(
+          `Failed to execute closing position order for ${token} on ${platform}:`,
+          result,
+        );
+        continue;
+      }
+
+      await this.tradeOrderService.updateTradeOrder(String(exitOrder._id), {
+        status,
+        orderId,
+        type,
+        size,
+        price,
+      });
+
+      // Platforms that do not report fills are treated as closed
+      if (!remainingSize) {
+        this.logger.log(
+          `Successfully closed position: ${token} on ${platform}`,
+        );
+        return;
+      }
+
+      this.logger.warn(
+        `Exit attempt ${attempt}/${maxAttempts} for ${token} on ${platform} left ${remainingSize} open`,
       );
-      throw new Error('Failed to close position');
     }
 
-    // Determine side based on position direction for exit order (opposite of entry)
-    const side = positionDirection === PositionDirection.LONG ? 'S' : 'B';
+    throw new Error(
+      `Failed to close position ${token} on ${platform} after ${maxAttempts} attempts`,
+    );
+  }
 
-    await this.tradeOrderService.createTradeOrder({
-      status,
-      position: String(position._id),
-      type,
-      orderId,
-      coin: token,
-      side,
-      size,
-      price,
-    });
+  /**
+   * Send an order whose trade order record was persisted beforehand
+   * The record is marked FAILED when the platform did not accept the order
+   */
+  private async sendTrackedOrder(
+    tradeOrderId: string,
+    send: () => Promise<TradeOrderResult>,
+  ): Promise<TradeOrderResult> {
+    let result: TradeOrderResult;
+    try {
+      result = await send();
+    } catch (error) {
+      await this.tradeOrderService.updateTradeOrder(tradeOrderId, {
+        status: TradeOrderStatus.FAILED,
+      });
+      throw error;
+    }
 
-    this.logger.log(`Successfully closed position: ${token} on ${platform}`);
+    if (result.status !== TradeOrderStatus.CREATED) {
+      await this.tradeOrderService.updateTradeOrder(tradeOrderId, {
+        status: TradeOrderStatus.FAILED,
+      });
+    }
+    return result;
   }
 
   private getTradeTypeForPlatform(platform: Platform): TradeType {
@@ -467,12 +747,13 @@ export class TradeManagerService implements OnApplicationBootstrap {
     tradingDecision: TradingDecision,
     stopLossPrice?: number,
     takeProfitPrice?: number,
+    amountIn: number = tradingDecision.recommendedAmount,
   ): CreateTradePositionOptions {
     const baseData = {
       currency:
         this.platformManagerService.getPlatformConfiguration(platform)
           .defaultCurrencyFrom,
-      amountIn: tradingDecision.recommendedAmount,
+      amountIn,
       amountOut: 0,
       platform,
       status: TradePositionStatus.CREATED, // Position starts as CREATED, WebSocket will set to OPEN when filled
@@ -483,10 +764,9 @@ export class TradeManagerService implements OnApplicationBootstrap {
       return {
         ...baseData,
         positionType: PositionType.PERPETUAL,
-        positionDirection:
-          tradingDecision.metadata?.direction || PositionDirection.LONG,
+        positionDirection: tradingDecision.metadata?.direction,
         leverage: tradingDecision.metadata?.leverage || 5,
-        positionSize: tradingDecision.recommendedAmount || 1, // Default 1 USDC
+        positionSize: amountIn || 1, // Default 1 USDC
         // Entry price will be set by WebSocket handler when order fills
         token,
         // Store SL/TP prices - orders will be created by WebSocket handler after fill
@@ -1,6 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
 import { TrailingService } from './Trailing.service';
+import { BracketService } from './Bracket.service';
 import { PredictorAdapter } from '../../infrastructure/predictor/PredictorAdapter';
 import { PositionDirection } from '../../shared';
 import {
@@ -13,17 +14,21 @@ import { TradePositionDocument } from '../trade-position/TradePosition.schema';
 describe('TrailingService', () => {
   let service: TrailingService;
   let predictorAdapter: jest.Mocked<PredictorAdapter>;
+  let bracketService: jest.Mocked<BracketService>;
+  let config: Record<string, any>;
 
   beforeEach(async () => {
+    config = {
+      'hyperliquid.trailingActivationRatio': 0.8,
+      'hyperliquid.trailingMinIntervalMs': 300000, // 5 minutes
+      'hyperliquid.trailingTpOffsetPercent': 10,
+      'hyperliquid.trailingStopOffsetPercent': 2,
+      'hyperliquid.trailingStopOffsetAtr': 1,
+      'hyperliquid.trailingTpOffsetAtr': 3,
+      'hyperliquid.predictorMinConfidence': 0.6,
+    };
     const mockConfigService = {
       get: jest.fn((key: string, defaultValue?: any) => {
-        const config = {
-          'hyperliquid.trailingActivationRatio': 0.8,
-          'hyperliquid.trailingMinIntervalMs': 300000, // 5 minutes
-          'hyperliquid.trailingTpOffsetPercent': 10,
-          'hyperliquid.trailingStopOffsetPercent': 2,
-          'hyperliquid.predictorMinConfidence': 0.6,
-        };
         return config[key] ?? defaultValue;
       }),
     };
@@ -43,11 +48,16 @@ describe('TrailingService', () => {
           provide: PredictorAdapter,
           useValue: mockPredictorAdapter,
         },
+        {
+          provide: BracketService,
+          useValue: { getAtr: jest.fn().mockResolvedValue(null) },
+        },
       ],
     }).compile();
 
     service = module.get<TrailingService>(TrailingService);
     predictorAdapter = module.get(PredictorAdapter);
+    bracketService = module.get(BracketService);
   });
 
   describe('calculateProgressToTp', () => {
@@ -640,6 +650,50 @@ describe('TrailingService', () => {
         expect(result.newTakeProfitPrice).toBeLessThan(1550);
         expect(result.newStopLossPrice).toBeGreaterThan(1550);
       });
+
+      it('should not trail a LONG SL below a break-even stop', async () => {
+        // SL already moved to entry; new SL = 2040 * 0.98 = 1999.2
+        mockPosition.stopLossPrice = 2000;
+        mockPosition.takeProfitPrice = 2050;
+
+        const result = await service.evaluateTrailing(mockPosition, 2040);
+
+        expect(result.shouldTrail).toBe(false);
+        expect(result.reason).toContain('Price validation failed');
+        expect(result.reason).toContain('must be above the current SL');
+      });
+
+      it('should not trail a SHORT SL above a break-even stop', async () => {
+        mockPosition.positionDirection = PositionDirection.SHORT;
+        // SL already moved to entry; new SL = 1968 * 1.02 = 2007.36
+        mockPosition.stopLossPrice = 2000;
+        mockPosition.takeProfitPrice = 1960;
+
+        predictorAdapter.predictToken.mockResolvedValue({
+          token_address: 'ETH',
+          recommendation: Recommendation.SELL,
+          confidence: 0.8,
+          percentage_change: -5,
+          predicted_curve_position_change: 'down',
+          timestamp: new Date().toISOString(),
+          model_version: 'v1.0',
+        });
+
+        const result = await service.evaluateTrailing(mockPosition, 1968);
+
+        expect(result.shouldTrail).toBe(false);
+        expect(result.reason).toContain('must be below the current SL');
+      });
+
+      it('should trail when the new SL tightens a break-even stop', async () => {
+        // New SL = 2450 * 0.98 = 2401 > 2000
+        mockPosition.stopLossPrice = 2000;
+
+        const result = await service.evaluateTrailing(mockPosition, 2450);
+
+        expect(result.shouldTrail).toBe(true);
+        expect(result.newStopLossPrice).toBeGreaterThan(2000);
+      });
     });
 
     describe('full integration scenarios', () => {
@@ -695,6 +749,56 @@ describe('TrailingService', () => {
         expect(result.newTakeProfitPrice).toBeCloseTo(1395, 0);
       });
 
+      it('should trail by ATR multiples when ATR offsets are enabled', async () => {
+        config['hyperliquid.trailingAtrOffsets'] = true;
+        bracketService.getAtr.mockResolvedValue(40);
+        mockPosition.entryPrice = 2000;
+        mockPosition.takeProfitPrice = 2500;
+        mockPosition.positionDirection = PositionDirection.LONG;
+        mockPosition.lastTrailAt = null;
+
+        predictorAdapter.predictToken.mockResolvedValue({
+          token_address: 'ETH',
+          recommendation: Recommendation.BUY,
+          confidence: 0.85,
+          percentage_change: 5,
+          predicted_curve_position_change: 'up',
+          timestamp: new Date().toISOString(),
+          model_version: 'v1.0',
+        });
+
+        const result = await service.evaluateTrailing(mockPosition, 2450);
+
+        expect(bracketService.getAtr).toHaveBeenCalledWith(mockPosition.token);
+        expect(result.shouldTrail).toBe(true);
+        // 1 ATR below and 3 ATR above the current price
+        expect(result.newStopLossPrice).toBe(2410);
+        expect(result.newTakeProfitPrice).toBe(2570);
+      });
+
+      it('should fall back to percent offsets without an ATR', async () => {
+        config['hyperliquid.trailingAtrOffsets'] = true;
+        mockPosition.entryPrice = 2000;
+        mockPosition.takeProfitPrice = 2500;
+        mockPosition.positionDirection = PositionDirection.LONG;
+        mockPosition.lastTrailAt = null;
+
+        predictorAdapter.predictToken.mockResolvedValue({
+          token_address: 'ETH',
+          recommendation: Recommendation.BUY,
+          confidence: 0.85,
+          percentage_change: 5,
+          predicted_curve_position_change: 'up',
+          timestamp: new Date().toISOString(),
+          model_version: 'v1.0',
+        });
+
+        const result = await service.evaluateTrailing(mockPosition, 2450);
+
+        expect(result.newStopLossPrice).toBeCloseTo(2401, 0);
+        expect(result.newTakeProfitPrice).toBeCloseTo(2695, 0);
+      });
+
       it('should not trail when multiple conditions fail', async () => {
         // Low progress + rate limited
         mockPosition.lastTrailAt = new Date(Date.now() - 1 * 60 * 1000);
@@ -3,6 +3,7 @@ import { ConfigService } from '@nestjs/config';
 import { TradePositionDocument } from '../trade-position/TradePosition.schema';
 import { PositionDirection } from '../../shared';
 import { PredictorAdapter } from '../../infrastructure/predictor/PredictorAdapter';
+import { BracketService } from './Bracket.service';
 import {
   PredictionHorizon,
   Recommendation,
@@ -24,6 +25,7 @@ export class TrailingService {
   constructor(
     private configService: ConfigService,
     private predictorAdapter: PredictorAdapter,
+    private bracketService: BracketService,
   ) {}
 
   /**
@@ -38,6 +40,7 @@ export class TrailingService {
       token,
       positionDirection,
       entryPrice,
+      stopLossPrice,
       takeProfitPrice,
       lastTrailAt,
     } = position;
@@ -96,10 +99,13 @@ export class TrailingService {
       }
     }
 
+    const offsets = await this.getTrailingOffsets(token, currentPrice);
+
     // Calculate new TP price
     const newTakeProfitPrice = this.calculateNewTakeProfit(
       positionDirection,
       currentPrice,
+      offsets.takeProfitOffset,
     );
 
     // Movement guard: only trail if new TP differs by >= 0.5%
@@ -130,10 +136,11 @@ export class TrailingService {
       };
     }
 
-    // Calculate new SL price (DB only)
+    // Calculate new SL price
     const newStopLossPrice = this.calculateNewStopLoss(
       positionDirection,
       currentPrice,
+      offsets.stopLossOffset,
     );
 
     // Validate new prices
@@ -142,6 +149,7 @@ export class TrailingService {
       currentPrice,
       newStopLossPrice,
       newTakeProfitPrice,
+      stopLossPrice,
     );
 
     if (!validation.valid) {
@@ -185,23 +193,62 @@ export class TrailingService {
   }
 
   /**
-   * Calculate new take profit price based on current price
+   * Distances of the trailed SL/TP from the current price
+   * Multiples of the ATR when HL_TRAILING_ATR_OFFSETS is set and the ATR is
+   * known, otherwise percentages of the current price
    */
-  private calculateNewTakeProfit(
-    direction: PositionDirection,
+  private async getTrailingOffsets(
+    token: string,
     currentPrice: number,
-  ): number {
+  ): Promise<{ stopLossOffset: number; takeProfitOffset: number }> {
+    if (this.configService.get<boolean>('hyperliquid.trailingAtrOffsets')) {
+      const atr = await this.bracketService.getAtr(token);
+      if (atr) {
+        return {
+          stopLossOffset:
+            atr *
+            this.configService.get<number>(
+              'hyperliquid.trailingStopOffsetAtr',
+              1,
+            ),
+          takeProfitOffset:
+            atr *
+            this.configService.get<number>(
+              'hyperliquid.trailingTpOffsetAtr',
+              3,
+            ),
+        };
+      }
+    }
+
+    const slOffsetPercent = this.configService.get<number>(
+      'hyperliquid.trailingStopOffsetPercent',
+      2,
+    );
     const tpOffsetPercent = this.configService.get<number>(
       'hyperliquid.trailingTpOffsetPercent',
       10,
     );
+    return {
+      stopLossOffset: currentPrice * (slOffsetPercent / 100),
+      takeProfitOffset: currentPrice * (tpOffsetPercent / 100),
+    };
+  }
 
+  /**
+   * Calculate new take profit price based on current price
+   */
+  private calculateNewTakeProfit(
+    direction: PositionDirection,
+    currentPrice: number,
+    offset: number,
+  ): number {
     if (direction === PositionDirection.LONG) {
-      // LONG: New TP = currentPrice × (1 + 0.10)
-      return currentPrice * (1 + tpOffsetPercent / 100);
+      // LONG: New TP = currentPrice + offset
+      return currentPrice + offset;
     } else {
-      // SHORT: New TP = currentPrice × (1 - 0.10)
-      return currentPrice * (1 - tpOffsetPercent / 100);
+      // SHORT: New TP = currentPrice - offset
+      return currentPrice - offset;
     }
   }
 
@@ -211,18 +258,14 @@ export class TrailingService {
   private calculateNewStopLoss(
     direction: PositionDirection,
     currentPrice: number,
+    offset: number,
   ): number {
-    const slOffsetPercent = this.configService.get<number>(
-      'hyperliquid.trailingStopOffsetPercent',
-      2,
-    );
-
     if (direction === PositionDirection.LONG) {
-      // LONG: New SL = currentPrice × (1 - 0.02)
-      return currentPrice * (1 - slOffsetPercent / 100);
+      // LONG: New SL = currentPrice - offset
+      return currentPrice - offset;
     } else {
-      // SHORT: New SL = currentPrice × (1 + 0.02)
-      return currentPrice * (1 + slOffsetPercent / 100);
+      // SHORT: New SL = currentPrice + offset
+      return currentPrice + offset;
     }
   }
 
@@ -306,15 +349,23 @@ export class TrailingService {
 
   /**
    * Validate that new trailing prices are correct relative to current price
+   * and that the new SL is strictly tighter than the current one
    */
   private validateTrailingPrices(
     direction: PositionDirection,
     currentPrice: number,
     newStopLoss: number,
     newTakeProfit: number,
+    currentStopLoss?: number,
   ): { valid: boolean; reason?: string } {
     if (direction === PositionDirection.LONG) {
-      // LONG: SL < current < TP
+      // LONG: current SL < new SL < current < TP
+      if (currentStopLoss && newStopLoss <= currentStopLoss) {
+        return {
+          valid: false,
+          reason: `LONG SL (${newStopLoss.toFixed(4)}) must be above the current SL (${currentStopLoss.toFixed(4)})`,
+        };
+      }
       if (newStopLoss >= currentPrice) {
         return {
           valid: false,
@@ -328,7 +379,13 @@ export class TrailingService {
         };
       }
     } else {
-      // SHORT: TP < current < SL
+      // SHORT: TP < current < new SL < current SL
+      if (currentStopLoss && newStopLoss >= currentStopLoss) {
+        return {
+          valid: false,
+          reason: `SHORT SL (${newStopLoss.toFixed(4)}) must be below the current SL (${currentStopLoss.toFixed(4)})`,
+        };
+      }
       if (newStopLoss <= currentPrice) {
         return {
           valid: false,
@@ -4,6 +4,7 @@ import { TradeOrder, TradeOrderSchema } from './TradeOrder.schema';
 import { TradeOrderService } from './TradeOrder.service';
 import { TradeOrderRepository } from './TradeOrder.repository';
 import { TradePositionModule } from '../trade-position/TradePosition.module';
+import { CooldownModule } from '../cooldown/Cooldown.module';
 
 @Global()
 @Module({
@@ -12,6 +13,7 @@ import { TradePositionModule } from '../trade-position/TradePosition.module';
       { name: TradeOrder.name, schema: TradeOrderSchema },
     ]),
     TradePositionModule,
+    CooldownModule,
   ],
   providers: [TradeOrderService, TradeOrderRepository],
   exports: [TradeOrderService],
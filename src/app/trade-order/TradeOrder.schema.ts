@@ -1,6 +1,13 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
-import { TradeOrderStatus } from '../../shared';
+import {
+  AlgoOrderState,
+  ClientOrderRole,
+  ExecutionAlgo,
+  MarginMode,
+  PositionDirection,
+  TradeOrderStatus,
+} from '../../shared';
 import { TradePositionDocument } from '../trade-position/TradePosition.schema';
 
 export type TradeOrderDocument = TradeOrder & Document;
@@ -69,6 +76,10 @@ export class TradeOrder {
   @Prop({ type: String })
   clientOrderId?: string;
 
+  // Role the cloid was built from; fills overwrite the side, not the role
+  @Prop({ type: String, enum: ClientOrderRole })
+  clientOrderRole?: ClientOrderRole;
+
   // Trigger order specific fields (for SL/TP orders)
   @Prop({ type: Boolean })
   isTrigger?: boolean;
@@ -79,9 +90,37 @@ export class TradeOrder {
   @Prop({ type: String })
   triggerType?: 'tp' | 'sl'; // take-profit or stop-loss
 
+  // 1-based rung of a take-profit ladder; rungs are not trailed
+  @Prop({ type: Number })
+  ladderRung?: number;
+
   @Prop({ type: Boolean })
   isMarket?: boolean; // Whether trigger order uses market execution
 
+  // TWAP/iceberg parent: the algo progress; its children point back to it
+  @Prop({
+    type: {
+      algo: { type: String, enum: ExecutionAlgo },
+      direction: { type: String, enum: PositionDirection },
+      totalSize: Number,
+      slices: Number,
+      displaySize: Number,
+      intervalMs: Number,
+      limitPrice: Number,
+      leverage: Number,
+      marginMode: { type: String, enum: MarginMode },
+      childCount: Number,
+      failedAttempts: Number,
+      nextChildAt: Date,
+      expiresAt: Date,
+    },
+    _id: false,
+  })
+  algo?: AlgoOrderState;
+
+  @Prop({ type: Types.ObjectId, ref: 'TradeOrder', index: true })
+  parentOrder?: string;
+
   createdAt?: Date;
 
   updatedAt?: Date;
@@ -90,3 +129,5 @@ export class TradeOrder {
 export const TradeOrderSchema = SchemaFactory.createForClass(TradeOrder);
 
 TradeOrderSchema.index({ orderId: 1 });
+TradeOrderSchema.index({ clientOrderId: 1 });
+TradeOrderSchema.index({ 'algo.nextChildAt': 1 });
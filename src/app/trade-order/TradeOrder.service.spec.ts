@@ -382,6 +382,51 @@ describe('TradeOrderService', () => {
       expect(position?.timeClosed).toBeDefined();
     });
 
+    it('should accumulate entry and exit fees into net realized PnL', async () => {
+      await createTestOrder('fee-entry');
+      await createTestOrder('fee-exit');
+
+      const entryFill: OrderFill = {
+        orderId: 'fee-entry',
+        tradeId: '1',
+        coin: 'BTC',
+        side: 'B',
+        size: '0.05',
+        price: '50000',
+        fee: '2.5',
+        timestamp: Date.now(),
+      };
+      await service.handleOrderFill(entryFill);
+      await service.handleOrderFill({
+        ...entryFill,
+        tradeId: '2',
+        fee: '2.5',
+        timestamp: entryFill.timestamp + 1,
+      });
+
+      const entryOrder = await service.getByOrderId('fee-entry');
+      expect(entryOrder?.fee).toBe(5);
+
+      await service.handleOrderFill({
+        orderId: 'fee-exit',
+        tradeId: '3',
+        coin: 'BTC',
+        side: 'S',
+        size: '0.1',
+        price: '52000',
+        fee: '5.2',
+        timestamp: entryFill.timestamp + 2,
+        closedPnl: '200',
+      });
+
+      const position = await positionService.getTradePositionById(positionId);
+      expect(position?.status).toBe(TradePositionStatus.CLOSED);
+      expect(position?.totalRealizedPnl).toBe(200);
+      expect(position?.totalFees).toBeCloseTo(10.2);
+      expect(position?.netRealizedPnl).toBeCloseTo(189.8);
+      expect(position?.fills.map((fill) => fill.fee)).toEqual([2.5, 2.5, 5.2]);
+    });
+
     it('should handle order fill with zero closedPnl as entry order', async () => {
       await createTestOrder('fill-order-4');
 
@@ -403,6 +448,138 @@ describe('TradeOrderService', () => {
       expect(position?.entryPrice).toBe(50000);
     });
 
+    it('should skip fills already recorded on the position', async () => {
+      await createTestOrder('fill-order-5');
+
+      const orderFill: OrderFill = {
+        orderId: 'fill-order-5',
+        tradeId: '42',
+        coin: 'BTC',
+        side: 'B',
+        size: '0.1',
+        price: '50000',
+        fee: '5',
+        timestamp: Date.now(),
+      };
+
+      await expect(service.handleOrderFill(orderFill)).resolves.toBe(true);
+      // Same fill replayed from the reconnect snapshot
+      await expect(service.handleOrderFill(orderFill)).resolves.toBe(false);
+
+      const order = await service.getByOrderId('fill-order-5');
+      const position = await positionService.getTradePositionById(positionId);
+      expect(order?.filledSize).toBe(0.1);
+      expect(position?.totalFilledSize).toBe(0.1);
+      expect(position?.fills).toHaveLength(1);
+      expect(position?.fills[0].tradeId).toBe('42');
+    });
+
+    it('should attach the exchange order id to an order stored by cloid', async () => {
+      const clientOrderId = '0x0123456789abcdef0123456789abcdef';
+      await service.createTradeOrder({
+        status: TradeOrderStatus.CREATED,
+        position: positionId,
+        type: 'market',
+        clientOrderId,
+      });
+
+      await service.handleOrderFill({
+        orderId: 'fill-order-cloid',
+        clientOrderId,
+        coin: 'BTC',
+        side: 'B',
+        size: '0.1',
+        price: '50000',
+        fee: '5',
+        timestamp: Date.now(),
+      });
+
+      const updatedOrder = await service.getByClientOrderId(clientOrderId);
+      expect(updatedOrder?.orderId).toBe('fill-order-cloid');
+      expect(updatedOrder?.status).toBe(TradeOrderStatus.FILLED);
+    });
+
+    it('should follow the new exchange order id of a modified order', async () => {
+      const clientOrderId = '0xfedcba9876543210fedcba9876543210';
+      await service.createTradeOrder({
+        status: TradeOrderStatus.CREATED,
+        position: positionId,
+        type: 'Alo',
+        orderId: 'order-before-modify',
+        size: 0.2,
+        clientOrderId,
+      });
+
+      await service.handleOrderFill({
+        orderId: 'order-after-modify',
+        clientOrderId,
+        coin: 'BTC',
+        side: 'B',
+        size: '0.1',
+        price: '50000',
+        fee: '5',
+        timestamp: Date.now(),
+      });
+
+      const updatedOrder = await service.getByClientOrderId(clientOrderId);
+      expect(updatedOrder?.orderId).toBe('order-after-modify');
+      expect(updatedOrder?.status).toBe(TradeOrderStatus.PARTIALLY_FILLED);
+    });
+
+    it('should aggregate child fills onto their algo parent', async () => {
+      const parent = await service.createTradeOrder({
+        status: TradeOrderStatus.CREATED,
+        position: positionId,
+        type: 'twap',
+        clientOrderId: '0x00112233445566778899aabbccddeeff',
+        size: 0.2,
+        price: 50000,
+      });
+      for (const orderId of ['child-order-1', 'child-order-2']) {
+        await service.createTradeOrder({
+          status: TradeOrderStatus.CREATED,
+          position: positionId,
+          type: 'market',
+          orderId,
+          parentOrder: String(parent._id),
+        });
+      }
+
+      await service.handleOrderFill({
+        orderId: 'child-order-1',
+        coin: 'BTC',
+        side: 'B',
+        size: '0.1',
+        price: '50000',
+        fee: '5',
+        timestamp: Date.now(),
+      });
+      let updatedParent = await service.getByClientOrderId(
+        '0x00112233445566778899aabbccddeeff',
+      );
+      expect(updatedParent?.status).toBe(TradeOrderStatus.PARTIALLY_FILLED);
+      expect(updatedParent?.filledSize).toBe(0.1);
+
+      await service.handleOrderFill({
+        orderId: 'child-order-2',
+        coin: 'BTC',
+        side: 'B',
+        size: '0.1',
+        price: '51000',
+        fee: '5',
+        timestamp: Date.now() + 1,
+      });
+      updatedParent = await service.getByClientOrderId(
+        '0x00112233445566778899aabbccddeeff',
+      );
+      expect(updatedParent?.status).toBe(TradeOrderStatus.FILLED);
+      expect(updatedParent?.filledSize).toBeCloseTo(0.2);
+      expect(updatedParent?.price).toBeCloseTo(50500);
+
+      const position = await positionService.getTradePositionById(positionId);
+      expect(position?.entryPrice).toBeCloseTo(50500);
+    });
+
     it('should handle fill for non-existent order gracefully', async () => {
       const orderFill: OrderFill = {
         orderId: 'non-existent-order',
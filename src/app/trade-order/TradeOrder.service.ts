@@ -9,6 +9,7 @@ import {
 import { TradeOrderRepository } from './TradeOrder.repository';
 import { OrderFill, OrderUpdate } from '../../infrastructure/websocket';
 import { TradePositionService } from '../trade-position/TradePosition.service';
+import { CooldownService } from '../cooldown/Cooldown.service';
 import { RepositoryQueryOptions } from '../../shared/repository/RepositoryQueryOptions';
 
 @Injectable()
@@ -18,6 +19,7 @@ export class TradeOrderService {
   constructor(
     private readonly tradeOrderRepository: TradeOrderRepository,
     private readonly tradePositionService: TradePositionService,
+    private readonly cooldownService: CooldownService,
   ) {}
 
   /**
@@ -52,6 +54,25 @@ export class TradeOrderService {
     });
   }
 
+  async getByClientOrderId(
+    clientOrderId: string,
+  ): Promise<TradeOrderDocument | null> {
+    return this.tradeOrderRepository.getOne({
+      filter: { clientOrderId },
+    });
+  }
+
+  /**
+   * TWAP/iceberg parents whose next step is due
+   */
+  async getDueAlgoOrders(now = new Date()): Promise<TradeOrderDocument[]> {
+    return this.getMany({ 'algo.nextChildAt': { $lte: now } });
+  }
+
+  async countTradeOrders(filter: Record<string, unknown>): Promise<number> {
+    return this.tradeOrderRepository.count(filter);
+  }
+
   async updateByOrderId(
     orderId: string,
     updateTradeOrderOptions: UpdateTradeOrderOptions,
@@ -68,11 +89,23 @@ export class TradeOrderService {
 
   /**
    * Handle order fill event from WebSocket and update database
+   * Returns true when the fill was applied, false when it was skipped
+   * (unknown order, already recorded fill, or failure)
    */
-  async handleOrderFill(fill: OrderFill): Promise<void> {
+  async handleOrderFill(fill: OrderFill): Promise<boolean> {
     try {
       const fillSize = parseFloat(fill.size);
-      const existingOrder = await this.getByOrderId(fill.orderId);
+      const existingOrder =
+        (await this.getByOrderId(fill.orderId)) ||
+        (await this.attachOrderId(fill.orderId, fill.clientOrderId));
+
+      // Snapshot replays after a reconnect resend fills we already processed
+      if (existingOrder && (await this.isFillRecorded(existingOrder, fill))) {
+        this.logger.debug(
+          `Fill ${fill.orderId}/${fill.tradeId ?? fill.timestamp} already recorded, skipping`,
+        );
+        return false;
+      }
 
       // Calculate filled size and remaining size
       const previousFilledSize = existingOrder?.filledSize || 0;
@@ -91,7 +124,8 @@ export class TradeOrderService {
         remainingSize: newRemainingSize,
         size: requestedSize,
         price: parseFloat(fill.price),
-        fee: parseFloat(fill.fee),
+        // Summed over the fills of the order
+        fee: (existingOrder?.fee || 0) + (parseFloat(fill.fee) || 0),
         timestampFill: fill.timestamp,
         closedPnl: fill.closedPnl ? parseFloat(fill.closedPnl) : undefined,
       };
@@ -105,32 +139,116 @@ export class TradeOrderService {
 
         // Update position status based on fill
         await this.updatePositionStatusOnFill(updated, fill);
-      } else {
-        this.logger.warn(`Order ${fill.orderId} not found for fill update`);
+        if (updated.parentOrder) {
+          await this.updateParentOrder(updated);
+        }
+        return true;
       }
+
+      this.logger.warn(`Order ${fill.orderId} not found for fill update`);
+      return false;
     } catch (error) {
       this.logger.error(
         `Failed to handle order fill for ${fill.orderId}`,
         error,
       );
+      return false;
     }
   }
 
+  /**
+   * Check whether the fill is already in the position's fill history
+   * Fills are matched by orderId + tradeId; records written before trade ids
+   * were stored fall back to orderId + timestamp
+   */
+  private async isFillRecorded(
+    order: TradeOrderDocument,
+    fill: OrderFill,
+  ): Promise<boolean> {
+    if (!order.position) {
+      return false;
+    }
+
+    const position = await this.tradePositionService.getTradePositionById(
+      this.getPositionId(order),
+    );
+
+    return (position?.fills || []).some(
+      (recorded) =>
+        recorded.orderId === fill.orderId &&
+        (recorded.tradeId && fill.tradeId
+          ? recorded.tradeId === fill.tradeId
+          : recorded.timestamp === fill.timestamp),
+    );
+  }
+
+  /**
+   * Aggregate the fills of all children onto their TWAP/iceberg parent
+   * Size and average price come from the position fill history, which holds
+   * every child fill exactly once
+   */
+  private async updateParentOrder(child: TradeOrderDocument): Promise<void> {
+    try {
+      const parentId = String(child.parentOrder);
+      const [parent, children, position] = await Promise.all([
+        this.tradeOrderRepository.getById(parentId),
+        this.getMany({ parentOrder: parentId }),
+        this.tradePositionService.getTradePositionById(
+          this.getPositionId(child),
+        ),
+      ]);
+      if (!parent) {
+        return;
+      }
+
+      const childOrderIds = new Set(children.map((order) => order.orderId));
+      const fills = (position?.fills || []).filter((fill) =>
+        childOrderIds.has(fill.orderId),
+      );
+      const filledSize = fills.reduce((sum, fill) => sum + fill.size, 0);
+      const filledNotional = fills.reduce(
+        (sum, fill) => sum + fill.size * fill.price,
+        0,
+      );
+      const remainingSize = Math.max(0, (parent.size || 0) - filledSize);
+
+      await this.tradeOrderRepository.updateById(parentId, {
+        status:
+          remainingSize === 0
+            ? TradeOrderStatus.FILLED
+            : TradeOrderStatus.PARTIALLY_FILLED,
+        filledSize,
+        remainingSize,
+        price: filledSize > 0 ? filledNotional / filledSize : parent.price,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to aggregate fills onto parent order ${String(child.parentOrder)}`,
+        error,
+      );
+    }
+  }
+
+  private getPositionId(order: TradeOrderDocument): string {
+    return typeof order.position === 'string'
+      ? order.position
+      : String(order.position._id);
+  }
+
   /**
    * Update position status based on order fill
    * Handles both entry and exit fills, including partial fills
    * - Entry fills: Accumulate filled size and update entry price
    * - Exit fills: Accumulate realized PnL and check if position is fully closed
+   * Fees of both are accumulated, and net realized PnL is the realized PnL
+   * (closedPnl, which is before fees) minus every fee paid so far
    */
   private async updatePositionStatusOnFill(
     order: TradeOrderDocument,
     fill: OrderFill,
   ): Promise<void> {
     try {
-      const positionId =
-        typeof order.position === 'string'
-          ? order.position
-          : String(order.position._id);
+      const positionId = this.getPositionId(order);
 
       const position =
         await this.tradePositionService.getTradePositionById(positionId);
@@ -142,13 +260,17 @@ export class TradeOrderService {
       const fillSize = parseFloat(fill.size);
       const fillPrice = parseFloat(fill.price);
       const closedPnl = fill.closedPnl ? parseFloat(fill.closedPnl) : 0;
+      const fee = parseFloat(fill.fee) || 0;
+      const totalFees = (position.totalFees || 0) + fee;
 
       // Record the fill in position history
       const fillRecord = {
         orderId: fill.orderId,
+        tradeId: fill.tradeId,
         size: fillSize,
         price: fillPrice,
         closedPnl: closedPnl !== 0 ? closedPnl : undefined,
+        fee,
         timestamp: fill.timestamp,
         side: fill.side,
       };
@@ -157,8 +279,8 @@ export class TradeOrderService {
 
       // Determine if this is an entry or exit fill based on:
       // 1. closedPnl presence (most reliable for exits)
-      // 2. Fill side vs position direction
-      const isExitFill = closedPnl !== 0;
+      // 2. SL/TP triggers, which only reduce, even when filled at the entry price
+      const isExitFill = closedPnl !== 0 || !!order.isTrigger;
 
       if (isExitFill) {
         // This is an exit/reduce order
@@ -175,20 +297,32 @@ export class TradeOrderService {
 
         // Only close position when remaining size reaches zero
         if (newRemainingSize === 0) {
+          const exitReason = this.cooldownService.getExitReason(
+            position,
+            order,
+          );
           await this.tradePositionService.updateTradePosition(positionId, {
             status: TradePositionStatus.CLOSED,
             timeClosed: new Date(),
+            exitReason,
             realizedPnl: newTotalRealizedPnl,
             totalRealizedPnl: newTotalRealizedPnl,
+            totalFees,
+            netRealizedPnl: newTotalRealizedPnl - totalFees,
             remainingSize: 0,
             currentPrice: fillPrice,
             fills: updatedFills,
           });
-          this.logger.log(`Position ${positionId} fully closed`);
+          this.logger.log(
+            `Position ${positionId} fully closed (${exitReason})`,
+          );
+          await this.cooldownService.startCooldown(position, exitReason);
         } else {
           // Partial exit
           await this.tradePositionService.updateTradePosition(positionId, {
             totalRealizedPnl: newTotalRealizedPnl,
+            totalFees,
+            netRealizedPnl: newTotalRealizedPnl - totalFees,
             remainingSize: newRemainingSize,
             currentPrice: fillPrice,
             fills: updatedFills,
@@ -220,6 +354,8 @@ export class TradeOrderService {
           currentPrice: fillPrice,
           totalFilledSize: newTotalFilledSize,
           remainingSize: newRemainingSize,
+          totalFees,
+          netRealizedPnl: (position.totalRealizedPnl || 0) - totalFees,
           fills: updatedFills,
         });
       }
@@ -228,6 +364,32 @@ export class TradeOrderService {
     }
   }
 
+  /**
+   * Orders are persisted with their cloid before they are sent, so an update
+   * can arrive before the exchange order id is stored on the record
+   * A modified order gets a new exchange order id but keeps its cloid, so the
+   * record follows whichever id the exchange reports last
+   */
+  private async attachOrderId(
+    orderId: string,
+    clientOrderId?: string,
+    updateData: UpdateTradeOrderOptions = {},
+  ): Promise<TradeOrderDocument | null> {
+    if (!clientOrderId) {
+      return null;
+    }
+
+    const tradeOrder = await this.getByClientOrderId(clientOrderId);
+    if (!tradeOrder) {
+      return null;
+    }
+
+    return this.tradeOrderRepository.updateById(String(tradeOrder._id), {
+      ...updateData,
+      orderId,
+    });
+  }
+
   /**
    * Handle order update event from WebSocket and update database
    */
@@ -243,7 +405,13 @@ export class TradeOrderService {
         clientOrderId: order.clientOrderId,
       };
 
-      const updated = await this.updateByOrderId(order.orderId, updateData);
+      const updated =
+        (await this.updateByOrderId(order.orderId, updateData)) ||
+        (await this.attachOrderId(
+          order.orderId,
+          order.clientOrderId,
+          updateData,
+        ));
 
       if (updated) {
         this.logger.debug(
@@ -6,6 +6,8 @@ import {
   PositionDirection,
   PositionType,
   Currency,
+  ExitReason,
+  TakeProfitLadderRung,
 } from '../../shared';
 
 export type TradePositionDocument = TradePosition & Document;
@@ -59,6 +61,14 @@ export class TradePosition {
   @Prop({ type: Number })
   stopLossPrice?: number;
 
+  // Partial take-profits placed next to the TP, the SL moves to break-even after the first fills
+  @Prop({
+    type: [{ rMultiple: Number, sizePercent: Number, price: Number }],
+    _id: false,
+    default: undefined,
+  })
+  takeProfitLadder?: TakeProfitLadderRung[];
+
   @Prop({ type: Number })
   realizedPnl?: number;
 
@@ -67,18 +77,29 @@ export class TradePosition {
   totalFilledSize?: number; // Accumulated filled size from entry orders
 
   @Prop({ type: Number, default: 0 })
-  totalRealizedPnl?: number; // Accumulated realized PnL from all exit fills
+  totalRealizedPnl?: number; // Accumulated realized PnL from all exit fills, before fees
+
+  @Prop({ type: Number, default: 0 })
+  totalFees?: number; // Accumulated fees from entry and exit fills
+
+  @Prop({ type: Number, default: 0 })
+  netRealizedPnl?: number; // totalRealizedPnl minus totalFees
 
   @Prop({ type: Number })
   remainingSize?: number; // Remaining position size (for partial exits)
 
+  @Prop({ type: Number, default: 0 })
+  fundingPaid?: number; // Funding paid while open from the funding ledger, negative when received
+
   @Prop({
     type: [
       {
         orderId: String,
+        tradeId: String,
         size: Number,
         price: Number,
         closedPnl: Number,
+        fee: Number,
         timestamp: Number,
         side: String, // 'B' for buy, 'S' for sell
       },
@@ -87,9 +108,11 @@ export class TradePosition {
   })
   fills?: Array<{
     orderId: string;
+    tradeId?: string;
     size: number;
     price: number;
     closedPnl?: number;
+    fee?: number;
     timestamp: number;
     side: string;
   }>;
@@ -103,6 +126,10 @@ export class TradePosition {
   @Prop({ type: Boolean, default: false })
   exitFlag?: boolean;
 
+  // Why the position was closed, decides the re-entry cooldown
+  @Prop({ type: String, enum: ExitReason })
+  exitReason?: ExitReason;
+
   // Trailing stop-loss/take-profit tracking
   @Prop({ type: Date })
   lastTrailAt?: Date;
@@ -110,6 +137,10 @@ export class TradePosition {
   @Prop({ type: Number, default: 0 })
   trailCount?: number;
 
+  // Opened against the paper-trading simulator
+  @Prop({ type: Boolean, default: false })
+  isPaper?: boolean;
+
   createdAt?: Date;
 
   updatedAt?: Date;
@@ -128,3 +159,4 @@ TradePositionSchema.index({ platform: 1, status: 1 });
 TradePositionSchema.index({ baseAssetSymbol: 1 });
 TradePositionSchema.index({ platform: 1, positionType: 1 });
 TradePositionSchema.index({ marketIndex: 1 });
+TradePositionSchema.index({ isPaper: 1, status: 1 });
@@ -323,6 +323,55 @@ describe('TradePositionService', () => {
     });
   });
 
+  describe('getPositionsOpenBetween', () => {
+    it('should return live positions open during the window', async () => {
+      const base = {
+        platform: Platform.HYPERLIQUID,
+        currency: Currency.USDC,
+        amountIn: 1000,
+      };
+      await service.createTradePosition({
+        ...base,
+        status: TradePositionStatus.OPEN,
+        token: 'BTC',
+        timeOpened: new Date('2024-03-20T10:00:00Z'),
+      });
+      await service.createTradePosition({
+        ...base,
+        status: TradePositionStatus.CLOSED,
+        token: 'ETH',
+        timeOpened: new Date('2024-03-20T08:00:00Z'),
+        timeClosed: new Date('2024-03-20T12:30:00Z'),
+      });
+      // Closed before the window
+      await service.createTradePosition({
+        ...base,
+        status: TradePositionStatus.CLOSED,
+        token: 'SOL',
+        timeOpened: new Date('2024-03-20T08:00:00Z'),
+        timeClosed: new Date('2024-03-20T09:00:00Z'),
+      });
+      await service.createTradePosition({
+        ...base,
+        status: TradePositionStatus.OPEN,
+        token: 'HYPE',
+        timeOpened: new Date('2024-03-20T10:00:00Z'),
+        isPaper: true,
+      });
+
+      const result = await service.getPositionsOpenBetween(
+        Platform.HYPERLIQUID,
+        new Date('2024-03-20T12:00:00Z'),
+        new Date('2024-03-20T13:00:00Z'),
+      );
+
+      expect(result.map((position) => position.token).sort()).toEqual([
+        'BTC',
+        'ETH',
+      ]);
+    });
+  });
+
   describe('getTradePositionByToken', () => {
     beforeEach(async () => {
       const positions = [
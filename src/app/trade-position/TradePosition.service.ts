@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { TradePositionDocument } from './TradePosition.schema';
 import {
   CreateTradePositionOptions,
+  Platform,
   TradePositionStatus,
   UpdateTradePositionOptions,
 } from '../../shared';
@@ -49,6 +50,47 @@ export class TradePositionService {
     });
   }
 
+  /**
+   * Positions that are expected to exist on the exchange (entry sent or filled)
+   */
+  async getActiveTradePositions(
+    platform: Platform,
+    isPaper: boolean,
+  ): Promise<TradePositionDocument[]> {
+    return this.tradePositionRepository.getAll({
+      filter: {
+        platform,
+        status: {
+          $in: [TradePositionStatus.CREATED, TradePositionStatus.OPEN],
+        },
+        isPaper: isPaper ? true : { $ne: true },
+      },
+      queryOptions: { sort: { createdAt: -1 } },
+    });
+  }
+
+  /**
+   * Positions that were open at some point between from and to
+   */
+  async getPositionsOpenBetween(
+    platform: Platform,
+    from: Date,
+    to: Date,
+    isPaper = false,
+  ): Promise<TradePositionDocument[]> {
+    return this.tradePositionRepository.getAll({
+      filter: {
+        platform,
+        status: {
+          $in: [TradePositionStatus.OPEN, TradePositionStatus.CLOSED],
+        },
+        isPaper: isPaper ? true : { $ne: true },
+        timeOpened: { $lte: to },
+        $or: [{ timeClosed: null }, { timeClosed: { $gte: from } }],
+      },
+    });
+  }
+
   async getTradePosition(
     token: string,
     currency?: string,
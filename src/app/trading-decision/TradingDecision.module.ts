@@ -0,0 +1,20 @@
+import { Global, Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  TradingDecision,
+  TradingDecisionSchema,
+} from './TradingDecision.schema';
+import { TradingDecisionService } from './TradingDecision.service';
+import { TradingDecisionRepository } from './TradingDecision.repository';
+
+@Global()
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: TradingDecision.name, schema: TradingDecisionSchema },
+    ]),
+  ],
+  providers: [TradingDecisionService, TradingDecisionRepository],
+  exports: [TradingDecisionService, TradingDecisionRepository],
+})
+export class TradingDecisionModule {}
@@ -0,0 +1,18 @@
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Injectable } from '@nestjs/common';
+import { BaseMongoRepository } from '../../shared';
+import {
+  TradingDecision,
+  TradingDecisionDocument,
+} from './TradingDecision.schema';
+
+@Injectable()
+export class TradingDecisionRepository extends BaseMongoRepository<TradingDecisionDocument> {
+  constructor(
+    @InjectModel(TradingDecision.name)
+    tradingDecisionModel: Model<TradingDecisionDocument>,
+  ) {
+    super(tradingDecisionModel);
+  }
+}
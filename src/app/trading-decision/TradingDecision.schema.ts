@@ -0,0 +1,67 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import {
+  Platform,
+  PositionDirection,
+  TradingDecisionOutcome,
+} from '../../shared';
+import { TradePositionDocument } from '../trade-position/TradePosition.schema';
+
+export type TradingDecisionDocument = TradingDecision & Document;
+
+@Schema({
+  timestamps: true,
+})
+export class TradingDecision {
+  static readonly modelName = 'TradingDecision';
+
+  @Prop({ type: String, enum: Platform, required: true })
+  platform: Platform;
+
+  @Prop({ type: String, required: true })
+  token: string;
+
+  @Prop({ type: String, enum: TradingDecisionOutcome, required: true })
+  outcome: TradingDecisionOutcome;
+
+  @Prop({ type: Boolean, required: true })
+  shouldTrade: boolean;
+
+  @Prop({ type: String })
+  reason?: string;
+
+  @Prop({ type: Number })
+  confidence?: number;
+
+  @Prop({ type: Number })
+  recommendedAmount?: number;
+
+  @Prop({ type: String, enum: PositionDirection })
+  direction?: PositionDirection;
+
+  // Full strategy metadata (aiPrediction, entryTiming, leverage, ...)
+  @Prop({ type: Object })
+  metadata?: Record<string, unknown>;
+
+  // Set when the entry was attempted but failed or was blocked by a risk check
+  @Prop({ type: String })
+  entryError?: string;
+
+  @Prop({
+    type: Types.ObjectId,
+    ref: 'TradePosition',
+  })
+  position?: string | TradePositionDocument;
+
+  createdAt?: Date;
+
+  updatedAt?: Date;
+}
+
+export const TradingDecisionSchema =
+  SchemaFactory.createForClass(TradingDecision);
+
+TradingDecisionSchema.index({ createdAt: -1 });
+TradingDecisionSchema.index({ token: 1, createdAt: -1 });
+TradingDecisionSchema.index({ outcome: 1, createdAt: -1 });
+TradingDecisionSchema.index({ position: 1 });
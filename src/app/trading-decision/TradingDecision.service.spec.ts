@@ -0,0 +1,144 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { TestingModule } from '@nestjs/testing';
+import { TradingDecisionService } from './TradingDecision.service';
+import { TradingDecisionRepository } from './TradingDecision.repository';
+import {
+  createTestingModuleWithProviders,
+  Platform,
+  PositionDirection,
+  TradingDecisionOutcome,
+} from '../../shared';
+
+describe('TradingDecisionService', () => {
+  let service: TradingDecisionService;
+  let mockTradingDecisionRepository: jest.Mocked<TradingDecisionRepository>;
+  let module: TestingModule;
+
+  const decision = {
+    shouldTrade: true,
+    reason: 'Good opportunity',
+    confidence: 0.8,
+    recommendedAmount: 100,
+    metadata: { direction: PositionDirection.LONG },
+  };
+
+  beforeEach(async () => {
+    mockTradingDecisionRepository = {
+      create: jest.fn().mockResolvedValue({ _id: 'decision-id' }),
+      updateById: jest.fn(),
+    } as any;
+
+    module = await createTestingModuleWithProviders({
+      providers: [
+        TradingDecisionService,
+        {
+          provide: TradingDecisionRepository,
+          useValue: mockTradingDecisionRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get(TradingDecisionService);
+  });
+
+  afterEach(async () => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(async () => {
+    if (module) {
+      await module.close();
+    }
+  });
+
+  describe('recordDecision', () => {
+    it('should record approved decisions with their direction', async () => {
+      const result = await service.recordDecision({
+        platform: Platform.HYPERLIQUID,
+        token: 'BTC',
+        decision,
+      });
+
+      expect(result).toEqual({ _id: 'decision-id' });
+      expect(mockTradingDecisionRepository.create).toHaveBeenCalledWith({
+        platform: Platform.HYPERLIQUID,
+        token: 'BTC',
+        outcome: TradingDecisionOutcome.APPROVED,
+        shouldTrade: true,
+        reason: 'Good opportunity',
+        confidence: 0.8,
+        recommendedAmount: 100,
+        direction: PositionDirection.LONG,
+        metadata: decision.metadata,
+      });
+    });
+
+    it('should record rejected decisions', async () => {
+      await service.recordDecision({
+        platform: Platform.HYPERLIQUID,
+        token: 'BTC',
+        decision: { ...decision, shouldTrade: false },
+      });
+
+      expect(mockTradingDecisionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: TradingDecisionOutcome.REJECTED,
+          shouldTrade: false,
+        }),
+      );
+    });
+
+    it('should return null if the write fails', async () => {
+      mockTradingDecisionRepository.create.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      const result = await service.recordDecision({
+        platform: Platform.HYPERLIQUID,
+        token: 'BTC',
+        decision,
+      });
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('markEntered', () => {
+    it('should link the decision to the position', async () => {
+      await service.markEntered('decision-id', 'position-id');
+
+      expect(mockTradingDecisionRepository.updateById).toHaveBeenCalledWith(
+        'decision-id',
+        {
+          outcome: TradingDecisionOutcome.ENTERED,
+          position: 'position-id',
+        },
+      );
+    });
+
+    it('should skip opportunities without a recorded decision', async () => {
+      await service.markEntered(undefined, 'position-id');
+
+      expect(mockTradingDecisionRepository.updateById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markEntryFailed', () => {
+    it('should store the entry error', async () => {
+      mockTradingDecisionRepository.updateById.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      await expect(
+        service.markEntryFailed('decision-id', 'Exchange error'),
+      ).resolves.toBeUndefined();
+      expect(mockTradingDecisionRepository.updateById).toHaveBeenCalledWith(
+        'decision-id',
+        {
+          outcome: TradingDecisionOutcome.ENTRY_FAILED,
+          entryError: 'Exchange error',
+        },
+      );
+    });
+  });
+});
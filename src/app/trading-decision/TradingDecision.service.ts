@@ -0,0 +1,85 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { UpdateQuery } from 'mongoose';
+import {
+  CreateTradingDecisionOptions,
+  PositionDirection,
+  TradingDecisionOutcome,
+} from '../../shared';
+import { TradingDecisionDocument } from './TradingDecision.schema';
+import { TradingDecisionRepository } from './TradingDecision.repository';
+
+/**
+ * Audit log of strategy entry decisions
+ * Writes never throw: a failed audit write must not block trading
+ */
+@Injectable()
+export class TradingDecisionService {
+  private readonly logger = new Logger(TradingDecisionService.name);
+
+  constructor(
+    private readonly tradingDecisionRepository: TradingDecisionRepository,
+  ) {}
+
+  async recordDecision(
+    options: CreateTradingDecisionOptions,
+  ): Promise<TradingDecisionDocument | null> {
+    const { platform, token, decision } = options;
+
+    try {
+      return await this.tradingDecisionRepository.create({
+        platform,
+        token,
+        outcome: decision.shouldTrade
+          ? TradingDecisionOutcome.APPROVED
+          : TradingDecisionOutcome.REJECTED,
+        shouldTrade: decision.shouldTrade,
+        reason: decision.reason,
+        confidence: decision.confidence,
+        recommendedAmount: decision.recommendedAmount,
+        direction: decision.metadata?.direction as PositionDirection,
+        metadata: decision.metadata,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record trading decision for ${token} on ${platform}:`,
+        error,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Link an approved decision to the position opened from it
+   */
+  async markEntered(decisionId: string, positionId: string): Promise<void> {
+    await this.updateOutcome(decisionId, {
+      outcome: TradingDecisionOutcome.ENTERED,
+      position: positionId,
+    });
+  }
+
+  async markEntryFailed(decisionId: string, entryError: string): Promise<void> {
+    await this.updateOutcome(decisionId, {
+      outcome: TradingDecisionOutcome.ENTRY_FAILED,
+      entryError,
+    });
+  }
+
+  private async updateOutcome(
+    decisionId: string,
+    update: UpdateQuery<TradingDecisionDocument>,
+  ): Promise<void> {
+    if (!decisionId) {
+      return;
+    }
+
+    try {
+      await this.tradingDecisionRepository.updateById(decisionId, update);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to update trading decision ${decisionId}:`,
+        error,
+      );
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { NestFactory } from '@nestjs/core';
+import { ConfigModule } from '@nestjs/config';
+import { Logger, Module } from '@nestjs/common';
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import indexerConfig from './config/indexer.config';
+import { hyperliquidConfig } from './config/hyperliquid.config';
+import { BacktestModule } from './app/backtest/Backtest.module';
+import { BacktestService } from './app/backtest/Backtest.service';
+import { BacktestDataLoaderService } from './app/backtest/BacktestDataLoader.service';
+import { BracketMode } from './shared';
+
+const USAGE = `Usage: yarn backtest --token <TOKEN> [options]
+
+  --token <symbol>        Token to replay (required)
+  --candles <file>        1-minute candles as CSV or JSON (default: fetch from the indexer)
+  --limit <n>             Number of candles to fetch from the indexer (default: 1440)
+  --signals <file>        Recorded predictor responses (JSON)
+  --interval <minutes>    Strategy evaluation interval (default: 1)
+  --balance <usdc>        Initial balance (default: 10000)
+  --amount <usdc>         Position size per trade
+  --leverage <n>          Leverage per trade
+  --stop-loss <percent>   Stop-loss distance
+  --take-profit <percent> Take-profit distance
+  --bracket <mode>        Bracket mode, percent or atr (default: percent)
+  --slippage-bps <bps>    Simulated slippage (default: 5)
+  --fee-bps <bps>         Simulated taker fee (default: 4.5)
+  --set <key=value>       Override a hyperliquid config value, repeatable
+  --output <file>         Write the full result as JSON`;
+
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      load: [indexerConfig, hyperliquidConfig],
+      isGlobal: true,
+    }),
+    BacktestModule,
+  ],
+})
+class BacktestCliModule {}
+
+const toNumber = (value: string | undefined): number | undefined =>
+  value === undefined ? undefined : Number(value);
+
+const parseOverrides = (entries: string[] = []): Record<string, unknown> =>
+  Object.fromEntries(
+    entries.map((entry) => {
+      const [key, ...rest] = entry.split('=');
+      const raw = rest.join('=');
+      if (!key || rest.length === 0) {
+        throw new Error(`Invalid --set value: ${entry}`);
+      }
+      // Config values are numbers and booleans once loaded
+      const value =
+        raw === 'true' || raw === 'false'
+          ? raw === 'true'
+          : raw !== '' && !isNaN(Number(raw))
+            ? Number(raw)
+            : raw;
+      return [key, value];
+    }),
+  );
+
+async function bootstrap(): Promise<void> {
+  const logger = new Logger('Backtest');
+
+  const { values } = parseArgs({
+    options: {
+      token: { type: 'string' },
+      candles: { type: 'string' },
+      limit: { type: 'string' },
+      signals: { type: 'string' },
+      interval: { type: 'string' },
+      balance: { type: 'string' },
+      amount: { type: 'string' },
+      leverage: { type: 'string' },
+      'stop-loss': { type: 'string' },
+      'take-profit': { type: 'string' },
+      bracket: { type: 'string' },
+      'slippage-bps': { type: 'string' },
+      'fee-bps': { type: 'string' },
+      set: { type: 'string', multiple: true },
+      output: { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help || !values.token) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const app = await NestFactory.createApplicationContext(BacktestCliModule, {
+    logger: ['error', 'warn', 'log'],
+  });
+
+  try {
+    const loader = app.get(BacktestDataLoaderService);
+    const backtestService = app.get(BacktestService);
+
+    const candles = values.candles
+      ? await loader.loadCandlesFromFile(values.candles)
+      : await loader.loadCandlesFromIndexer(
+          values.token,
+          toNumber(values.limit) || 1440,
+        );
+    const signals = values.signals
+      ? await loader.loadSignalsFromFile(values.signals)
+      : undefined;
+
+    const bracketMode = values.bracket as BracketMode | undefined;
+    if (bracketMode && !Object.values(BracketMode).includes(bracketMode)) {
+      throw new Error(`Invalid --bracket value: ${values.bracket}`);
+    }
+
+    const result = await backtestService.run({
+      token: values.token,
+      candles,
+      signals,
+      evaluationIntervalMinutes: toNumber(values.interval),
+      initialBalance: toNumber(values.balance),
+      slippageBps: toNumber(values['slippage-bps']),
+      takerFeeBps: toNumber(values['fee-bps']),
+      configOverrides: parseOverrides(values.set),
+      tradingParams: {
+        defaultAmountIn: toNumber(values.amount),
+        defaultLeverage: toNumber(values.leverage),
+        stopLossPercent: toNumber(values['stop-loss']),
+        takeProfitPercent: toNumber(values['take-profit']),
+      },
+      bracketMode,
+    });
+
+    logger.log(
+      `${result.token} ${result.startTime.toISOString()} → ${result.endTime.toISOString()}`,
+    );
+    logger.log(
+      `Trades: ${result.overview.totalTrades}, win rate: ${result.overview.winRate.toFixed(1)}%`,
+    );
+    logger.log(
+      `PnL: ${result.overview.totalPnl.toFixed(2)} gross, fees: ${result.totalFees.toFixed(2)}, balance: ${result.initialBalance.toFixed(2)} → ${result.finalBalance.toFixed(2)}`,
+    );
+    logger.log(
+      `Max drawdown: ${result.maxDrawdown.toFixed(2)} (${result.maxDrawdownPercent.toFixed(2)}%), Sharpe: ${result.sharpeRatio.toFixed(2)}`,
+    );
+
+    if (values.output) {
+      await writeFile(values.output, JSON.stringify(result, null, 2));
+      logger.log(`Result written to ${values.output}`);
+    }
+  } catch (error) {
+    logger.error('Backtest failed', error);
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+}
+
+bootstrap();
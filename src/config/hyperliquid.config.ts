@@ -27,11 +27,25 @@ export const hyperliquidConfig = registerAs('hyperliquid', () => ({
   takeProfitPercent: parseFloat(process.env.HL_TAKE_PROFIT_PERCENT || '20'),
   defaultAmountIn: parseFloat(process.env.HL_DEFAULT_AMOUNT_IN || '10'), // 10 USDC
 
+  // Risk-based position sizing, replaces the recommended amount when enabled
+  riskPerTradePercent: parseFloat(process.env.HL_RISK_PER_TRADE_PERCENT || '0'), // Equity lost when the stop is hit, 0 disables
+  kellyFraction: parseFloat(process.env.HL_KELLY_FRACTION || '0'), // Fraction of the Kelly bet, 0 disables
+  minOrderNotional: parseFloat(process.env.HL_MIN_ORDER_NOTIONAL || '10'), // Exchange minimum order value
+
   // HTTP client configuration
   timeoutMs: parseInt(process.env.HL_TIMEOUT_MS || '30000'),
   retryMaxAttempts: parseInt(process.env.HL_RETRY_MAX_ATTEMPTS || '3'),
   retryBaseDelayMs: parseInt(process.env.HL_RETRY_BASE_DELAY_MS || '1000'),
 
+  // WebSocket market data stream
+  marketDataMaxAgeMs: parseInt(
+    process.env.HL_MARKET_DATA_MAX_AGE_MS || '10000',
+  ), // Older streamed data falls back to REST
+  marketDataCandleInterval:
+    process.env.HL_MARKET_DATA_CANDLE_INTERVAL ||
+    process.env.HL_ATR_INTERVAL ||
+    '1h', // The ATR is measured on the stream when the intervals match
+
   // Risk management
   maxLeveragePerSymbol: parseInt(
     process.env.HL_MAX_LEVERAGE_PER_SYMBOL || '10',
@@ -40,6 +54,65 @@ export const hyperliquidConfig = registerAs('hyperliquid', () => ({
     process.env.HL_MAX_NOTIONAL_PER_ORDER || '10000',
   ),
   maxTotalNotional: parseFloat(process.env.HL_MAX_TOTAL_NOTIONAL || '50000'),
+  maxSpreadBps: parseFloat(process.env.HL_MAX_SPREAD_BPS || '50'), // Default when the perp sets no limit
+  maxSlippageBps: parseFloat(process.env.HL_MAX_SLIPPAGE_BPS || '50'), // Expected entry slippage vs mid
+
+  // IOC execution
+  iocSlippageBps: parseFloat(process.env.HL_IOC_SLIPPAGE_BPS || '50'), // Limit price band around mark
+  exitSlippageStepBps: parseFloat(
+    process.env.HL_EXIT_SLIPPAGE_STEP_BPS || '50',
+  ), // Band widening per exit retry
+
+  // Maker (ALO) entries
+  makerRequoteIntervalMs: parseInt(
+    process.env.HL_MAKER_REQUOTE_INTERVAL_MS || '5000',
+  ), // How often a resting entry follows the book
+  makerTimeoutMs: parseInt(process.env.HL_MAKER_TIMEOUT_MS || '60000'), // Then the remainder is sent as IOC
+
+  // TWAP/iceberg entries
+  twapSlices: parseInt(process.env.HL_TWAP_SLICES || '5'),
+  twapIntervalMs: parseInt(process.env.HL_TWAP_INTERVAL_MS || '30000'),
+  icebergDisplayNotional: parseFloat(
+    process.env.HL_ICEBERG_DISPLAY_NOTIONAL || '500',
+  ), // Visible size of each iceberg child in USDC
+  icebergPollMs: parseInt(process.env.HL_ICEBERG_POLL_MS || '5000'), // How often a resting child is checked
+  algoMaxDurationMs: parseInt(process.env.HL_ALGO_MAX_DURATION_MS || '1800000'), // Then the parent stops with what filled
+
+  // Bracket entries (entry, SL and TP in one grouped order)
+  bracketOrders: process.env.HL_BRACKET_ORDERS === 'true' || false,
+  bracketGrouping: process.env.HL_BRACKET_GROUPING || 'normalTpsl', // positionTpsl resizes SL/TP with the position
+
+  // Exchange/database reconciliation
+  reconciliationGraceMs: parseInt(
+    process.env.HL_RECONCILIATION_GRACE_MS || '120000',
+  ), // Leave in-flight entries and recent fills to the WebSocket handler
+
+  // Circuit breaker, halts new entries until re-armed on the dashboard
+  maxDailyLossUsd: parseFloat(process.env.HL_MAX_DAILY_LOSS_USD || '0'), // 0 disables
+  maxDrawdownPercent: parseFloat(process.env.HL_MAX_DRAWDOWN_PERCENT || '0'), // 0 disables
+  circuitBreakerFlatten: process.env.HL_CIRCUIT_BREAKER_FLATTEN === 'true',
+
+  // Re-entry cooldown per token and direction after an exit, per exit reason
+  // (keys match ExitReason), overridable per perp; 0 disables
+  cooldownMinutes: {
+    stop_loss: parseInt(process.env.HL_COOLDOWN_STOP_LOSS_MINUTES || '60'),
+    take_profit: parseInt(process.env.HL_COOLDOWN_TAKE_PROFIT_MINUTES || '0'),
+    ai_exit: parseInt(process.env.HL_COOLDOWN_AI_EXIT_MINUTES || '15'),
+    manual: parseInt(process.env.HL_COOLDOWN_MANUAL_MINUTES || '0'),
+  },
+
+  // Funding ledger
+  fundingLookbackMs: parseInt(
+    process.env.HL_FUNDING_LOOKBACK_MS || '604800000',
+  ), // First sync pulls 7 days of funding history
+
+  // ATR brackets, for perps with bracketMode atr
+  atrInterval: process.env.HL_ATR_INTERVAL || '1h', // Hyperliquid candle interval
+  atrPeriod: parseInt(process.env.HL_ATR_PERIOD || '14'),
+  atrStopMultiplier: parseFloat(process.env.HL_ATR_STOP_MULTIPLIER || '2'), // SL distance in ATRs
+  riskRewardRatio: parseFloat(process.env.HL_RISK_REWARD_RATIO || '2'), // TP distance in SL distances
+  atrMinStopPercent: parseFloat(process.env.HL_ATR_MIN_STOP_PERCENT || '1'),
+  atrMaxStopPercent: parseFloat(process.env.HL_ATR_MAX_STOP_PERCENT || '15'),
 
   // Trailing stop-loss and take-profit configuration
   trailingActivationRatio: parseFloat(
@@ -54,6 +127,21 @@ export const hyperliquidConfig = registerAs('hyperliquid', () => ({
   trailingMinIntervalMs: parseInt(
     process.env.HL_TRAILING_MIN_INTERVAL_MS || '300000',
   ), // 5 minutes default
+  trailingAtrOffsets: process.env.HL_TRAILING_ATR_OFFSETS === 'true', // Offsets below in ATRs instead of percent
+  trailingStopOffsetAtr: parseFloat(
+    process.env.HL_TRAILING_STOP_OFFSET_ATR || '1',
+  ),
+  trailingTpOffsetAtr: parseFloat(process.env.HL_TRAILING_TP_OFFSET_ATR || '3'),
+
+  // Paper trading (simulated exchange, real market data)
+  paperTrading: process.env.HL_PAPER_TRADING === 'true' || false,
+  paperInitialBalance: parseFloat(
+    process.env.HL_PAPER_INITIAL_BALANCE || '10000',
+  ), // USDC
+  paperSlippageBps: parseFloat(process.env.HL_PAPER_SLIPPAGE_BPS || '5'),
+  paperTakerFeeBps: parseFloat(process.env.HL_PAPER_TAKER_FEE_BPS || '4.5'),
+  paperFillDelayMs: parseInt(process.env.HL_PAPER_FILL_DELAY_MS || '1000'),
+  paperTriggerPollMs: parseInt(process.env.HL_PAPER_TRIGGER_POLL_MS || '5000'),
 
   // AI Prediction configuration
   predictorMinConfidence: parseFloat(
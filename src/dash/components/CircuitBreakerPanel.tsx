@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { CircuitBreakerStatus } from '../types/dashboard';
+import { rearmCircuitBreaker } from '../services/api';
+
+interface CircuitBreakerPanelProps {
+  circuitBreaker: CircuitBreakerStatus;
+  onUpdate?: () => void;
+}
+
+const formatLimit = (value: number, unit: string) =>
+  value > 0 ? `${value}${unit}` : 'disabled';
+
+export function CircuitBreakerPanel({
+  circuitBreaker,
+  onUpdate,
+}: CircuitBreakerPanelProps) {
+  const [loading, setLoading] = useState(false);
+  const { activeTrip, snapshot } = circuitBreaker;
+
+  const handleRearm = async () => {
+    try {
+      setLoading(true);
+      await rearmCircuitBreaker();
+      if (onUpdate) onUpdate();
+    } catch (error) {
+      console.error('Failed to re-arm circuit breaker:', error);
+      alert('Failed to re-arm circuit breaker. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="card" style={{ marginTop: '1.5rem' }}>
+      <h3 className="text-xl font-semibold mb-4">Circuit Breaker</h3>
+
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '1rem',
+          backgroundColor: activeTrip ? '#fee2e2' : '#f3f4f6',
+          borderRadius: '8px',
+        }}
+      >
+        <div>
+          <h4 className="font-semibold mb-2">
+            {activeTrip ? `Tripped (${activeTrip.reason})` : 'Armed'}
+          </h4>
+          <p className="text-sm text-gray">
+            {activeTrip
+              ? `${activeTrip.message}. New entries are halted${activeTrip.flatten ? ' and open positions are being closed' : ''} since ${new Date(activeTrip.trippedAt).toLocaleString()}.`
+              : `Daily loss limit: ${formatLimit(circuitBreaker.maxDailyLossUsd, ' USD')}, drawdown limit: ${formatLimit(circuitBreaker.maxDrawdownPercent, '%')}`}
+          </p>
+        </div>
+
+        {activeTrip && (
+          <button
+            className="btn btn-success"
+            onClick={handleRearm}
+            disabled={loading}
+            style={{ minWidth: '120px' }}
+          >
+            {loading ? 'Re-arming...' : 'Re-arm'}
+          </button>
+        )}
+      </div>
+
+      {snapshot && (
+        <div style={{ marginTop: '1.5rem', paddingTop: '1.5rem', borderTop: '1px solid #e5e7eb' }}>
+          <p className="text-sm text-gray">
+            <strong>Daily PnL:</strong> ${snapshot.dailyPnl.toFixed(2)} |{' '}
+            <strong>Equity:</strong> ${snapshot.equity.toFixed(2)} (peak $
+            {snapshot.peakEquity.toFixed(2)}, drawdown{' '}
+            {snapshot.drawdownPercent.toFixed(2)}%)
+          </p>
+          <p className="text-sm text-gray">
+            <strong>Last Checked:</strong>{' '}
+            {new Date(circuitBreaker.checkedAt || '').toLocaleString()}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,59 @@
 import React, { useState } from 'react';
-import { Perp } from '../types/dashboard';
+import {
+  Cooldown,
+  CooldownMinutes,
+  ExitReason,
+  Perp,
+  TakeProfitRung,
+} from '../types/dashboard';
 import { updatePerp } from '../services/api';
 
 interface PerpsTableProps {
   perps: Perp[];
+  cooldowns?: Cooldown[];
   onUpdate?: () => void;
 }
 
-export function PerpsTable({ perps, onUpdate }: PerpsTableProps) {
+const COOLDOWN_REASONS: { reason: ExitReason; label: string }[] = [
+  { reason: ExitReason.STOP_LOSS, label: 'SL' },
+  { reason: ExitReason.TAKE_PROFIT, label: 'TP' },
+  { reason: ExitReason.AI_EXIT, label: 'AI' },
+  { reason: ExitReason.MANUAL, label: 'Manual' },
+];
+
+// Ladders are edited as "rMultiple:sizePercent" pairs, e.g. "1:50, 2:30"
+const formatLadder = (ladder: TakeProfitRung[] = []): string =>
+  ladder.map((rung) => `${rung.rMultiple}:${rung.sizePercent}`).join(', ');
+
+const parseLadder = (text: string): TakeProfitRung[] =>
+  text
+    .split(',')
+    .map((pair) => pair.split(':').map((value) => parseFloat(value)))
+    .filter(
+      ([rMultiple, sizePercent]) => !isNaN(rMultiple) && !isNaN(sizePercent),
+    )
+    .map(([rMultiple, sizePercent]) => ({ rMultiple, sizePercent }));
+
+export function PerpsTable({
+  perps,
+  cooldowns = [],
+  onUpdate,
+}: PerpsTableProps) {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editValues, setEditValues] = useState<{
     recommendedAmount?: number;
     defaultLeverage?: number;
+    maxSpreadBps?: number;
+    maxSlippageBps?: number;
+    entryMode?: 'taker' | 'maker';
+    executionAlgo?: 'twap' | 'iceberg' | null;
+    marginMode?: 'cross' | 'isolated';
+    bracketMode?: 'percent' | 'atr';
+    atrStopMultiplier?: number;
+    riskRewardRatio?: number;
+    cooldownMinutes?: CooldownMinutes;
   }>({});
+  const [ladderText, setLadderText] = useState('');
   const [loading, setLoading] = useState(false);
 
   const handleEdit = (perp: Perp) => {
@@ -20,18 +61,32 @@ export function PerpsTable({ perps, onUpdate }: PerpsTableProps) {
     setEditValues({
       recommendedAmount: perp.recommendedAmount,
       defaultLeverage: perp.defaultLeverage,
+      maxSpreadBps: perp.maxSpreadBps,
+      maxSlippageBps: perp.maxSlippageBps,
+      entryMode: perp.entryMode,
+      executionAlgo: perp.executionAlgo ?? null,
+      marginMode: perp.marginMode,
+      bracketMode: perp.bracketMode,
+      atrStopMultiplier: perp.atrStopMultiplier,
+      riskRewardRatio: perp.riskRewardRatio,
+      cooldownMinutes: perp.cooldownMinutes,
     });
+    setLadderText(formatLadder(perp.takeProfitLadder));
   };
 
   const handleCancel = () => {
     setEditingId(null);
     setEditValues({});
+    setLadderText('');
   };
 
   const handleSave = async (id: string) => {
     try {
       setLoading(true);
-      await updatePerp(id, editValues);
+      await updatePerp(id, {
+        ...editValues,
+        takeProfitLadder: parseLadder(ladderText),
+      });
       setEditingId(null);
       setEditValues({});
       if (onUpdate) onUpdate();
@@ -56,13 +111,22 @@ export function PerpsTable({ perps, onUpdate }: PerpsTableProps) {
             <th>Market Direction</th>
             <th>Recommended Amount</th>
             <th>Default Leverage</th>
+            <th>Max Spread (bps)</th>
+            <th>Max Slippage (bps)</th>
+            <th>Entry Mode</th>
+            <th>Execution Algo</th>
+            <th>Margin Mode</th>
+            <th>SL/TP Bracket</th>
+            <th>TP Ladder</th>
+            <th>Cooldown (min)</th>
+            <th>Last Risk Rejection</th>
             <th>Actions</th>
           </tr>
         </thead>
         <tbody>
           {perps.length === 0 ? (
             <tr>
-              <td colSpan={9} style={{ textAlign: 'center', padding: '2rem' }}>
+              <td colSpan={18} style={{ textAlign: 'center', padding: '2rem' }}>
                 No perps found
               </td>
             </tr>
@@ -135,6 +199,270 @@ export function PerpsTable({ perps, onUpdate }: PerpsTableProps) {
                     `${perp.defaultLeverage || 1}x`
                   )}
                 </td>
+                <td>
+                  {editingId === perp._id ? (
+                    <input
+                      type="number"
+                      value={editValues.maxSpreadBps ?? ''}
+                      onChange={(e) =>
+                        setEditValues({
+                          ...editValues,
+                          maxSpreadBps:
+                            e.target.value === '' ? undefined : parseFloat(e.target.value),
+                        })
+                      }
+                      style={{ width: '80px' }}
+                      placeholder="Default"
+                    />
+                  ) : (
+                    perp.maxSpreadBps ?? 'Default'
+                  )}
+                </td>
+                <td>
+                  {editingId === perp._id ? (
+                    <input
+                      type="number"
+                      value={editValues.maxSlippageBps ?? ''}
+                      onChange={(e) =>
+                        setEditValues({
+                          ...editValues,
+                          maxSlippageBps:
+                            e.target.value === '' ? undefined : parseFloat(e.target.value),
+                        })
+                      }
+                      style={{ width: '80px' }}
+                      placeholder="Default"
+                    />
+                  ) : (
+                    perp.maxSlippageBps ?? 'Default'
+                  )}
+                </td>
+                <td>
+                  {editingId === perp._id ? (
+                    <select
+                      value={editValues.entryMode ?? 'taker'}
+                      onChange={(e) =>
+                        setEditValues({
+                          ...editValues,
+                          entryMode: e.target.value as 'taker' | 'maker',
+                        })
+                      }
+                      style={{ padding: '0.25rem' }}
+                    >
+                      <option value="taker">Taker (IOC)</option>
+                      <option value="maker">Maker (ALO)</option>
+                    </select>
+                  ) : (
+                    <span
+                      className={`badge ${perp.entryMode === 'maker' ? 'badge-green' : 'badge-gray'}`}
+                    >
+                      {perp.entryMode === 'maker' ? 'Maker' : 'Taker'}
+                    </span>
+                  )}
+                </td>
+                <td>
+                  {editingId === perp._id ? (
+                    <select
+                      value={editValues.executionAlgo ?? ''}
+                      onChange={(e) =>
+                        setEditValues({
+                          ...editValues,
+                          executionAlgo:
+                            e.target.value === ''
+                              ? null
+                              : (e.target.value as 'twap' | 'iceberg'),
+                        })
+                      }
+                      style={{ padding: '0.25rem' }}
+                    >
+                      <option value="">None</option>
+                      <option value="twap">TWAP</option>
+                      <option value="iceberg">Iceberg</option>
+                    </select>
+                  ) : perp.executionAlgo ? (
+                    <span className="badge badge-green">
+                      {perp.executionAlgo === 'twap' ? 'TWAP' : 'Iceberg'}
+                    </span>
+                  ) : (
+                    '-'
+                  )}
+                </td>
+                <td>
+                  {editingId === perp._id ? (
+                    <select
+                      value={editValues.marginMode ?? 'cross'}
+                      onChange={(e) =>
+                        setEditValues({
+                          ...editValues,
+                          marginMode: e.target.value as 'cross' | 'isolated',
+                        })
+                      }
+                      style={{ padding: '0.25rem' }}
+                    >
+                      <option value="cross">Cross</option>
+                      <option value="isolated">Isolated</option>
+                    </select>
+                  ) : (
+                    <span
+                      className={`badge ${perp.marginMode === 'isolated' ? 'badge-green' : 'badge-gray'}`}
+                    >
+                      {perp.marginMode === 'isolated' ? 'Isolated' : 'Cross'}
+                    </span>
+                  )}
+                </td>
+                <td>
+                  {editingId === perp._id ? (
+                    <div style={{ display: 'flex', gap: '0.25rem' }}>
+                      <select
+                        value={editValues.bracketMode ?? 'percent'}
+                        onChange={(e) =>
+                          setEditValues({
+                            ...editValues,
+                            bracketMode: e.target.value as 'percent' | 'atr',
+                          })
+                        }
+                        style={{ padding: '0.25rem' }}
+                      >
+                        <option value="percent">Percent</option>
+                        <option value="atr">ATR</option>
+                      </select>
+                      {editValues.bracketMode === 'atr' && (
+                        <>
+                          <input
+                            type="number"
+                            step="0.1"
+                            value={editValues.atrStopMultiplier ?? ''}
+                            onChange={(e) =>
+                              setEditValues({
+                                ...editValues,
+                                atrStopMultiplier:
+                                  e.target.value === ''
+                                    ? undefined
+                                    : parseFloat(e.target.value),
+                              })
+                            }
+                            style={{ width: '60px' }}
+                            placeholder="SL ATR"
+                            title="SL distance in ATRs, empty for the default"
+                          />
+                          <input
+                            type="number"
+                            step="0.1"
+                            value={editValues.riskRewardRatio ?? ''}
+                            onChange={(e) =>
+                              setEditValues({
+                                ...editValues,
+                                riskRewardRatio:
+                                  e.target.value === ''
+                                    ? undefined
+                                    : parseFloat(e.target.value),
+                              })
+                            }
+                            style={{ width: '60px' }}
+                            placeholder="R:R"
+                            title="TP distance in SL distances, empty for the default"
+                          />
+                        </>
+                      )}
+                    </div>
+                  ) : perp.bracketMode === 'atr' ? (
+                    <span className="badge badge-green">
+                      ATR {perp.atrStopMultiplier ?? 'default'}x, R:R{' '}
+                      {perp.riskRewardRatio ?? 'default'}
+                    </span>
+                  ) : (
+                    <span className="badge badge-gray">Percent</span>
+                  )}
+                </td>
+                <td>
+                  {editingId === perp._id ? (
+                    <input
+                      type="text"
+                      value={ladderText}
+                      onChange={(e) => setLadderText(e.target.value)}
+                      style={{ width: '100px' }}
+                      placeholder="1:50, 2:30"
+                      title="R multiple:percent closed per rung, empty to take the whole size at the TP"
+                    />
+                  ) : perp.takeProfitLadder?.length ? (
+                    <span
+                      className="badge badge-green"
+                      title="The SL moves to break-even after the first rung fills"
+                    >
+                      {perp.takeProfitLadder
+                        .map(
+                          (rung) => `${rung.sizePercent}% @ ${rung.rMultiple}R`,
+                        )
+                        .join(', ')}
+                    </span>
+                  ) : (
+                    '-'
+                  )}
+                </td>
+                <td>
+                  {editingId === perp._id ? (
+                    <div style={{ display: 'flex', gap: '0.25rem' }}>
+                      {COOLDOWN_REASONS.map(({ reason, label }) => (
+                        <input
+                          key={reason}
+                          type="number"
+                          min={0}
+                          value={editValues.cooldownMinutes?.[reason] ?? ''}
+                          onChange={(e) =>
+                            setEditValues({
+                              ...editValues,
+                              cooldownMinutes: {
+                                ...editValues.cooldownMinutes,
+                                [reason]:
+                                  e.target.value === ''
+                                    ? undefined
+                                    : parseFloat(e.target.value),
+                              },
+                            })
+                          }
+                          style={{ width: '60px' }}
+                          placeholder={label}
+                          title={`${label} cooldown, empty for the default`}
+                        />
+                      ))}
+                    </div>
+                  ) : (
+                    <div>
+                      {cooldowns
+                        .filter((cooldown) => cooldown.token === perp.token)
+                        .map((cooldown) => (
+                          <span
+                            key={cooldown._id}
+                            className="badge badge-red"
+                            title={`After ${cooldown.reason}`}
+                          >
+                            {cooldown.direction} until{' '}
+                            {new Date(cooldown.until).toLocaleTimeString()}
+                          </span>
+                        ))}
+                      <div className="text-sm text-gray">
+                        {COOLDOWN_REASONS.map(
+                          ({ reason, label }) =>
+                            `${label} ${perp.cooldownMinutes?.[reason] ?? '-'}`,
+                        ).join(' / ')}
+                      </div>
+                    </div>
+                  )}
+                </td>
+                <td>
+                  {perp.lastRiskRejection ? (
+                    <span
+                      className="badge badge-red"
+                      title={`${perp.lastRiskRejection.reason} (${new Date(
+                        perp.lastRiskRejection.timestamp,
+                      ).toLocaleString()})`}
+                    >
+                      {perp.lastRiskRejection.code}
+                    </span>
+                  ) : (
+                    '-'
+                  )}
+                </td>
                 <td>
                   {editingId === perp._id ? (
                     <div style={{ display: 'flex', gap: '0.5rem' }}>
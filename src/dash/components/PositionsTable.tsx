@@ -188,6 +188,7 @@ export function PositionsTable({ positions, onUpdate, pagination }: PositionsTab
               <th>Entry Price</th>
               <th>Current Price</th>
               <th>PnL</th>
+              <th>Net PnL</th>
               <th>PnL %</th>
               <th>Leverage</th>
               <th>Opened</th>
@@ -197,14 +198,24 @@ export function PositionsTable({ positions, onUpdate, pagination }: PositionsTab
           <tbody>
             {positions.length === 0 ? (
               <tr>
-                <td colSpan={10} style={{ textAlign: 'center', padding: '2rem' }}>
+                <td colSpan={11} style={{ textAlign: 'center', padding: '2rem' }}>
                   No positions found
                 </td>
               </tr>
             ) : (
               positions.map((position) => (
                 <tr key={position.id}>
-                  <td className="font-semibold">{position.token}</td>
+                  <td className="font-semibold">
+                    {position.token}
+                    {position.isPaper && (
+                      <span
+                        className="badge badge-gray"
+                        style={{ marginLeft: '0.5rem' }}
+                      >
+                        PAPER
+                      </span>
+                    )}
+                  </td>
                   <td>{getStatusBadge(position.status)}</td>
                   <td>
                     <span
@@ -222,6 +233,9 @@ export function PositionsTable({ positions, onUpdate, pagination }: PositionsTab
                   <td className={getPnlColor(position.realizedPnl)}>
                     {formatCurrency(position.realizedPnl)}
                   </td>
+                  <td className={getPnlColor(position.netPnl)}>
+                    {formatCurrency(position.netPnl)}
+                  </td>
                   <td className={getPnlColor(position.pnlPercent)}>
                     {formatPercent(position.pnlPercent)}
                   </td>
@@ -5,9 +5,13 @@ import {
   getPositions,
   getPerps,
   getSettings,
+  getCircuitBreaker,
+  getCooldowns,
   clearAuthToken,
 } from '../services/api';
 import {
+  CircuitBreakerStatus,
+  Cooldown,
   DashboardAnalytics,
   Position,
   Perp,
@@ -20,6 +24,7 @@ import { ProfitChart } from '../components/ProfitChart';
 import { PositionsTable } from '../components/PositionsTable';
 import { PerpsTable } from '../components/PerpsTable';
 import { SettingsPanel } from '../components/SettingsPanel';
+import { CircuitBreakerPanel } from '../components/CircuitBreakerPanel';
 import {
   TrendingUp,
   DollarSign,
@@ -37,6 +42,9 @@ export default function Dashboard() {
   const [positionsLimit] = useState(50);
   const [perps, setPerps] = useState<Perp[]>([]);
   const [settings, setSettings] = useState<Settings | null>(null);
+  const [circuitBreaker, setCircuitBreaker] =
+    useState<CircuitBreakerStatus | null>(null);
+  const [cooldowns, setCooldowns] = useState<Cooldown[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [period, setPeriod] = useState<TimePeriod>(TimePeriod.LAST_30_DAYS);
@@ -54,19 +62,29 @@ export default function Dashboard() {
 
       const offset = (positionsPage - 1) * positionsLimit;
 
-      const [analyticsData, positionsData, perpsData, settingsData] =
-        await Promise.all([
-          getDashboardAnalytics({ period }),
-          getPositions(positionStatus, positionsLimit, offset),
-          getPerps(),
-          getSettings(),
-        ]);
+      const [
+        analyticsData,
+        positionsData,
+        perpsData,
+        settingsData,
+        circuitBreakerData,
+        cooldownsData,
+      ] = await Promise.all([
+        getDashboardAnalytics({ period }),
+        getPositions(positionStatus, positionsLimit, offset),
+        getPerps(),
+        getSettings(),
+        getCircuitBreaker(),
+        getCooldowns(),
+      ]);
 
       setAnalytics(analyticsData);
       setPositions(positionsData.positions);
       setPositionsTotal(positionsData.total);
       setPerps(perpsData);
       setSettings(settingsData);
+      setCircuitBreaker(circuitBreakerData);
+      setCooldowns(cooldownsData);
     } catch (err: any) {
       console.error('Failed to fetch data:', err);
       setError(err.message || 'Failed to load dashboard data');
@@ -198,9 +216,10 @@ export default function Dashboard() {
           {/* KPI Cards */}
           <div className="grid grid-4">
             <MetricCard
-              title="Total PnL"
+              title="Gross PnL"
               value={`$${analytics.overview.totalPnl.toFixed(2)}`}
               trend={analytics.overview.totalPnl > 0 ? 'up' : 'down'}
+              subtitle={`$${analytics.overview.totalNetPnl.toFixed(2)} net of fees and funding`}
               icon={<DollarSign />}
             />
             <MetricCard
@@ -242,7 +261,8 @@ export default function Dashboard() {
                 <thead>
                   <tr>
                     <th>Token</th>
-                    <th>Total PnL</th>
+                    <th>Gross PnL</th>
+                    <th>Net PnL</th>
                     <th>Win Rate</th>
                     <th>Trades</th>
                   </tr>
@@ -258,6 +278,13 @@ export default function Dashboard() {
                       >
                         ${token.totalPnl.toFixed(2)}
                       </td>
+                      <td
+                        className={
+                          token.totalNetPnl > 0 ? 'text-green' : 'text-red'
+                        }
+                      >
+                        ${token.totalNetPnl.toFixed(2)}
+                      </td>
                       <td>{token.winRate.toFixed(1)}%</td>
                       <td>{token.tradeCount}</td>
                     </tr>
@@ -317,7 +344,11 @@ export default function Dashboard() {
       {activeTab === 'perps' && (
         <div className="card">
           <h3 className="text-xl font-semibold mb-4">Perpetual Contracts Configuration</h3>
-          <PerpsTable perps={perps} onUpdate={fetchData} />
+          <PerpsTable
+            perps={perps}
+            cooldowns={cooldowns}
+            onUpdate={fetchData}
+          />
         </div>
       )}
 
@@ -325,6 +356,12 @@ export default function Dashboard() {
       {activeTab === 'settings' && settings && (
         <SettingsPanel settings={settings} onUpdate={fetchData} />
       )}
+      {activeTab === 'settings' && circuitBreaker && (
+        <CircuitBreakerPanel
+          circuitBreaker={circuitBreaker}
+          onUpdate={fetchData}
+        />
+      )}
     </div>
   );
 }
@@ -6,6 +6,7 @@ import {
   updatePerp,
   getSettings,
   updateSettings,
+  rearmCircuitBreaker,
   hasAuthSession,
   ApiError,
 } from './api';
@@ -217,4 +218,29 @@ describe('API Client', () => {
       expect(result).toEqual(mockSettings);
     });
   });
+
+  describe('rearmCircuitBreaker', () => {
+    it('should send a CSRF protected POST request', async () => {
+      setDocumentCookie(`${CSRF_COOKIE_NAME}=csrf-token`);
+      const mockStatus = { activeTrip: null, recentTrips: [] };
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => mockStatus,
+      });
+
+      const result = await rearmCircuitBreaker();
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://localhost:7777/api/dashboard/circuit-breaker/rearm',
+        expect.objectContaining({
+          method: 'POST',
+          credentials: 'include',
+          headers: expect.objectContaining({
+            'x-csrf-token': 'csrf-token',
+          }),
+        })
+      );
+      expect(result).toEqual(mockStatus);
+    });
+  });
 });
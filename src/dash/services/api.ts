@@ -1,10 +1,14 @@
 import {
+  CircuitBreakerStatus,
+  Cooldown,
+  CooldownMinutes,
   DashboardAnalytics,
   DashboardQuery,
   PaginatedPositions,
   Position,
   Perp,
   Settings,
+  TakeProfitRung,
   TradePositionStatus,
 } from '../types/dashboard';
 
@@ -125,6 +129,8 @@ export async function getDashboardAnalytics(
   if (query.startDate) params.append('startDate', query.startDate);
   if (query.endDate) params.append('endDate', query.endDate);
   if (query.token) params.append('token', query.token);
+  if (query.isPaper !== undefined)
+    params.append('isPaper', query.isPaper.toString());
 
   const queryString = params.toString();
   return fetchApi<DashboardAnalytics>(
@@ -136,12 +142,14 @@ export async function getPositions(
   status?: TradePositionStatus,
   limit: number = 50,
   offset: number = 0,
+  isPaper?: boolean,
 ): Promise<PaginatedPositions> {
   const params = new URLSearchParams();
 
   if (status) params.append('status', status);
   params.append('limit', limit.toString());
   params.append('offset', offset.toString());
+  if (isPaper !== undefined) params.append('isPaper', isPaper.toString());
 
   return fetchApi<PaginatedPositions>(
     `/api/dashboard/positions?${params.toString()}`,
@@ -164,7 +172,20 @@ export async function getPerps(): Promise<Perp[]> {
 
 export async function updatePerp(
   id: string,
-  data: { recommendedAmount?: number; defaultLeverage?: number },
+  data: {
+    recommendedAmount?: number;
+    defaultLeverage?: number;
+    maxSpreadBps?: number;
+    maxSlippageBps?: number;
+    entryMode?: 'taker' | 'maker';
+    executionAlgo?: 'twap' | 'iceberg' | null;
+    marginMode?: 'cross' | 'isolated';
+    bracketMode?: 'percent' | 'atr';
+    atrStopMultiplier?: number;
+    riskRewardRatio?: number;
+    takeProfitLadder?: TakeProfitRung[];
+    cooldownMinutes?: CooldownMinutes;
+  },
 ): Promise<Perp> {
   return fetchApi<Perp>(`/api/dashboard/perps/${id}`, {
     method: 'PATCH',
@@ -185,6 +206,21 @@ export async function updateSettings(
   });
 }
 
+export async function getCircuitBreaker(): Promise<CircuitBreakerStatus> {
+  return fetchApi<CircuitBreakerStatus>('/api/dashboard/circuit-breaker');
+}
+
+export async function rearmCircuitBreaker(): Promise<CircuitBreakerStatus> {
+  return fetchApi<CircuitBreakerStatus>(
+    '/api/dashboard/circuit-breaker/rearm',
+    { method: 'POST' },
+  );
+}
+
+export async function getCooldowns(): Promise<Cooldown[]> {
+  return fetchApi<Cooldown[]>('/api/dashboard/cooldowns');
+}
+
 export function clearAuthToken(): void {
   // Cookie-based auth - no client-side action needed
   // Actual logout happens via /api/auth/logout endpoint
@@ -15,6 +15,9 @@ export enum TradePositionStatus {
 
 export interface DashboardOverview {
   totalPnl: number;
+  totalFees: number;
+  totalFundingPaid: number;
+  totalNetPnl: number;
   totalVolume: number;
   winRate: number;
   openPositionsCount: number;
@@ -25,11 +28,13 @@ export interface DashboardOverview {
 export interface TimeSeriesDataPoint {
   date: string;
   pnl: number;
+  netPnl: number;
 }
 
 export interface TokenBreakdown {
   token: string;
   totalPnl: number;
+  totalNetPnl: number;
   totalVolume: number;
   winRate: number;
   tradeCount: number;
@@ -53,8 +58,13 @@ export interface Position {
   takeProfitPrice?: number;
   stopLossPrice?: number;
   realizedPnl?: number;
+  totalFees: number;
+  netRealizedPnl: number;
+  fundingPaid: number;
+  netPnl: number;
   leverage?: number;
   exitFlag?: boolean;
+  isPaper?: boolean;
   timeOpened?: string;
   timeClosed?: string;
   pnlPercent?: number;
@@ -78,10 +88,33 @@ export interface Perp {
   isActive: boolean;
   defaultLeverage?: number;
   recommendedAmount?: number;
+  maxSpreadBps?: number;
+  maxSlippageBps?: number;
+  entryMode?: 'taker' | 'maker';
+  executionAlgo?: 'twap' | 'iceberg';
+  marginMode?: 'cross' | 'isolated';
+  bracketMode?: 'percent' | 'atr';
+  atrStopMultiplier?: number;
+  riskRewardRatio?: number;
+  takeProfitLadder?: TakeProfitRung[];
+  cooldownMinutes?: CooldownMinutes;
+  lastRiskRejection?: RiskRejection;
   createdAt?: string;
   updatedAt?: string;
 }
 
+export interface TakeProfitRung {
+  rMultiple: number;
+  sizePercent: number;
+}
+
+export interface RiskRejection {
+  code: string;
+  reason: string;
+  details?: Record<string, number>;
+  timestamp: string;
+}
+
 export interface Settings {
   _id: string;
   closeAllPositions: boolean;
@@ -89,9 +122,59 @@ export interface Settings {
   updatedAt?: string;
 }
 
+export enum CircuitBreakerReason {
+  DAILY_LOSS = 'DAILY_LOSS',
+  DRAWDOWN = 'DRAWDOWN',
+}
+
+export interface CircuitBreakerSnapshot {
+  equity: number;
+  peakEquity: number;
+  drawdownPercent: number;
+  dailyPnl: number;
+}
+
+export interface CircuitBreakerTrip extends CircuitBreakerSnapshot {
+  _id: string;
+  reason: CircuitBreakerReason;
+  message: string;
+  flatten: boolean;
+  isPaper: boolean;
+  trippedAt: string;
+  rearmedAt?: string;
+}
+
+export interface CircuitBreakerStatus {
+  maxDailyLossUsd: number;
+  maxDrawdownPercent: number;
+  flatten: boolean;
+  activeTrip: CircuitBreakerTrip | null;
+  snapshot: CircuitBreakerSnapshot | null;
+  checkedAt?: string;
+  recentTrips: CircuitBreakerTrip[];
+}
+
+export enum ExitReason {
+  STOP_LOSS = 'stop_loss',
+  TAKE_PROFIT = 'take_profit',
+  AI_EXIT = 'ai_exit',
+  MANUAL = 'manual',
+}
+
+export type CooldownMinutes = Partial<Record<ExitReason, number>>;
+
+export interface Cooldown {
+  _id: string;
+  token: string;
+  direction: 'LONG' | 'SHORT';
+  reason: ExitReason;
+  until: string;
+}
+
 export interface DashboardQuery {
   period?: TimePeriod;
   startDate?: string;
   endDate?: string;
   token?: string;
+  isPaper?: boolean;
 }
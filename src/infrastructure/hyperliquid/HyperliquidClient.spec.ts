@@ -17,6 +17,7 @@ jest.mock('hyperliquid', () => ({
         getMetaAndAssetCtxs: jest.fn(),
         getClearinghouseState: jest.fn(),
         getFundingHistory: jest.fn(),
+        getUserFunding: jest.fn(),
       },
       getAllMids: jest.fn(),
       getL2Book: jest.fn(),
@@ -26,7 +27,10 @@ jest.mock('hyperliquid', () => ({
     exchange: {
       placeOrder: jest.fn(),
       cancelOrder: jest.fn(),
+      cancelOrderByCloid: jest.fn(),
+      batchModifyOrders: jest.fn(),
       updateLeverage: jest.fn(),
+      updateIsolatedMargin: jest.fn(),
     },
     isAuthenticated: jest.fn().mockReturnValue(true),
   })),
@@ -114,6 +118,22 @@ describe('HyperliquidClient', () => {
       );
     });
 
+    it('should handle userFunding request', async () => {
+      const sdk = client.getSdk();
+      (sdk.info.perpetuals.getUserFunding as jest.Mock).mockResolvedValue([]);
+
+      const result = await client.getInfo('userFunding', {
+        user: '0x123',
+        startTime: 1000,
+      });
+      expect(result).toEqual([]);
+      expect(sdk.info.perpetuals.getUserFunding).toHaveBeenCalledWith(
+        '0x123',
+        1000,
+        undefined,
+      );
+    });
+
     it('should throw error for unsupported info type', async () => {
       await expect(client.getInfo('unsupportedType' as any)).rejects.toThrow(
         HyperliquidError,
@@ -174,6 +194,89 @@ describe('HyperliquidClient', () => {
       );
     });
 
+    it('should cancel each order by cloid', async () => {
+      const sdk = client.getSdk();
+      (sdk.exchange.cancelOrderByCloid as jest.Mock).mockResolvedValue({
+        status: 'ok',
+      });
+
+      await client.exchangeAction({
+        type: 'cancelByCloid',
+        cancels: [
+          { coin: 'BTC', cloid: '0x0123456789abcdef0123456789abcdef' },
+          { coin: 'ETH', cloid: '0xfedcba9876543210fedcba9876543210' },
+        ],
+      });
+
+      expect(sdk.exchange.cancelOrderByCloid).toHaveBeenCalledTimes(2);
+      expect(sdk.exchange.cancelOrderByCloid).toHaveBeenCalledWith(
+        'BTC',
+        '0x0123456789abcdef0123456789abcdef',
+      );
+    });
+
+    it('should handle batch order modification', async () => {
+      const sdk = client.getSdk();
+      (sdk.exchange.batchModifyOrders as jest.Mock).mockResolvedValue({
+        status: 'ok',
+      });
+
+      const modifies = [
+        {
+          oid: 123,
+          order: {
+            coin: 'BTC',
+            is_buy: false,
+            sz: 0.1,
+            limit_px: 45000,
+            order_type: {
+              trigger: {
+                triggerPx: '45000',
+                isMarket: true,
+                tpsl: 'sl' as const,
+              },
+            },
+            reduce_only: true,
+          },
+        },
+      ];
+
+      await client.exchangeAction({ type: 'batchModify', modifies });
+      expect(sdk.exchange.batchModifyOrders).toHaveBeenCalledWith(modifies);
+    });
+
+    it('should update leverage by coin name', async () => {
+      const sdk = client.getSdk();
+
+      await client.exchangeAction({
+        type: 'updateLeverage',
+        asset: 'BTC',
+        isCross: false,
+        leverage: 5,
+      });
+      expect(sdk.exchange.updateLeverage).toHaveBeenCalledWith(
+        'BTC',
+        'isolated',
+        5,
+      );
+    });
+
+    it('should send isolated margin changes in 1e6 USD units', async () => {
+      const sdk = client.getSdk();
+
+      await client.exchangeAction({
+        type: 'updateIsolatedMargin',
+        asset: 'BTC',
+        isBuy: true,
+        amount: -12.5,
+      });
+      expect(sdk.exchange.updateIsolatedMargin).toHaveBeenCalledWith(
+        'BTC',
+        true,
+        -12500000,
+      );
+    });
+
     it('should throw error when not authenticated', async () => {
       const sdk = client.getSdk();
       (sdk.isAuthenticated as jest.Mock).mockReturnValue(false);
@@ -8,14 +8,19 @@ import {
   type ClearinghouseState,
   type L2Book,
   type UserOpenOrders,
+  type FrontendOpenOrders,
   type UserFills,
   type FundingHistory,
+  type UserFunding,
+  type CandleSnapshot,
+  type OrderStatus,
   type OrderResponse,
   type CancelOrderResponse,
   type OrderRequest,
   type Order,
   type BulkOrderRequest,
   type CancelOrderRequest,
+  type CancelByCloidRequest,
 } from 'hyperliquid';
 import { HyperliquidSignatureAdapter } from './HyperliquidSignatureAdapter';
 
@@ -100,14 +105,35 @@ export class HyperliquidClient {
     type: 'openOrders',
     params: { user: string },
   ): Promise<UserOpenOrders>;
+  async getInfo(
+    type: 'frontendOpenOrders',
+    params: { user: string },
+  ): Promise<FrontendOpenOrders>;
   async getInfo(
     type: 'userFills',
     params: { user: string },
   ): Promise<UserFills>;
+  async getInfo(
+    type: 'orderStatus',
+    params: { user: string; oid: number | string },
+  ): Promise<OrderStatus>;
   async getInfo(
     type: 'fundingHistory',
     params: { coin: string; startTime?: number; endTime?: number },
   ): Promise<FundingHistory>;
+  async getInfo(
+    type: 'userFunding',
+    params: { user: string; startTime: number; endTime?: number },
+  ): Promise<UserFunding>;
+  async getInfo(
+    type: 'candleSnapshot',
+    params: {
+      coin: string;
+      interval: string;
+      startTime: number;
+      endTime: number;
+    },
+  ): Promise<CandleSnapshot>;
   async getInfo(
     type: string,
     params?: Record<string, unknown>,
@@ -142,11 +168,33 @@ export class HyperliquidClient {
             );
           }
           return await this.sdk.info.getUserOpenOrders(params.user);
+        case 'frontendOpenOrders':
+          if (!params?.user || typeof params.user !== 'string') {
+            throw new HyperliquidError(
+              'User parameter required for frontendOpenOrders',
+            );
+          }
+          return await this.sdk.info.getFrontendOpenOrders(params.user);
         case 'userFills':
           if (!params?.user || typeof params.user !== 'string') {
             throw new HyperliquidError('User parameter required for userFills');
           }
           return await this.sdk.info.getUserFills(params.user);
+        case 'orderStatus':
+          if (!params?.user || typeof params.user !== 'string') {
+            throw new HyperliquidError(
+              'User parameter required for orderStatus',
+            );
+          }
+          if (
+            typeof params.oid !== 'number' &&
+            typeof params.oid !== 'string'
+          ) {
+            throw new HyperliquidError(
+              'Oid parameter required for orderStatus',
+            );
+          }
+          return await this.sdk.info.getOrderStatus(params.user, params.oid);
         case 'fundingHistory':
           if (!params?.coin || typeof params.coin !== 'string') {
             throw new HyperliquidError(
@@ -158,6 +206,33 @@ export class HyperliquidClient {
             typeof params.startTime === 'number' ? params.startTime : 0,
             typeof params.endTime === 'number' ? params.endTime : undefined,
           );
+        case 'userFunding':
+          if (!params?.user || typeof params.user !== 'string') {
+            throw new HyperliquidError(
+              'User parameter required for userFunding',
+            );
+          }
+          return await this.sdk.info.perpetuals.getUserFunding(
+            params.user,
+            typeof params.startTime === 'number' ? params.startTime : 0,
+            typeof params.endTime === 'number' ? params.endTime : undefined,
+          );
+        case 'candleSnapshot':
+          if (
+            !params?.coin ||
+            typeof params.coin !== 'string' ||
+            typeof params.interval !== 'string'
+          ) {
+            throw new HyperliquidError(
+              'Coin and interval parameters required for candleSnapshot',
+            );
+          }
+          return await this.sdk.info.getCandleSnapshot(
+            params.coin,
+            params.interval,
+            typeof params.startTime === 'number' ? params.startTime : 0,
+            typeof params.endTime === 'number' ? params.endTime : Date.now(),
+          );
         default:
           this.logger.warn(`Unsupported info type: ${type}`);
           throw new HyperliquidError(`Unsupported info type: ${type}`);
@@ -179,12 +254,26 @@ export class HyperliquidClient {
     type: 'cancel';
     cancels: unknown;
   }): Promise<CancelOrderResponse>;
+  async exchangeAction(action: {
+    type: 'cancelByCloid';
+    cancels: CancelByCloidRequest[];
+  }): Promise<unknown>;
+  async exchangeAction(action: {
+    type: 'batchModify';
+    modifies: Array<{ oid: number | string; order: Order }>;
+  }): Promise<OrderResponse>;
   async exchangeAction(action: {
     type: 'updateLeverage';
     asset: string;
     isCross: boolean;
     leverage: number;
   }): Promise<unknown>;
+  async exchangeAction(action: {
+    type: 'updateIsolatedMargin';
+    asset: string;
+    isBuy: boolean;
+    amount: number;
+  }): Promise<unknown>;
   async exchangeAction(action: unknown): Promise<unknown> {
     await this.ensureInitialized();
 
@@ -214,16 +303,35 @@ export class HyperliquidClient {
           return await this.sdk.exchange.cancelOrder(
             cancels as CancelOrderRequest | CancelOrderRequest[],
           );
+        case 'cancelByCloid':
+          const cloidCancels = actionObj.cancels;
+          if (!Array.isArray(cloidCancels) || cloidCancels.length === 0) {
+            throw new HyperliquidError('Cancels parameter is required');
+          }
+          // The SDK cancels one cloid per request
+          const cloidResponses = [];
+          for (const cancel of cloidCancels as CancelByCloidRequest[]) {
+            cloidResponses.push(
+              await this.sdk.exchange.cancelOrderByCloid(
+                cancel.coin,
+                cancel.cloid,
+              ),
+            );
+          }
+          return cloidResponses;
+        case 'batchModify':
+          const modifies = actionObj.modifies;
+          if (!Array.isArray(modifies) || modifies.length === 0) {
+            throw new HyperliquidError('Modifies parameter is required');
+          }
+          return await this.sdk.exchange.batchModifyOrders(
+            modifies as Array<{ oid: number | string; order: Order }>,
+          );
         case 'updateLeverage':
-          // Convert action to SDK format
-          const markets = await this.sdk.info.perpetuals.getMeta();
+          // The SDK resolves the asset index from the coin name
           const asset = actionObj.asset;
-          if (typeof asset !== 'string') {
-            throw new HyperliquidError('Asset must be a string');
-          }
-          const market = markets.universe[asset];
-          if (!market) {
-            throw new HyperliquidError(`Invalid asset index: ${asset}`);
+          if (typeof asset !== 'string' || !asset) {
+            throw new HyperliquidError('Asset must be a coin name');
           }
 
           const isCross = actionObj.isCross;
@@ -236,10 +344,26 @@ export class HyperliquidClient {
             throw new HyperliquidError('leverage must be a number');
           }
           return await this.sdk.exchange.updateLeverage(
-            market.name,
+            asset,
             isCross ? 'cross' : 'isolated',
             leverage,
           );
+        case 'updateIsolatedMargin':
+          const marginAsset = actionObj.asset;
+          if (typeof marginAsset !== 'string' || !marginAsset) {
+            throw new HyperliquidError('Asset must be a coin name');
+          }
+
+          const amount = actionObj.amount;
+          if (typeof amount !== 'number' || amount === 0) {
+            throw new HyperliquidError('amount must be a non-zero number');
+          }
+          // ntli is the USD amount in 1e6 units, negative to remove margin
+          return await this.sdk.exchange.updateIsolatedMargin(
+            marginAsset,
+            actionObj.isBuy === true,
+            Math.round(amount * 1e6),
+          );
         default:
           this.logger.warn(`Unsupported action type: ${actionObj.type}`);
           throw new HyperliquidError(
@@ -0,0 +1,41 @@
+import { type Candle } from 'hyperliquid';
+import { HyperliquidMarketDataStore } from './HyperliquidMarketDataStore';
+
+describe('HyperliquidMarketDataStore', () => {
+  const candle = (t: number, c: number): Candle => ({
+    t,
+    T: t + 59999,
+    s: 'BTC',
+    i: '1m',
+    o: 100,
+    c,
+    h: 110,
+    l: 90,
+    v: 1,
+    n: 1,
+  });
+
+  it('should treat data older than the max age as stale', () => {
+    const store = new HyperliquidMarketDataStore();
+    store.setMids({ BTC: '50000' }, Date.now() - 5000);
+
+    expect(store.getMid('BTC', 10000)).toBe('50000');
+    expect(store.getMid('BTC', 1000)).toBeNull();
+    expect(store.getOrderbook('BTC', 10000)).toBeNull();
+  });
+
+  it('should update the open candle and keep a bounded series', () => {
+    const store = new HyperliquidMarketDataStore(2);
+    store.setCandle(candle(0, 101));
+    store.setCandle(candle(60000, 102));
+    store.setCandle(candle(60000, 103));
+    store.setCandle(candle(120000, 104));
+    // Late update of an already rotated candle is ignored
+    store.setCandle(candle(0, 99));
+
+    expect(store.getCandles('BTC', '1m', 10000).map((c) => c.c)).toEqual([
+      103, 104,
+    ]);
+    expect(store.getCandles('BTC', '5m', 10000)).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { type Candle } from 'hyperliquid';
+import { HLOrderbook } from '../../shared';
+
+interface Timestamped<T> {
+  value: T;
+  receivedAt: number;
+}
+
+/**
+ * In-memory market data fed by the Hyperliquid WebSocket stream
+ * Every entry carries the time it was received so readers can ignore
+ * data that went stale (e.g. while the socket was reconnecting)
+ */
+export class HyperliquidMarketDataStore {
+  private mids: Map<string, Timestamped<string>> = new Map();
+  private books: Map<string, Timestamped<HLOrderbook>> = new Map();
+  private candles: Map<string, Timestamped<Candle[]>> = new Map();
+
+  constructor(private readonly maxCandles = 100) {}
+
+  setMids(mids: Record<string, string>, receivedAt = Date.now()): void {
+    for (const [coin, mid] of Object.entries(mids)) {
+      this.mids.set(coin, { value: mid, receivedAt });
+    }
+  }
+
+  setOrderbook(book: HLOrderbook, receivedAt = Date.now()): void {
+    this.books.set(book.coin, { value: book, receivedAt });
+  }
+
+  /**
+   * Upsert a candle; the stream resends the open candle on every update
+   */
+  setCandle(candle: Candle, receivedAt = Date.now()): void {
+    const key = this.candleKey(candle.s, candle.i);
+    const series = this.candles.get(key)?.value || [];
+    const last = series[series.length - 1];
+
+    if (last && last.t === candle.t) {
+      series[series.length - 1] = candle;
+    } else if (!last || candle.t > last.t) {
+      series.push(candle);
+      if (series.length > this.maxCandles) {
+        series.shift();
+      }
+    }
+
+    this.candles.set(key, { value: series, receivedAt });
+  }
+
+  getMid(coin: string, maxAgeMs: number): string | null {
+    return this.fresh(this.mids.get(coin), maxAgeMs);
+  }
+
+  getOrderbook(coin: string, maxAgeMs: number): HLOrderbook | null {
+    return this.fresh(this.books.get(coin), maxAgeMs);
+  }
+
+  getCandles(coin: string, interval: string, maxAgeMs: number): Candle[] {
+    return (
+      this.fresh(this.candles.get(this.candleKey(coin, interval)), maxAgeMs) ||
+      []
+    );
+  }
+
+  private fresh<T>(entry: Timestamped<T> | undefined, maxAgeMs: number): T {
+    if (!entry || Date.now() - entry.receivedAt > maxAgeMs) {
+      return null;
+    }
+    return entry.value;
+  }
+
+  private candleKey(coin: string, interval: string): string {
+    return `${coin}:${interval}`;
+  }
+}
@@ -6,7 +6,9 @@ import { HyperliquidSignatureAdapter } from './HyperliquidSignatureAdapter';
 import {
   HL_SYMBOL_MAP,
   HLMarket,
+  HLPosition,
   HLTicker,
+  MarginMode,
   PlacePerpOrderParams,
   PositionDirection,
   TradeOrderStatus,
@@ -22,6 +24,8 @@ const HL_ACTION_TYPES = {
   USER_STATE: 'userState',
 };
 
+const CLOID = '0x0123456789abcdef0123456789abcdef';
+
 describe('HyperliquidService', () => {
   let service: HyperliquidService;
   let mockClient: jest.Mocked<HyperliquidClient>;
@@ -177,8 +181,8 @@ describe('HyperliquidService', () => {
       const result = await service.getMarkets();
 
       expect(result).toEqual([
-        { ...mockMarkets[0], pxDecimals: 8, minSize: 0.00001 },
-        { ...mockMarkets[1], pxDecimals: 8, minSize: 0.00001 },
+        { ...mockMarkets[0], pxDecimals: 3, minSize: 0.001 },
+        { ...mockMarkets[1], pxDecimals: 3, minSize: 0.001 },
       ]);
       expect(mockClient.getInfo).toHaveBeenCalledWith('metaAndAssetCtxs');
     });
@@ -197,8 +201,8 @@ describe('HyperliquidService', () => {
       const result = await service.getMarkets();
 
       expect(result).toEqual([
-        { ...mockMarkets[0], pxDecimals: 8, minSize: 0.00001 },
-        { ...mockMarkets[1], pxDecimals: 8, minSize: 0.00001 },
+        { ...mockMarkets[0], pxDecimals: 3, minSize: 0.001 },
+        { ...mockMarkets[1], pxDecimals: 3, minSize: 0.001 },
       ]);
       expect(mockClient.getInfo).not.toHaveBeenCalled();
     });
@@ -235,13 +239,13 @@ describe('HyperliquidService', () => {
       const result = await service.getMarkets();
 
       expect(result).toEqual([
-        { ...mockMarkets[0], pxDecimals: 8, minSize: 0.00001 },
-        { ...mockMarkets[1], pxDecimals: 8, minSize: 0.00001 },
+        { ...mockMarkets[0], pxDecimals: 3, minSize: 0.001 },
+        { ...mockMarkets[1], pxDecimals: 3, minSize: 0.001 },
         {
           name: 'SOL',
           szDecimals: 2,
-          pxDecimals: 8,
-          minSize: 0.00001,
+          pxDecimals: 4,
+          minSize: 0.01,
           maxLeverage: 10,
           onlyIsolated: false,
         },
@@ -299,6 +303,34 @@ describe('HyperliquidService', () => {
       expect(mockClient.getInfo).toHaveBeenCalledWith('allMids');
     });
 
+    it('should take bid and ask from the top of the order book', async () => {
+      (mockClient.getInfo as any).mockImplementation((type: string) => {
+        if (type === 'l2Book') {
+          return Promise.resolve({
+            levels: [
+              [{ px: '49990.0', sz: '1', n: 1 }],
+              [{ px: '50010.0', sz: '1', n: 1 }],
+            ],
+          });
+        }
+        if (type === 'allMids') {
+          return Promise.resolve({ BTC: '50000.0' });
+        }
+        return Promise.resolve([{ universe: [] }, []]);
+      });
+      jest.spyOn(service as any, 'mapSymbolToHL').mockReturnValue('BTC');
+
+      const result = await service.getTicker('BTC');
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          bid: '49990.0',
+          ask: '50010.0',
+          last: '50000.0',
+        }),
+      );
+    });
+
     it('should map symbol using symbol map', async () => {
       (mockClient.getInfo as any).mockImplementation((type: string) => {
         if (type === 'allMids') {
@@ -337,6 +369,62 @@ describe('HyperliquidService', () => {
         HyperliquidError,
       );
     });
+
+    it('should use the streamed mid price and cache asset contexts', async () => {
+      const stream = {
+        getMid: jest.fn().mockReturnValue('50100.0'),
+        getOrderbook: jest.fn().mockReturnValue({
+          coin: 'BTC',
+          levels: [[{ px: '50099.0' }], [{ px: '50101.0' }]],
+        }),
+      };
+      const streamedService = new HyperliquidService(
+        mockClient,
+        mockConfigService,
+        mockSignatureAdapter,
+        stream as any,
+      );
+      jest
+        .spyOn(streamedService as any, 'mapSymbolToHL')
+        .mockReturnValue('BTC');
+
+      const result = await streamedService.getTicker('BTC');
+      await streamedService.getTicker('BTC');
+
+      expect(stream.getMid).toHaveBeenCalledWith('BTC');
+      expect(result).toEqual(
+        expect.objectContaining({
+          bid: '50099.0',
+          ask: '50101.0',
+          last: '50100.0',
+          mark: '50000.0',
+        }),
+      );
+      expect(mockClient.getInfo).not.toHaveBeenCalledWith('allMids');
+      expect(mockClient.getInfo).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to REST when the stream is stale', async () => {
+      const stream = {
+        getMid: jest.fn().mockReturnValue(null),
+        getOrderbook: jest.fn().mockReturnValue(null),
+        trackMarketData: jest.fn(),
+      };
+      const streamedService = new HyperliquidService(
+        mockClient,
+        mockConfigService,
+        mockSignatureAdapter,
+        stream as any,
+      );
+      jest
+        .spyOn(streamedService as any, 'mapSymbolToHL')
+        .mockReturnValue('BTC');
+
+      const result = await streamedService.getTicker('BTC');
+
+      expect(result.last).toBe('50000.0');
+      expect(mockClient.getInfo).toHaveBeenCalledWith('allMids');
+    });
   });
 
   describe('getOrderbook', () => {
@@ -362,6 +450,100 @@ describe('HyperliquidService', () => {
         coin: 'BTC',
       });
     });
+
+    it('should serve the streamed order book while it is fresh', async () => {
+      const streamedBook = { coin: 'BTC', levels: [[], []] };
+      const stream = {
+        getOrderbook: jest.fn().mockReturnValue(streamedBook),
+        trackMarketData: jest.fn(),
+      };
+      const streamedService = new HyperliquidService(
+        mockClient,
+        mockConfigService,
+        mockSignatureAdapter,
+        stream as any,
+      );
+      jest
+        .spyOn(streamedService as any, 'mapSymbolToHL')
+        .mockReturnValue('BTC');
+
+      const result = await streamedService.getOrderbook('BTC');
+
+      expect(result).toBe(streamedBook);
+      expect(mockClient.getInfo).not.toHaveBeenCalled();
+    });
+
+    it('should fetch over REST and start streaming when the stream is stale', async () => {
+      const stream = {
+        getOrderbook: jest.fn().mockReturnValue(null),
+        trackMarketData: jest.fn(),
+      };
+      const streamedService = new HyperliquidService(
+        mockClient,
+        mockConfigService,
+        mockSignatureAdapter,
+        stream as any,
+      );
+      jest
+        .spyOn(streamedService as any, 'mapSymbolToHL')
+        .mockReturnValue('BTC');
+      (mockClient.getInfo as any).mockResolvedValue({ levels: [[], []] });
+
+      const result = await streamedService.getOrderbook('BTC');
+
+      expect(result).toEqual({ coin: 'BTC', levels: [[], []] });
+      expect(stream.trackMarketData).toHaveBeenCalledWith('BTC');
+      expect(mockClient.getInfo).toHaveBeenCalledWith(HL_ACTION_TYPES.L2_BOOK, {
+        coin: 'BTC',
+      });
+    });
+  });
+
+  describe('estimateSlippage', () => {
+    beforeEach(() => {
+      jest.spyOn(service, 'getOrderbook').mockResolvedValue({
+        coin: 'BTC',
+        levels: [
+          [
+            { px: '99', sz: '1', n: 1 },
+            { px: '98', sz: '10', n: 1 },
+          ],
+          [
+            { px: '101', sz: '1', n: 1 },
+            { px: '102', sz: '10', n: 1 },
+          ],
+        ],
+      });
+    });
+
+    it('should walk asks for longs and bids for shorts', async () => {
+      const long = await service.estimateSlippage(
+        'BTC',
+        PositionDirection.LONG,
+        50,
+      );
+      const short = await service.estimateSlippage(
+        'BTC',
+        PositionDirection.SHORT,
+        50,
+      );
+
+      expect(long.averagePrice).toBe(101);
+      expect(short.averagePrice).toBe(99);
+      expect(long.slippageBps).toBeCloseTo(100);
+      expect(long.spreadBps).toBeCloseTo(200);
+    });
+
+    it('should throw when the order book is empty', async () => {
+      (service.getOrderbook as jest.Mock).mockResolvedValue({
+        coin: 'BTC',
+        levels: [[], []],
+      });
+
+      await expect(
+        service.estimateSlippage('BTC', PositionDirection.LONG, 50),
+      ).rejects.toThrow('Order book is empty for BTC');
+    });
   });
 
   describe('placePerpOrder', () => {
@@ -508,7 +690,7 @@ describe('HyperliquidService', () => {
       };
 
       await expect(service.placePerpOrder(params)).rejects.toThrow(
-        'Order size 0 is below minimum 0.00001',
+        'Order size 0 is below minimum 0.001',
       );
     });
 
@@ -538,6 +720,115 @@ describe('HyperliquidService', () => {
       );
     });
 
+    it('should price IOC orders at mark plus the slippage band', async () => {
+      mockClient.exchangeAction.mockResolvedValue({
+        response: { data: { statuses: [{ resting: { oid: 123 } }] } },
+      });
+
+      await service.placePerpOrder({
+        symbol: 'BTC',
+        direction: PositionDirection.SHORT,
+        quoteAmount: 1000,
+        tif: 'Ioc',
+        slippageBps: 100,
+      });
+
+      expect(mockClient.exchangeAction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          order: expect.objectContaining({
+            is_buy: false,
+            limit_px: '49500',
+            order_type: { limit: { tif: 'Ioc' } },
+          }),
+        }),
+      );
+    });
+
+    it('should report the filled size of immediately filled orders', async () => {
+      mockClient.exchangeAction.mockResolvedValue({
+        response: {
+          data: {
+            statuses: [
+              { filled: { oid: 123, totalSz: '0.015', avgPx: '50010' } },
+            ],
+          },
+        },
+      });
+
+      const result = await service.placePerpOrder({
+        symbol: 'BTC',
+        direction: PositionDirection.LONG,
+        quoteAmount: 1000,
+        tif: 'Ioc',
+      });
+
+      expect(result).toMatchObject({
+        orderId: '123',
+        filledSize: 0.015,
+        averagePrice: 50010,
+      });
+    });
+
+    it('should send the client order id as cloid', async () => {
+      mockClient.exchangeAction.mockResolvedValue({
+        response: { data: { statuses: [{ resting: { oid: 123 } }] } },
+      });
+
+      const result = await service.placePerpOrder({
+        symbol: 'BTC',
+        direction: PositionDirection.LONG,
+        quoteAmount: 1000,
+        clientOrderId: CLOID,
+      });
+
+      expect(result).toMatchObject({ orderId: '123', clientOrderId: CLOID });
+      expect(mockClient.exchangeAction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          order: expect.objectContaining({ cloid: CLOID }),
+        }),
+      );
+    });
+
+    it('should recover the order by cloid when the submit response is lost', async () => {
+      mockClient.exchangeAction.mockRejectedValue(new Error('socket hang up'));
+      (mockClient.getInfo as any).mockResolvedValueOnce({
+        status: 'order',
+        order: { order: { oid: 456, cloid: CLOID }, status: 'open' },
+      });
+
+      const result = await service.placePerpOrder({
+        symbol: 'BTC',
+        direction: PositionDirection.LONG,
+        quoteAmount: 1000,
+        clientOrderId: CLOID,
+      });
+
+      expect(mockClient.getInfo).toHaveBeenCalledWith('orderStatus', {
+        user: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+        oid: CLOID,
+      });
+      expect(result).toMatchObject({
+        orderId: '456',
+        status: TradeOrderStatus.CREATED,
+      });
+    });
+
+    it('should rethrow the submit error when the exchange does not know the cloid', async () => {
+      mockClient.exchangeAction.mockRejectedValue(new Error('socket hang up'));
+      (mockClient.getInfo as any).mockResolvedValueOnce({
+        status: 'unknownOid',
+      });
+
+      await expect(
+        service.placePerpOrder({
+          symbol: 'BTC',
+          direction: PositionDirection.LONG,
+          quoteAmount: 1000,
+          clientOrderId: CLOID,
+        }),
+      ).rejects.toThrow('socket hang up');
+    });
+
     it('should update leverage if specified', async () => {
       const mockOrderResponse = {
         response: {
@@ -558,7 +849,42 @@ describe('HyperliquidService', () => {
 
       await service.placePerpOrder(params);
 
-      expect((service as any).updateLeverage).toHaveBeenCalledWith('BTC', 15);
+      expect((service as any).updateLeverage).toHaveBeenCalledWith(
+        'BTC',
+        15,
+        undefined,
+      );
+    });
+
+    it('should round sizes and prices to the market precision', async () => {
+      mockClient.exchangeAction.mockResolvedValue({
+        response: { data: { statuses: [{ resting: { oid: 'tp-order-1' } }] } },
+      });
+
+      const result = await service.placePerpOrder({
+        symbol: 'BTC',
+        direction: PositionDirection.SHORT,
+        quoteAmount: 0,
+        size: 0.0123456,
+        price: 51234.5678,
+        triggerPrice: 51234.5678,
+        triggerType: 'tp',
+        reduceOnly: true,
+      });
+
+      // BTC has szDecimals 3: 5 significant figures, at most 3 decimals
+      expect(mockClient.exchangeAction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          order: expect.objectContaining({
+            sz: '0.012',
+            limit_px: '51235',
+            order_type: {
+              trigger: { triggerPx: '51235', isMarket: true, tpsl: 'tp' },
+            },
+          }),
+        }),
+      );
+      expect(result.triggerPrice).toBe(51235);
     });
 
     it('should place a stop-loss trigger order successfully', async () => {
@@ -719,6 +1045,57 @@ describe('HyperliquidService', () => {
         }),
       );
     });
+
+    describe('open position limit', () => {
+      beforeEach(() => {
+        // Config defaults, HL_MAX_OPEN_POSITIONS=1
+        mockConfigService.get.mockImplementation(
+          (_key: string, defaultValue?: unknown) => defaultValue,
+        );
+        jest
+          .spyOn(service, 'getPositions')
+          .mockResolvedValue([{ coin: 'BTC', szi: '0.1' } as HLPosition]);
+        mockClient.exchangeAction.mockResolvedValue({
+          response: { data: { statuses: [{ resting: { oid: 123 } }] } },
+        });
+      });
+
+      it('should place a reduce-only SL on the open position', async () => {
+        await expect(
+          service.placePerpOrder({
+            symbol: 'BTC',
+            direction: PositionDirection.SHORT,
+            quoteAmount: 1000,
+            reduceOnly: true,
+            triggerPrice: 45000,
+            triggerType: 'sl',
+          }),
+        ).resolves.toMatchObject({ orderId: '123' });
+      });
+
+      it('should add to the position held in the coin', async () => {
+        await expect(
+          service.placePerpOrder({
+            symbol: 'BTC',
+            direction: PositionDirection.LONG,
+            quoteAmount: 1000,
+          }),
+        ).resolves.toMatchObject({ orderId: '123' });
+      });
+
+      it('should reject opening a position in another coin', async () => {
+        jest.spyOn(service as any, 'mapSymbolToHL').mockReturnValue('ETH');
+
+        await expect(
+          service.placePerpOrder({
+            symbol: 'ETH',
+            direction: PositionDirection.LONG,
+            quoteAmount: 1000,
+          }),
+        ).rejects.toThrow('Maximum open positions reached (1/1)');
+        expect(mockClient.exchangeAction).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('cancelOrder', () => {
@@ -755,6 +1132,255 @@ describe('HyperliquidService', () => {
     });
   });
 
+  describe('batchModifyPerpOrders', () => {
+    beforeEach(() => {
+      jest.spyOn(service as any, 'getMarket').mockResolvedValue(mockMarkets[0]);
+      jest.spyOn(service, 'getTicker').mockResolvedValue({
+        ...mockTicker,
+        mark: '50000',
+      });
+    });
+
+    it('should send all modifications in one batchModify action', async () => {
+      mockClient.exchangeAction.mockResolvedValue({
+        response: {
+          data: {
+            statuses: [{ resting: { oid: 11 } }, { resting: { oid: 12 } }],
+          },
+        },
+      });
+
+      const results = await service.batchModifyPerpOrders([
+        {
+          orderId: '1',
+          symbol: 'BTC',
+          direction: PositionDirection.SHORT,
+          quoteAmount: 1000,
+          triggerPrice: 48000,
+          triggerType: 'sl',
+          reduceOnly: true,
+          clientOrderId: CLOID,
+        },
+        {
+          orderId: '2',
+          symbol: 'BTC',
+          direction: PositionDirection.SHORT,
+          quoteAmount: 1000,
+          triggerPrice: 56000,
+          triggerType: 'tp',
+          reduceOnly: true,
+        },
+      ]);
+
+      expect(mockClient.exchangeAction).toHaveBeenCalledTimes(1);
+      expect(mockClient.exchangeAction).toHaveBeenCalledWith({
+        type: 'batchModify',
+        modifies: [
+          {
+            oid: 1,
+            order: expect.objectContaining({
+              coin: 'BTC-PERP',
+              is_buy: false,
+              reduce_only: true,
+              cloid: CLOID,
+              order_type: {
+                trigger: { triggerPx: '48000', isMarket: true, tpsl: 'sl' },
+              },
+            }),
+          },
+          {
+            oid: 2,
+            order: expect.objectContaining({
+              order_type: {
+                trigger: { triggerPx: '56000', isMarket: true, tpsl: 'tp' },
+              },
+            }),
+          },
+        ],
+      });
+      expect(results.map((r) => r.orderId)).toEqual(['11', '12']);
+      expect(results[0]).toMatchObject({
+        triggerPrice: 48000,
+        triggerType: 'sl',
+        clientOrderId: CLOID,
+      });
+    });
+
+    it('should throw when the exchange rejects a modification', async () => {
+      mockClient.exchangeAction.mockResolvedValue({
+        response: {
+          data: {
+            statuses: [{ error: 'Cannot modify canceled or filled order' }],
+          },
+        },
+      });
+
+      await expect(
+        service.modifyPerpOrder({
+          orderId: '1',
+          symbol: 'BTC',
+          direction: PositionDirection.SHORT,
+          quoteAmount: 1000,
+          triggerPrice: 48000,
+          triggerType: 'sl',
+          reduceOnly: true,
+        }),
+      ).rejects.toThrow(
+        'Failed to modify order 1: Cannot modify canceled or filled order',
+      );
+    });
+  });
+
+  describe('placeBracketOrder', () => {
+    const bracket = {
+      entry: {
+        symbol: 'BTC',
+        direction: PositionDirection.LONG,
+        quoteAmount: 1000,
+        tif: 'Ioc' as const,
+        clientOrderId: CLOID,
+      },
+      stopLoss: {
+        symbol: 'BTC',
+        direction: PositionDirection.SHORT,
+        quoteAmount: 1000,
+        triggerPrice: 48000,
+        triggerType: 'sl' as const,
+        isMarket: true,
+        reduceOnly: true,
+      },
+      takeProfit: {
+        symbol: 'BTC',
+        direction: PositionDirection.SHORT,
+        quoteAmount: 1000,
+        triggerPrice: 56000,
+        triggerType: 'tp' as const,
+        isMarket: true,
+        reduceOnly: true,
+      },
+      grouping: 'normalTpsl' as const,
+    };
+
+    beforeEach(() => {
+      jest.spyOn(service as any, 'getMarket').mockResolvedValue(mockMarkets[0]);
+      jest.spyOn(service, 'getTicker').mockResolvedValue({
+        ...mockTicker,
+        mark: '50000',
+      });
+      jest.spyOn(service, 'getPositions').mockResolvedValue([]);
+    });
+
+    it('should send entry, SL and TP as one grouped order', async () => {
+      mockClient.exchangeAction.mockResolvedValue({
+        response: {
+          data: {
+            statuses: [
+              { filled: { oid: 21, totalSz: '0.02', avgPx: '50010' } },
+              'waitingForFill',
+              { resting: { oid: 23 } },
+            ],
+          },
+        },
+      });
+
+      const result = await service.placeBracketOrder(bracket);
+
+      expect(mockClient.exchangeAction).toHaveBeenCalledWith({
+        type: 'order',
+        order: {
+          grouping: 'normalTpsl',
+          orders: [
+            expect.objectContaining({
+              is_buy: true,
+              sz: '0.02',
+              cloid: CLOID,
+              order_type: { limit: { tif: 'Ioc' } },
+            }),
+            expect.objectContaining({
+              is_buy: false,
+              sz: '0.02',
+              reduce_only: true,
+              order_type: {
+                trigger: { triggerPx: '48000', isMarket: true, tpsl: 'sl' },
+              },
+            }),
+            expect.objectContaining({
+              sz: '0.02',
+              order_type: {
+                trigger: { triggerPx: '56000', isMarket: true, tpsl: 'tp' },
+              },
+            }),
+          ],
+        },
+      });
+      expect(result.entry).toMatchObject({
+        orderId: '21',
+        filledSize: 0.02,
+        averagePrice: 50010,
+      });
+      expect(result.stopLoss).toMatchObject({
+        orderId: undefined,
+        status: TradeOrderStatus.CREATED,
+        triggerType: 'sl',
+      });
+      expect(result.takeProfit.orderId).toBe('23');
+    });
+
+    it('should throw when the exchange rejects the entry', async () => {
+      mockClient.exchangeAction.mockResolvedValue({
+        response: {
+          data: {
+            statuses: [
+              {
+                error:
+                  'Order could not immediately match against any resting orders',
+              },
+            ],
+          },
+        },
+      });
+
+      await expect(service.placeBracketOrder(bracket)).rejects.toThrow(
+        'Failed to place bracket entry: Order could not immediately match against any resting orders',
+      );
+    });
+
+    it('should mark a rejected trigger as FAILED', async () => {
+      mockClient.exchangeAction.mockResolvedValue({
+        response: {
+          data: {
+            statuses: [
+              { resting: { oid: 21 } },
+              { error: 'Invalid TP/SL price' },
+              'waitingForFill',
+            ],
+          },
+        },
+      });
+
+      const result = await service.placeBracketOrder(bracket);
+
+      expect(result.stopLoss).toMatchObject({
+        status: TradeOrderStatus.FAILED,
+        message: 'Invalid TP/SL price',
+      });
+      expect(result.takeProfit.status).toBe(TradeOrderStatus.CREATED);
+    });
+  });
+
+  describe('cancelOrderByCloid', () => {
+    it('should cancel an order by its cloid', async () => {
+      mockClient.exchangeAction.mockResolvedValue({ success: true });
+
+      await service.cancelOrderByCloid(CLOID, 'BTC');
+
+      expect(mockClient.exchangeAction).toHaveBeenCalledWith({
+        type: 'cancelByCloid',
+        cancels: [{ coin: 'BTC-PERP', cloid: CLOID }],
+      });
+    });
+  });
+
   describe('cancelAll', () => {
     it('should cancel all orders for a symbol', async () => {
       const mockResponse = {
@@ -875,6 +1501,116 @@ describe('HyperliquidService', () => {
     });
   });
 
+  describe('updateIsolatedMargin', () => {
+    const position = (type: string, szi: string): any => ({
+      coin: 'BTC',
+      szi,
+      leverage: { rawUsd: '20', value: 5, type },
+    });
+
+    it('should move margin on the side of the open isolated position', async () => {
+      jest
+        .spyOn(service, 'getPosition')
+        .mockResolvedValue(position('isolated', '-0.1'));
+
+      await service.updateIsolatedMargin('BTC', -25.5);
+
+      expect(mockClient.exchangeAction).toHaveBeenCalledWith({
+        type: 'updateIsolatedMargin',
+        asset: 'BTC',
+        isBuy: false,
+        amount: -25.5,
+      });
+    });
+
+    it('should reject cross positions', async () => {
+      jest
+        .spyOn(service, 'getPosition')
+        .mockResolvedValue(position('cross', '0.1'));
+
+      await expect(service.updateIsolatedMargin('BTC', 50)).rejects.toThrow(
+        'Position for BTC is not isolated, margin cannot be adjusted',
+      );
+      expect(mockClient.exchangeAction).not.toHaveBeenCalled();
+    });
+
+    it('should reject when there is no open position', async () => {
+      jest.spyOn(service, 'getPosition').mockResolvedValue(null);
+
+      await expect(service.updateIsolatedMargin('BTC', 50)).rejects.toThrow(
+        'No open position for BTC',
+      );
+    });
+
+    it('should send the margin mode with the leverage', async () => {
+      await (service as any).updateLeverage('BTC', 5, MarginMode.ISOLATED);
+
+      expect(mockClient.exchangeAction).toHaveBeenCalledWith({
+        type: 'updateLeverage',
+        asset: 'BTC',
+        isCross: false,
+        leverage: 5,
+      });
+    });
+  });
+
+  describe('getOpenOrders', () => {
+    it('should fetch resting orders with reduce-only flags', async () => {
+      const mockOrders = [
+        {
+          coin: 'BTC',
+          isPositionTpsl: false,
+          isTrigger: true,
+          limitPx: '45000.0',
+          oid: 123,
+          orderType: 'Stop Market',
+          origSz: '0.1',
+          reduceOnly: true,
+          side: 'A',
+          sz: '0.1',
+          timestamp: 1700000000000,
+          triggerCondition: 'Price below 45000',
+          triggerPx: '45000.0',
+        },
+      ];
+
+      (mockClient.getInfo as any).mockResolvedValue(mockOrders);
+
+      const result = await service.getOpenOrders();
+
+      expect(result).toEqual(mockOrders);
+      expect(mockClient.getInfo).toHaveBeenCalledWith('frontendOpenOrders', {
+        user: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+      });
+    });
+  });
+
+  describe('getUserFills', () => {
+    it('should fetch the account fill history', async () => {
+      const mockFills = [
+        {
+          coin: 'BTC',
+          oid: 123,
+          tid: 456,
+          px: '50000.0',
+          sz: '0.1',
+          side: 'A',
+          closedPnl: '12.5',
+          time: 1700000000000,
+        },
+      ];
+
+      (mockClient.getInfo as any).mockResolvedValue(mockFills);
+
+      const result = await service.getUserFills();
+
+      expect(result).toEqual(mockFills);
+      expect(mockClient.getInfo).toHaveBeenCalledWith('userFills', {
+        user: '0x742d35Cc6634C0532925a3b8D4C9db96C4b4d8b6',
+      });
+    });
+  });
+
   describe('getBalance', () => {
     it('should fetch account balance', async () => {
       const mockUserState = {
@@ -895,25 +1631,160 @@ describe('HyperliquidService', () => {
     });
   });
 
-  describe('getFundingRates', () => {
-    it('should fetch funding rates for all symbols', async () => {
-      const mockFundingRates = [
-        { coin: 'BTC', rate: '0.0001' },
-        { coin: 'ETH', rate: '0.0002' },
+  describe('getUserFunding', () => {
+    it('should fetch funding payments for the wallet since startTime', async () => {
+      const payments = [
+        {
+          delta: {
+            coin: 'BTC',
+            fundingRate: '0.0001',
+            szi: '0.1',
+            type: 'funding',
+            usdc: '-0.5',
+          },
+          hash: '0x0',
+          time: 1700000000000,
+        },
       ];
+      (mockClient.getInfo as any).mockResolvedValue(payments);
 
-      (mockClient.getInfo as any).mockResolvedValue(mockFundingRates);
+      const result = await service.getUserFunding(1690000000000);
+
+      expect(result).toEqual(payments);
+      expect(mockClient.getInfo).toHaveBeenCalledWith('userFunding', {
+        user: expect.any(String),
+        startTime: 1690000000000,
+        endTime: undefined,
+      });
+    });
+  });
+
+  describe('getCandles', () => {
+    it('should fetch the candles of the mapped coin', async () => {
+      const candles = [
+        {
+          t: 1700000000000,
+          T: 1700003599999,
+          s: 'BTC',
+          i: '1h',
+          o: 100,
+          c: 101,
+          h: 102,
+          l: 99,
+          v: 10,
+          n: 5,
+        },
+      ];
+      (mockClient.getInfo as any).mockResolvedValue(candles);
+
+      const result = await service.getCandles(
+        'BTC',
+        '1h',
+        1690000000000,
+        1700000000000,
+      );
+
+      expect(result).toEqual(candles);
+      expect(mockClient.getInfo).toHaveBeenCalledWith('candleSnapshot', {
+        coin: 'BTC-PERP',
+        interval: '1h',
+        startTime: 1690000000000,
+        endTime: 1700000000000,
+      });
+    });
+
+    describe('with a market data stream', () => {
+      const HOUR = 3600000;
+      const candle = (t: number) => ({
+        t,
+        T: t + HOUR - 1,
+        s: 'BTC',
+        i: '1h',
+        o: 100,
+        c: 101,
+        h: 102,
+        l: 99,
+        v: 10,
+        n: 5,
+      });
+
+      const streamedService = (streamed: ReturnType<typeof candle>[]) => {
+        const stream = {
+          getCandles: jest.fn().mockReturnValue(streamed),
+          trackMarketData: jest.fn(),
+        };
+        const result = new HyperliquidService(
+          mockClient,
+          mockConfigService,
+          mockSignatureAdapter,
+          stream as any,
+        );
+        jest.spyOn(result as any, 'mapSymbolToHL').mockReturnValue('BTC');
+        return { service: result, stream };
+      };
+
+      it('should serve streamed candles that reach back to the start', async () => {
+        const { service: streamed, stream } = streamedService([
+          candle(0),
+          candle(HOUR),
+          candle(2 * HOUR),
+          candle(3 * HOUR),
+        ]);
+
+        const result = await streamed.getCandles('BTC', '1h', HOUR, 2 * HOUR);
+
+        expect(result.map((c) => c.t)).toEqual([HOUR, 2 * HOUR]);
+        expect(stream.getCandles).toHaveBeenCalledWith('BTC', '1h');
+        expect(mockClient.getInfo).not.toHaveBeenCalled();
+      });
+
+      it('should fall back to REST when the stream started after the start', async () => {
+        const { service: streamed, stream } = streamedService([
+          candle(2 * HOUR),
+          candle(3 * HOUR),
+        ]);
+        (mockClient.getInfo as any).mockResolvedValue([candle(HOUR)]);
+
+        const result = await streamed.getCandles('BTC', '1h', HOUR, 3 * HOUR);
+
+        expect(result).toEqual([candle(HOUR)]);
+        expect(mockClient.getInfo).toHaveBeenCalledWith(
+          'candleSnapshot',
+          expect.objectContaining({ coin: 'BTC', startTime: HOUR }),
+        );
+        expect(stream.trackMarketData).toHaveBeenCalledWith('BTC');
+      });
+    });
+  });
+
+  describe('getFundingRates', () => {
+    it('should return the current funding of every market without a symbol', async () => {
+      (mockClient.getInfo as any).mockResolvedValue([
+        { universe: [{ name: 'BTC' }, { name: 'ETH' }] },
+        [
+          { funding: '0.0001', premium: '0.0002' },
+          { funding: '-0.00005', premium: '-0.0001' },
+        ],
+      ]);
 
       const result = await service.getFundingRates();
 
-      expect(result).toEqual(mockFundingRates);
-      // The service now adds startTime parameter for funding history
-      expect(mockClient.getInfo).toHaveBeenCalledWith(
-        'fundingHistory',
+      expect(result).toEqual([
         expect.objectContaining({
           coin: 'BTC',
-          startTime: expect.any(Number),
+          fundingRate: '0.0001',
+          premium: '0.0002',
         }),
+        expect.objectContaining({
+          coin: 'ETH',
+          fundingRate: '-0.00005',
+          premium: '-0.0001',
+        }),
+      ]);
+      expect(mockClient.getInfo).toHaveBeenCalledWith('metaAndAssetCtxs');
+      expect(mockClient.getInfo).not.toHaveBeenCalledWith(
+        'fundingHistory',
+        expect.anything(),
       );
     });
 
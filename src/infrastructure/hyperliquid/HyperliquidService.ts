@@ -1,13 +1,16 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, Optional } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { HyperliquidClient, HyperliquidError } from './HyperliquidClient';
 import { HyperliquidSignatureAdapter } from './HyperliquidSignatureAdapter';
+import { HyperliquidWebSocketService } from './HyperliquidWebSocket.service';
 import {
   type ClearinghouseState,
   type AllMids,
   type L2Book,
   type Order,
   type FundingHistory,
+  type MetaAndAssetCtxs,
+  type Grouping,
 } from 'hyperliquid';
 import {
   HL_SYMBOL_MAP,
@@ -18,22 +21,58 @@ import {
   PlacePerpOrderParams,
   HLOrderResponse,
   HLPosition,
+  HLOpenOrder,
+  HLOrderStatus,
+  HLModifyRequest,
+  HLUserFill,
+  HLUserFunding,
+  HLCandle,
+  MarginMode,
+  ModifyPerpOrderParams,
+  PlaceBracketOrderParams,
+  BracketOrderResult,
   PositionDirection,
+  SlippageEstimate,
   TradeOrderResult,
   TradeOrderStatus,
+  estimateSlippage,
+  formatHLNumber,
+  getHLMaxPriceDecimals,
+  getHLSizeStep,
+  roundHLPrice,
 } from '../../shared';
 
+interface PreparedOrder {
+  order: Order;
+  size: number;
+  markPrice: number;
+  tif: string;
+  // Trigger price as rounded for the exchange
+  triggerPrice?: number;
+}
+
+interface SubmittedOrder {
+  oid: number;
+  filledSize?: number;
+  averagePrice?: number;
+}
+
 @Injectable()
 export class HyperliquidService {
   private readonly logger = new Logger(HyperliquidService.name);
   private marketsCache: Map<string, HLMarket> = new Map();
   private lastMarketsFetch: number = 0;
   private readonly marketsCacheTtl = 60000; // 1 minute
+  private assetCtxsCache: MetaAndAssetCtxs | null = null;
+  private lastAssetCtxsFetch: number = 0;
+  private readonly assetCtxsCacheTtl = 5000; // 5 seconds
 
   constructor(
-    private readonly client: HyperliquidClient,
-    private readonly configService: ConfigService,
+    protected readonly client: HyperliquidClient,
+    protected readonly configService: ConfigService,
     private readonly signatureAdapter: HyperliquidSignatureAdapter,
+    @Optional()
+    private readonly marketDataStream?: HyperliquidWebSocketService,
   ) {}
 
   /**
@@ -52,11 +91,11 @@ export class HyperliquidService {
       const response = await this.client.getInfo('metaAndAssetCtxs');
       const markets = response[0]?.universe || [];
 
-      // Enhance markets with additional properties for backward compatibility
+      // Price decimals and size step follow from szDecimals
       const enhancedMarkets = markets.map((market) => ({
         ...market,
-        pxDecimals: 8, // Default price decimals
-        minSize: 0.00001, // Default minimum size
+        pxDecimals: getHLMaxPriceDecimals(market.szDecimals),
+        minSize: getHLSizeStep(market.szDecimals),
       }));
 
       // Update cache
@@ -74,28 +113,38 @@ export class HyperliquidService {
 
   /**
    * Get ticker for a symbol
+   * The mid price comes from the WebSocket stream while it is fresh,
+   * otherwise from REST; bid/ask are the top of the l2Book
    */
   async getTicker(symbol: string): Promise<HLTicker> {
     try {
       const mappedSymbol = this.mapSymbolToHL(symbol);
-      const allMids: AllMids = await this.client.getInfo('allMids');
-      const midPrice = allMids[mappedSymbol];
+      let midPrice = this.marketDataStream?.getMid(mappedSymbol);
+      if (!midPrice) {
+        const allMids: AllMids = await this.client.getInfo('allMids');
+        midPrice = allMids[mappedSymbol];
+      }
 
       if (!midPrice) {
         throw new HyperliquidError(`Ticker not found for symbol: ${symbol}`);
       }
 
       // Get additional market data from metaAndAssetCtxs for more complete ticker
-      const [meta, assetCtxs] = await this.client.getInfo('metaAndAssetCtxs');
+      const [meta, assetCtxs] = await this.getMetaAndAssetCtxs();
       const assetIndex = meta.universe.findIndex(
         (m) => m.name === mappedSymbol,
       );
       const assetCtx = assetCtxs[assetIndex];
 
+      // An empty book side falls back to the mid price
+      const {
+        levels: [bids, asks],
+      } = await this.getOrderbook(symbol);
+
       return {
         coin: mappedSymbol,
-        bid: midPrice, // AllMids only provides mid price, so use it for bid/ask
-        ask: midPrice,
+        bid: bids?.[0]?.px || midPrice,
+        ask: asks?.[0]?.px || midPrice,
         last: midPrice,
         mark: assetCtx?.markPx || midPrice,
         volume24h: assetCtx?.dayNtlVlm || '0',
@@ -110,10 +159,19 @@ export class HyperliquidService {
 
   /**
    * Get orderbook for a symbol
+   * Served from the WebSocket stream while it is fresh, otherwise from REST
    */
   async getOrderbook(symbol: string): Promise<HLOrderbook> {
     try {
       const mappedSymbol = this.mapSymbolToHL(symbol);
+      const streamedBook = this.marketDataStream?.getOrderbook(mappedSymbol);
+      if (streamedBook) {
+        return streamedBook;
+      }
+
+      // Stream the book from now on so later calls skip REST
+      this.marketDataStream?.trackMarketData(mappedSymbol);
+
       const l2Book: L2Book = await this.client.getInfo('l2Book', {
         coin: mappedSymbol,
       });
@@ -128,6 +186,46 @@ export class HyperliquidService {
     }
   }
 
+  /**
+   * Estimate spread and slippage of a market order of quoteAmount by walking
+   * the order book side it would consume (LONG buys asks, SHORT sells bids)
+   */
+  async estimateSlippage(
+    symbol: string,
+    direction: PositionDirection,
+    quoteAmount: number,
+  ): Promise<SlippageEstimate> {
+    const book = await this.getOrderbook(symbol);
+    const estimate = estimateSlippage(
+      book,
+      direction === PositionDirection.LONG,
+      quoteAmount,
+    );
+
+    if (!estimate) {
+      throw new HyperliquidError(`Order book is empty for ${symbol}`);
+    }
+
+    return estimate;
+  }
+
+  /**
+   * Asset contexts change slowly compared to prices, so a short-lived
+   * cache keeps frequent ticker lookups from hitting REST every time
+   */
+  private async getMetaAndAssetCtxs(): Promise<MetaAndAssetCtxs> {
+    if (
+      this.assetCtxsCache &&
+      Date.now() - this.lastAssetCtxsFetch < this.assetCtxsCacheTtl
+    ) {
+      return this.assetCtxsCache;
+    }
+
+    this.assetCtxsCache = await this.client.getInfo('metaAndAssetCtxs');
+    this.lastAssetCtxsFetch = Date.now();
+    return this.assetCtxsCache;
+  }
+
   /**
    * Place a perpetual order
    */
@@ -135,61 +233,277 @@ export class HyperliquidService {
     params: PlacePerpOrderParams,
   ): Promise<TradeOrderResult> {
     try {
-      const mappedSymbol = this.mapSymbolToHL(params.symbol);
-      const market = await this.getMarket(mappedSymbol);
+      const prepared = await this.prepareOrder(params);
 
-      const ticker = await this.getTicker(params.symbol);
-      const markPrice = parseFloat(ticker.mark);
-      const baseSize = params.quoteAmount / markPrice;
+      if (params.leverage) {
+        await this.updateLeverage(
+          prepared.order.coin,
+          params.leverage,
+          params.marginMode,
+        );
+      }
 
-      const roundedSize = this.roundToStep(baseSize, market.minSize || 0.001);
+      const submitted = await this.submitOrderIdempotent(prepared.order);
 
-      // Fix precision to avoid floating point issues
-      const sizePrecision = this.getSizePrecision(market.minSize || 0.001);
-      const preciseSize = parseFloat(roundedSize.toFixed(sizePrecision));
+      this.logger.log(`Placed ${params.direction} order for ${params.symbol}`, {
+        orderId: submitted.oid,
+        clientOrderId: params.clientOrderId,
+        size: prepared.size,
+        price: prepared.order.limit_px,
+        filledSize: submitted.filledSize,
+      });
 
-      const minSize = market.minSize || 0.001;
-      if (preciseSize < minSize) {
-        throw new HyperliquidError(
-          `Order size ${preciseSize} is below minimum ${minSize}`,
+      return {
+        ...this.toOrderResult(params, submitted.oid, prepared),
+        ...(submitted.filledSize !== undefined && {
+          filledSize: submitted.filledSize,
+          averagePrice: submitted.averagePrice,
+        }),
+      };
+    } catch (error) {
+      this.logger.error('Failed to place perp order', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Modify a resting order in place (price, size and trigger)
+   */
+  async modifyPerpOrder(
+    params: ModifyPerpOrderParams,
+  ): Promise<TradeOrderResult> {
+    const [result] = await this.batchModifyPerpOrders([params]);
+    return result;
+  }
+
+  /**
+   * Modify several resting orders in one batchModify action
+   * Throws when the exchange rejects any of the modifications
+   */
+  async batchModifyPerpOrders(
+    modifies: ModifyPerpOrderParams[],
+  ): Promise<TradeOrderResult[]> {
+    try {
+      const prepared: PreparedOrder[] = [];
+      for (const params of modifies) {
+        prepared.push(await this.prepareOrder(params));
+      }
+
+      let statuses: HLOrderResponse['response']['data']['statuses'];
+      try {
+        const response = await this.submitBatchModify(
+          prepared.map(({ order }, i) => ({
+            oid: parseInt(modifies[i].orderId, 10),
+            order,
+          })),
+        );
+        statuses = response?.response?.data?.statuses || [];
+      } catch (error) {
+        // Same recovery as placing: modified orders keep their cloid
+        statuses = await Promise.all(
+          prepared.map(async ({ order }) => ({
+            resting: { oid: await this.recoverOrderId(error, order) },
+          })),
         );
       }
 
-      const maxLeverage = this.configService.get<number>(
-        'hyperliquid.maxLeveragePerSymbol',
-        10,
-      );
-      const maxNotionalPerOrder = this.configService.get<number>(
-        'hyperliquid.maxNotionalPerOrder',
-        10000,
-      );
+      return modifies.map((params, i) => {
+        const status = statuses[i];
+        const orderId = status?.resting?.oid || status?.filled?.oid;
+        if (!orderId) {
+          const reason = (status as { error?: string })?.error || 'no status';
+          throw new HyperliquidError(
+            `Failed to modify order ${params.orderId}: ${reason}`,
+          );
+        }
 
-      // Check leverage limit
-      const requestedLeverage =
-        params.leverage ||
-        this.configService.get<number>('hyperliquid.defaultLeverage', 3);
-      if (requestedLeverage > maxLeverage) {
-        throw new HyperliquidError(
-          `Requested leverage ${requestedLeverage}x exceeds maximum ${maxLeverage}x`,
+        this.logger.log(
+          `Modified order ${params.orderId} for ${params.symbol}`,
+          {
+            orderId,
+            clientOrderId: params.clientOrderId,
+            size: prepared[i].size,
+            triggerPrice: prepared[i].triggerPrice,
+          },
         );
+        return this.toOrderResult(params, orderId, prepared[i]);
+      });
+    } catch (error) {
+      this.logger.error('Failed to modify perp orders', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Place an entry together with its SL/TP trigger orders in one bulk order
+   * The triggers get the entry size; the exchange answers them with a
+   * resting oid or, while they wait for the entry, no oid at all, in which
+   * case they are tracked by cloid. Throws when the entry is rejected
+   */
+  async placeBracketOrder(
+    params: PlaceBracketOrderParams,
+  ): Promise<BracketOrderResult> {
+    try {
+      const entry = await this.prepareOrder(params.entry);
+      const triggers: Array<{
+        params: PlacePerpOrderParams;
+        prepared: PreparedOrder;
+      }> = [];
+      for (const trigger of [params.stopLoss, params.takeProfit]) {
+        if (trigger) {
+          const triggerParams = { ...trigger, size: entry.size };
+          triggers.push({
+            params: triggerParams,
+            prepared: await this.prepareOrder(triggerParams),
+          });
+        }
       }
 
-      if (requestedLeverage > market.maxLeverage) {
-        throw new HyperliquidError(
-          `Requested leverage ${requestedLeverage}x exceeds market maximum ${market.maxLeverage}x`,
+      if (params.entry.leverage) {
+        await this.updateLeverage(
+          entry.order.coin,
+          params.entry.leverage,
+          params.entry.marginMode,
+        );
+      }
+
+      let statuses: unknown[];
+      try {
+        const response = await this.submitBulkOrder(
+          [entry.order, ...triggers.map(({ prepared }) => prepared.order)],
+          params.grouping,
         );
+        statuses = response?.response?.data?.statuses || [];
+      } catch (error) {
+        // Bulk orders are atomic, an accepted entry means accepted triggers
+        statuses = [
+          { resting: { oid: await this.recoverOrderId(error, entry.order) } },
+        ];
       }
 
-      const orderNotional = preciseSize * markPrice;
-      if (orderNotional > maxNotionalPerOrder) {
+      const [entryStatus, ...triggerStatuses] = statuses as Array<
+        HLOrderResponse['response']['data']['statuses'][0] & { error?: string }
+      >;
+      const entryOrderId =
+        entryStatus?.resting?.oid || entryStatus?.filled?.oid;
+      if (!entryOrderId) {
         throw new HyperliquidError(
-          `Order notional ${orderNotional.toFixed(2)} exceeds maximum ${maxNotionalPerOrder}`,
+          `Failed to place bracket entry: ${entryStatus?.error || 'no status'}`,
         );
       }
 
+      const triggerResults = triggers.map(
+        ({ params: trigger, prepared }, i) => {
+          const status = triggerStatuses[i];
+          const orderId = status?.resting?.oid;
+          return {
+            ...this.toOrderResult(trigger, orderId, prepared),
+            // Waiting for the entry fill, the oid arrives with the order update
+            orderId: orderId ? String(orderId) : undefined,
+            ...(status?.error && {
+              status: TradeOrderStatus.FAILED,
+              message: status.error,
+            }),
+          };
+        },
+      );
+
+      this.logger.log(
+        `Placed ${params.entry.direction} bracket order for ${params.entry.symbol}`,
+        {
+          orderId: entryOrderId,
+          grouping: params.grouping,
+          size: entry.size,
+          triggers: triggerResults.map(
+            (result) => `${result.triggerType}@${result.triggerPrice}`,
+          ),
+        },
+      );
+
+      return {
+        entry: {
+          ...this.toOrderResult(params.entry, entryOrderId, entry),
+          ...(entryStatus.filled && {
+            filledSize: parseFloat(entryStatus.filled.totalSz),
+            averagePrice: parseFloat(entryStatus.filled.avgPx),
+          }),
+        },
+        stopLoss: triggerResults.find((result) => result.triggerType === 'sl'),
+        takeProfit: triggerResults.find(
+          (result) => result.triggerType === 'tp',
+        ),
+      };
+    } catch (error) {
+      this.logger.error('Failed to place bracket order', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Validate order params against market and risk limits and build the
+   * exchange order
+   */
+  private async prepareOrder(
+    params: PlacePerpOrderParams,
+  ): Promise<PreparedOrder> {
+    const mappedSymbol = this.mapSymbolToHL(params.symbol);
+    const market = await this.getMarket(mappedSymbol);
+
+    const ticker = await this.getTicker(params.symbol);
+    const markPrice = parseFloat(ticker.mark);
+    const baseSize = params.size ?? params.quoteAmount / markPrice;
+
+    const { szDecimals } = market;
+    const minSize = getHLSizeStep(szDecimals);
+    const roundedSize = this.roundToStep(baseSize, minSize);
+
+    // Fix precision to avoid floating point issues
+    const preciseSize = parseFloat(roundedSize.toFixed(szDecimals));
+
+    if (preciseSize < minSize) {
+      throw new HyperliquidError(
+        `Order size ${preciseSize} is below minimum ${minSize}`,
+      );
+    }
+
+    const maxLeverage = this.configService.get<number>(
+      'hyperliquid.maxLeveragePerSymbol',
+      10,
+    );
+    const maxNotionalPerOrder = this.configService.get<number>(
+      'hyperliquid.maxNotionalPerOrder',
+      10000,
+    );
+
+    // Check leverage limit
+    const requestedLeverage =
+      params.leverage ||
+      this.configService.get<number>('hyperliquid.defaultLeverage', 3);
+    if (requestedLeverage > maxLeverage) {
+      throw new HyperliquidError(
+        `Requested leverage ${requestedLeverage}x exceeds maximum ${maxLeverage}x`,
+      );
+    }
+
+    if (requestedLeverage > market.maxLeverage) {
+      throw new HyperliquidError(
+        `Requested leverage ${requestedLeverage}x exceeds market maximum ${market.maxLeverage}x`,
+      );
+    }
+
+    const orderNotional = preciseSize * markPrice;
+    if (orderNotional > maxNotionalPerOrder) {
+      throw new HyperliquidError(
+        `Order notional ${orderNotional.toFixed(2)} exceeds maximum ${maxNotionalPerOrder}`,
+      );
+    }
+
+    // Reduce-only orders (exits, SL/TP) cannot open a new position, and
+    // neither can orders adding to the position already held in this coin
+    if (!params.reduceOnly) {
       const positions = await this.getPositions();
       const currentPositionCount = positions.filter(
-        (p) => parseFloat(p.szi) !== 0,
+        (p) => parseFloat(p.szi) !== 0 && p.coin !== mappedSymbol,
       ).length;
       const maxOpenPositions = this.configService.get<number>(
         'hyperliquid.maxOpenPositions',
@@ -201,70 +515,217 @@ export class HyperliquidService {
           `Maximum open positions reached (${currentPositionCount}/${maxOpenPositions})`,
         );
       }
+    }
 
-      const tif = params.tif || 'Gtc';
-      const order: Order = {
-        coin: mappedSymbol,
-        is_buy: params.direction === PositionDirection.LONG,
-        sz: preciseSize.toString(),
-        limit_px: (params.price || markPrice).toString(),
-        order_type:
-          params.triggerPrice && params.triggerType
-            ? {
-                trigger: {
-                  triggerPx: params.triggerPrice.toString(),
-                  isMarket: params.isMarket ?? true,
-                  tpsl: params.triggerType,
-                },
-              }
-            : {
-                limit: {
-                  tif: tif,
-                },
-              },
-        reduce_only: params.reduceOnly || false,
-        ...(params.clientOrderId && { cloid: params.clientOrderId }),
-      };
+    const tif = params.tif || 'Gtc';
+    const isBuy = params.direction === PositionDirection.LONG;
+    const isTrigger = !!(params.triggerPrice && params.triggerType);
 
-      if (params.leverage) {
-        await this.updateLeverage(mappedSymbol, params.leverage);
-      }
+    // IOC orders without a price become marketable limits: mark plus a band
+    // in the direction of the order, so they fill through a moving book
+    let limitPrice = params.price || markPrice;
+    if (!params.price && !isTrigger && tif === 'Ioc') {
+      const slippageBps =
+        params.slippageBps ??
+        this.configService.get<number>('hyperliquid.iocSlippageBps', 50);
+      const band = slippageBps / 10000;
+      limitPrice = markPrice * (isBuy ? 1 + band : 1 - band);
+    }
+    limitPrice = roundHLPrice(limitPrice, szDecimals);
+    const triggerPrice = isTrigger
+      ? roundHLPrice(params.triggerPrice, szDecimals)
+      : undefined;
+    const priceDecimals = getHLMaxPriceDecimals(szDecimals);
 
-      const response: HLOrderResponse = await this.client.exchangeAction({
-        type: 'order' as const,
-        order,
-      });
+    const order: Order = {
+      coin: mappedSymbol,
+      is_buy: isBuy,
+      sz: formatHLNumber(preciseSize, szDecimals),
+      limit_px: formatHLNumber(limitPrice, priceDecimals),
+      order_type: isTrigger
+        ? {
+            trigger: {
+              triggerPx: formatHLNumber(triggerPrice, priceDecimals),
+              isMarket: params.isMarket ?? true,
+              tpsl: params.triggerType,
+            },
+          }
+        : {
+            limit: {
+              tif: tif,
+            },
+          },
+      reduce_only: params.reduceOnly || false,
+      ...(params.clientOrderId && { cloid: params.clientOrderId }),
+    };
 
-      const orderStatus = response?.response?.data?.statuses?.[0];
-      const orderId = orderStatus?.resting?.oid || orderStatus?.filled?.oid;
+    return { order, size: preciseSize, markPrice, tif, triggerPrice };
+  }
 
-      if (!orderId) {
-        throw new HyperliquidError(`Failed to place order: error ${response}`);
-      }
+  private toOrderResult(
+    params: PlacePerpOrderParams,
+    orderId: number,
+    { size, markPrice, tif, triggerPrice }: PreparedOrder,
+  ): TradeOrderResult {
+    return {
+      orderId: String(orderId),
+      clientOrderId: params.clientOrderId,
+      status: TradeOrderStatus.CREATED,
+      size,
+      price: markPrice, // TODO: check in the future, price and fee
+      type: params.triggerType ? `trigger_${params.triggerType}` : String(tif),
+      isTrigger: !!params.triggerPrice,
+      triggerPrice,
+      triggerType: params.triggerType,
+      isMarket: params.isMarket,
+    };
+  }
 
-      this.logger.log(`Placed ${params.direction} order for ${params.symbol}`, {
-        orderId,
-        size: preciseSize,
-        price: params.price || markPrice,
-      });
+  /**
+   * Submit an order and return its exchange order id
+   * When the submission fails without a clear answer (timeout, dropped
+   * connection) the order is looked up by its cloid, so a request the exchange
+   * did accept is not reported as failed and submitted again by the caller
+   */
+  private async submitOrderIdempotent(order: Order): Promise<SubmittedOrder> {
+    let response: HLOrderResponse;
+    try {
+      response = await this.submitOrder(order);
+    } catch (error) {
+      // The fill of a recovered order is only known from the fills stream
+      return { oid: await this.recoverOrderId(error, order) };
+    }
 
+    const orderStatus = response?.response?.data?.statuses?.[0];
+    if (orderStatus?.filled) {
       return {
-        orderId: String(orderId),
-        status: TradeOrderStatus.CREATED,
-        size: preciseSize,
-        price: markPrice, // TODO: check in the future, price and fee
-        type: params.triggerType
-          ? `trigger_${params.triggerType}`
-          : String(tif),
-        isTrigger: !!params.triggerPrice,
-        triggerPrice: params.triggerPrice,
-        triggerType: params.triggerType,
-        isMarket: params.isMarket,
+        oid: orderStatus.filled.oid,
+        filledSize: parseFloat(orderStatus.filled.totalSz),
+        averagePrice: parseFloat(orderStatus.filled.avgPx),
       };
-    } catch (error) {
-      this.logger.error('Failed to place perp order', error);
+    }
+
+    const orderId = orderStatus?.resting?.oid;
+    if (!orderId) {
+      const reason = (orderStatus as { error?: string })?.error || 'no status';
+      throw new HyperliquidError(`Failed to place order: ${reason}`);
+    }
+    return { oid: orderId };
+  }
+
+  /**
+   * Look up an order whose request failed by its cloid and return its oid
+   * Rethrows the original error when the exchange does not have the order
+   */
+  private async recoverOrderId(error: unknown, order: Order): Promise<number> {
+    if (!order.cloid) {
       throw error;
     }
+
+    const existing = await this.getOrderByClientOrderId(order.cloid).catch(
+      (lookupError) => {
+        this.logger.warn(
+          `Failed to look up order by cloid ${order.cloid}`,
+          lookupError,
+        );
+        return null;
+      },
+    );
+    if (!existing || this.isRejectedStatus(existing.status)) {
+      throw error;
+    }
+
+    this.logger.warn(
+      `Order request for cloid ${order.cloid} failed, but the exchange has it as ${existing.status} (oid: ${existing.oid})`,
+    );
+    return existing.oid;
+  }
+
+  private isRejectedStatus(status: string): boolean {
+    return status === 'rejected' || status.endsWith('Rejected');
+  }
+
+  /**
+   * Look up an order by its client order id (cloid)
+   * Returns null when the exchange does not know the cloid
+   */
+  async getOrderByClientOrderId(
+    clientOrderId: string,
+  ): Promise<HLOrderStatus | null> {
+    const walletAddress = this.signatureAdapter.getPublicAddress();
+    if (!walletAddress) {
+      throw new HyperliquidError('No wallet address available');
+    }
+
+    const response = await this.client.getInfo('orderStatus', {
+      user: walletAddress,
+      oid: clientOrderId,
+    });
+
+    if (response?.status !== 'order' || !response.order?.order) {
+      return null;
+    }
+
+    return {
+      oid: response.order.order.oid,
+      cloid: response.order.order.cloid || clientOrderId,
+      status: response.order.status,
+    };
+  }
+
+  /**
+   * Submit a prepared order to the exchange
+   * Overridden by the paper-trading implementation to simulate execution
+   */
+  protected async submitOrder(order: Order): Promise<HLOrderResponse> {
+    return this.client.exchangeAction({
+      type: 'order' as const,
+      order,
+    });
+  }
+
+  /**
+   * Submit prepared orders as one grouped bulk order
+   * Overridden by the paper-trading implementation to simulate execution
+   */
+  protected async submitBulkOrder(
+    orders: Order[],
+    grouping: Grouping,
+  ): Promise<HLOrderResponse> {
+    return this.client.exchangeAction({
+      type: 'order' as const,
+      order: { orders, grouping },
+    });
+  }
+
+  /**
+   * Submit prepared order modifications to the exchange
+   * Overridden by the paper-trading implementation to simulate execution
+   */
+  protected async submitBatchModify(
+    modifies: HLModifyRequest[],
+  ): Promise<HLOrderResponse> {
+    return this.client.exchangeAction({
+      type: 'batchModify',
+      modifies,
+    });
+  }
+
+  /**
+   * Move isolated margin in or out of a position on the exchange
+   * Overridden by the paper-trading implementation to simulate execution
+   */
+  protected async submitIsolatedMargin(
+    coin: string,
+    isBuy: boolean,
+    amountUsd: number,
+  ): Promise<void> {
+    await this.client.exchangeAction({
+      type: 'updateIsolatedMargin',
+      asset: coin,
+      isBuy,
+      amount: amountUsd,
+    });
   }
 
   /**
@@ -288,6 +749,28 @@ export class HyperliquidService {
     }
   }
 
+  /**
+   * Cancel an order by its client order id (cloid)
+   */
+  async cancelOrderByCloid(
+    clientOrderId: string,
+    symbol: string,
+  ): Promise<void> {
+    try {
+      await this.client.exchangeAction({
+        type: 'cancelByCloid',
+        cancels: [{ coin: this.mapSymbolToHL(symbol), cloid: clientOrderId }],
+      });
+      this.logger.log(`Cancelled order with cloid ${clientOrderId}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to cancel order with cloid ${clientOrderId}`,
+        error,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Cancel all orders for a symbol
    */
@@ -365,6 +848,117 @@ export class HyperliquidService {
     }
   }
 
+  /**
+   * Get resting orders, including trigger orders and their reduce-only flag
+   */
+  async getOpenOrders(): Promise<HLOpenOrder[]> {
+    try {
+      const walletAddress = this.signatureAdapter.getPublicAddress();
+      if (!walletAddress) {
+        throw new HyperliquidError('No wallet address available');
+      }
+
+      const orders = await this.client.getInfo('frontendOpenOrders', {
+        user: walletAddress,
+      });
+
+      return orders || [];
+    } catch (error) {
+      this.logger.error('Failed to fetch open orders', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the most recent account fills (the exchange returns up to 2000)
+   */
+  async getUserFills(): Promise<HLUserFill[]> {
+    try {
+      const walletAddress = this.signatureAdapter.getPublicAddress();
+      if (!walletAddress) {
+        throw new HyperliquidError('No wallet address available');
+      }
+
+      const fills = await this.client.getInfo('userFills', {
+        user: walletAddress,
+      });
+
+      return fills || [];
+    } catch (error) {
+      this.logger.error('Failed to fetch user fills', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get funding payments made or received by the account since startTime
+   */
+  async getUserFunding(
+    startTime: number,
+    endTime?: number,
+  ): Promise<HLUserFunding[]> {
+    try {
+      const walletAddress = this.signatureAdapter.getPublicAddress();
+      if (!walletAddress) {
+        throw new HyperliquidError('No wallet address available');
+      }
+
+      const funding = await this.client.getInfo('userFunding', {
+        user: walletAddress,
+        startTime,
+        endTime,
+      });
+
+      return funding || [];
+    } catch (error) {
+      this.logger.error('Failed to fetch user funding', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the candles of a market between startTime and endTime, oldest first
+   * Served from the WebSocket stream when it is fresh and reaches back to
+   * startTime, otherwise from REST
+   *
+   * @param interval - Candle interval, e.g. '1m', '15m', '1h', '4h', '1d'
+   */
+  async getCandles(
+    symbol: string,
+    interval: string,
+    startTime: number,
+    endTime: number = Date.now(),
+  ): Promise<HLCandle[]> {
+    try {
+      const mappedSymbol = this.mapSymbolToHL(symbol);
+      // The stream only holds candles received since the subscription
+      const streamed =
+        this.marketDataStream?.getCandles(mappedSymbol, interval) || [];
+      if (streamed.length && streamed[0].t <= startTime) {
+        return streamed.filter(
+          (candle) => candle.t >= startTime && candle.t <= endTime,
+        );
+      }
+
+      // Stream the candles from now on so later calls skip REST
+      this.marketDataStream?.trackMarketData(mappedSymbol);
+
+      const candles = await this.client.getInfo('candleSnapshot', {
+        coin: mappedSymbol,
+        interval,
+        startTime,
+        endTime,
+      });
+      return candles || [];
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch ${interval} candles for ${symbol}`,
+        error,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Get account balance
    */
@@ -404,16 +998,20 @@ export class HyperliquidService {
 
   /**
    * Get funding rates
+   * With a symbol this is its funding history over the last 24 hours,
+   * without one the current funding of every market
    */
   async getFundingRates(symbol?: string): Promise<FundingHistory> {
     try {
       if (!symbol) {
-        // If no symbol provided, get predicted fundings for all
-        const response = await this.client.getInfo('fundingHistory', {
-          coin: 'BTC', // Default to BTC for now
-          startTime: Date.now() - 86400000, // Last 24 hours
-        });
-        return response || [];
+        const [meta, assetCtxs] = await this.getMetaAndAssetCtxs();
+        const time = Date.now();
+        return meta.universe.map((market, index) => ({
+          coin: market.name,
+          fundingRate: assetCtxs[index]?.funding ?? '0',
+          premium: assetCtxs[index]?.premium ?? '0',
+          time,
+        }));
       }
 
       const mappedSymbol = this.mapSymbolToHL(symbol);
@@ -429,22 +1027,58 @@ export class HyperliquidService {
   }
 
   /**
-   * Update leverage for a symbol
+   * Add (positive) or remove (negative) USD margin on an open isolated
+   * position; the side is taken from the position itself
    */
-  private async updateLeverage(
+  async updateIsolatedMargin(symbol: string, amountUsd: number): Promise<void> {
+    try {
+      const position = await this.getPosition(symbol);
+      if (!position || parseFloat(position.szi) === 0) {
+        throw new HyperliquidError(`No open position for ${symbol}`);
+      }
+      if (position.leverage?.type !== MarginMode.ISOLATED) {
+        throw new HyperliquidError(
+          `Position for ${symbol} is not isolated, margin cannot be adjusted`,
+        );
+      }
+
+      await this.submitIsolatedMargin(
+        position.coin,
+        parseFloat(position.szi) > 0,
+        amountUsd,
+      );
+      this.logger.log(
+        `${amountUsd > 0 ? 'Added' : 'Removed'} ${Math.abs(amountUsd)} USD isolated margin for ${symbol}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to update isolated margin for ${symbol}`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Update leverage and margin mode for a symbol
+   */
+  protected async updateLeverage(
     symbol: string,
     leverage: number,
+    marginMode: MarginMode = MarginMode.CROSS,
   ): Promise<void> {
     try {
       const leverageAction = {
         type: 'updateLeverage' as const,
         asset: symbol,
-        isCross: true,
+        isCross: marginMode !== MarginMode.ISOLATED,
         leverage: leverage,
       };
 
       await this.client.exchangeAction(leverageAction);
-      this.logger.log(`Updated leverage for ${symbol} to ${leverage}x`);
+      this.logger.log(
+        `Updated leverage for ${symbol} to ${leverage}x ${marginMode}`,
+      );
     } catch (error) {
       this.logger.error(`Failed to update leverage for ${symbol}`, error);
       throw error;
@@ -454,7 +1088,7 @@ export class HyperliquidService {
   /**
    * Get market info for a symbol
    */
-  private async getMarket(symbol: string): Promise<HLMarket> {
+  protected async getMarket(symbol: string): Promise<HLMarket> {
     const markets = await this.getMarkets();
     const market = markets.find((m) => m.name === symbol);
 
@@ -468,14 +1102,14 @@ export class HyperliquidService {
   /**
    * Map internal symbol to Hyperliquid format
    */
-  private mapSymbolToHL(symbol: string): string {
+  protected mapSymbolToHL(symbol: string): string {
     return HL_SYMBOL_MAP[symbol] || symbol;
   }
 
   /**
    * Map Hyperliquid symbol to internal format
    */
-  private mapSymbolFromHL(symbol: string): string {
+  protected mapSymbolFromHL(symbol: string): string {
     return HL_SYMBOL_REVERSE_MAP[symbol] || symbol;
   }
 
@@ -483,21 +1117,8 @@ export class HyperliquidService {
    * Round a number to the nearest step
    */
   private roundToStep(value: number, step: number): number {
-    return Math.floor(value / step) * step;
-  }
-
-  /**
-   * Calculate the number of decimal places needed for a given step size
-   */
-  private getSizePrecision(step: number): number {
-    const stepStr = step.toString();
-    if (stepStr.includes('e')) {
-      // Handle scientific notation
-      const parts = stepStr.split('e');
-      return Math.abs(parseInt(parts[1]));
-    }
-    const decimalIndex = stepStr.indexOf('.');
-    return decimalIndex === -1 ? 0 : stepStr.length - decimalIndex - 1;
+    // The epsilon keeps exact multiples (0.29 / 0.01) from flooring a step down
+    return Math.floor(value / step + 1e-9) * step;
   }
 
   /**
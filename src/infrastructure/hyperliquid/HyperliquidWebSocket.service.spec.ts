@@ -50,7 +50,9 @@ describe('HyperliquidWebSocketService', () => {
     mockWebSocketInstance.readyState = WS_OPEN;
 
     mockConfigService = {
-      get: jest.fn().mockReturnValue(mockWsUrl),
+      get: jest.fn((key: string, defaultValue?: unknown) =>
+        key === 'hyperliquid.wsUrl' ? mockWsUrl : defaultValue,
+      ),
     } as unknown as jest.Mocked<ConfigService>;
 
     mockSignatureAdapter = {
@@ -203,7 +205,7 @@ describe('HyperliquidWebSocketService', () => {
 
       openHandler();
 
-      expect(mockWebSocketInstance.send).toHaveBeenCalledTimes(2); // userFills + orderUpdates
+      expect(mockWebSocketInstance.send).toHaveBeenCalledTimes(3); // userFills + orderUpdates + allMids
     });
 
     it('should handle message event with userFills', () => {
@@ -287,12 +289,17 @@ describe('HyperliquidWebSocketService', () => {
       });
     });
 
-    it('should ignore snapshot messages for userFills', () => {
+    it('should replay snapshot fills oldest first', async () => {
       const messageHandler = mockWebSocketInstance.on.mock.calls.find(
         (call) => call[0] === 'message',
       )?.[1] as Function;
 
-      const fillCallback = jest.fn();
+      const handled: string[] = [];
+      const fillCallback = jest.fn(async (fill) => {
+        // Each replayed fill must finish before the next one starts
+        await Promise.resolve();
+        handled.push(fill.tradeId);
+      });
       service.onOrderFill(fillCallback);
 
       const message = {
@@ -302,21 +309,47 @@ describe('HyperliquidWebSocketService', () => {
           fills: [
             {
               coin: 'BTC',
-              side: 'buy',
+              side: 'A',
+              sz: '0.1',
+              px: '51000',
+              fee: '5',
+              oid: 124,
+              tid: 2,
+              time: 1234567900,
+              closedPnl: '100',
+            },
+            {
+              coin: 'BTC',
+              side: 'B',
               sz: '0.1',
               px: '50000',
               fee: '5',
               oid: 123,
+              tid: 1,
               time: 1234567890,
-              closedPnl: '100',
+              closedPnl: '0',
             },
           ],
         },
       };
 
       messageHandler(Buffer.from(JSON.stringify(message)));
+      for (let i = 0; i < 10; i++) {
+        await Promise.resolve();
+      }
 
-      expect(fillCallback).not.toHaveBeenCalled();
+      expect(handled).toEqual(['1', '2']);
+      expect(fillCallback).toHaveBeenNthCalledWith(1, {
+        orderId: '123',
+        tradeId: '1',
+        coin: 'BTC',
+        side: 'B',
+        size: '0.1',
+        price: '50000',
+        fee: '5',
+        timestamp: 1234567890,
+        closedPnl: '0',
+      });
     });
 
     it('should handle invalid JSON message gracefully', () => {
@@ -645,6 +678,95 @@ describe('HyperliquidWebSocketService', () => {
     });
   });
 
+  describe('market data stream', () => {
+    let openHandler: Function;
+    let messageHandler: Function;
+
+    beforeEach(async () => {
+      await service.connect();
+      openHandler = mockWebSocketInstance.on.mock.calls.find(
+        (call) => call[0] === 'open',
+      )?.[1] as Function;
+      messageHandler = mockWebSocketInstance.on.mock.calls.find(
+        (call) => call[0] === 'message',
+      )?.[1] as Function;
+      openHandler();
+    });
+
+    it('should subscribe to all mids on open', () => {
+      expect(mockWebSocketInstance.send).toHaveBeenCalledWith(
+        JSON.stringify({
+          method: 'subscribe',
+          subscription: { type: 'allMids' },
+        }),
+      );
+    });
+
+    it('should serve streamed mids until they go stale', () => {
+      messageHandler(
+        Buffer.from(
+          JSON.stringify({
+            channel: 'allMids',
+            data: { mids: { BTC: '50000.5' } },
+          }),
+        ),
+      );
+
+      expect(service.getMid('BTC')).toBe('50000.5');
+      expect(service.getMid('ETH')).toBeNull();
+
+      jest.advanceTimersByTime(10001);
+
+      expect(service.getMid('BTC')).toBeNull();
+    });
+
+    it('should subscribe to order book and candles of tracked coins again after reconnect', () => {
+      service.trackMarketData('BTC');
+      service.trackMarketData('BTC');
+
+      const l2BookSubscription = JSON.stringify({
+        method: 'subscribe',
+        subscription: { type: 'l2Book', coin: 'BTC' },
+      });
+      const sends = () =>
+        mockWebSocketInstance.send.mock.calls.filter(
+          (call) => call[0] === l2BookSubscription,
+        ).length;
+      expect(sends()).toBe(1);
+
+      openHandler();
+
+      expect(sends()).toBe(2);
+    });
+
+    it('should store streamed order books and candles', () => {
+      const levels = [
+        [{ px: '49999', sz: '1', n: 1 }],
+        [{ px: '50001', sz: '2', n: 1 }],
+      ];
+      messageHandler(
+        Buffer.from(
+          JSON.stringify({
+            channel: 'l2Book',
+            data: { coin: 'BTC', levels, time: Date.now() },
+          }),
+        ),
+      );
+      const candle = { t: 1, T: 2, s: 'BTC', i: '1m', o: 1, c: 2 };
+      messageHandler(
+        Buffer.from(JSON.stringify({ channel: 'candle', data: candle })),
+      );
+      messageHandler(
+        Buffer.from(
+          JSON.stringify({ channel: 'candle', data: { ...candle, c: 3 } }),
+        ),
+      );
+
+      expect(service.getOrderbook('BTC')).toEqual({ coin: 'BTC', levels });
+      expect(service.getCandles('BTC')).toEqual([{ ...candle, c: 3 }]);
+    });
+  });
+
   describe('subscription response handling', () => {
     it('should handle subscription response messages', async () => {
       await service.connect();
@@ -1,9 +1,16 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as WebSocket from 'ws';
+import { type Candle } from 'hyperliquid';
 import { HyperliquidSignatureAdapter } from './HyperliquidSignatureAdapter';
+import { HyperliquidMarketDataStore } from './HyperliquidMarketDataStore';
 import { PlatformWebSocketService, OrderFill, OrderUpdate } from '../websocket';
 import {
+  HLOrderbook,
+  WsAllMidsMessage,
+  WsCandleMessage,
+  WsFill,
+  WsL2BookMessage,
   WsUserFillsMessage,
   WsOrderUpdatesMessage,
   WsSubscriptionResponse,
@@ -18,6 +25,10 @@ export class HyperliquidWebSocketService extends PlatformWebSocketService {
   private readonly reconnectDelay = 5000;
   private isConnecting = false;
   private userAddress: string | null = null;
+  private readonly marketData = new HyperliquidMarketDataStore();
+  private readonly marketDataCoins: Set<string> = new Set();
+  private readonly marketDataMaxAgeMs: number;
+  private readonly candleInterval: string;
 
   constructor(
     private readonly configService: ConfigService,
@@ -25,6 +36,14 @@ export class HyperliquidWebSocketService extends PlatformWebSocketService {
   ) {
     super();
     this.wsUrl = this.configService.get<string>('hyperliquid.wsUrl');
+    this.marketDataMaxAgeMs = this.configService.get<number>(
+      'hyperliquid.marketDataMaxAgeMs',
+      10000,
+    );
+    this.candleInterval = this.configService.get<string>(
+      'hyperliquid.marketDataCandleInterval',
+      '1m',
+    );
   }
 
   async connect(): Promise<void> {
@@ -50,6 +69,10 @@ export class HyperliquidWebSocketService extends PlatformWebSocketService {
         this.isConnecting = false;
         this.subscribeToUserFills();
         this.subscribeToOrderUpdates();
+        this.subscribeToAllMids();
+        for (const coin of this.marketDataCoins) {
+          this.subscribeToCoinMarketData(coin);
+        }
       });
 
       this.ws.on('message', (data: WebSocket.Data) => {
@@ -120,10 +143,91 @@ export class HyperliquidWebSocketService extends PlatformWebSocketService {
     this.logger.log(`Subscribed to order updates for ${this.userAddress}`);
   }
 
+  protected subscribeToAllMids(): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    this.ws.send(
+      JSON.stringify({
+        method: 'subscribe',
+        subscription: { type: 'allMids' },
+      }),
+    );
+    this.logger.log('Subscribed to all mids');
+  }
+
+  /**
+   * Subscribe to the order book and candles of a coin
+   */
+  protected subscribeToCoinMarketData(coin: string): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    this.ws.send(
+      JSON.stringify({
+        method: 'subscribe',
+        subscription: { type: 'l2Book', coin },
+      }),
+    );
+    this.ws.send(
+      JSON.stringify({
+        method: 'subscribe',
+        subscription: {
+          type: 'candle',
+          coin,
+          interval: this.candleInterval,
+        },
+      }),
+    );
+    this.logger.log(
+      `Subscribed to l2Book and ${this.candleInterval} candles for ${coin}`,
+    );
+  }
+
+  /**
+   * Start streaming order book and candles for a coin; subscriptions are
+   * remembered and renewed after every reconnect
+   */
+  trackMarketData(coin: string): void {
+    if (this.marketDataCoins.has(coin)) {
+      return;
+    }
+
+    this.marketDataCoins.add(coin);
+    this.subscribeToCoinMarketData(coin);
+  }
+
+  /**
+   * Streamed mid price, or null when the stream is stale
+   */
+  getMid(coin: string): string | null {
+    return this.marketData.getMid(coin, this.marketDataMaxAgeMs);
+  }
+
+  /**
+   * Streamed order book, or null when the stream is stale
+   */
+  getOrderbook(coin: string): HLOrderbook | null {
+    return this.marketData.getOrderbook(coin, this.marketDataMaxAgeMs);
+  }
+
+  /**
+   * Streamed candles (oldest first), or empty when the stream is stale or
+   * carries another interval
+   */
+  getCandles(coin: string, interval = this.candleInterval): Candle[] {
+    return this.marketData.getCandles(coin, interval, this.marketDataMaxAgeMs);
+  }
+
   private handleMessage(
     message:
       | WsUserFillsMessage
       | WsOrderUpdatesMessage
+      | WsAllMidsMessage
+      | WsL2BookMessage
+      | WsCandleMessage
       | WsSubscriptionResponse,
   ): void {
     const { channel, data } = message;
@@ -138,6 +242,17 @@ export class HyperliquidWebSocketService extends PlatformWebSocketService {
       case 'orderUpdates':
         this.handleOrderUpdates(message as WsOrderUpdatesMessage);
         break;
+      case 'allMids':
+        this.marketData.setMids((message as WsAllMidsMessage).data.mids || {});
+        break;
+      case 'l2Book': {
+        const { coin, levels } = (message as WsL2BookMessage).data;
+        this.marketData.setOrderbook({ coin, levels });
+        break;
+      }
+      case 'candle':
+        this.marketData.setCandle((message as WsCandleMessage).data);
+        break;
       case 'subscriptionResponse':
         this.handleSubscriptionResponse(message as WsSubscriptionResponse);
         break;
@@ -150,7 +265,7 @@ export class HyperliquidWebSocketService extends PlatformWebSocketService {
     const { isSnapshot, fills } = message.data;
 
     if (isSnapshot) {
-      this.logger.debug(`Received fills snapshot with ${fills.length} fills`);
+      this.handleFillsSnapshot(fills || []);
       return;
     }
 
@@ -164,23 +279,46 @@ export class HyperliquidWebSocketService extends PlatformWebSocketService {
         `Order filled: ${fill.coin} ${fill.side} ${fill.sz} @ ${fill.px} (oid: ${fill.oid})`,
       );
 
-      // Convert to platform-agnostic OrderFill format
-      const orderFill: OrderFill = {
-        orderId: String(fill.oid),
-        coin: fill.coin,
-        side: fill.side,
-        size: fill.sz,
-        price: fill.px,
-        fee: fill.fee,
-        timestamp: fill.time,
-        closedPnl: fill.closedPnl,
-      };
-
       // Notify callbacks using base class method
-      this.notifyFillCallbacks(orderFill);
+      this.notifyFillCallbacks(this.toOrderFill(fill));
     }
   }
 
+  /**
+   * Replay the fills snapshot sent after every (re)connect, oldest first.
+   * Fills already recorded on their position are skipped downstream, so
+   * only fills missed while the socket was down change any state
+   */
+  private handleFillsSnapshot(fills: WsFill[]): void {
+    this.logger.log(`Replaying fills snapshot with ${fills.length} fills`);
+
+    const orderFills = [...fills]
+      .sort((a, b) => a.time - b.time)
+      .map((fill) => this.toOrderFill(fill));
+
+    this.replayFillCallbacks(orderFills).catch((error) =>
+      this.logger.error('Failed to replay fills snapshot', error),
+    );
+  }
+
+  /**
+   * Convert to platform-agnostic OrderFill format
+   */
+  private toOrderFill(fill: WsFill): OrderFill {
+    return {
+      orderId: String(fill.oid),
+      ...(fill.tid !== undefined && { tradeId: String(fill.tid) }),
+      ...(fill.cloid && { clientOrderId: fill.cloid }),
+      coin: fill.coin,
+      side: fill.side,
+      size: fill.sz,
+      price: fill.px,
+      fee: fill.fee,
+      timestamp: fill.time,
+      closedPnl: fill.closedPnl,
+    };
+  }
+
   private handleOrderUpdates(message: WsOrderUpdatesMessage): void {
     const { orders } = message.data;
 
@@ -214,7 +352,7 @@ export class HyperliquidWebSocketService extends PlatformWebSocketService {
   private handleSubscriptionResponse(message: WsSubscriptionResponse): void {
     const { method, subscription } = message.data;
     this.logger.debug(
-      `Subscription ${method}: ${subscription.type}${subscription.user ? ` for ${subscription.user}` : ''}`,
+      `Subscription ${method}: ${subscription.type}${subscription.user ? ` for ${subscription.user}` : ''}${subscription.coin ? ` for ${subscription.coin}` : ''}`,
     );
   }
 
@@ -0,0 +1,454 @@
+import { ConfigService } from '@nestjs/config';
+import { PaperHyperliquidService } from './PaperHyperliquidService';
+import { PaperHyperliquidWebSocketService } from './PaperHyperliquidWebSocket.service';
+import { HyperliquidClient, HyperliquidError } from './HyperliquidClient';
+import { HyperliquidSignatureAdapter } from './HyperliquidSignatureAdapter';
+import { MarginMode, PositionDirection, TradeOrderStatus } from '../../shared';
+
+const flushFills = (): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('PaperHyperliquidService', () => {
+  let service: PaperHyperliquidService;
+  let mockClient: jest.Mocked<HyperliquidClient>;
+  let mockConfigService: jest.Mocked<ConfigService>;
+  let mockPaperWebSocket: jest.Mocked<PaperHyperliquidWebSocketService>;
+  let mids: Record<string, string>;
+
+  const config: Record<string, unknown> = {
+    'hyperliquid.paperInitialBalance': 10000,
+    'hyperliquid.paperSlippageBps': 5,
+    'hyperliquid.paperTakerFeeBps': 4.5,
+    'hyperliquid.paperFillDelayMs': 0,
+    'hyperliquid.maxOpenPositions': 1,
+  };
+
+  beforeEach(() => {
+    mids = { HYPE: '50000' };
+
+    mockClient = {
+      getInfo: jest.fn().mockImplementation((type: string) => {
+        switch (type) {
+          case 'allMids':
+            return Promise.resolve(mids);
+          case 'metaAndAssetCtxs':
+            return Promise.resolve([
+              {
+                universe: [{ name: 'HYPE', szDecimals: 5, maxLeverage: 40 }],
+              },
+              [{ markPx: mids.HYPE, dayNtlVlm: '0', openInterest: '0' }],
+            ]);
+          default:
+            return Promise.resolve({});
+        }
+      }),
+      exchangeAction: jest.fn(),
+    } as unknown as jest.Mocked<HyperliquidClient>;
+
+    mockConfigService = {
+      get: jest
+        .fn()
+        .mockImplementation((key: string, defaultValue?: unknown) =>
+          key in config ? config[key] : defaultValue,
+        ),
+    } as unknown as jest.Mocked<ConfigService>;
+
+    mockPaperWebSocket = {
+      publishFill: jest.fn(),
+    } as unknown as jest.Mocked<PaperHyperliquidWebSocketService>;
+
+    service = new PaperHyperliquidService(
+      mockClient,
+      mockConfigService,
+      {} as HyperliquidSignatureAdapter,
+      mockPaperWebSocket,
+    );
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.clearAllMocks();
+  });
+
+  // Sized to round down to exactly 0.02 HYPE at 50000
+  const openLong = () =>
+    service.placePerpOrder({
+      symbol: 'HYPE',
+      direction: PositionDirection.LONG,
+      quoteAmount: 1000.4,
+      tif: 'Ioc',
+    });
+
+  describe('placePerpOrder', () => {
+    it('should fill IOC orders at mid price plus slippage without hitting the exchange', async () => {
+      const result = await openLong();
+      await flushFills();
+
+      expect(result.status).toBe(TradeOrderStatus.CREATED);
+      expect(result.isPaper).toBe(true);
+      expect(mockClient.exchangeAction).not.toHaveBeenCalled();
+      expect(mockPaperWebSocket.publishFill).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderId: result.orderId,
+          coin: 'HYPE',
+          side: 'B',
+          size: '0.02',
+          price: '50025',
+          closedPnl: '0',
+        }),
+      );
+
+      const positions = await service.getPositions();
+      expect(positions).toHaveLength(1);
+      expect(positions[0].szi).toBe('0.02');
+      expect(positions[0].entryPx).toBe('50025');
+    });
+
+    it('should reject reduce-only orders without a position to reduce', async () => {
+      await expect(
+        service.placePerpOrder({
+          symbol: 'HYPE',
+          direction: PositionDirection.SHORT,
+          quoteAmount: 1000,
+          tif: 'Ioc',
+          reduceOnly: true,
+        }),
+      ).rejects.toThrow(HyperliquidError);
+      expect(mockPaperWebSocket.publishFill).not.toHaveBeenCalled();
+    });
+
+    it('should rest non-marketable limit orders until cancelled', async () => {
+      const result = await service.placePerpOrder({
+        symbol: 'HYPE',
+        direction: PositionDirection.LONG,
+        quoteAmount: 1000,
+        price: 49000,
+        tif: 'Gtc',
+      });
+
+      expect(service.getRestingOrders()).toHaveLength(1);
+
+      await service.cancelOrder(result.orderId!);
+
+      expect(service.getRestingOrders()).toHaveLength(0);
+      await expect(service.cancelOrder(result.orderId!)).rejects.toThrow(
+        HyperliquidError,
+      );
+    });
+
+    it('should look up and cancel resting orders by cloid', async () => {
+      const clientOrderId = '0x0123456789abcdef0123456789abcdef';
+      const result = await service.placePerpOrder({
+        symbol: 'HYPE',
+        direction: PositionDirection.LONG,
+        quoteAmount: 1000,
+        price: 49000,
+        tif: 'Gtc',
+        clientOrderId,
+      });
+
+      await expect(
+        service.getOrderByClientOrderId(clientOrderId),
+      ).resolves.toEqual({
+        oid: Number(result.orderId),
+        cloid: clientOrderId,
+        status: 'open',
+      });
+
+      await service.cancelOrderByCloid(clientOrderId);
+
+      expect(service.getRestingOrders()).toHaveLength(0);
+      await expect(
+        service.getOrderByClientOrderId(clientOrderId),
+      ).resolves.toBeNull();
+      await expect(service.cancelOrderByCloid(clientOrderId)).rejects.toThrow(
+        HyperliquidError,
+      );
+    });
+
+    it('should cap IOC fills at the limit price', async () => {
+      // Limit 50005, inside the 5 bps paper slippage
+      await service.placePerpOrder({
+        symbol: 'HYPE',
+        direction: PositionDirection.LONG,
+        quoteAmount: 1000.4,
+        tif: 'Ioc',
+        slippageBps: 1,
+      });
+      await flushFills();
+
+      expect(mockPaperWebSocket.publishFill).toHaveBeenCalledWith(
+        expect.objectContaining({ side: 'B', price: '50005' }),
+      );
+    });
+
+    it('should reject IOC orders whose limit is beyond the mid', async () => {
+      await expect(
+        service.placePerpOrder({
+          symbol: 'HYPE',
+          direction: PositionDirection.LONG,
+          quoteAmount: 1000,
+          price: 49990,
+          tif: 'Ioc',
+        }),
+      ).rejects.toThrow('Order could not immediately match');
+      expect(service.getRestingOrders()).toHaveLength(0);
+      expect(mockPaperWebSocket.publishFill).not.toHaveBeenCalled();
+    });
+
+    it('should reject post-only orders that would cross', async () => {
+      await expect(
+        service.placePerpOrder({
+          symbol: 'HYPE',
+          direction: PositionDirection.LONG,
+          quoteAmount: 1000,
+          price: 50100,
+          tif: 'Alo',
+        }),
+      ).rejects.toThrow('Post only order would have immediately matched');
+    });
+  });
+
+  describe('placeBracketOrder', () => {
+    const bracket = (price?: number) => ({
+      entry: {
+        symbol: 'HYPE',
+        direction: PositionDirection.LONG,
+        quoteAmount: 1000.4,
+        tif: 'Ioc' as const,
+        price,
+      },
+      stopLoss: {
+        symbol: 'HYPE',
+        direction: PositionDirection.SHORT,
+        quoteAmount: 1000.4,
+        triggerPrice: 48000,
+        triggerType: 'sl' as const,
+        isMarket: true,
+        reduceOnly: true,
+      },
+      grouping: 'normalTpsl' as const,
+    });
+
+    it('should fill the entry and rest the SL sized to it', async () => {
+      const result = await service.placeBracketOrder(bracket());
+
+      expect(result.entry).toMatchObject({ isPaper: true, filledSize: 0.02 });
+      expect(result.stopLoss.orderId).toBeDefined();
+      expect(service.getRestingOrders()).toEqual([
+        expect.objectContaining({ sz: 0.02, triggerPx: 48000, tpsl: 'sl' }),
+      ]);
+      expect(mockClient.exchangeAction).not.toHaveBeenCalled();
+    });
+
+    it('should reject the whole group when the entry does not fill', async () => {
+      await expect(service.placeBracketOrder(bracket(49990))).rejects.toThrow(
+        'Order could not immediately match',
+      );
+      expect(service.getRestingOrders()).toHaveLength(0);
+    });
+  });
+
+  describe('checkRestingOrders', () => {
+    const placeSlTp = async () => {
+      await service.placePerpOrder({
+        symbol: 'HYPE',
+        direction: PositionDirection.SHORT,
+        quoteAmount: 1100,
+        triggerPrice: 49000,
+        triggerType: 'sl',
+        reduceOnly: true,
+      });
+      await service.placePerpOrder({
+        symbol: 'HYPE',
+        direction: PositionDirection.SHORT,
+        quoteAmount: 1100,
+        triggerPrice: 52000,
+        triggerType: 'tp',
+        reduceOnly: true,
+      });
+    };
+
+    it('should keep triggers resting while price has not crossed', async () => {
+      await openLong();
+      await placeSlTp();
+
+      mids.HYPE = '50500';
+      await service.checkRestingOrders();
+
+      expect(service.getRestingOrders()).toHaveLength(2);
+    });
+
+    it('should modify resting triggers in place and reject unknown orders', async () => {
+      await openLong();
+      const sl = await service.placePerpOrder({
+        symbol: 'HYPE',
+        direction: PositionDirection.SHORT,
+        quoteAmount: 1100,
+        triggerPrice: 49000,
+        triggerType: 'sl',
+        reduceOnly: true,
+      });
+
+      const result = await service.modifyPerpOrder({
+        orderId: sl.orderId!,
+        symbol: 'HYPE',
+        direction: PositionDirection.SHORT,
+        quoteAmount: 1100,
+        triggerPrice: 49500,
+        triggerType: 'sl',
+        reduceOnly: true,
+      });
+
+      expect(result).toMatchObject({ orderId: sl.orderId, isPaper: true });
+      expect(service.getRestingOrders()).toEqual([
+        expect.objectContaining({ triggerPx: 49500, tpsl: 'sl' }),
+      ]);
+
+      await service.cancelOrder(sl.orderId!);
+      await expect(
+        service.modifyPerpOrder({
+          orderId: sl.orderId!,
+          symbol: 'HYPE',
+          direction: PositionDirection.SHORT,
+          quoteAmount: 1100,
+          triggerPrice: 49600,
+          triggerType: 'sl',
+          reduceOnly: true,
+        }),
+      ).rejects.toThrow('Cannot modify canceled or filled order');
+    });
+
+    it('should fire the stop-loss and cancel the orphaned take-profit', async () => {
+      await openLong();
+      await placeSlTp();
+      await flushFills();
+      mockPaperWebSocket.publishFill.mockClear();
+
+      mids.HYPE = '48900';
+      await service.checkRestingOrders();
+      await flushFills();
+
+      expect(mockPaperWebSocket.publishFill).toHaveBeenCalledTimes(1);
+      const fill = mockPaperWebSocket.publishFill.mock.calls[0][0];
+      expect(fill.side).toBe('A');
+      expect(parseFloat(fill.price)).toBeCloseTo(48875.55, 6);
+      expect(parseFloat(fill.closedPnl!)).toBeCloseTo(-22.989, 6);
+      expect(service.getRestingOrders()).toHaveLength(0);
+      expect(await service.getPositions()).toHaveLength(0);
+    });
+
+    it('should fire the take-profit when price rises through it', async () => {
+      await openLong();
+      await placeSlTp();
+      await flushFills();
+      mockPaperWebSocket.publishFill.mockClear();
+
+      mids.HYPE = '52100';
+      await service.checkRestingOrders();
+      await flushFills();
+
+      const fill = mockPaperWebSocket.publishFill.mock.calls[0][0];
+      expect(parseFloat(fill.closedPnl!)).toBeGreaterThan(0);
+      expect(await service.getPositions()).toHaveLength(0);
+    });
+  });
+
+  describe('updateIsolatedMargin', () => {
+    it('should add margin to an isolated position and remove it again', async () => {
+      await service.placePerpOrder({
+        symbol: 'HYPE',
+        direction: PositionDirection.LONG,
+        quoteAmount: 1000.4,
+        tif: 'Ioc',
+        leverage: 5,
+        marginMode: MarginMode.ISOLATED,
+      });
+
+      await service.updateIsolatedMargin('HYPE', 50);
+      const [position] = await service.getPositions();
+      expect(position.leverage.type).toBe(MarginMode.ISOLATED);
+      // 0.02 * 50000 / 5 plus the added margin
+      expect(parseFloat(position.marginUsed)).toBeCloseTo(250);
+
+      await expect(service.updateIsolatedMargin('HYPE', -60)).rejects.toThrow(
+        HyperliquidError,
+      );
+      await service.updateIsolatedMargin('HYPE', -50);
+      const [reduced] = await service.getPositions();
+      expect(parseFloat(reduced.marginUsed)).toBeCloseTo(200);
+      expect(mockClient.exchangeAction).not.toHaveBeenCalled();
+    });
+
+    it('should reject cross positions', async () => {
+      await openLong();
+
+      await expect(service.updateIsolatedMargin('HYPE', 50)).rejects.toThrow(
+        'Position for HYPE is not isolated, margin cannot be adjusted',
+      );
+    });
+  });
+
+  describe('getBalance', () => {
+    it('should account for realized PnL and fees after a round trip', async () => {
+      await openLong();
+      mids.HYPE = '51000';
+      // Oversized reduce-only exit is capped to the position size
+      await service.placePerpOrder({
+        symbol: 'HYPE',
+        direction: PositionDirection.SHORT,
+        quoteAmount: 1100,
+        tif: 'Ioc',
+        reduceOnly: true,
+      });
+
+      const entryPx = 50025;
+      const exitPx = 51000 * (1 - 0.0005);
+      const fees = ((0.02 * entryPx + 0.02 * exitPx) * 4.5) / 10000;
+      const expected = 10000 + (exitPx - entryPx) * 0.02 - fees;
+
+      const balance = await service.getBalance();
+      expect(balance.total).toBeCloseTo(expected, 6);
+      expect(balance.available).toBe(0);
+    });
+  });
+
+  describe('getUserFills', () => {
+    it('should return paper fills newest first with closed PnL', async () => {
+      await openLong();
+      mids.HYPE = '51000';
+      await service.placePerpOrder({
+        symbol: 'HYPE',
+        direction: PositionDirection.SHORT,
+        quoteAmount: 1100,
+        tif: 'Ioc',
+        reduceOnly: true,
+      });
+
+      const fills = await service.getUserFills();
+
+      expect(fills).toHaveLength(2);
+      expect(fills[0]).toEqual(
+        expect.objectContaining({
+          coin: 'HYPE',
+          side: 'A',
+          dir: 'Close Long',
+          startPosition: '0.02',
+          sz: '0.02',
+        }),
+      );
+      expect(parseFloat(fills[0].closedPnl)).toBeCloseTo(
+        (51000 * (1 - 0.0005) - 50025) * 0.02,
+        6,
+      );
+      expect(fills[1]).toEqual(
+        expect.objectContaining({
+          side: 'B',
+          dir: 'Open Long',
+          closedPnl: '0',
+        }),
+      );
+      expect(fills[0].tid).not.toBe(fills[1].tid);
+    });
+  });
+});
@@ -0,0 +1,754 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { type AllMids, type Grouping, type Order } from 'hyperliquid';
+import { HyperliquidClient, HyperliquidError } from './HyperliquidClient';
+import { HyperliquidService } from './HyperliquidService';
+import { HyperliquidSignatureAdapter } from './HyperliquidSignatureAdapter';
+import { PaperHyperliquidWebSocketService } from './PaperHyperliquidWebSocket.service';
+import {
+  BracketOrderResult,
+  HLOpenOrder,
+  HLOrderResponse,
+  HLModifyRequest,
+  HLOrderStatus,
+  HLPosition,
+  HLUserFill,
+  HLUserFunding,
+  MarginMode,
+  ModifyPerpOrderParams,
+  PlaceBracketOrderParams,
+  PlacePerpOrderParams,
+  TradeOrderResult,
+} from '../../shared';
+
+interface PaperPosition {
+  coin: string;
+  szi: number; // Signed size, positive for long
+  entryPx: number;
+}
+
+interface PaperRestingOrder {
+  oid: number;
+  coin: string;
+  isBuy: boolean;
+  sz: number;
+  limitPx: number;
+  reduceOnly: boolean;
+  triggerPx?: number;
+  tpsl?: 'tp' | 'sl';
+  cloid?: string;
+  timestamp: number;
+}
+
+interface PaperFillResult {
+  filledSz: number;
+  avgPx: number;
+}
+
+/**
+ * Simulated Hyperliquid exchange for paper trading
+ * Market data comes from the real info endpoints; order execution, positions
+ * and balance are kept in memory. IOC orders fill at mid price adjusted by the
+ * configured slippage, limit orders rest until crossed, trigger orders rest
+ * until the mid price crosses their trigger price,
+ * and every fill is published through PaperHyperliquidWebSocketService so the
+ * regular order fill handling runs unchanged.
+ */
+@Injectable()
+export class PaperHyperliquidService
+  extends HyperliquidService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly paperLogger = new Logger(PaperHyperliquidService.name);
+  private readonly positions = new Map<string, PaperPosition>();
+  private readonly restingOrders = new Map<number, PaperRestingOrder>();
+  private readonly leverages = new Map<string, number>();
+  private readonly marginModes = new Map<string, MarginMode>();
+  // Margin added on top of what the leverage requires, per isolated coin
+  private readonly extraMargins = new Map<string, number>();
+  private readonly pendingFillTimers = new Set<NodeJS.Timeout>();
+  private readonly fills: HLUserFill[] = [];
+  private triggerInterval: NodeJS.Timeout | null = null;
+  private nextOrderId = 1;
+  private nextTradeId = 1;
+  private realizedPnl = 0;
+  private paidFees = 0;
+
+  constructor(
+    client: HyperliquidClient,
+    configService: ConfigService,
+    signatureAdapter: HyperliquidSignatureAdapter,
+    private readonly paperWebSocket: PaperHyperliquidWebSocketService,
+  ) {
+    super(client, configService, signatureAdapter);
+  }
+
+  onModuleInit(): void {
+    const pollMs = this.configService.get<number>(
+      'hyperliquid.paperTriggerPollMs',
+      5000,
+    );
+    this.triggerInterval = setInterval(() => {
+      this.checkRestingOrders().catch((error) =>
+        this.paperLogger.error('Failed to check paper resting orders', error),
+      );
+    }, pollMs);
+    this.paperLogger.log(
+      `Paper trading enabled (balance: ${this.getInitialBalance()} USDC, trigger poll: ${pollMs}ms)`,
+    );
+  }
+
+  onModuleDestroy(): void {
+    if (this.triggerInterval) {
+      clearInterval(this.triggerInterval);
+      this.triggerInterval = null;
+    }
+    for (const timer of this.pendingFillTimers) {
+      clearTimeout(timer);
+    }
+    this.pendingFillTimers.clear();
+  }
+
+  /**
+   * Place a perpetual order on the simulated exchange
+   * Risk checks and size rounding are shared with the live implementation
+   */
+  async placePerpOrder(
+    params: PlacePerpOrderParams,
+  ): Promise<TradeOrderResult> {
+    const result = await super.placePerpOrder(params);
+    return { ...result, isPaper: true };
+  }
+
+  /**
+   * Place a paper bracket order; risk checks are shared with the live implementation
+   */
+  async placeBracketOrder(
+    params: PlaceBracketOrderParams,
+  ): Promise<BracketOrderResult> {
+    const result = await super.placeBracketOrder(params);
+    return {
+      entry: { ...result.entry, isPaper: true },
+      ...(result.stopLoss && {
+        stopLoss: { ...result.stopLoss, isPaper: true },
+      }),
+      ...(result.takeProfit && {
+        takeProfit: { ...result.takeProfit, isPaper: true },
+      }),
+    };
+  }
+
+  /**
+   * Modify resting paper orders; risk checks are shared with the live implementation
+   */
+  async batchModifyPerpOrders(
+    modifies: ModifyPerpOrderParams[],
+  ): Promise<TradeOrderResult[]> {
+    const results = await super.batchModifyPerpOrders(modifies);
+    return results.map((result) => ({ ...result, isPaper: true }));
+  }
+
+  /**
+   * Cancel a resting paper order
+   */
+  async cancelOrder(orderId: string): Promise<void> {
+    const oid = parseInt(orderId, 10);
+    if (!this.restingOrders.delete(oid)) {
+      throw new HyperliquidError(
+        `Order ${orderId} was never placed, already canceled, or filled`,
+      );
+    }
+    this.paperLogger.log(`Cancelled paper order ${orderId}`);
+  }
+
+  /**
+   * Cancel a resting paper order by its client order id
+   */
+  async cancelOrderByCloid(clientOrderId: string): Promise<void> {
+    const order = this.findRestingOrderByCloid(clientOrderId);
+    if (!order) {
+      throw new HyperliquidError(
+        `Order with cloid ${clientOrderId} was never placed, already canceled, or filled`,
+      );
+    }
+    this.restingOrders.delete(order.oid);
+    this.paperLogger.log(`Cancelled paper order with cloid ${clientOrderId}`);
+  }
+
+  /**
+   * Resting paper orders are the only ones that can be looked up by cloid
+   */
+  async getOrderByClientOrderId(
+    clientOrderId: string,
+  ): Promise<HLOrderStatus | null> {
+    const order = this.findRestingOrderByCloid(clientOrderId);
+    return order
+      ? { oid: order.oid, cloid: clientOrderId, status: 'open' }
+      : null;
+  }
+
+  /**
+   * Cancel all resting paper orders, optionally for one symbol
+   */
+  async cancelAll(symbol?: string): Promise<number> {
+    const coin = symbol ? this.mapSymbolToHL(symbol) : undefined;
+    let cancelledCount = 0;
+    for (const [oid, order] of this.restingOrders.entries()) {
+      if (!coin || order.coin === coin) {
+        this.restingOrders.delete(oid);
+        cancelledCount++;
+      }
+    }
+    this.paperLogger.log(`Cancelled ${cancelledCount} paper orders`);
+    return cancelledCount;
+  }
+
+  /**
+   * Get open paper positions in the exchange position format
+   */
+  async getPositions(): Promise<HLPosition[]> {
+    if (this.positions.size === 0) {
+      return [];
+    }
+
+    const mids = await this.getMids();
+    return Array.from(this.positions.values()).map((position) =>
+      this.toHLPosition(position, this.parseMid(mids, position.coin)),
+    );
+  }
+
+  /**
+   * Get paper account balance (same shape as the live implementation)
+   */
+  async getBalance(): Promise<{ total: number; available: number }> {
+    const positions = await this.getPositions();
+    const unrealizedPnl = positions.reduce(
+      (sum, p) => sum + parseFloat(p.unrealizedPnl),
+      0,
+    );
+    const marginUsed = positions.reduce(
+      (sum, p) => sum + parseFloat(p.marginUsed),
+      0,
+    );
+
+    return {
+      total:
+        this.getInitialBalance() +
+        this.realizedPnl -
+        this.paidFees +
+        unrealizedPnl,
+      available: marginUsed,
+    };
+  }
+
+  /**
+   * Get resting paper orders (limit and trigger)
+   */
+  getRestingOrders(): PaperRestingOrder[] {
+    return Array.from(this.restingOrders.values());
+  }
+
+  /**
+   * Get resting paper orders in the frontendOpenOrders shape
+   */
+  async getOpenOrders(): Promise<HLOpenOrder[]> {
+    return this.getRestingOrders().map((order) => {
+      const isTrigger = order.triggerPx !== undefined;
+      // Buy stops and sell take-profits fire as price rises
+      const triggersAbove = order.isBuy === (order.tpsl === 'sl');
+
+      return {
+        coin: order.coin,
+        isPositionTpsl: false,
+        isTrigger,
+        limitPx: String(order.limitPx),
+        oid: order.oid,
+        orderType: !isTrigger
+          ? 'Limit'
+          : order.tpsl === 'tp'
+            ? 'Take Profit Market'
+            : 'Stop Market',
+        origSz: String(order.sz),
+        reduceOnly: order.reduceOnly,
+        side: order.isBuy ? 'B' : 'A',
+        sz: String(order.sz),
+        timestamp: order.timestamp,
+        triggerCondition: isTrigger
+          ? `Price ${triggersAbove ? 'above' : 'below'} ${order.triggerPx}`
+          : 'N/A',
+        triggerPx: String(order.triggerPx ?? 0),
+        cloid: order.cloid,
+      };
+    });
+  }
+
+  /**
+   * Get paper fills, most recent first like the userFills endpoint
+   */
+  async getUserFills(): Promise<HLUserFill[]> {
+    return [...this.fills].reverse();
+  }
+
+  /**
+   * Paper positions do not accrue funding
+   */
+  async getUserFunding(): Promise<HLUserFunding[]> {
+    return [];
+  }
+
+  /**
+   * Fire trigger orders and fill resting limit orders whose price was crossed
+   */
+  async checkRestingOrders(): Promise<void> {
+    if (this.restingOrders.size === 0) {
+      return;
+    }
+
+    const mids = await this.getMids();
+
+    for (const order of Array.from(this.restingOrders.values())) {
+      const mid = this.parseMid(mids, order.coin);
+      if (!mid || !this.restingOrders.has(order.oid)) {
+        continue;
+      }
+
+      if (order.triggerPx !== undefined) {
+        if (!this.isTriggerCrossed(order, mid)) {
+          continue;
+        }
+        this.restingOrders.delete(order.oid);
+        this.paperLogger.log(
+          `Paper ${order.tpsl} trigger ${order.oid} fired for ${order.coin} at ${mid} (trigger: ${order.triggerPx})`,
+        );
+        this.executeFill(
+          order.oid,
+          order.coin,
+          order.isBuy,
+          order.sz,
+          this.applySlippage(mid, order.isBuy),
+          order.reduceOnly,
+        );
+        continue;
+      }
+
+      const crossed = order.isBuy ? mid <= order.limitPx : mid >= order.limitPx;
+      if (crossed) {
+        this.restingOrders.delete(order.oid);
+        this.executeFill(
+          order.oid,
+          order.coin,
+          order.isBuy,
+          order.sz,
+          order.limitPx,
+          order.reduceOnly,
+        );
+      }
+    }
+  }
+
+  protected async submitOrder(order: Order): Promise<HLOrderResponse> {
+    const oid = this.nextOrderId++;
+    const size = parseFloat(String(order.sz));
+    const limitPx = parseFloat(String(order.limit_px));
+    const trigger = order.order_type.trigger;
+
+    if (trigger) {
+      this.restingOrders.set(oid, {
+        oid,
+        coin: order.coin,
+        isBuy: order.is_buy,
+        sz: size,
+        limitPx,
+        reduceOnly: order.reduce_only,
+        triggerPx: parseFloat(String(trigger.triggerPx)),
+        tpsl: trigger.tpsl,
+        cloid: order.cloid,
+        timestamp: Date.now(),
+      });
+      return this.buildResponse({ resting: { oid } });
+    }
+
+    const mids = await this.getMids();
+    const mid = this.parseMid(mids, order.coin);
+    if (!mid) {
+      throw new HyperliquidError(`No mid price for ${order.coin}`);
+    }
+
+    const tif = order.order_type.limit?.tif || 'Gtc';
+    const marketable = order.is_buy ? limitPx >= mid : limitPx <= mid;
+
+    // IOC orders never rest; like on the exchange they are rejected unless
+    // the mid is within their limit
+    if (tif === 'Ioc' && !marketable) {
+      throw new HyperliquidError(
+        'Order could not immediately match against any resting orders',
+      );
+    }
+
+    if (tif === 'Alo' && marketable) {
+      throw new HyperliquidError(
+        'Post only order would have immediately matched',
+      );
+    }
+
+    if (!marketable) {
+      this.restingOrders.set(oid, {
+        oid,
+        coin: order.coin,
+        isBuy: order.is_buy,
+        sz: size,
+        limitPx,
+        reduceOnly: order.reduce_only,
+        cloid: order.cloid,
+        timestamp: Date.now(),
+      });
+      return this.buildResponse({ resting: { oid } });
+    }
+
+    // Slippage never fills past the limit
+    const slippedPrice = this.applySlippage(mid, order.is_buy);
+    const fillPrice = order.is_buy
+      ? Math.min(slippedPrice, limitPx)
+      : Math.max(slippedPrice, limitPx);
+    const fill = this.executeFill(
+      oid,
+      order.coin,
+      order.is_buy,
+      size,
+      fillPrice,
+      order.reduce_only,
+    );
+
+    if (!fill) {
+      throw new HyperliquidError('Reduce only order would increase position');
+    }
+
+    return this.buildResponse({
+      filled: {
+        oid,
+        totalSz: String(fill.filledSz),
+        avgPx: String(fill.avgPx),
+      },
+    });
+  }
+
+  /**
+   * The entry is executed like a single order and the SL/TP triggers rest once
+   * it is accepted; a rejected entry rejects the whole group like on the exchange
+   */
+  protected async submitBulkOrder(
+    orders: Order[],
+    grouping: Grouping,
+  ): Promise<HLOrderResponse> {
+    const [entry, ...triggers] = orders;
+    const statuses: unknown[] = [];
+    try {
+      statuses.push((await this.submitOrder(entry)).response.data.statuses[0]);
+      for (const trigger of triggers) {
+        statuses.push(
+          (await this.submitOrder(trigger)).response.data.statuses[0],
+        );
+      }
+      this.paperLogger.log(
+        `Paper bracket order for ${entry.coin} placed (${grouping})`,
+      );
+    } catch (error) {
+      statuses.push({ error: error.message });
+    }
+
+    return {
+      status: 'ok',
+      response: {
+        type: 'order',
+        data: {
+          statuses: statuses as HLOrderResponse['response']['data']['statuses'],
+        },
+      },
+    };
+  }
+
+  /**
+   * Modified orders keep their oid and rest with the new price, size and trigger
+   * Orders that are no longer resting are rejected like on the exchange
+   */
+  protected async submitBatchModify(
+    modifies: HLModifyRequest[],
+  ): Promise<HLOrderResponse> {
+    const statuses = modifies.map(({ oid, order }) => {
+      const resting = this.restingOrders.get(oid);
+      if (!resting) {
+        return { error: 'Cannot modify canceled or filled order' };
+      }
+
+      const trigger = order.order_type.trigger;
+      this.restingOrders.set(oid, {
+        ...resting,
+        isBuy: order.is_buy,
+        sz: parseFloat(String(order.sz)),
+        limitPx: parseFloat(String(order.limit_px)),
+        reduceOnly: order.reduce_only,
+        triggerPx: trigger ? parseFloat(String(trigger.triggerPx)) : undefined,
+        tpsl: trigger?.tpsl,
+        cloid: order.cloid ?? resting.cloid,
+      });
+      return { resting: { oid } };
+    });
+
+    return {
+      status: 'ok',
+      response: {
+        type: 'batchModify',
+        data: {
+          statuses: statuses as HLOrderResponse['response']['data']['statuses'],
+        },
+      },
+    };
+  }
+
+  protected async updateLeverage(
+    symbol: string,
+    leverage: number,
+    marginMode: MarginMode = MarginMode.CROSS,
+  ): Promise<void> {
+    this.leverages.set(symbol, leverage);
+    this.marginModes.set(symbol, marginMode);
+    this.paperLogger.log(
+      `Paper leverage for ${symbol} set to ${leverage}x ${marginMode}`,
+    );
+  }
+
+  /**
+   * Margin can be removed down to what the leverage requires, like on the
+   * exchange
+   */
+  protected async submitIsolatedMargin(
+    coin: string,
+    _isBuy: boolean,
+    amountUsd: number,
+  ): Promise<void> {
+    const extraMargin = (this.extraMargins.get(coin) || 0) + amountUsd;
+    if (extraMargin < 0) {
+      throw new HyperliquidError(
+        `Cannot remove ${Math.abs(amountUsd)} USD margin from ${coin}, only ${this.extraMargins.get(coin) || 0} USD is above the requirement`,
+      );
+    }
+
+    this.extraMargins.set(coin, extraMargin);
+    this.paperLogger.log(
+      `Paper isolated margin for ${coin} is ${extraMargin} USD above the requirement`,
+    );
+  }
+
+  /**
+   * Apply a fill to the paper book and publish it
+   * Returns null when a reduce-only order has nothing to reduce
+   */
+  private executeFill(
+    oid: number,
+    coin: string,
+    isBuy: boolean,
+    size: number,
+    price: number,
+    reduceOnly: boolean,
+  ): PaperFillResult | null {
+    const position = this.positions.get(coin) || { coin, szi: 0, entryPx: 0 };
+    const direction = isBuy ? 1 : -1;
+    const isReducing =
+      position.szi !== 0 && Math.sign(position.szi) !== direction;
+
+    let fillSize = size;
+    if (reduceOnly) {
+      if (!isReducing) {
+        return null;
+      }
+      fillSize = Math.min(size, Math.abs(position.szi));
+    }
+
+    let closedPnl = 0;
+    if (isReducing) {
+      const closeSize = Math.min(fillSize, Math.abs(position.szi));
+      closedPnl =
+        (price - position.entryPx) * closeSize * Math.sign(position.szi);
+    }
+
+    const newSzi = position.szi + direction * fillSize;
+    if (Math.abs(newSzi) < 1e-12) {
+      this.positions.delete(coin);
+      this.extraMargins.delete(coin);
+      this.cancelReduceOnlyOrders(coin);
+    } else {
+      let entryPx = position.entryPx;
+      if (!isReducing) {
+        // Increasing: weighted average entry
+        entryPx =
+          (Math.abs(position.szi) * position.entryPx + fillSize * price) /
+          Math.abs(newSzi);
+      } else if (Math.sign(newSzi) !== Math.sign(position.szi)) {
+        // Flipped through zero: remainder opens at fill price
+        entryPx = price;
+      }
+      this.positions.set(coin, { coin, szi: newSzi, entryPx });
+    }
+
+    const feeBps = this.configService.get<number>(
+      'hyperliquid.paperTakerFeeBps',
+      4.5,
+    );
+    const fee = (fillSize * price * feeBps) / 10000;
+    this.realizedPnl += closedPnl;
+    this.paidFees += fee;
+
+    const side = position.szi > 0 ? 'Long' : 'Short';
+    const tid = this.nextTradeId++;
+    const time = Date.now();
+    this.fills.push({
+      closedPnl: String(closedPnl),
+      coin,
+      crossed: true,
+      dir: isReducing ? `Close ${side}` : `Open ${isBuy ? 'Long' : 'Short'}`,
+      hash: '',
+      oid,
+      px: String(price),
+      side: isBuy ? 'B' : 'A',
+      startPosition: String(position.szi),
+      sz: String(fillSize),
+      time,
+      fee: String(fee),
+      feeToken: 'USDC',
+      tid,
+    });
+
+    this.scheduleFillPublish({
+      orderId: String(oid),
+      tradeId: String(tid),
+      coin,
+      side: isBuy ? 'B' : 'A',
+      size: String(fillSize),
+      price: String(price),
+      fee: String(fee),
+      timestamp: time,
+      closedPnl: String(closedPnl),
+    });
+
+    return { filledSz: fillSize, avgPx: price };
+  }
+
+  /**
+   * Publish fills asynchronously, like the exchange WebSocket does, so the
+   * caller can persist the order before the fill arrives
+   */
+  private scheduleFillPublish(
+    fill: Parameters<PaperHyperliquidWebSocketService['publishFill']>[0],
+  ): void {
+    const delayMs = this.configService.get<number>(
+      'hyperliquid.paperFillDelayMs',
+      1000,
+    );
+    const timer = setTimeout(() => {
+      this.pendingFillTimers.delete(timer);
+      this.paperWebSocket.publishFill(fill);
+    }, delayMs);
+    this.pendingFillTimers.add(timer);
+  }
+
+  /**
+   * Look up a resting order by its client order id
+   */
+  private findRestingOrderByCloid(
+    clientOrderId: string,
+  ): PaperRestingOrder | undefined {
+    return Array.from(this.restingOrders.values()).find(
+      (order) => order.cloid === clientOrderId,
+    );
+  }
+
+  /**
+   * Reduce-only orders cannot outlive the position they protect
+   */
+  private cancelReduceOnlyOrders(coin: string): void {
+    for (const [oid, order] of this.restingOrders.entries()) {
+      if (order.coin === coin && order.reduceOnly) {
+        this.restingOrders.delete(oid);
+        this.paperLogger.log(
+          `Cancelled paper reduce-only order ${oid} for ${coin} (position closed)`,
+        );
+      }
+    }
+  }
+
+  private isTriggerCrossed(order: PaperRestingOrder, mid: number): boolean {
+    // Closing a long (sell): SL fires below, TP fires above
+    // Closing a short (buy): SL fires above, TP fires below
+    const firesAbove =
+      (order.tpsl === 'tp' && !order.isBuy) ||
+      (order.tpsl === 'sl' && order.isBuy);
+    return firesAbove ? mid >= order.triggerPx : mid <= order.triggerPx;
+  }
+
+  private applySlippage(price: number, isBuy: boolean): number {
+    const slippageBps = this.configService.get<number>(
+      'hyperliquid.paperSlippageBps',
+      5,
+    );
+    const factor = slippageBps / 10000;
+    return isBuy ? price * (1 + factor) : price * (1 - factor);
+  }
+
+  private toHLPosition(position: PaperPosition, mid: number): HLPosition {
+    const leverage =
+      this.leverages.get(position.coin) ||
+      this.configService.get<number>('hyperliquid.defaultLeverage', 3);
+    const markPx = mid || position.entryPx;
+    const positionValue = Math.abs(position.szi) * markPx;
+    const unrealizedPnl = (markPx - position.entryPx) * position.szi;
+    const marginMode = this.marginModes.get(position.coin) || MarginMode.CROSS;
+    const marginUsed =
+      positionValue / leverage +
+      (marginMode === MarginMode.ISOLATED
+        ? this.extraMargins.get(position.coin) || 0
+        : 0);
+
+    return {
+      coin: position.coin,
+      szi: String(position.szi),
+      entryPx: String(position.entryPx),
+      leverage: { type: marginMode, value: leverage, rawUsd: '0' },
+      liquidationPx: '0',
+      marginUsed: String(marginUsed),
+      maxLeverage: leverage,
+      positionValue: String(positionValue),
+      returnOnEquity: String(marginUsed > 0 ? unrealizedPnl / marginUsed : 0),
+      unrealizedPnl: String(unrealizedPnl),
+      cumFunding: { allTime: '0', sinceChange: '0', sinceOpen: '0' },
+    };
+  }
+
+  private buildResponse(
+    status: HLOrderResponse['response']['data']['statuses'][0],
+  ): HLOrderResponse {
+    return {
+      status: 'ok',
+      response: { type: 'order', data: { statuses: [status] } },
+    };
+  }
+
+  private async getMids(): Promise<AllMids> {
+    return this.client.getInfo('allMids');
+  }
+
+  private parseMid(mids: AllMids, coin: string): number {
+    return parseFloat(mids?.[coin] || '0');
+  }
+
+  private getInitialBalance(): number {
+    return this.configService.get<number>(
+      'hyperliquid.paperInitialBalance',
+      10000,
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HyperliquidWebSocketService } from './HyperliquidWebSocket.service';
+import { OrderFill, OrderUpdate } from '../websocket';
+
+/**
+ * WebSocket replacement used in paper-trading mode
+ * Does not open a socket; fills produced by the simulated exchange are
+ * published through the same callback path as real Hyperliquid fills
+ */
+@Injectable()
+export class PaperHyperliquidWebSocketService extends HyperliquidWebSocketService {
+  protected readonly logger = new Logger(PaperHyperliquidWebSocketService.name);
+  private connected = false;
+
+  async connect(): Promise<void> {
+    this.connected = true;
+    this.logger.log('Paper trading WebSocket ready (simulated fills)');
+  }
+
+  disconnect(): void {
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  protected subscribeToUserFills(): void {
+    // Fills are pushed by the simulated exchange
+  }
+
+  protected subscribeToOrderUpdates(): void {
+    // Order updates are pushed by the simulated exchange
+  }
+
+  /**
+   * Publish a simulated fill to all registered fill callbacks
+   */
+  publishFill(fill: OrderFill): void {
+    this.logger.log(
+      `Paper fill: ${fill.coin} ${fill.side} ${fill.size} @ ${fill.price} (oid: ${fill.orderId})`,
+    );
+    this.notifyFillCallbacks(fill);
+  }
+
+  /**
+   * Publish a simulated order update to all registered callbacks
+   */
+  publishOrderUpdate(update: OrderUpdate): void {
+    this.notifyOrderUpdateCallbacks(update);
+  }
+}
@@ -1,4 +1,7 @@
 export * from './HyperliquidSignatureAdapter';
 export * from './HyperliquidClient';
+export * from './HyperliquidMarketDataStore';
 export * from './HyperliquidService';
 export * from './HyperliquidWebSocket.service';
+export * from './PaperHyperliquidService';
+export * from './PaperHyperliquidWebSocket.service';
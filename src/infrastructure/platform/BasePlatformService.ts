@@ -15,8 +15,14 @@ export abstract class BasePlatformService {
     options: EnterPositionOptions,
   ): Promise<TradeOrderResult>;
 
+  /**
+   * Send one exit order for the open size of the position
+   * attempt counts retries of the same exit, starting at 1
+   */
   abstract exitPosition(
     tradePosition: TradePositionDocument,
+    clientOrderId?: string,
+    attempt?: number,
   ): Promise<TradeOrderResult>;
 
   abstract createStopLossAndTakeProfitOrders(
@@ -50,6 +56,24 @@ export abstract class BasePlatformService {
     return { newOrderId: '', cancelledCount: 0 };
   }
 
+  /**
+   * Replace stop-loss order for trailing functionality
+   * Optional method - platforms that don't support trailing can leave as no-op
+   * @returns Object with new order ID and count of cancelled orders for verification
+   */
+  async replaceStopLossOrder(
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    token: string,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    direction: PositionDirection,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    positionId: string,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    newSlPrice: number,
+  ): Promise<{ newOrderId: string; cancelledCount: number }> {
+    return { newOrderId: '', cancelledCount: 0 };
+  }
+
   protected async determineDirection(
     token: string,
   ): Promise<PositionDirection | null> {
@@ -85,6 +85,22 @@ export abstract class PlatformWebSocketService
     }
   }
 
+  /**
+   * Notify fill callbacks one fill at a time, waiting for each callback to
+   * finish so replayed fills of the same order are applied in sequence
+   */
+  protected async replayFillCallbacks(fills: OrderFill[]): Promise<void> {
+    for (const fill of fills) {
+      for (const callback of this.fillCallbacks) {
+        try {
+          await callback(fill);
+        } catch (error) {
+          this.logger.error('Error in fill callback', error);
+        }
+      }
+    }
+  }
+
   /**
    * Notify all registered order update callbacks
    */
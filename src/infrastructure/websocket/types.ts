@@ -1,5 +1,7 @@
 export interface OrderFill {
   orderId: string;
+  tradeId?: string;
+  clientOrderId?: string;
   coin: string;
   side: string;
   size: string;
@@ -0,0 +1,4 @@
+export enum BracketMode {
+  PERCENT = 'percent', // SL/TP a fixed percentage away from the entry price
+  ATR = 'atr', // SL a multiple of the ATR away, TP at the risk-reward ratio
+}
@@ -0,0 +1,11 @@
+export enum ClientOrderRole {
+  ENTRY = 'entry',
+  ENTRY_FALLBACK = 'entry-ioc', // IOC for what a maker entry left unfilled
+  ALGO_CHILD = 'child', // Numbered per child of a TWAP/iceberg parent: child-1, ...
+  EXIT = 'exit', // Numbered per attempt: exit-1, exit-2, ...
+  STOP_LOSS = 'sl',
+  TAKE_PROFIT = 'tp',
+  TAKE_PROFIT_RUNG = 'tp-rung', // Numbered per ladder rung: tp-rung-1, tp-rung-2, ...
+  TRAIL = 'trail', // Numbered per trailed take-profit: trail-1, trail-2, ...
+  TRAIL_STOP_LOSS = 'trail-sl', // Numbered per trailed stop-loss: trail-sl-1, ...
+}
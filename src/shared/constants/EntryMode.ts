@@ -0,0 +1,4 @@
+export enum EntryMode {
+  TAKER = 'taker', // IOC order at mark plus the slippage band
+  MAKER = 'maker', // ALO order at the best bid/ask, requoted until the deadline
+}
@@ -0,0 +1,4 @@
+export enum ExecutionAlgo {
+  TWAP = 'twap', // Equal IOC slices at a fixed interval
+  ICEBERG = 'iceberg', // One visible limit order at a time
+}
@@ -0,0 +1,9 @@
+export enum ExitReason {
+  STOP_LOSS = 'stop_loss', // Stop-loss trigger or price breach
+  TAKE_PROFIT = 'take_profit', // Take-profit trigger or price breach
+  AI_EXIT = 'ai_exit', // Exit recommended by the trading strategy
+  MANUAL = 'manual', // Exit flag, close all, circuit breaker or closed outside the bot
+}
+
+// Minutes a token and direction stays blocked after an exit, per exit reason
+export type CooldownMinutes = Partial<Record<ExitReason, number>>;
@@ -0,0 +1,4 @@
+export enum MarginMode {
+  CROSS = 'cross', // Margin shared with the whole account
+  ISOLATED = 'isolated', // Margin held by the position alone, caps its loss
+}
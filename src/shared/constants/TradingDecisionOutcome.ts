@@ -0,0 +1,6 @@
+export enum TradingDecisionOutcome {
+  REJECTED = 'REJECTED', // Strategy decided not to trade
+  APPROVED = 'APPROVED', // Strategy approved, entry not attempted yet
+  ENTERED = 'ENTERED', // Entry order placed and position created
+  ENTRY_FAILED = 'ENTRY_FAILED', // Entry attempted but failed or was blocked
+}
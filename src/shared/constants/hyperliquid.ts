@@ -106,6 +106,9 @@ export const HL_DEFAULTS = {
   DEFAULT_PRICE_PRECISION: 5,
   DEFAULT_SIZE_PRECISION: 3,
   MIN_ORDER_SIZE_USD: 10,
+  PRICE_SIG_FIGS: 5,
+  // Price decimals of a perp are this minus the market's szDecimals
+  PERP_MAX_PRICE_DECIMALS: 6,
 
   // Retry configuration
   MAX_RETRIES: 3,
@@ -15,3 +15,10 @@ export * from './hyperliquid';
 export * from './Currency';
 export * from './trade';
 export * from './TradeOrderStatus';
+export * from './TradingDecisionOutcome';
+export * from './ClientOrderRole';
+export * from './EntryMode';
+export * from './ExecutionAlgo';
+export * from './MarginMode';
+export * from './ExitReason';
+export * from './BracketMode';
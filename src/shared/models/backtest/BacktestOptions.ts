@@ -0,0 +1,56 @@
+import { BracketMode } from '../../constants';
+import { PredictionResponse, TrendsResponse } from '../predictor/types';
+
+export interface BacktestCandle {
+  /** Candle open time in milliseconds */
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Predictor responses captured from a live run, replayed by timestamp
+ */
+export interface BacktestSignals {
+  predictions: PredictionResponse[];
+  trends: TrendsResponse[];
+}
+
+export interface BacktestOptions {
+  token: string;
+
+  /** 1-minute candles, any order */
+  candles: BacktestCandle[];
+
+  signals?: BacktestSignals;
+
+  /** Starting equity in USDC (default: 10000) */
+  initialBalance?: number;
+
+  /** Minutes between strategy evaluations (default: 1, same as the trade monitor cron) */
+  evaluationIntervalMinutes?: number;
+
+  /** Recorded signals older than this are ignored (default: 60) */
+  signalMaxAgeMinutes?: number;
+
+  slippageBps?: number;
+
+  takerFeeBps?: number;
+
+  /** Overrides for the hyperliquid config namespace, e.g. { predictorMinConfidence: 0.7 } */
+  configOverrides?: Record<string, unknown>;
+
+  /** Overrides for the strategy trading params (SL/TP percent, amount, leverage) */
+  tradingParams?: {
+    defaultAmountIn?: number;
+    stopLossPercent?: number;
+    takeProfitPercent?: number;
+    defaultLeverage?: number;
+  };
+
+  /** Bracket mode of the replayed perp (default: percent), ATR brackets measure the replayed candles */
+  bracketMode?: BracketMode;
+}
@@ -0,0 +1,48 @@
+import { PositionDirection } from '../../constants';
+import type { DashboardOverview } from '../../../app/dashboard/Dashboard.dto';
+
+export type BacktestExitReason =
+  | 'stop_loss'
+  | 'take_profit'
+  | 'strategy_exit'
+  | 'end_of_data';
+
+export interface BacktestTrade {
+  token: string;
+  direction: PositionDirection;
+  entryTime: Date;
+  exitTime: Date;
+  entryPrice: number;
+  exitPrice: number;
+  size: number;
+  amountIn: number;
+  leverage: number;
+  realizedPnl: number;
+  fees: number;
+  trailCount: number;
+  entryReason: string;
+  exitReason: BacktestExitReason;
+  exitDetail?: string;
+}
+
+export interface BacktestEquityPoint {
+  timestamp: Date;
+  equity: number;
+}
+
+export interface BacktestResult {
+  token: string;
+  startTime: Date;
+  endTime: Date;
+  initialBalance: number;
+  finalBalance: number;
+  /** Same aggregate shape the dashboard uses for live positions */
+  overview: DashboardOverview;
+  totalFees: number;
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  /** Annualized, from per-evaluation equity returns */
+  sharpeRatio: number;
+  trades: BacktestTrade[];
+  equityCurve: BacktestEquityPoint[];
+}
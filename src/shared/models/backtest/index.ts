@@ -0,0 +1,2 @@
+export * from './BacktestOptions';
+export * from './BacktestResult';
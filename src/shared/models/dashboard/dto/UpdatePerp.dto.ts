@@ -1,4 +1,56 @@
-import { IsOptional, IsNumber, IsBoolean, Min, Max } from 'class-validator';
+import {
+  IsOptional,
+  IsArray,
+  ArrayMaxSize,
+  IsNumber,
+  IsBoolean,
+  IsEnum,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  BracketMode,
+  EntryMode,
+  ExecutionAlgo,
+  ExitReason,
+  MarginMode,
+} from '../../../constants';
+
+// Unset reasons fall back to the HL_COOLDOWN_*_MINUTES defaults
+export class CooldownMinutesDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0, { message: 'Stop-loss cooldown must be at least 0 minutes' })
+  [ExitReason.STOP_LOSS]?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0, { message: 'Take-profit cooldown must be at least 0 minutes' })
+  [ExitReason.TAKE_PROFIT]?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0, { message: 'AI exit cooldown must be at least 0 minutes' })
+  [ExitReason.AI_EXIT]?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0, { message: 'Manual exit cooldown must be at least 0 minutes' })
+  [ExitReason.MANUAL]?: number;
+}
+
+export class TakeProfitRungDto {
+  @IsNumber()
+  @Min(0.1, { message: 'Ladder rung must be at least 0.1R' })
+  rMultiple: number;
+
+  @IsNumber()
+  @Min(1, { message: 'Ladder rung must close at least 1%' })
+  @Max(100, { message: 'Ladder rung cannot close more than 100%' })
+  sizePercent: number;
+}
 
 export class UpdatePerpDto {
   @IsOptional()
@@ -12,6 +64,58 @@ export class UpdatePerpDto {
   @Max(100, { message: 'Default leverage cannot exceed 100' })
   defaultLeverage?: number;
 
+  @IsOptional()
+  @IsNumber()
+  @Min(0, { message: 'Max spread must be at least 0 bps' })
+  maxSpreadBps?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0, { message: 'Max slippage must be at least 0 bps' })
+  maxSlippageBps?: number;
+
+  @IsOptional()
+  @IsEnum(EntryMode, { message: 'Entry mode must be taker or maker' })
+  entryMode?: EntryMode;
+
+  // null switches the perp back to a single entry order
+  @IsOptional()
+  @IsEnum(ExecutionAlgo, {
+    message: 'Execution algo must be twap, iceberg or null',
+  })
+  executionAlgo?: ExecutionAlgo | null;
+
+  @IsOptional()
+  @IsEnum(MarginMode, { message: 'Margin mode must be cross or isolated' })
+  marginMode?: MarginMode;
+
+  @IsOptional()
+  @IsEnum(BracketMode, { message: 'Bracket mode must be percent or atr' })
+  bracketMode?: BracketMode;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1, { message: 'ATR stop multiplier must be at least 0.1' })
+  atrStopMultiplier?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1, { message: 'Risk-reward ratio must be at least 0.1' })
+  riskRewardRatio?: number;
+
+  // An empty ladder takes the whole size at the TP
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(5, { message: 'Take-profit ladder cannot exceed 5 rungs' })
+  @ValidateNested({ each: true })
+  @Type(() => TakeProfitRungDto)
+  takeProfitLadder?: TakeProfitRungDto[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CooldownMinutesDto)
+  cooldownMinutes?: CooldownMinutesDto;
+
   @IsOptional()
   @IsBoolean()
   buyFlag?: boolean;
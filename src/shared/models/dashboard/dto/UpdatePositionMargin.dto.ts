@@ -0,0 +1,8 @@
+import { IsNumber, NotEquals } from 'class-validator';
+
+export class UpdatePositionMarginDto {
+  // USD to add to (positive) or remove from (negative) an isolated position
+  @IsNumber({}, { message: 'amount must be a number' })
+  @NotEquals(0, { message: 'amount must not be zero' })
+  amount: number;
+}
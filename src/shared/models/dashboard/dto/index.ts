@@ -1,3 +1,4 @@
 export * from './UpdatePerp.dto';
 export * from './UpdateSettings.dto';
 export * from './UpdatePositionExitFlag.dto';
+export * from './UpdatePositionMargin.dto';
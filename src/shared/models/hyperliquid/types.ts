@@ -1,10 +1,18 @@
-import { PositionDirection } from '@perps/shared/constants';
+import { MarginMode, PositionDirection } from '@perps/shared/constants';
+import { TradeOrderResult } from '../trade-order/TradeOrderResult';
 import {
+  AllMids,
+  Candle,
   ClearinghouseState,
+  FrontendOpenOrders,
+  Grouping,
   L2Book,
   Meta,
+  Order,
   OrderResponse,
   Tif,
+  UserFills,
+  UserFunding,
 } from 'hyperliquid';
 
 // Use types from the SDK
@@ -15,6 +23,27 @@ export type HLMarket = Meta['universe'][0] & {
 
 export type HLPosition = ClearinghouseState['assetPositions'][0]['position'];
 
+// The endpoint also returns the cloid of orders placed with one
+export type HLOpenOrder = FrontendOpenOrders[0] & { cloid?: string | null };
+
+export type HLUserFill = UserFills[0];
+
+// Hourly funding payment on a position, usdc is negative when paid
+export type HLUserFunding = UserFunding[0];
+
+// OHLCV bar, t/T are the open and close times in ms
+export type HLCandle = Candle;
+
+/**
+ * Exchange-side state of an order looked up by oid or cloid
+ */
+export interface HLOrderStatus {
+  oid: number;
+  cloid?: string;
+  // open, filled, canceled, triggered, rejected, marginCanceled, ...
+  status: string;
+}
+
 export interface HLBalance {
   coin: string;
   total: string;
@@ -39,21 +68,69 @@ export type HLOrderbook = L2Book & {
   coin: string;
 };
 
+/**
+ * Expected execution cost of a market order walked through the order book
+ * Prices are averaged over the fillable part; bps are relative to the mid
+ */
+export interface SlippageEstimate {
+  bestBid: number;
+  bestAsk: number;
+  midPrice: number;
+  spreadBps: number;
+  averagePrice: number;
+  slippageBps: number;
+  filledQuote: number;
+  fullyFillable: boolean;
+}
+
 export interface PlacePerpOrderParams {
   symbol: string;
   direction: PositionDirection;
   quoteAmount: number;
+  // Base size; overrides quoteAmount / mark when set
+  size?: number;
   price?: number;
   tif?: Tif;
   leverage?: number;
+  // Applied together with leverage, cross when unset
+  marginMode?: MarginMode;
   clientOrderId?: string;
   reduceOnly?: boolean;
+  // Band around mark used to price IOC orders sent without a price
+  slippageBps?: number;
   // Trigger order fields for SL/TP
   triggerPrice?: number;
   triggerType?: 'tp' | 'sl';
   isMarket?: boolean;
 }
 
+export interface ModifyPerpOrderParams extends PlacePerpOrderParams {
+  // Exchange order id of the resting order to modify
+  orderId: string;
+}
+
+/**
+ * Entry with its SL/TP sent as one bulk order; with normalTpsl the exchange
+ * activates SL/TP once the entry fills, positionTpsl ties them to the position
+ */
+export interface PlaceBracketOrderParams {
+  entry: PlacePerpOrderParams;
+  stopLoss?: PlacePerpOrderParams;
+  takeProfit?: PlacePerpOrderParams;
+  grouping: Exclude<Grouping, 'na'>;
+}
+
+export interface BracketOrderResult {
+  entry: TradeOrderResult;
+  stopLoss?: TradeOrderResult;
+  takeProfit?: TradeOrderResult;
+}
+
+export interface HLModifyRequest {
+  oid: number;
+  order: Order;
+}
+
 export interface WsFill {
   coin: string;
   px: string;
@@ -61,6 +138,8 @@ export interface WsFill {
   side: string;
   time: number;
   oid: number;
+  tid?: number;
+  cloid?: string;
   fee: string;
   closedPnl?: string;
   isSnapshot?: boolean;
@@ -94,6 +173,25 @@ export interface WsOrderUpdatesMessage {
   };
 }
 
+export interface WsAllMidsMessage {
+  channel: 'allMids';
+  data: {
+    mids: AllMids;
+  };
+}
+
+export interface WsL2BookMessage {
+  channel: 'l2Book';
+  data: HLOrderbook & {
+    time: number;
+  };
+}
+
+export interface WsCandleMessage {
+  channel: 'candle';
+  data: Candle;
+}
+
 export interface WsSubscriptionResponse {
   channel: 'subscriptionResponse';
   data: {
@@ -101,6 +199,8 @@ export interface WsSubscriptionResponse {
     subscription: {
       type: string;
       user?: string;
+      coin?: string;
+      interval?: string;
     };
   };
 }
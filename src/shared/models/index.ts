@@ -6,3 +6,7 @@ export * from './clickhouse';
 export * from './platform';
 export * from './hyperliquid';
 export * from './dashboard';
+export * from './backtest';
+export * from './risk';
+export * from './trading-decision';
+export * from './reconciliation';
@@ -1,4 +1,11 @@
-import { TradeType, Currency } from '../../constants';
+import {
+  TradeType,
+  Currency,
+  PositionDirection,
+  EntryMode,
+  ExecutionAlgo,
+  MarginMode,
+} from '../../constants';
 import { Platform } from './Platform';
 
 export interface EnterPositionOptions {
@@ -10,6 +17,12 @@ export interface EnterPositionOptions {
 
   token: string;
 
+  /**
+   * Direction the SL/TP prices were computed for
+   * Falls back to the platform trend signals when omitted
+   */
+  direction?: PositionDirection;
+
   leverage?: number;
 
   amountIn: number;
@@ -19,4 +32,37 @@ export interface EnterPositionOptions {
   stopLossPrice?: number;
 
   takeProfitPrice?: number;
+
+  /**
+   * Client order id persisted on the entry TradeOrder before sending
+   */
+  clientOrderId?: string;
+
+  /**
+   * Position the entry belongs to, used for the cloids of follow-up orders
+   */
+  positionId?: string;
+
+  /**
+   * Taker (IOC) by default; maker rests an ALO order and requotes it
+   */
+  entryMode?: EntryMode;
+
+  /**
+   * Split the entry into TWAP or iceberg child orders, takes precedence
+   * over entryMode
+   */
+  executionAlgo?: ExecutionAlgo;
+
+  /**
+   * Cross or isolated margin, applied with the leverage; cross when omitted
+   */
+  marginMode?: MarginMode;
+
+  /**
+   * Per-perp execution cost limits, platform defaults apply when omitted
+   */
+  maxSpreadBps?: number;
+
+  maxSlippageBps?: number;
 }
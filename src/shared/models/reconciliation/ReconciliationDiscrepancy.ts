@@ -0,0 +1,35 @@
+export enum ReconciliationDiscrepancyType {
+  ORPHAN_EXCHANGE_POSITION = 'ORPHAN_EXCHANGE_POSITION', // On exchange, not in database
+  MISSING_EXCHANGE_POSITION = 'MISSING_EXCHANGE_POSITION', // In database, gone from exchange
+  MISSED_ENTRY_FILL = 'MISSED_ENTRY_FILL', // Database position never saw its entry fill
+  SIZE_MISMATCH = 'SIZE_MISMATCH',
+  DIRECTION_MISMATCH = 'DIRECTION_MISMATCH',
+  DUPLICATE_POSITION = 'DUPLICATE_POSITION', // More than one active database position per token
+  ORPHAN_OPEN_ORDER = 'ORPHAN_OPEN_ORDER', // Resting order without a trade order record
+}
+
+export enum ReconciliationAction {
+  ADOPTED = 'ADOPTED',
+  CLOSED = 'CLOSED',
+  OPENED = 'OPENED',
+  REPORTED = 'REPORTED',
+}
+
+export enum ReconciliationTrigger {
+  BOOTSTRAP = 'BOOTSTRAP',
+  SCHEDULE = 'SCHEDULE',
+}
+
+/**
+ * Difference found between exchange state and database records,
+ * and what reconciliation did about it
+ */
+export interface ReconciliationDiscrepancy {
+  type: ReconciliationDiscrepancyType;
+  action: ReconciliationAction;
+  token: string;
+  message: string;
+  positionId?: string;
+  orderId?: string;
+  details?: Record<string, number>;
+}
@@ -0,0 +1,16 @@
+export enum CircuitBreakerReason {
+  DAILY_LOSS = 'DAILY_LOSS',
+  DRAWDOWN = 'DRAWDOWN',
+}
+
+/**
+ * Account PnL and equity the circuit breaker compares with its thresholds
+ */
+export interface CircuitBreakerSnapshot {
+  equity: number;
+  peakEquity: number;
+  drawdownPercent: number;
+  // Realized plus unrealized PnL of the current UTC day, counted from the
+  // last re-arm when it happened that day
+  dailyPnl: number;
+}
@@ -0,0 +1,26 @@
+export enum RiskRejectionCode {
+  MAX_TOTAL_NOTIONAL = 'MAX_TOTAL_NOTIONAL',
+  MAX_SPREAD = 'MAX_SPREAD',
+  MAX_SLIPPAGE = 'MAX_SLIPPAGE',
+  POSITION_SIZE = 'POSITION_SIZE',
+}
+
+/**
+ * Structured reason a pre-trade risk check blocked a new entry
+ */
+export interface RiskRejection {
+  code: RiskRejectionCode;
+  reason: string;
+  details?: Record<string, number>;
+  timestamp: Date;
+}
+
+/**
+ * Thrown by platform services when a pre-trade risk check rejects an entry
+ */
+export class RiskRejectionError extends Error {
+  constructor(readonly rejection: RiskRejection) {
+    super(rejection.reason);
+    this.name = 'RiskRejectionError';
+  }
+}
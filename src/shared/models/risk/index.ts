@@ -0,0 +1,2 @@
+export * from './RiskRejection';
+export * from './CircuitBreaker';
@@ -0,0 +1,26 @@
+import { ExecutionAlgo, MarginMode, PositionDirection } from '../../constants';
+
+/**
+ * Progress of a TWAP/iceberg parent order
+ * Persisted on the parent TradeOrder so the algo resumes after a restart
+ */
+export interface AlgoOrderState {
+  algo: ExecutionAlgo;
+  direction: PositionDirection;
+  totalSize: number;
+  // TWAP: number of slices the parent is split into
+  slices?: number;
+  // Iceberg: visible size of each child order
+  displaySize?: number;
+  intervalMs: number;
+  limitPrice?: number;
+  leverage?: number;
+  marginMode?: MarginMode;
+  // Children sent; a child that failed to place is not counted
+  childCount: number;
+  // Failed attempts at placing the next child, reset once one is sent
+  failedAttempts?: number;
+  // Next time the algo acts; unset once the parent is done
+  nextChildAt?: Date;
+  expiresAt: Date;
+}
@@ -1,4 +1,5 @@
-import { TradeOrderStatus } from '../../constants';
+import { ClientOrderRole, TradeOrderStatus } from '../../constants';
+import { AlgoOrderState } from './AlgoOrderState';
 
 export interface CreateTradeOrderOptions {
   status: TradeOrderStatus;
@@ -16,9 +17,14 @@ export interface CreateTradeOrderOptions {
   limitPrice?: number;
   originalSize?: number;
   clientOrderId?: string;
+  clientOrderRole?: ClientOrderRole;
   // Trigger order fields
   isTrigger?: boolean;
   triggerPrice?: number;
   triggerType?: 'tp' | 'sl';
+  ladderRung?: number;
   isMarket?: boolean;
+  // TWAP/iceberg parent state and the parent of a child order
+  algo?: AlgoOrderState;
+  parentOrder?: string;
 }
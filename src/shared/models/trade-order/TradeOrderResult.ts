@@ -2,6 +2,7 @@ import { PositionDirection, TradeOrderStatus } from '../../constants';
 
 export interface TradeOrderResult {
   orderId?: string;
+  clientOrderId?: string;
   status: TradeOrderStatus;
   size?: number;
   price?: number;
@@ -13,6 +14,13 @@ export interface TradeOrderResult {
   triggerPrice?: number;
   triggerType?: 'tp' | 'sl';
   isMarket?: boolean;
+  // Immediate execution reported in the order response (IOC orders)
+  filledSize?: number;
+  averagePrice?: number;
+  // Position size still open after an exit order, when the platform knows it
+  remainingSize?: number;
+  // Set when the order was executed by the paper-trading simulator
+  isPaper?: boolean;
   // Metadata for passing additional context
   metadata?: {
     direction?: PositionDirection;
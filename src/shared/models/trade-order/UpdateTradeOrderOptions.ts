@@ -1,4 +1,5 @@
 import { TradeOrderStatus } from '../../constants';
+import { AlgoOrderState } from './AlgoOrderState';
 
 export interface UpdateTradeOrderOptions {
   status?: TradeOrderStatus;
@@ -18,4 +19,8 @@ export interface UpdateTradeOrderOptions {
   limitPrice?: number;
   originalSize?: number;
   clientOrderId?: string;
+  triggerPrice?: number;
+  // TWAP/iceberg parent state and the parent of a child order
+  algo?: AlgoOrderState;
+  parentOrder?: string;
 }
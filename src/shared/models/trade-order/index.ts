@@ -1,3 +1,4 @@
 export * from './CreateTradeOrderOptions';
 export * from './UpdateTradeOrderOptions';
 export * from './TradeOrderResult';
+export * from './AlgoOrderState';
@@ -4,8 +4,11 @@ import {
   TradePositionStatus,
 } from '../../constants';
 import { Platform } from '..';
+import { TakeProfitLadderRung } from './TakeProfitLadder';
 
 export interface CreateTradePositionOptions {
+  // Pre-allocated id, used when orders reference the position before it exists
+  _id?: string;
   platform: Platform;
   status: TradePositionStatus;
   positionType?: PositionType;
@@ -20,8 +23,12 @@ export interface CreateTradePositionOptions {
   currentPrice?: number;
   takeProfitPrice?: number;
   stopLossPrice?: number;
+  takeProfitLadder?: TakeProfitLadderRung[];
   realizedPnl?: number;
+  totalFilledSize?: number;
+  remainingSize?: number;
   timeOpened?: Date;
   timeClosed?: Date;
   exitFlag?: boolean;
+  isPaper?: boolean;
 }
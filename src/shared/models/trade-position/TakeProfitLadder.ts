@@ -0,0 +1,15 @@
+/**
+ * Rung of a perp's take-profit ladder: closes sizePercent of the entry size
+ * once the price has moved rMultiple times the SL distance in favour
+ */
+export interface TakeProfitRung {
+  rMultiple: number;
+  sizePercent: number;
+}
+
+/**
+ * Rung of a position's ladder, priced from its entry and SL
+ */
+export interface TakeProfitLadderRung extends TakeProfitRung {
+  price: number;
+}
@@ -1,4 +1,5 @@
 import {
+  ExitReason,
   PositionDirection,
   PositionType,
   TradePositionStatus,
@@ -23,18 +24,24 @@ export interface UpdateTradePositionOptions {
   realizedPnl?: number;
   totalFilledSize?: number;
   totalRealizedPnl?: number;
+  totalFees?: number;
+  netRealizedPnl?: number;
   remainingSize?: number;
+  fundingPaid?: number;
   fills?: Array<{
     orderId: string;
+    tradeId?: string;
     size: number;
     price: number;
     closedPnl?: number;
+    fee?: number;
     timestamp: number;
     side: string;
   }>;
   timeOpened?: Date;
   timeClosed?: Date;
   exitFlag?: boolean;
+  exitReason?: ExitReason;
   lastTrailAt?: Date;
   trailCount?: number;
 }
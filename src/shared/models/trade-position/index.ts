@@ -1,2 +1,3 @@
 export * from './CreateTradePositionOptions';
 export * from './UpdateTradePositionOptions';
+export * from './TakeProfitLadder';
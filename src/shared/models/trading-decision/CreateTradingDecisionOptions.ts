@@ -0,0 +1,8 @@
+import { TradingDecision } from '../../ports';
+import { Platform } from '../platform';
+
+export interface CreateTradingDecisionOptions {
+  platform: Platform;
+  token: string;
+  decision: TradingDecision;
+}
@@ -21,6 +21,8 @@ export interface TradingOpportunity {
   platform: Platform;
   token: string;
   tradingDecision: TradingDecision;
+  // Audit log entry for the decision, linked to the position once entered
+  decisionId?: string;
 }
 
 export abstract class PlatformManagerPort {
@@ -7,6 +7,7 @@ export interface PlatformTradingParams {
   defaultAmountIn: number;
   stopLossPercent: number;
   takeProfitPercent: number;
+  maxExitAttempts?: number; // Exit orders sent before giving up on closing
   [key: string]: any; // Platform-specific parameters
 }
 
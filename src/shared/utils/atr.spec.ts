@@ -0,0 +1,54 @@
+import { calculateAtr } from './atr';
+import { HLCandle } from '../models';
+
+describe('calculateAtr', () => {
+  const candle = (h: number, l: number, c: number): HLCandle => ({
+    t: 0,
+    T: 0,
+    s: 'BTC',
+    i: '1h',
+    o: c,
+    c,
+    h,
+    l,
+    v: 0,
+    n: 0,
+  });
+
+  it('should average the true ranges and smooth the rest', () => {
+    const candles = [
+      candle(101, 99, 100),
+      candle(101, 99, 100), // range 2
+      candle(102, 98, 100), // range 4
+      candle(103, 97, 100), // range 6
+    ];
+
+    // (2 + 4) / 2 = 3, then (3 * 1 + 6) / 2 = 4.5
+    expect(calculateAtr(candles, 2)).toBeCloseTo(4.5);
+  });
+
+  it('should stretch the range to a gap from the previous close', () => {
+    const candles = [candle(101, 99, 100), candle(111, 109, 110)];
+
+    expect(calculateAtr(candles, 1)).toBeCloseTo(11);
+  });
+
+  it('should parse prices returned as strings', () => {
+    const candles = [
+      candle(101, 99, 100),
+      {
+        ...candle(0, 0, 0),
+        h: '102',
+        l: '99',
+        c: '101',
+      } as unknown as HLCandle,
+    ];
+
+    expect(calculateAtr(candles, 1)).toBeCloseTo(3);
+  });
+
+  it('should return null without enough candles', () => {
+    expect(calculateAtr([candle(101, 99, 100)], 1)).toBeNull();
+    expect(calculateAtr([], 14)).toBeNull();
+  });
+});
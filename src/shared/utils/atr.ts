@@ -0,0 +1,42 @@
+import { HLCandle } from '../models';
+
+/**
+ * Average true range of the candles, Wilder smoothed
+ * The true range of a candle is its high-low range stretched to the previous
+ * close, so gaps between candles count as volatility
+ *
+ * @param candles - Candles oldest first
+ * @param period - Number of true ranges averaged, e.g. 14
+ * @returns ATR in price units, or null with fewer than period + 1 candles
+ *
+ * @example
+ * // Three candles ranging 2, 4 and 6 around the previous close
+ * calculateAtr(candles, 2) // (2 + 4) / 2 = 3, then (3 * 1 + 6) / 2 = 4.5
+ */
+export function calculateAtr(
+  candles: HLCandle[],
+  period: number,
+): number | null {
+  if (period < 1 || candles.length < period + 1) {
+    return null;
+  }
+
+  // The info endpoint returns prices as strings
+  const trueRanges = candles.slice(1).map((candle, index) => {
+    const previousClose = Number(candles[index].c);
+    const high = Number(candle.h);
+    const low = Number(candle.l);
+    return Math.max(
+      high - low,
+      Math.abs(high - previousClose),
+      Math.abs(low - previousClose),
+    );
+  });
+
+  let atr =
+    trueRanges.slice(0, period).reduce((sum, range) => sum + range, 0) / period;
+  for (const range of trueRanges.slice(period)) {
+    atr = (atr * (period - 1) + range) / period;
+  }
+  return atr;
+}
@@ -0,0 +1,35 @@
+import { buildClientOrderId } from './clientOrderId';
+import { ClientOrderRole } from '../constants';
+
+describe('buildClientOrderId', () => {
+  const positionId = '65f1c0ffee0000000000abcd';
+
+  it('should build a 128-bit hex cloid', () => {
+    expect(buildClientOrderId(positionId, ClientOrderRole.ENTRY)).toMatch(
+      /^0x[0-9a-f]{32}$/,
+    );
+  });
+
+  it('should be deterministic per position, role and sequence', () => {
+    expect(buildClientOrderId(positionId, ClientOrderRole.ENTRY)).toBe(
+      buildClientOrderId(positionId, ClientOrderRole.ENTRY),
+    );
+    expect(buildClientOrderId(positionId, ClientOrderRole.TRAIL, 1)).toBe(
+      buildClientOrderId(positionId, ClientOrderRole.TRAIL, 1),
+    );
+  });
+
+  it('should differ across positions, roles and sequences', () => {
+    const cloids = new Set([
+      buildClientOrderId(positionId, ClientOrderRole.ENTRY),
+      buildClientOrderId(positionId, ClientOrderRole.STOP_LOSS),
+      buildClientOrderId(positionId, ClientOrderRole.TAKE_PROFIT),
+      buildClientOrderId(positionId, ClientOrderRole.EXIT, 1),
+      buildClientOrderId(positionId, ClientOrderRole.EXIT, 2),
+      buildClientOrderId(positionId, ClientOrderRole.TRAIL, 1),
+      buildClientOrderId('65f1c0ffee0000000000abce', ClientOrderRole.ENTRY),
+    ]);
+
+    expect(cloids.size).toBe(7);
+  });
+});
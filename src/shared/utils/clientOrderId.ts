@@ -0,0 +1,28 @@
+import { createHash } from 'crypto';
+import { ClientOrderRole } from '../constants';
+
+/**
+ * Build a deterministic client order id (cloid) for an order of a position
+ * The same position, role and sequence always map to the same 128-bit hex id,
+ * so a retried submission carries the cloid of the original attempt
+ *
+ * @param positionId - The TradePosition the order belongs to
+ * @param role - What the order does for the position
+ * @param sequence - Attempt number for roles that repeat (exit, trail)
+ * @returns A 0x-prefixed 32 character hex string
+ *
+ * @example
+ * buildClientOrderId(positionId, ClientOrderRole.ENTRY)
+ * buildClientOrderId(positionId, ClientOrderRole.TRAIL, 2) // trail-2
+ */
+export function buildClientOrderId(
+  positionId: string,
+  role: ClientOrderRole,
+  sequence?: number,
+): string {
+  const key = sequence === undefined ? role : `${role}-${sequence}`;
+  const hash = createHash('sha256')
+    .update(`${positionId}:${key}`)
+    .digest('hex');
+  return `0x${hash.slice(0, 32)}`;
+}
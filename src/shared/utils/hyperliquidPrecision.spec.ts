@@ -0,0 +1,67 @@
+import {
+  formatHLNumber,
+  getHLMaxPriceDecimals,
+  getHLSizeStep,
+  roundHLPrice,
+  roundHLSize,
+} from './hyperliquidPrecision';
+
+describe('Hyperliquid precision', () => {
+  describe('large caps (BTC, szDecimals 5)', () => {
+    it('should keep five significant figures and at most one decimal', () => {
+      expect(getHLMaxPriceDecimals(5)).toBe(1);
+      expect(roundHLPrice(97123.45, 5)).toBe(97123);
+      expect(roundHLPrice(9712.345, 5)).toBe(9712.3);
+    });
+
+    it('should accept integer prices of any length', () => {
+      expect(roundHLPrice(123456, 5)).toBe(123456);
+      expect(roundHLPrice(123456.7, 5)).toBe(123457);
+    });
+
+    it('should round sizes down to the size step', () => {
+      expect(getHLSizeStep(5)).toBe(0.00001);
+      expect(roundHLSize(0.123456, 5)).toBe(0.12345);
+      expect(roundHLSize(0.29, 5)).toBe(0.29);
+    });
+  });
+
+  describe('mid caps (ETH, szDecimals 4; SOL, szDecimals 2)', () => {
+    it('should cap decimals at 6 - szDecimals', () => {
+      expect(roundHLPrice(3456.789, 4)).toBe(3456.8);
+      expect(roundHLPrice(1.234567, 4)).toBe(1.23);
+      expect(roundHLPrice(187.6543, 2)).toBe(187.65);
+    });
+
+    it('should round sizes to the market decimals', () => {
+      expect(getHLSizeStep(2)).toBe(0.01);
+      expect(roundHLSize(12.3456, 2)).toBe(12.34);
+    });
+  });
+
+  describe('low-priced coins (kPEPE, szDecimals 0)', () => {
+    it('should allow up to 6 decimals', () => {
+      expect(getHLMaxPriceDecimals(0)).toBe(6);
+      expect(roundHLPrice(0.0123456, 0)).toBe(0.012346);
+      expect(roundHLPrice(0.00001234, 0)).toBe(0.000012);
+    });
+
+    it('should trade whole units', () => {
+      expect(getHLSizeStep(0)).toBe(1);
+      expect(roundHLSize(1234.9, 0)).toBe(1234);
+    });
+  });
+
+  describe('formatHLNumber', () => {
+    it('should never use exponent notation', () => {
+      expect(formatHLNumber(0.000012, 6)).toBe('0.000012');
+      expect(formatHLNumber(1e-7, 8)).toBe('0.0000001');
+    });
+
+    it('should drop trailing zeros but keep integer digits', () => {
+      expect(formatHLNumber(3456.8, 2)).toBe('3456.8');
+      expect(formatHLNumber(97000, 1)).toBe('97000');
+      expect(formatHLNumber(0.1 + 0.2, 4)).toBe('0.3');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { HL_DEFAULTS } from '../constants';
+import { roundToDecimals } from './precision';
+
+/**
+ * Smallest size increment of a market, 10^-szDecimals
+ *
+ * @example
+ * getHLSizeStep(5) // Returns 0.00001 (BTC)
+ * getHLSizeStep(0) // Returns 1 (kPEPE)
+ */
+export function getHLSizeStep(szDecimals: number): number {
+  return roundToDecimals(Math.pow(10, -szDecimals), szDecimals);
+}
+
+/**
+ * Decimals a perp price may have: 6 - szDecimals, never negative
+ */
+export function getHLMaxPriceDecimals(szDecimals: number): number {
+  return Math.max(0, HL_DEFAULTS.PERP_MAX_PRICE_DECIMALS - szDecimals);
+}
+
+/**
+ * Round a size down to the market's szDecimals, so an order never asks for
+ * more than requested
+ *
+ * @example
+ * roundHLSize(0.123456, 5) // Returns 0.12345
+ * roundHLSize(1234.9, 0) // Returns 1234
+ */
+export function roundHLSize(size: number, szDecimals: number): number {
+  const factor = Math.pow(10, szDecimals);
+  // The epsilon keeps exact multiples (0.29 * 100) from flooring a step down
+  return roundToDecimals(Math.floor(size * factor + 1e-9) / factor, szDecimals);
+}
+
+/**
+ * Round a price to what Hyperliquid accepts for a perp: at most 5
+ * significant figures and 6 - szDecimals decimals; integer prices are valid
+ * whatever their number of significant figures
+ *
+ * @example
+ * roundHLPrice(97123.45, 5) // Returns 97123 (BTC)
+ * roundHLPrice(3456.789, 4) // Returns 3456.8 (ETH)
+ * roundHLPrice(0.0123456, 0) // Returns 0.012346 (kPEPE)
+ */
+export function roundHLPrice(price: number, szDecimals: number): number {
+  if (Number.isInteger(price)) {
+    return price;
+  }
+  if (Math.abs(price) >= Math.pow(10, HL_DEFAULTS.PRICE_SIG_FIGS)) {
+    return Math.round(price);
+  }
+
+  return roundToDecimals(
+    parseFloat(price.toPrecision(HL_DEFAULTS.PRICE_SIG_FIGS)),
+    getHLMaxPriceDecimals(szDecimals),
+  );
+}
+
+/**
+ * Wire format of a rounded number: fixed-point, no exponent and no
+ * trailing zeros
+ *
+ * @example
+ * formatHLNumber(0.0000123, 8) // Returns '0.0000123', not '1.23e-5'
+ * formatHLNumber(3456.8, 2) // Returns '3456.8'
+ */
+export function formatHLNumber(value: number, decimals: number): string {
+  const fixed = value.toFixed(decimals);
+  return fixed.includes('.') ? fixed.replace(/\.?0+$/, '') : fixed;
+}
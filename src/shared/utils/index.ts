@@ -13,3 +13,7 @@ export * from './never';
 export * from './formatMs';
 export * from './stringify';
 export * from './precision';
+export * from './clientOrderId';
+export * from './slippage';
+export * from './hyperliquidPrecision';
+export * from './atr';
@@ -16,3 +16,10 @@ export const toObjectSafe = (
     return undefined;
   }
 };
+
+/**
+ * Allocate a document id up front, e.g. to reference a document in other
+ * records before it is created
+ */
+export const generateObjectId = (): string =>
+  new Types.ObjectId().toHexString();
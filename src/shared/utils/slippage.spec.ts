@@ -0,0 +1,44 @@
+import { estimateSlippage } from './slippage';
+import { HLOrderbook } from '../models';
+
+describe('estimateSlippage', () => {
+  const book: HLOrderbook = {
+    coin: 'BTC',
+    levels: [
+      [
+        { px: '99', sz: '1', n: 1 },
+        { px: '98', sz: '2', n: 1 },
+      ],
+      [
+        { px: '101', sz: '1', n: 1 },
+        { px: '102', sz: '2', n: 1 },
+      ],
+    ],
+  };
+
+  it('should average fills across ask levels for buys', () => {
+    const estimate = estimateSlippage(book, true, 305);
+
+    expect(estimate.bestBid).toBe(99);
+    expect(estimate.bestAsk).toBe(101);
+    expect(estimate.spreadBps).toBeCloseTo(200);
+    // 101 x 1 + 102 x 2 = 305
+    expect(estimate.averagePrice).toBeCloseTo(305 / 3);
+    expect(estimate.slippageBps).toBeCloseTo(((305 / 3 - 100) / 100) * 10000);
+    expect(estimate.fullyFillable).toBe(true);
+  });
+
+  it('should walk bids for sells and flag orders deeper than the book', () => {
+    const estimate = estimateSlippage(book, false, 1000);
+
+    expect(estimate.filledQuote).toBeCloseTo(99 + 196);
+    expect(estimate.slippageBps).toBeGreaterThan(0);
+    expect(estimate.fullyFillable).toBe(false);
+  });
+
+  it('should return null when a side of the book is empty', () => {
+    expect(
+      estimateSlippage({ coin: 'BTC', levels: [[], []] }, true, 10),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { HLOrderbook, SlippageEstimate } from '../models';
+
+/**
+ * Walk the book side a market order would consume and estimate its cost
+ * Buys consume asks and sells consume bids, best level first
+ *
+ * @param book - L2 book with levels [bids, asks], best price first
+ * @param isBuy - Whether the order buys (consumes asks)
+ * @param quoteAmount - Notional to fill in quote currency (USDC)
+ * @returns Spread and expected slippage, or null when a side is empty
+ *
+ * @example
+ * // Asks: 100 x 1, 101 x 1; bids: 99 x 1
+ * estimateSlippage(book, true, 150) // averagePrice ≈ 100.33, slippageBps ≈ 84 (mid 99.5)
+ */
+export function estimateSlippage(
+  book: HLOrderbook,
+  isBuy: boolean,
+  quoteAmount: number,
+): SlippageEstimate | null {
+  const [bids, asks] = book.levels || [[], []];
+  if (!bids?.length || !asks?.length) {
+    return null;
+  }
+
+  const bestBid = parseFloat(bids[0].px);
+  const bestAsk = parseFloat(asks[0].px);
+  const midPrice = (bestBid + bestAsk) / 2;
+
+  let filledQuote = 0;
+  let filledSize = 0;
+  for (const level of isBuy ? asks : bids) {
+    const price = parseFloat(level.px);
+    const remainingQuote = quoteAmount - filledQuote;
+    if (remainingQuote <= 0) {
+      break;
+    }
+    const levelQuote = Math.min(parseFloat(level.sz) * price, remainingQuote);
+    filledQuote += levelQuote;
+    filledSize += levelQuote / price;
+  }
+
+  const averagePrice = filledSize > 0 ? filledQuote / filledSize : midPrice;
+  const slippage = isBuy ? averagePrice - midPrice : midPrice - averagePrice;
+
+  return {
+    bestBid,
+    bestAsk,
+    midPrice,
+    spreadBps: ((bestAsk - bestBid) / midPrice) * 10000,
+    averagePrice,
+    slippageBps: (slippage / midPrice) * 10000,
+    filledQuote,
+    fullyFillable: filledQuote >= quoteAmount - 1e-9,
+  };
+}